@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from "react";
 import { View, Text, FlatList, Pressable, ActivityIndicator, StyleSheet } from "react-native";
 import { ScreenContainer } from "@/components/screen-container";
 import { JobCard } from "@/components/job-card";
+import { NotificationBell } from "@/components/notification-bell";
 import { useColors } from "@/hooks/use-colors";
 import { useAuth } from "@/hooks/use-auth";
 import { useRouter } from "expo-router";
@@ -210,6 +211,7 @@ export default function JobsScreen() {
     <ScreenContainer className="flex-1 bg-background">
       <View style={styles.header}>
         <Text style={[styles.title, { color: colors.foreground }]}>Jobs</Text>
+        <NotificationBell />
       </View>
 
       {/* Tab Navigation */}
@@ -287,6 +289,9 @@ export default function JobsScreen() {
 
 const styles = StyleSheet.create({
   header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
     paddingHorizontal: 16,
     paddingVertical: 12,
     marginBottom: 8,
@@ -1,16 +1,120 @@
-import { View, Text } from "react-native";
+import { ScrollView, View, Text, Pressable, ActivityIndicator, Alert } from "react-native";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
+import { useAuth } from "@/lib/auth-context";
+import { trpc } from "@/lib/trpc";
+
+function formatLastSeen(date: Date): string {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 5) return "Active now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(date).toLocaleDateString();
+}
 
 export default function SettingsScreen() {
   const colors = useColors();
+  const { logout } = useAuth();
+  const utils = trpc.useUtils();
+
+  const { data: sessions = [], isLoading } = trpc.auth.listSessions.useQuery();
+  const revokeSession = trpc.auth.revokeSession.useMutation({
+    onSuccess: () => utils.auth.listSessions.invalidate(),
+  });
+  const revokeOtherSessions = trpc.auth.revokeOtherSessions.useMutation({
+    onSuccess: () => utils.auth.listSessions.invalidate(),
+  });
+
+  const handleRevoke = (sessionId: string, deviceName: string) => {
+    Alert.alert("Sign out device", `Sign out ${deviceName}?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Sign out",
+        style: "destructive",
+        onPress: () => revokeSession.mutate({ sessionId }),
+      },
+    ]);
+  };
 
   return (
-    <ScreenContainer className="flex-1 items-center justify-center">
-      <Text style={{ color: colors.foreground, fontSize: 18, fontWeight: "600", marginBottom: 8 }}>
-        Settings
-      </Text>
-      <Text style={{ color: colors.muted, fontSize: 14 }}>Coming soon...</Text>
+    <ScreenContainer className="flex-1">
+      <ScrollView contentContainerStyle={{ padding: 16 }}>
+        <Text style={{ color: colors.foreground, fontSize: 22, fontWeight: "700", marginBottom: 16 }}>
+          Settings
+        </Text>
+
+        {/* Signed-in Devices */}
+        <Text style={{ color: colors.foreground, fontSize: 16, fontWeight: "600", marginBottom: 8 }}>
+          Signed-in devices
+        </Text>
+        {isLoading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : (
+          sessions.map((session) => {
+            const deviceName = session.deviceName ?? "Unknown device";
+            return (
+              <View
+                key={session.sessionId}
+                style={{
+                  backgroundColor: colors.surface,
+                  borderColor: colors.border,
+                  borderWidth: 1,
+                  borderRadius: 8,
+                  padding: 12,
+                  marginBottom: 8,
+                  flexDirection: "row",
+                  alignItems: "center",
+                }}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: colors.foreground, fontWeight: "600" }}>
+                    {deviceName}
+                    {session.isCurrent ? " (this device)" : ""}
+                  </Text>
+                  <Text style={{ color: colors.muted, fontSize: 12 }}>
+                    {[session.platform, session.ipAddress, formatLastSeen(session.lastSeenAt)]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </Text>
+                </View>
+                {!session.isCurrent && (
+                  <Pressable
+                    onPress={() => handleRevoke(session.sessionId, deviceName)}
+                    disabled={revokeSession.isPending}
+                  >
+                    <Text style={{ color: colors.error, fontWeight: "600" }}>Sign out</Text>
+                  </Pressable>
+                )}
+              </View>
+            );
+          })
+        )}
+
+        {sessions.length > 1 && (
+          <Pressable
+            onPress={() => revokeOtherSessions.mutate()}
+            disabled={revokeOtherSessions.isPending}
+            style={{ marginTop: 4, marginBottom: 24 }}
+          >
+            <Text style={{ color: colors.primary, fontWeight: "600" }}>Sign out all other devices</Text>
+          </Pressable>
+        )}
+
+        {/* Logout */}
+        <Pressable
+          onPress={() => logout()}
+          style={{
+            marginTop: 16,
+            paddingVertical: 12,
+            borderRadius: 8,
+            borderWidth: 1,
+            borderColor: colors.error,
+          }}
+        >
+          <Text style={{ color: colors.error, fontWeight: "600", textAlign: "center" }}>Log out</Text>
+        </Pressable>
+      </ScrollView>
     </ScreenContainer>
   );
 }
@@ -5,6 +5,7 @@ import { useAuth } from "@/lib/auth-context";
 import { trpc } from "@/lib/trpc";
 import { cn } from "@/lib/utils";
 import { useColors } from "@/hooks/use-colors";
+import { usePermissions } from "@/hooks/use-permissions";
 
 /**
  * Founder Dashboard — Governance-Only, Read-Only
@@ -36,20 +37,21 @@ interface LegalRecord {
 
 export default function FounderDashboard() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const colors = useColors();
 
   // Fetch aggregate metrics (counts only, no details)
   const { data: metrics = {}, isLoading: metricsLoading } = trpc.founder.getMetrics.useQuery(
     undefined,
     {
-      enabled: user?.role === "super_manager",
+      enabled: can("view", "system_metrics"),
     }
   );
 
   // Fetch legal acceptance records
   const { data: legalRecords = [], isLoading: legalLoading } =
     trpc.founder.getLegalRecords.useQuery(undefined, {
-      enabled: user?.role === "super_manager",
+      enabled: can("view", "legal_record"),
     });
 
   // Get environment indicator
@@ -140,7 +142,7 @@ export default function FounderDashboard() {
     </View>
   ), [cn]);
 
-  if (!user || user.role !== "super_manager") {
+  if (!user || !can("view", "system_metrics")) {
     return (
       <ScreenContainer className="p-6">
         <Text className="text-foreground">Access not authorized</Text>
@@ -5,6 +5,7 @@ import { useAuth } from "@/lib/auth-context";
 import { trpc } from "@/lib/trpc";
 import { cn } from "@/lib/utils";
 import { useColors } from "@/hooks/use-colors";
+import { NotificationBell } from "@/components/notification-bell";
 
 /**
  * Manager Dashboard — Job List & Overview
@@ -14,7 +15,7 @@ import { useColors } from "@/hooks/use-colors";
  * No enforcement, verification, or outcome implication.
  */
 
-type JobStatus = "available" | "accepted" | "in_progress" | "completed" | "needs_review";
+type JobStatus = "available" | "accepted" | "in_progress" | "completed" | "needs_review" | "cancelled";
 
 interface JobRecord {
   id: string;
@@ -47,6 +48,7 @@ const STATUS_LABELS: Record<JobStatus, string> = {
   in_progress: "In Progress",
   completed: "Completed",
   needs_review: "Needs Review",
+  cancelled: "Cancelled",
 };
 
 const STATUS_COLORS: Record<JobStatus, string> = {
@@ -55,6 +57,7 @@ const STATUS_COLORS: Record<JobStatus, string> = {
   in_progress: "bg-orange-100",
   completed: "bg-green-100",
   needs_review: "bg-red-100",
+  cancelled: "bg-gray-100",
 };
 
 export default function ManagerDashboard() {
@@ -81,6 +84,7 @@ export default function ManagerDashboard() {
       in_progress: jobs.filter((j: JobRecord) => j.status === "in_progress").length,
       completed: jobs.filter((j: JobRecord) => j.status === "completed").length,
       needs_review: jobs.filter((j: JobRecord) => j.status === "needs_review").length,
+      cancelled: jobs.filter((j: JobRecord) => j.status === "cancelled").length,
     };
   }, [jobs]);
 
@@ -167,9 +171,12 @@ export default function ManagerDashboard() {
     <ScreenContainer className="p-6">
       <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
         {/* Header */}
-        <View className="mb-6">
-          <Text className="text-3xl font-bold text-foreground mb-2">Jobs</Text>
-          <Text className="text-sm text-muted">Logged activity across all properties</Text>
+        <View className="flex-row items-start justify-between mb-6">
+          <View>
+            <Text className="text-3xl font-bold text-foreground mb-2">Jobs</Text>
+            <Text className="text-sm text-muted">Logged activity across all properties</Text>
+          </View>
+          <NotificationBell />
         </View>
 
         {/* Status Filter Tabs */}
@@ -181,6 +188,7 @@ export default function ManagerDashboard() {
             { status: "in_progress" as const, label: "In Progress", count: statusCounts.in_progress },
             { status: "completed" as const, label: "Completed", count: statusCounts.completed },
             { status: "needs_review" as const, label: "Review", count: statusCounts.needs_review },
+            { status: "cancelled" as const, label: "Cancelled", count: statusCounts.cancelled },
           ].map(({ status, label, count }) => (
             <Pressable
               key={status}
@@ -1,5 +1,5 @@
 import "@/global.css";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { Stack, useRouter, useSegments } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import { useCallback, useEffect, useMemo, useState } from "react";
@@ -19,6 +19,7 @@ import type { EdgeInsets, Metrics, Rect } from "react-native-safe-area-context";
 import { trpc, createTRPCClient } from "@/lib/trpc";
 import { initManusRuntime, subscribeSafeAreaInsets } from "@/lib/_core/manus-runtime";
 import { AuthProvider, useAuth } from "@/lib/auth-context";
+import { getBusinessStatusFromError, refreshBusinessStatusOnError } from "@/lib/business-status";
 import { AuthLoadingScreen } from "@/components/auth-loading-screen";
 import { PendingActivationScreen } from "@/components/pending-activation-screen";
 import { SuspendedAccountScreen } from "@/components/suspended-account-screen";
@@ -34,7 +35,7 @@ export const unstable_settings = {
  * Root layout wrapper that handles authentication state and routing
  */
 function RootLayoutNav() {
-  const { user, isInitialized, isLoading } = useAuth();
+  const { user, isInitialized, isLoading, twoFactorChallenge } = useAuth();
   const segments = useSegments();
   const router = useRouter();
   const [businessStatus, setBusinessStatus] = useState<string | null>(null);
@@ -44,7 +45,7 @@ function RootLayoutNav() {
   // Check business status on app launch
   const { data: statusData, isLoading: statusLoading } = trpc.business.getStatus.useQuery(
     { businessId: user?.companyId || "" },
-    { enabled: !!user && !!user.companyId && (user.role as string) !== "founder" }
+    { enabled: !!user && !!user.companyId && user.role !== "founder" }
   );
 
   useEffect(() => {
@@ -58,7 +59,7 @@ function RootLayoutNav() {
   }, [statusData, statusLoading]);
 
   useEffect(() => {
-    if (isInitialized && (!user || (user.role as string) === "founder" || !user.companyId)) {
+    if (isInitialized && (!user || user.role === "founder" || !user.companyId)) {
       setStatusLoaded(true);
     }
   }, [isInitialized, user]);
@@ -66,14 +67,21 @@ function RootLayoutNav() {
   useEffect(() => {
     if (!isInitialized || !statusLoaded) return;
 
-    const inAuthGroup = segments[0] === "login";
+    const inAuthGroup =
+      segments[0] === "login" ||
+      segments[0] === "invite" ||
+      segments[0] === "reset-password" ||
+      segments[0] === "two-factor";
 
-    if (!user && !inAuthGroup) {
+    if (!user && twoFactorChallenge && segments[0] !== "two-factor") {
+      // Password accepted, second factor still outstanding
+      router.replace("/two-factor");
+    } else if (!user && !inAuthGroup) {
       // User is not signed in, redirect to login
       router.replace("/login");
     } else if (user && inAuthGroup) {
       // User is signed in, redirect to appropriate dashboard based on role
-      if ((user.role as string) === "founder") {
+      if (user.role === "founder") {
         router.replace("/ops");
       } else if (user.role === "cleaner") {
         router.replace("/(cleaner)/jobs");
@@ -82,7 +90,7 @@ function RootLayoutNav() {
         router.replace("/(tabs)");
       }
     }
-  }, [user, isInitialized, segments, statusLoaded, businessStatus]);
+  }, [user, isInitialized, segments, statusLoaded, businessStatus, twoFactorChallenge]);
 
   // Show loading screen while auth is initializing or business status is loading
   if (!isInitialized || isLoading || !statusLoaded) {
@@ -90,21 +98,27 @@ function RootLayoutNav() {
   }
 
   // Show pending activation screen if business is pending
-  if (user && (user.role as string) !== "founder" && businessStatus === "pending") {
+  if (user && user.role !== "founder" && businessStatus === "pending") {
     return <PendingActivationScreen />;
   }
 
   // Show suspended account screen if business is suspended
-  if (user && (user.role as string) !== "founder" && businessStatus === "suspended") {
+  if (user && user.role !== "founder" && businessStatus === "suspended") {
     return <SuspendedAccountScreen reason={suspensionReason || undefined} />;
   }
 
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="login" options={{ headerShown: false }} />
+      <Stack.Screen name="invite" options={{ headerShown: false }} />
+      <Stack.Screen name="reset-password" options={{ headerShown: false }} />
+      <Stack.Screen name="two-factor" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" />
       <Stack.Screen name="(cleaner)" />
       <Stack.Screen name="ops" options={{ headerShown: false }} />
+      <Stack.Screen name="notifications" />
+      <Stack.Screen name="notification-settings" />
+      <Stack.Screen name="notification-rules" />
       <Stack.Screen name="oauth/callback" />
     </Stack>
   );
@@ -134,19 +148,26 @@ export default function RootLayout() {
   }, [handleSafeAreaUpdate]);
 
   // Create clients once and reuse them
-  const [queryClient] = useState(
-    () =>
-      new QueryClient({
-        defaultOptions: {
-          queries: {
-            // Disable automatic refetching on window focus for mobile
-            refetchOnWindowFocus: false,
-            // Retry failed requests once
-            retry: 1,
-          },
-        },
+  const [queryClient] = useState(() => {
+    const client: QueryClient = new QueryClient({
+      // Suspension/pending errors re-check the business status so the right screen shows
+      queryCache: new QueryCache({
+        onError: (error) => refreshBusinessStatusOnError(client, error),
       }),
-  );
+      mutationCache: new MutationCache({
+        onError: (error) => refreshBusinessStatusOnError(client, error),
+      }),
+      defaultOptions: {
+        queries: {
+          // Disable automatic refetching on window focus for mobile
+          refetchOnWindowFocus: false,
+          // Retry failed requests once (restriction errors won't change on retry)
+          retry: (failureCount, error) => !getBusinessStatusFromError(error) && failureCount < 1,
+        },
+      },
+    });
+    return client;
+  });
   const [trpcClient] = useState(() => createTRPCClient());
 
   // Ensure minimum 8px padding for top and bottom on mobile
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { ScrollView, Text, View, TextInput, Pressable, ActivityIndicator, Alert } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { useAuth } from "@/lib/auth-context";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * Accept Invitation Screen
+ * Invitees arrive with ?token=... (deep link) or paste the code their manager shared.
+ */
+export default function InviteScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ token?: string }>();
+  const { acceptInvite, isLoading, error, clearError } = useAuth();
+  const [token, setToken] = useState(params.token ?? "");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+
+  const trimmedToken = token.trim();
+  const { data: preview, error: previewError } = trpc.invitations.preview.useQuery(
+    { token: trimmedToken },
+    { enabled: trimmedToken.length > 0, retry: false }
+  );
+
+  const handleAccept = async () => {
+    if (!trimmedToken || !password) {
+      Alert.alert("Error", "Please enter your invitation code and a password");
+      return;
+    }
+
+    try {
+      clearError();
+      await acceptInvite({
+        token: trimmedToken,
+        password,
+        firstName: firstName.trim() || undefined,
+        lastName: lastName.trim() || undefined,
+      });
+      // Navigation will be handled by the root layout based on auth state
+    } catch (err) {
+      // Error is already set in auth context
+      console.error("[Invite] Error:", err);
+    }
+  };
+
+  return (
+    <ScreenContainer edges={["top", "left", "right", "bottom"]} className="bg-background">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} className="flex-1">
+        <View className="flex-1 justify-center px-6 py-8">
+          {/* Header */}
+          <View className="mb-8 items-center">
+            <Text className="text-3xl font-bold text-foreground mb-2">Join your team</Text>
+            {preview ? (
+              <Text className="text-base text-muted text-center">
+                {preview.businessName ?? "A business"} invited {preview.email} as a {preview.role}
+              </Text>
+            ) : (
+              <Text className="text-base text-muted text-center">
+                Enter the invitation code your manager shared with you
+              </Text>
+            )}
+          </View>
+
+          {/* Error Message */}
+          {(error || (trimmedToken && previewError)) && (
+            <View className="mb-6 bg-error/10 border border-error rounded-lg p-4">
+              <Text className="text-error font-semibold">{error ?? previewError?.message}</Text>
+            </View>
+          )}
+
+          {/* Invitation Code */}
+          <View className="mb-4">
+            <Text className="text-sm font-semibold text-foreground mb-2">Invitation Code</Text>
+            <TextInput
+              className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+              placeholder="Paste your code"
+              placeholderTextColor="#9BA1A6"
+              autoCapitalize="none"
+              editable={!isLoading}
+              value={token}
+              onChangeText={setToken}
+            />
+          </View>
+
+          {/* Name */}
+          <View className="mb-4 flex-row gap-3">
+            <View className="flex-1">
+              <Text className="text-sm font-semibold text-foreground mb-2">First Name</Text>
+              <TextInput
+                className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                placeholderTextColor="#9BA1A6"
+                editable={!isLoading}
+                value={firstName}
+                onChangeText={setFirstName}
+              />
+            </View>
+            <View className="flex-1">
+              <Text className="text-sm font-semibold text-foreground mb-2">Last Name</Text>
+              <TextInput
+                className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                placeholderTextColor="#9BA1A6"
+                editable={!isLoading}
+                value={lastName}
+                onChangeText={setLastName}
+              />
+            </View>
+          </View>
+
+          {/* Password */}
+          <View className="mb-6">
+            <Text className="text-sm font-semibold text-foreground mb-2">Choose a Password</Text>
+            <TextInput
+              className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+              placeholder="At least 6 characters"
+              placeholderTextColor="#9BA1A6"
+              secureTextEntry
+              editable={!isLoading}
+              value={password}
+              onChangeText={setPassword}
+            />
+          </View>
+
+          {/* Accept Button */}
+          <Pressable
+            onPress={handleAccept}
+            disabled={isLoading || !preview}
+            style={({ pressed }) => [
+              {
+                backgroundColor: "#0a7ea4",
+                paddingVertical: 12,
+                borderRadius: 8,
+                opacity: pressed || isLoading || !preview ? 0.6 : 1,
+              },
+            ]}
+          >
+            <View className="flex-row items-center justify-center">
+              {isLoading ? (
+                <>
+                  <ActivityIndicator color="#ffffff" size="small" />
+                  <Text className="text-white font-semibold ml-2">Joining...</Text>
+                </>
+              ) : (
+                <Text className="text-white font-semibold text-center">Accept Invitation</Text>
+              )}
+            </View>
+          </Pressable>
+
+          <Pressable onPress={() => router.replace("/login")} disabled={isLoading} className="mt-4">
+            <Text className="text-muted text-center">Back to login</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -2,8 +2,17 @@ import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert } fr
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { useState, useEffect } from "react";
 import { ScreenContainer } from "@/components/screen-container";
+import { JobTimeline } from "@/components/job-timeline";
 import { trpc } from "@/lib/trpc";
-import { useAuth } from "@/lib/auth-context";
+import { usePermissions } from "@/hooks/use-permissions";
+
+const ACCESS_DENIED_LABELS: Record<string, string> = {
+  guest_present: "Guest still present",
+  lockbox_code_wrong: "Lockbox code wrong",
+  key_missing: "Key missing",
+  no_answer: "No answer at the door",
+  other: "Could not get in",
+};
 
 /**
  * Job Detail Screen
@@ -12,28 +21,46 @@ import { useAuth } from "@/lib/auth-context";
 export default function JobDetailScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
-  const { user } = useAuth();
+  const { can, canWithScope } = usePermissions();
+  const viewsWholeBusiness = canWithScope("view", "job", "business");
   const [actionLoading, setActionLoading] = useState(false);
+  const utils = trpc.useUtils();
 
-  // Fetch job details based on user role
+  // Fetch job details based on what the user may view
   const { data: job, isLoading, refetch } = trpc.jobsDetail.getByIdForManager.useQuery(
     { jobId: id as string },
-    { enabled: !!id && user?.role === "manager" }
+    { enabled: !!id && viewsWholeBusiness }
   );
 
   const { data: cleanerJob, isLoading: cleanerLoading } = trpc.jobsDetail.getByIdForCleaner.useQuery(
     { jobId: id as string },
-    { enabled: !!id && user?.role === "cleaner" }
+    { enabled: !!id && !viewsWholeBusiness && can("view", "job") }
   );
 
   const currentJob = job || cleanerJob;
   const loading = isLoading || cleanerLoading;
 
+  // Chat is between the assigned cleaner and the managers
+  const canChat =
+    !!currentJob?.assignedCleanerId &&
+    can("view", "job_chat", { businessId: currentJob.businessId, ownerId: currentJob.assignedCleanerId });
+
+  const { data: unreadCounts } = trpc.chat.unreadCounts.useQuery(
+    { jobIds: [id as string] },
+    { enabled: !!id && canChat }
+  );
+  const unreadMessages = unreadCounts?.[0]?.count ?? 0;
+
+  const refreshJob = () => {
+    refetch();
+    utils.jobs.getTimeline.invalidate({ jobId: id as string });
+  };
+
   // Mutations
   const acceptJobMutation = trpc.jobs.accept.useMutation({
     onSuccess: () => {
       Alert.alert("Success", "Job accepted!");
-      refetch();
+      refreshJob();
     },
     onError: (error: any) => {
       Alert.alert("Error", error.message || "Failed to accept job");
@@ -45,7 +72,7 @@ export default function JobDetailScreen() {
   const startJobMutation = trpc.jobs.start.useMutation({
     onSuccess: () => {
       Alert.alert("Success", "Job started!");
-      refetch();
+      refreshJob();
     },
     onError: (error: any) => {
       Alert.alert("Error", error.message || "Failed to start job");
@@ -55,13 +82,41 @@ export default function JobDetailScreen() {
   const completeJobMutation = trpc.jobs.complete.useMutation({
     onSuccess: () => {
       Alert.alert("Success", "Job completed!");
-      refetch();
+      refreshJob();
     },
     onError: (error: any) => {
       Alert.alert("Error", error.message || "Failed to complete job");
     },
   });
 
+  const reopenJobMutation = trpc.jobs.reopen.useMutation({
+    onSuccess: () => {
+      Alert.alert("Success", "Job reopened for any cleaner to accept");
+      refreshJob();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to reopen job");
+    },
+  });
+
+  const decideReleaseMutation = trpc.jobs.decideRelease.useMutation({
+    onSuccess: (result) => {
+      Alert.alert("Success", result.approved ? "Job released to other cleaners" : "Cleaner kept on the job");
+      refreshJob();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to answer release request");
+    },
+  });
+
+  const handleReopenJob = () => {
+    if (!id) return;
+    Alert.alert("Reopen Job", "Unassign the cleaner and make this job available again?", [
+      { text: "Keep", style: "cancel" },
+      { text: "Reopen", onPress: () => reopenJobMutation.mutate({ jobId: id as string }) },
+    ]);
+  };
+
   const handleAcceptJob = async () => {
     if (!id) return;
     setActionLoading(true);
@@ -102,6 +157,8 @@ export default function JobDetailScreen() {
         return "bg-purple-100";
       case "completed":
         return "bg-green-100";
+      case "cancelled":
+        return "bg-gray-200";
       default:
         return "bg-gray-100";
     }
@@ -117,6 +174,8 @@ export default function JobDetailScreen() {
         return "text-purple-800";
       case "completed":
         return "text-green-800";
+      case "cancelled":
+        return "text-gray-600";
       default:
         return "text-gray-800";
     }
@@ -128,6 +187,7 @@ export default function JobDetailScreen() {
       accepted: "Accepted",
       in_progress: "In Progress",
       completed: "Completed",
+      cancelled: "Cancelled",
     };
     return labels[status] || status;
   };
@@ -178,6 +238,66 @@ export default function JobDetailScreen() {
           </Text>
         </View>
 
+        {/* Access Denied */}
+        {currentJob.accessDenied && (
+          <View className="bg-surface border border-warning rounded-lg p-4 mb-4">
+            <Text className="text-lg font-semibold text-foreground mb-2">Access Denied</Text>
+            <Text className="text-sm text-foreground">
+              {ACCESS_DENIED_LABELS[currentJob.accessDeniedReason ?? "other"]}
+            </Text>
+            {currentJob.accessDeniedNotes && (
+              <Text className="text-sm text-muted mt-1">{currentJob.accessDeniedNotes}</Text>
+            )}
+            {currentJob.tripFee && (
+              <Text className="text-xs text-muted mt-1">Trip fee: ${currentJob.tripFee}</Text>
+            )}
+            <Text className="text-xs text-muted mt-2">
+              Waiting for a manager to reschedule or reopen this job
+            </Text>
+          </View>
+        )}
+
+        {/* Release Request */}
+        {currentJob.status === "accepted" && currentJob.releaseRequestedAt && (
+          <View className="bg-surface border border-warning rounded-lg p-4 mb-4">
+            <Text className="text-lg font-semibold text-foreground mb-2">Release Requested</Text>
+            <Text className="text-sm text-foreground">{currentJob.releaseReason}</Text>
+            {can("assign", "job") ? (
+              <View className="flex-row gap-3 mt-3">
+                <TouchableOpacity
+                  onPress={() => decideReleaseMutation.mutate({ jobId: id as string, approve: true })}
+                  disabled={decideReleaseMutation.isPending}
+                  className="flex-1 bg-warning rounded-lg py-2 items-center"
+                >
+                  <Text className="text-white font-semibold">Approve</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => decideReleaseMutation.mutate({ jobId: id as string, approve: false })}
+                  disabled={decideReleaseMutation.isPending}
+                  className="flex-1 bg-surface border border-border rounded-lg py-2 items-center"
+                >
+                  <Text className="text-foreground font-semibold">Keep Cleaner</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <Text className="text-xs text-muted mt-2">Waiting for a manager to approve</Text>
+            )}
+          </View>
+        )}
+
+        {/* Cancellation */}
+        {currentJob.status === "cancelled" && (
+          <View className="bg-surface border border-border rounded-lg p-4 mb-4">
+            <Text className="text-lg font-semibold text-foreground mb-2">Cancellation</Text>
+            <Text className="text-sm text-foreground">{currentJob.cancellationReason}</Text>
+            {currentJob.cancellationFee && (
+              <Text className="text-xs text-muted mt-1">
+                Cancellation fee: ${currentJob.cancellationFee}
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Property Information */}
         <View className="bg-surface border border-border rounded-lg p-4 mb-4">
           <Text className="text-lg font-semibold text-foreground mb-3">Property</Text>
@@ -235,9 +355,23 @@ export default function JobDetailScreen() {
           </View>
         )}
 
+        {/* Status Timeline */}
+        <JobTimeline jobId={currentJob.id} />
+
         {/* Action Buttons */}
         <View className="gap-3 mt-6">
-          {user?.role === "cleaner" && currentJob.status === "available" && (
+          {canChat && (
+            <TouchableOpacity
+              onPress={() => router.push(`/job/${id}/chat`)}
+              className="bg-surface border border-border rounded-lg py-3 items-center"
+            >
+              <Text className="text-foreground font-semibold">
+                Chat{unreadMessages > 0 ? ` (${unreadMessages} new)` : ""}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {can("accept", "job") && currentJob.status === "available" && (
             <TouchableOpacity
               onPress={handleAcceptJob}
               disabled={actionLoading}
@@ -251,7 +385,7 @@ export default function JobDetailScreen() {
             </TouchableOpacity>
           )}
 
-          {user?.role === "cleaner" && currentJob.status === "accepted" && (
+          {can("start", "job") && currentJob.status === "accepted" && !currentJob.accessDenied && (
             <TouchableOpacity
               onPress={handleStartJob}
               disabled={actionLoading}
@@ -265,7 +399,25 @@ export default function JobDetailScreen() {
             </TouchableOpacity>
           )}
 
-          {user?.role === "cleaner" && currentJob.status === "in_progress" && (
+          {can("start", "job") && currentJob.status === "accepted" && !currentJob.accessDenied && (
+            <TouchableOpacity
+              onPress={() => router.push(`/job/${id}/access-denied`)}
+              className="bg-surface border border-warning rounded-lg py-3 items-center"
+            >
+              <Text className="text-foreground font-semibold">Can&apos;t Get In</Text>
+            </TouchableOpacity>
+          )}
+
+          {can("accept", "job") && currentJob.status === "accepted" && !currentJob.releaseRequestedAt && (
+            <TouchableOpacity
+              onPress={() => router.push(`/job/${id}/release`)}
+              className="bg-surface border border-border rounded-lg py-3 items-center"
+            >
+              <Text className="text-foreground font-semibold">Release Job</Text>
+            </TouchableOpacity>
+          )}
+
+          {can("complete", "job") && currentJob.status === "in_progress" && (
             <TouchableOpacity
               onPress={() => router.push(`/job/${id}/photos`)}
               className="bg-primary rounded-lg py-3 items-center"
@@ -274,7 +426,7 @@ export default function JobDetailScreen() {
             </TouchableOpacity>
           )}
 
-          {user?.role === "manager" && currentJob.status !== "in_progress" && currentJob.status !== "completed" && (
+          {can("assign", "job") && (currentJob.status === "available" || currentJob.status === "accepted") && (
             <TouchableOpacity
               onPress={() => router.push(`/job/${id}/reassign`)}
               className="bg-warning rounded-lg py-3 items-center"
@@ -282,6 +434,33 @@ export default function JobDetailScreen() {
               <Text className="text-white font-semibold">Reassign Cleaner</Text>
             </TouchableOpacity>
           )}
+
+          {can("assign", "job") && (currentJob.status === "available" || currentJob.status === "accepted") && (
+            <TouchableOpacity
+              onPress={() => router.push(`/job/${id}/reschedule`)}
+              className="bg-surface border border-border rounded-lg py-3 items-center"
+            >
+              <Text className="text-foreground font-semibold">Reschedule</Text>
+            </TouchableOpacity>
+          )}
+
+          {can("assign", "job") && currentJob.status === "accepted" && (
+            <TouchableOpacity
+              onPress={handleReopenJob}
+              className="bg-surface border border-border rounded-lg py-3 items-center"
+            >
+              <Text className="text-foreground font-semibold">Reopen for Any Cleaner</Text>
+            </TouchableOpacity>
+          )}
+
+          {can("cancel", "job") && currentJob.status !== "completed" && currentJob.status !== "cancelled" && (
+            <TouchableOpacity
+              onPress={() => router.push(`/job/${id}/cancel`)}
+              className="bg-error rounded-lg py-3 items-center"
+            >
+              <Text className="text-white font-semibold">Cancel Job</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </ScrollView>
     </ScreenContainer>
@@ -0,0 +1,150 @@
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert, TextInput } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useState } from "react";
+import * as Location from "expo-location";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+
+type AccessDeniedReason = "guest_present" | "lockbox_code_wrong" | "key_missing" | "no_answer" | "other";
+
+const REASONS: { value: AccessDeniedReason; label: string }[] = [
+  { value: "guest_present", label: "Guest still present" },
+  { value: "lockbox_code_wrong", label: "Lockbox code wrong" },
+  { value: "key_missing", label: "Key missing" },
+  { value: "no_answer", label: "No answer at the door" },
+  { value: "other", label: "Something else" },
+];
+
+/**
+ * Access Denied Screen
+ * Cleaner reports they could not get into the property; location is sent as proof
+ */
+export default function AccessDeniedScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [reason, setReason] = useState<AccessDeniedReason | null>(null);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const reportMutation = trpc.jobs.reportAccessDenied.useMutation({
+    onSuccess: (result) => {
+      utils.jobs.getTimeline.invalidate({ jobId: id as string });
+      Alert.alert(
+        "Reported",
+        result.tripFee > 0
+          ? `Your manager has been notified. A $${result.tripFee.toFixed(2)} trip fee was added to your invoice.`
+          : "Your manager has been notified."
+      );
+      router.back();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to report access denied");
+    },
+  });
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      Alert.alert("Error", "Please choose what happened");
+      return;
+    }
+
+    if (reason === "other" && !notes.trim()) {
+      Alert.alert("Error", "Please describe what happened");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== "granted") {
+        Alert.alert("Location Required", "Location access is needed to confirm you were at the property.");
+        return;
+      }
+
+      const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+
+      await reportMutation.mutateAsync({
+        jobId: id as string,
+        reason,
+        notes: notes.trim() || undefined,
+        gpsLat: location.coords.latitude,
+        gpsLng: location.coords.longitude,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-2xl font-bold text-foreground">Can&apos;t Get In</Text>
+          <Text className="text-sm text-muted mt-1">
+            Let your manager know why you couldn&apos;t start this job
+          </Text>
+        </View>
+
+        {/* Reasons */}
+        <View className="mb-6">
+          <Text className="text-sm font-semibold text-foreground mb-3">What happened?</Text>
+          {REASONS.map((item) => (
+            <TouchableOpacity
+              key={item.value}
+              onPress={() => setReason(item.value)}
+              className={`border rounded-lg p-4 mb-2 ${
+                reason === item.value ? "bg-primary/10 border-primary" : "bg-surface border-border"
+              }`}
+            >
+              <Text className="text-foreground font-semibold">{item.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Notes */}
+        <View className="mb-6">
+          <Text className="text-sm font-semibold text-foreground mb-2">
+            Details{reason === "other" ? "" : " (optional)"}
+          </Text>
+          <TextInput
+            className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+            placeholder="Anything your manager should know"
+            placeholderTextColor="#9BA1A6"
+            value={notes}
+            onChangeText={setNotes}
+            editable={!submitting}
+            multiline
+          />
+        </View>
+
+        <Text className="text-xs text-muted mb-4">
+          Your current location is sent with the report to confirm you were at the property.
+        </Text>
+
+        {/* Action Buttons */}
+        <View className="gap-3 mt-2">
+          <TouchableOpacity
+            onPress={handleSubmit}
+            disabled={submitting || !reason}
+            className="bg-warning rounded-lg py-3 items-center"
+          >
+            {submitting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text className="text-white font-semibold">Report Access Denied</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="bg-surface border border-border rounded-lg py-3 items-center"
+          >
+            <Text className="text-foreground font-semibold">Back</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,156 @@
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert, TextInput } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+
+const CANCELLABLE_STATUSES = ["available", "accepted", "in_progress", "needs_review"];
+
+/**
+ * Cancel Job Screen
+ * Manager cancels a job with a required reason; the assigned cleaner may be
+ * owed a cancellation fee depending on how far the job had got
+ */
+export default function CancelJobScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [reason, setReason] = useState("");
+  const [waiveFee, setWaiveFee] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  const { data: job, isLoading: jobLoading } = trpc.jobsDetail.getByIdForManager.useQuery(
+    { jobId: id as string },
+    { enabled: !!id }
+  );
+
+  const cancelMutation = trpc.jobs.cancel.useMutation({
+    onSuccess: (result) => {
+      utils.jobsDetail.getByIdForManager.invalidate({ jobId: id as string });
+      utils.jobs.getTimeline.invalidate({ jobId: id as string });
+      Alert.alert(
+        "Job Cancelled",
+        result.cancellationFee > 0
+          ? `A $${result.cancellationFee.toFixed(2)} cancellation fee was added to the cleaner's invoice.`
+          : "The job has been cancelled."
+      );
+      router.back();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to cancel job");
+    },
+  });
+
+  const handleCancel = async () => {
+    if (!reason.trim()) {
+      Alert.alert("Error", "Please enter a reason for cancelling");
+      return;
+    }
+
+    setCancelling(true);
+    try {
+      await cancelMutation.mutateAsync({ jobId: id as string, reason: reason.trim(), waiveFee });
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (jobLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color="#0a7ea4" />
+      </ScreenContainer>
+    );
+  }
+
+  if (!job) {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-foreground">Job not found</Text>
+      </ScreenContainer>
+    );
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(job.status)) {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-error font-semibold mb-2">Cannot Cancel</Text>
+        <Text className="text-foreground">Jobs with status &quot;{job.status}&quot; cannot be cancelled</Text>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-2xl font-bold text-foreground">Cancel Job</Text>
+          <Text className="text-sm text-muted mt-1">{job.property?.name || "Property"}</Text>
+        </View>
+
+        {/* Fee Rules */}
+        <View className="bg-surface border border-border rounded-lg p-4 mb-6 gap-1">
+          <Text className="text-sm font-semibold text-foreground mb-1">Cancellation fees</Text>
+          <Text className="text-xs text-muted">No fee if nobody has accepted the job</Text>
+          <Text className="text-xs text-muted">No fee with more than 24 hours&apos; notice</Text>
+          <Text className="text-xs text-muted">50% of the job price within 24 hours of the clean</Text>
+          <Text className="text-xs text-muted">Full job price once the cleaner has started</Text>
+        </View>
+
+        {/* Reason */}
+        <View className="mb-4">
+          <Text className="text-sm font-semibold text-foreground mb-2">Reason</Text>
+          <TextInput
+            className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+            placeholder="Why is this job being cancelled?"
+            placeholderTextColor="#9BA1A6"
+            value={reason}
+            onChangeText={setReason}
+            editable={!cancelling}
+            multiline
+          />
+        </View>
+
+        {/* Waive Fee */}
+        {job.assignedCleanerId && (
+          <TouchableOpacity
+            onPress={() => setWaiveFee(!waiveFee)}
+            className="flex-row items-center gap-3 mb-6"
+          >
+            <View
+              className={`w-6 h-6 rounded border items-center justify-center ${
+                waiveFee ? "bg-primary border-primary" : "bg-surface border-border"
+              }`}
+            >
+              {waiveFee && <Text className="text-white font-bold">✓</Text>}
+            </View>
+            <Text className="text-foreground">Waive cancellation fee</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Action Buttons */}
+        <View className="gap-3 mt-6">
+          <TouchableOpacity
+            onPress={handleCancel}
+            disabled={cancelling || !reason.trim()}
+            className="bg-error rounded-lg py-3 items-center"
+          >
+            {cancelling ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text className="text-white font-semibold">Cancel Job</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="bg-surface border border-border rounded-lg py-3 items-center"
+          >
+            <Text className="text-foreground font-semibold">Keep Job</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,151 @@
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert, TextInput, KeyboardAvoidingView, Platform } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useEffect, useRef, useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/lib/auth-context";
+
+const POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Job Chat Screen
+ * Messages between the job's cleaner and the managers, polled while open.
+ * Read-only once the job is completed or cancelled.
+ */
+export default function JobChatScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { user } = useAuth();
+  const scrollRef = useRef<ScrollView>(null);
+  const [message, setMessage] = useState("");
+
+  const { data: thread, isLoading, error } = trpc.chat.thread.useQuery(
+    { jobId: id as string },
+    { enabled: !!id, refetchInterval: POLL_INTERVAL_MS }
+  );
+
+  const markReadMutation = trpc.chat.markRead.useMutation({
+    onSuccess: (result) => {
+      if (result.updated > 0) utils.chat.unreadCounts.invalidate();
+    },
+  });
+
+  const sendMutation = trpc.chat.send.useMutation({
+    onSuccess: () => {
+      setMessage("");
+      utils.chat.thread.invalidate({ jobId: id as string });
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to send message");
+    },
+  });
+
+  // Mark the other side's messages read whenever new ones arrive
+  const hasUnread = !!thread?.messages.some((m) => m.senderId !== user?.id && !m.isRead);
+  useEffect(() => {
+    if (hasUnread && !markReadMutation.isPending) {
+      markReadMutation.mutate({ jobId: id as string });
+    }
+  }, [hasUnread, thread?.messages.length]);
+
+  const handleSend = () => {
+    if (!message.trim()) return;
+    sendMutation.mutate({ jobId: id as string, message: message.trim() });
+  };
+
+  if (isLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color="#0a7ea4" />
+      </ScreenContainer>
+    );
+  }
+
+  if (!thread) {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-foreground">{error?.message || "Chat not found"}</Text>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-4">
+      <KeyboardAvoidingView className="flex-1" behavior={Platform.OS === "ios" ? "padding" : undefined}>
+        {/* Header */}
+        <View className="flex-row justify-between items-center mb-4">
+          <Text className="text-2xl font-bold text-foreground">Job Chat</Text>
+          <TouchableOpacity onPress={() => router.back()} className="bg-surface rounded-lg p-2">
+            <Text className="text-primary font-semibold">Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Messages */}
+        <ScrollView
+          ref={scrollRef}
+          className="flex-1"
+          contentContainerStyle={{ flexGrow: 1, gap: 8 }}
+          onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+        >
+          {thread.messages.length === 0 && (
+            <Text className="text-sm text-muted text-center mt-6">No messages yet</Text>
+          )}
+          {thread.messages.map((m) => {
+            const mine = m.senderId === user?.id;
+            return (
+              <View
+                key={m.id}
+                className={cn(
+                  "max-w-[80%] rounded-lg px-3 py-2",
+                  mine ? "self-end bg-primary" : "self-start bg-surface border border-border"
+                )}
+              >
+                {!mine && <Text className="text-xs font-semibold text-muted mb-1">{m.senderName}</Text>}
+                <Text className={cn("text-sm", mine ? "text-white" : "text-foreground")}>{m.message}</Text>
+                <Text className={cn("text-xs mt-1", mine ? "text-white opacity-70" : "text-muted")}>
+                  {new Date(m.createdAt).toLocaleString()}
+                  {mine && m.isRead ? " · Read" : ""}
+                </Text>
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        {/* Composer */}
+        {thread.isLocked ? (
+          <View className="bg-surface border border-border rounded-lg p-3 mt-4">
+            <Text className="text-sm text-muted text-center">
+              Chat closed{thread.lockedAt ? ` on ${new Date(thread.lockedAt).toLocaleDateString()}` : ""}. Messages
+              stay available for reference.
+            </Text>
+          </View>
+        ) : (
+          <View className="flex-row items-end gap-2 mt-4">
+            <TextInput
+              className="flex-1 bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+              placeholder="Message"
+              placeholderTextColor="#9BA1A6"
+              value={message}
+              onChangeText={setMessage}
+              editable={!sendMutation.isPending}
+              multiline
+            />
+            <TouchableOpacity
+              onPress={handleSend}
+              disabled={sendMutation.isPending || !message.trim()}
+              className="bg-primary rounded-lg px-4 py-3 items-center"
+            >
+              {sendMutation.isPending ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text className="text-white font-semibold">Send</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,145 @@
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert, TextInput } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * Release Job Screen
+ * Cleaner hands back a job they accepted; close to the cleaning date a
+ * manager has to approve the release first
+ */
+export default function ReleaseJobScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [reason, setReason] = useState("");
+  const [releasing, setReleasing] = useState(false);
+
+  const { data: job, isLoading: jobLoading } = trpc.jobsDetail.getByIdForCleaner.useQuery(
+    { jobId: id as string },
+    { enabled: !!id }
+  );
+
+  const releaseMutation = trpc.jobs.release.useMutation({
+    onSuccess: (result) => {
+      utils.jobsDetail.getByIdForCleaner.invalidate({ jobId: id as string });
+      utils.jobs.getTimeline.invalidate({ jobId: id as string });
+      Alert.alert(
+        result.pendingApproval ? "Release Requested" : "Job Released",
+        result.pendingApproval
+          ? "This job is too close to release on your own. Your manager has been asked to approve."
+          : "The job is available to other cleaners again."
+      );
+      router.back();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to release job");
+    },
+  });
+
+  const handleRelease = async () => {
+    if (!reason.trim()) {
+      Alert.alert("Error", "Please enter a reason for releasing this job");
+      return;
+    }
+
+    setReleasing(true);
+    try {
+      await releaseMutation.mutateAsync({ jobId: id as string, reason: reason.trim() });
+    } finally {
+      setReleasing(false);
+    }
+  };
+
+  if (jobLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color="#0a7ea4" />
+      </ScreenContainer>
+    );
+  }
+
+  if (!job) {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-foreground">Job not found</Text>
+      </ScreenContainer>
+    );
+  }
+
+  if (job.status !== "accepted") {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-error font-semibold mb-2">Cannot Release</Text>
+        <Text className="text-foreground">Jobs with status &quot;{job.status}&quot; cannot be released</Text>
+      </ScreenContainer>
+    );
+  }
+
+  if (job.releaseRequestedAt) {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-foreground font-semibold mb-2">Release Requested</Text>
+        <Text className="text-foreground">Your manager has not answered your release request yet</Text>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-2xl font-bold text-foreground">Release Job</Text>
+          <Text className="text-sm text-muted mt-1">
+            {job.property?.name || "Unknown property"} on {new Date(job.cleaningDate).toLocaleString()}
+          </Text>
+        </View>
+
+        <View className="bg-surface border border-border rounded-lg p-4 mb-6">
+          <Text className="text-sm text-foreground">
+            The job goes back to the other cleaners. Releases close to the cleaning date need your
+            manager&apos;s approval, and every release is noted on your record.
+          </Text>
+        </View>
+
+        {/* Reason */}
+        <View className="mb-6">
+          <Text className="text-sm font-semibold text-foreground mb-2">Reason</Text>
+          <TextInput
+            className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+            placeholder="e.g. Accepted by mistake"
+            placeholderTextColor="#9BA1A6"
+            value={reason}
+            onChangeText={setReason}
+            editable={!releasing}
+            multiline
+          />
+        </View>
+
+        {/* Action Buttons */}
+        <View className="gap-3 mt-6">
+          <TouchableOpacity
+            onPress={handleRelease}
+            disabled={releasing || !reason.trim()}
+            className="bg-warning rounded-lg py-3 items-center"
+          >
+            {releasing ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text className="text-white font-semibold">Release Job</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="bg-surface border border-border rounded-lg py-3 items-center"
+          >
+            <Text className="text-foreground font-semibold">Keep Job</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
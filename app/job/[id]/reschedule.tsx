@@ -0,0 +1,151 @@
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert, TextInput } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * Reschedule Job Screen
+ * Manager moves a job to a new date/time, keeping the assigned cleaner
+ */
+export default function RescheduleJobScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [cleaningDate, setCleaningDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const { data: job, isLoading: jobLoading } = trpc.jobsDetail.getByIdForManager.useQuery(
+    { jobId: id as string },
+    { enabled: !!id }
+  );
+
+  const rescheduleMutation = trpc.jobs.reschedule.useMutation({
+    onSuccess: () => {
+      utils.jobsDetail.getByIdForManager.invalidate({ jobId: id as string });
+      utils.jobs.getTimeline.invalidate({ jobId: id as string });
+      Alert.alert("Success", "Job rescheduled!");
+      router.back();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to reschedule job");
+    },
+  });
+
+  const handleReschedule = async () => {
+    const date = new Date(cleaningDate.trim().replace(" ", "T"));
+    if (isNaN(date.getTime())) {
+      Alert.alert("Error", "Please enter the new date as YYYY-MM-DD HH:MM");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await rescheduleMutation.mutateAsync({
+        jobId: id as string,
+        cleaningDate: date,
+        reason: reason.trim() || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (jobLoading) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color="#0a7ea4" />
+      </ScreenContainer>
+    );
+  }
+
+  if (!job) {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-foreground">Job not found</Text>
+      </ScreenContainer>
+    );
+  }
+
+  if (job.status !== "available" && job.status !== "accepted") {
+    return (
+      <ScreenContainer className="p-4">
+        <Text className="text-lg text-error font-semibold mb-2">Cannot Reschedule</Text>
+        <Text className="text-foreground">Jobs with status &quot;{job.status}&quot; cannot be rescheduled</Text>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="mb-6">
+          <Text className="text-2xl font-bold text-foreground">Reschedule Job</Text>
+          <Text className="text-sm text-muted mt-1">
+            Currently {new Date(job.cleaningDate).toLocaleString()}
+          </Text>
+        </View>
+
+        {/* Access Denied */}
+        {job.accessDenied && (
+          <View className="bg-surface border border-warning rounded-lg p-4 mb-6">
+            <Text className="text-sm font-semibold text-foreground">Cleaner could not get in</Text>
+            <Text className="text-xs text-muted mt-1">
+              Rescheduling keeps the same cleaner and lets them start on the new date
+            </Text>
+          </View>
+        )}
+
+        {/* New Date */}
+        <View className="mb-4">
+          <Text className="text-sm font-semibold text-foreground mb-2">New date and time</Text>
+          <TextInput
+            className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+            placeholder="YYYY-MM-DD HH:MM"
+            placeholderTextColor="#9BA1A6"
+            value={cleaningDate}
+            onChangeText={setCleaningDate}
+            editable={!saving}
+          />
+        </View>
+
+        {/* Reason */}
+        <View className="mb-6">
+          <Text className="text-sm font-semibold text-foreground mb-2">Reason (optional)</Text>
+          <TextInput
+            className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+            placeholder="e.g. Guest checking out late"
+            placeholderTextColor="#9BA1A6"
+            value={reason}
+            onChangeText={setReason}
+            editable={!saving}
+          />
+        </View>
+
+        {/* Action Buttons */}
+        <View className="gap-3 mt-6">
+          <TouchableOpacity
+            onPress={handleReschedule}
+            disabled={saving || !cleaningDate.trim()}
+            className="bg-primary rounded-lg py-3 items-center"
+          >
+            {saving ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text className="text-white font-semibold">Reschedule</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="bg-surface border border-border rounded-lg py-3 items-center"
+          >
+            <Text className="text-foreground font-semibold">Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
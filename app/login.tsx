@@ -7,7 +7,9 @@ import { cn } from "@/lib/utils";
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { login, isLoading, error, clearError } = useAuth();
+  const { login, registerBusiness, isLoading, error, clearError } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [businessName, setBusinessName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
@@ -16,10 +18,18 @@ export default function LoginScreen() {
       Alert.alert("Error", "Please enter both email and password");
       return;
     }
+    if (mode === "register" && !businessName.trim()) {
+      Alert.alert("Error", "Please enter your business name");
+      return;
+    }
 
     try {
       clearError();
-      await login(email, password);
+      if (mode === "register") {
+        await registerBusiness({ businessName: businessName.trim(), email, password });
+      } else {
+        await login(email, password);
+      }
       // Navigation will be handled by the root layout based on auth state
     } catch (err) {
       // Error is already set in auth context
@@ -46,6 +56,21 @@ export default function LoginScreen() {
             </View>
           )}
 
+          {/* Business Name Input (new business only) */}
+          {mode === "register" && (
+            <View className="mb-4">
+              <Text className="text-sm font-semibold text-foreground mb-2">Business Name</Text>
+              <TextInput
+                className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                placeholder="Your cleaning business"
+                placeholderTextColor="#9BA1A6"
+                editable={!isLoading}
+                value={businessName}
+                onChangeText={setBusinessName}
+              />
+            </View>
+          )}
+
           {/* Email Input */}
           <View className="mb-4">
             <Text className="text-sm font-semibold text-foreground mb-2">Email</Text>
@@ -75,6 +100,13 @@ export default function LoginScreen() {
             />
           </View>
 
+          {/* Forgot Password */}
+          {mode === "login" && (
+            <Pressable onPress={() => router.push("/reset-password")} disabled={isLoading} className="-mt-3 mb-6">
+              <Text className="text-primary text-right text-sm">Forgot password?</Text>
+            </Pressable>
+          )}
+
           {/* Login Button */}
           <Pressable
             onPress={handleLogin}
@@ -92,14 +124,37 @@ export default function LoginScreen() {
               {isLoading ? (
                 <>
                   <ActivityIndicator color="#ffffff" size="small" />
-                  <Text className="text-white font-semibold ml-2">Logging in...</Text>
+                  <Text className="text-white font-semibold ml-2">
+                    {mode === "register" ? "Creating business..." : "Logging in..."}
+                  </Text>
                 </>
               ) : (
-                <Text className="text-white font-semibold text-center">Login</Text>
+                <Text className="text-white font-semibold text-center">
+                  {mode === "register" ? "Create Business" : "Login"}
+                </Text>
               )}
             </View>
           </Pressable>
 
+          {/* Mode Switch */}
+          <Pressable
+            onPress={() => {
+              clearError();
+              setMode(mode === "login" ? "register" : "login");
+            }}
+            disabled={isLoading}
+            className="mt-4"
+          >
+            <Text className="text-primary text-center font-semibold">
+              {mode === "login" ? "New business? Create an account" : "Already have an account? Login"}
+            </Text>
+          </Pressable>
+
+          {/* Invitation Link */}
+          <Pressable onPress={() => router.push("/invite")} disabled={isLoading} className="mt-3">
+            <Text className="text-muted text-center">Invited by your manager? Accept invitation</Text>
+          </Pressable>
+
           {/* Demo Info */}
           <View className="mt-8 bg-surface border border-border rounded-lg p-4">
             <Text className="text-xs font-semibold text-foreground mb-2">Demo Credentials</Text>
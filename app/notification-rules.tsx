@@ -0,0 +1,258 @@
+import { ScrollView, Text, View, TouchableOpacity, Pressable, ActivityIndicator, Alert, TextInput, Switch } from "react-native";
+import { useRouter } from "expo-router";
+import { useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { usePermissions } from "@/hooks/use-permissions";
+
+type Channel = "in_app" | "push" | "email" | "sms";
+type Role = "super_manager" | "manager" | "cleaner";
+
+const CHANNELS: Channel[] = ["in_app", "push", "email", "sms"];
+const ROLES: Role[] = ["super_manager", "manager", "cleaner"];
+
+const CHANNEL_LABELS: Record<Channel, string> = { push: "Push", in_app: "In-app", email: "Email", sms: "SMS" };
+const ROLE_LABELS: Record<Role, string> = { super_manager: "Super managers", manager: "Managers", cleaner: "Cleaners" };
+
+interface Draft {
+  recipientRoles: Role[];
+  isCritical: boolean;
+  channels: Channel[];
+  titleTemplate: string;
+  messageTemplate: string;
+}
+
+function formatEventType(type: string): string {
+  const label = type.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function sameItems<T>(a: T[], b: T[]): boolean {
+  return a.length === b.length && a.every((item) => b.includes(item));
+}
+
+function toggle<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter((i) => i !== item) : [...items, item];
+}
+
+/**
+ * Notification Rules (super managers)
+ * Tune who hears about each event in this business, how, and with what text.
+ * Anything left as the built-in follows future product updates.
+ */
+export default function NotificationRulesScreen() {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { can } = usePermissions();
+
+  const { data: rules, isLoading } = trpc.notificationRules.list.useQuery(undefined, {
+    enabled: can("view", "notification_rule"),
+  });
+
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const onError = (error: any) => Alert.alert("Error", error.message || "Failed to save rule");
+  const refresh = () => utils.notificationRules.list.invalidate();
+
+  const updateMutation = trpc.notificationRules.update.useMutation({
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError,
+  });
+  const resetMutation = trpc.notificationRules.reset.useMutation({
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError,
+  });
+
+  if (!can("view", "notification_rule")) {
+    return (
+      <ScreenContainer className="items-center justify-center p-4">
+        <Text className="text-muted">Only super managers can change notification rules.</Text>
+      </ScreenContainer>
+    );
+  }
+
+  if (isLoading || !rules) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color="#0a7ea4" />
+      </ScreenContainer>
+    );
+  }
+
+  type Rule = (typeof rules)[number];
+
+  const keyOf = (rule: Rule) => `${rule.type}:${rule.ruleRole}`;
+
+  const startEditing = (rule: Rule) => {
+    setEditing(keyOf(rule));
+    setDraft({
+      recipientRoles: rule.override?.recipientRoles ?? rule.builtIn.recipientRoles,
+      isCritical: rule.override?.isCritical ?? rule.builtIn.isCritical,
+      channels: rule.override?.channels ?? rule.builtIn.channels,
+      titleTemplate: rule.override?.titleTemplate ?? "",
+      messageTemplate: rule.override?.messageTemplate ?? "",
+    });
+  };
+
+  const save = (rule: Rule) => {
+    if (!draft) return;
+    if (draft.recipientRoles.length === 0 || draft.channels.length === 0) {
+      Alert.alert("Error", "Pick at least one role and one channel");
+      return;
+    }
+
+    // Values equal to the built-in are stored as null so they keep following it
+    updateMutation.mutate({
+      type: rule.type,
+      ruleRole: rule.ruleRole,
+      recipientRoles: sameItems(draft.recipientRoles, rule.builtIn.recipientRoles) ? null : draft.recipientRoles,
+      isCritical: draft.isCritical === rule.builtIn.isCritical ? null : draft.isCritical,
+      channels: sameItems(draft.channels, rule.builtIn.channels) ? null : draft.channels,
+      titleTemplate: draft.titleTemplate,
+      messageTemplate: draft.messageTemplate,
+    });
+  };
+
+  const renderChips = <T extends string>(
+    options: T[],
+    selected: T[],
+    labels: Record<T, string>,
+    onToggle: (option: T) => void
+  ) => (
+    <View className="flex-row flex-wrap gap-2 mb-3">
+      {options.map((option) => {
+        const active = selected.includes(option);
+        return (
+          <Pressable
+            key={option}
+            onPress={() => onToggle(option)}
+            className={cn("px-3 py-1 rounded-full", active ? "bg-primary" : "bg-background border border-border")}
+          >
+            <Text className={cn("text-xs font-semibold", active ? "text-background" : "text-muted")}>
+              {labels[option]}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="flex-row justify-between items-center mb-2">
+          <Text className="text-2xl font-bold text-foreground">Notification Rules</Text>
+          <TouchableOpacity onPress={() => router.back()} className="bg-surface rounded-lg p-2">
+            <Text className="text-primary font-semibold">Back</Text>
+          </TouchableOpacity>
+        </View>
+        <Text className="text-xs text-muted mb-6">
+          Changes apply to everyone in your business. Critical rules skip quiet hours, opt-outs and muted jobs.
+        </Text>
+
+        <View className="gap-2">
+          {rules.map((rule) => {
+            const key = keyOf(rule);
+            const enabled = rule.override?.enabled ?? true;
+            const isCritical = rule.override?.isCritical ?? rule.builtIn.isCritical;
+            const channels = rule.override?.channels ?? rule.builtIn.channels;
+            const recipientRoles = rule.override?.recipientRoles ?? rule.builtIn.recipientRoles;
+
+            return (
+              <View key={key} className="bg-surface border border-border rounded-lg px-4 py-3">
+                <View className="flex-row justify-between items-center">
+                  <Pressable className="flex-1 mr-2" onPress={() => (editing === key ? setEditing(null) : startEditing(rule))}>
+                    <Text className={cn("text-sm font-semibold", enabled ? "text-foreground" : "text-muted")}>
+                      {formatEventType(rule.type)}
+                      {isCritical ? " ⚠️" : ""}
+                    </Text>
+                    <Text className="text-xs text-muted mt-1">
+                      {recipientRoles.map((role) => ROLE_LABELS[role]).join(", ")} ·{" "}
+                      {channels.map((channel) => CHANNEL_LABELS[channel]).join(", ")}
+                      {rule.override ? " · Customized" : ""}
+                    </Text>
+                  </Pressable>
+                  <Switch
+                    value={enabled}
+                    disabled={updateMutation.isPending}
+                    onValueChange={(value) =>
+                      updateMutation.mutate({ type: rule.type, ruleRole: rule.ruleRole, enabled: value })
+                    }
+                  />
+                </View>
+
+                {editing === key && draft && (
+                  <View className="mt-4">
+                    <Text className="text-xs font-semibold text-foreground mb-2">Send to</Text>
+                    {renderChips(ROLES, draft.recipientRoles, ROLE_LABELS, (role) =>
+                      setDraft({ ...draft, recipientRoles: toggle(draft.recipientRoles, role) })
+                    )}
+
+                    <Text className="text-xs font-semibold text-foreground mb-2">Channels</Text>
+                    {renderChips(CHANNELS, draft.channels, CHANNEL_LABELS, (channel) =>
+                      setDraft({ ...draft, channels: toggle(draft.channels, channel) })
+                    )}
+
+                    <View className="flex-row justify-between items-center mb-3">
+                      <Text className="text-xs font-semibold text-foreground">Critical</Text>
+                      <Switch value={draft.isCritical} onValueChange={(value) => setDraft({ ...draft, isCritical: value })} />
+                    </View>
+
+                    <TextInput
+                      className="bg-background border border-border rounded-lg px-4 py-3 text-foreground mb-2"
+                      placeholder="Title (leave empty for the built-in text)"
+                      placeholderTextColor="#9BA1A6"
+                      value={draft.titleTemplate}
+                      onChangeText={(titleTemplate) => setDraft({ ...draft, titleTemplate })}
+                    />
+                    <TextInput
+                      className="bg-background border border-border rounded-lg px-4 py-3 text-foreground mb-2"
+                      placeholder="Message (leave empty for the built-in text)"
+                      placeholderTextColor="#9BA1A6"
+                      value={draft.messageTemplate}
+                      onChangeText={(messageTemplate) => setDraft({ ...draft, messageTemplate })}
+                      multiline
+                    />
+                    {rule.placeholders.length > 0 && (
+                      <Text className="text-xs text-muted mb-3">
+                        Available: {rule.placeholders.map((name) => `{${name}}`).join(" ")}
+                      </Text>
+                    )}
+
+                    <View className="flex-row gap-3">
+                      <TouchableOpacity
+                        onPress={() => save(rule)}
+                        disabled={updateMutation.isPending}
+                        className="flex-1 bg-primary rounded-lg py-2 items-center"
+                      >
+                        <Text className="text-white font-semibold text-sm">Save</Text>
+                      </TouchableOpacity>
+                      {rule.override && (
+                        <TouchableOpacity
+                          onPress={() => resetMutation.mutate({ type: rule.type, ruleRole: rule.ruleRole })}
+                          disabled={resetMutation.isPending}
+                          className="flex-1 bg-background border border-border rounded-lg py-2 items-center"
+                        >
+                          <Text className="text-foreground font-semibold text-sm">Reset to Default</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,181 @@
+import { ScrollView, Text, View, TouchableOpacity, Pressable, ActivityIndicator, Alert, TextInput } from "react-native";
+import { useRouter } from "expo-router";
+import { useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { usePermissions } from "@/hooks/use-permissions";
+
+type Channel = "in_app" | "push" | "email" | "sms";
+
+const CHANNEL_LABELS: Record<Channel, string> = { push: "Push", in_app: "In-app", email: "Email", sms: "SMS" };
+
+function formatEventType(type: string): string {
+  const label = type.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Notification Settings
+ * Quiet hours (business timezone), per-event channel opt-outs and muted jobs.
+ * Critical alerts always come through.
+ */
+export default function NotificationSettingsScreen() {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const { can } = usePermissions();
+
+  const { data: preferences, isLoading } = trpc.notifications.getPreferences.useQuery();
+
+  // Unsaved edits; the saved quiet hours show until the user types
+  const [quietStartDraft, setQuietStartDraft] = useState<string | null>(null);
+  const [quietEndDraft, setQuietEndDraft] = useState<string | null>(null);
+
+  const onError = (error: any) => Alert.alert("Error", error.message || "Failed to save preferences");
+  const refresh = () => utils.notifications.getPreferences.invalidate();
+
+  const updateMutation = trpc.notifications.updatePreferences.useMutation({ onSuccess: refresh, onError });
+  const unmuteMutation = trpc.notifications.unmuteJob.useMutation({ onSuccess: refresh, onError });
+
+  if (isLoading || !preferences) {
+    return (
+      <ScreenContainer className="items-center justify-center">
+        <ActivityIndicator size="large" color="#0a7ea4" />
+      </ScreenContainer>
+    );
+  }
+
+  const optOuts = preferences.channelOptOuts as Partial<Record<string, Channel[]>>;
+  const quietStart = quietStartDraft ?? preferences.quietHours?.start ?? "";
+  const quietEnd = quietEndDraft ?? preferences.quietHours?.end ?? "";
+
+  const saveQuietHours = () => {
+    if (!quietStart.trim() && !quietEnd.trim()) {
+      updateMutation.mutate({ quietHours: null });
+      return;
+    }
+    updateMutation.mutate({ quietHours: { start: quietStart.trim(), end: quietEnd.trim() } });
+  };
+
+  const toggleChannel = (type: (typeof preferences.eventTypes)[number]["type"], channel: Channel) => {
+    const current = optOuts[type] ?? [];
+    const next = current.includes(channel) ? current.filter((c) => c !== channel) : [...current, channel];
+    updateMutation.mutate({ channelOptOuts: { ...optOuts, [type]: next } });
+  };
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="flex-row justify-between items-center mb-6">
+          <Text className="text-2xl font-bold text-foreground">Notification Settings</Text>
+          <TouchableOpacity onPress={() => router.back()} className="bg-surface rounded-lg p-2">
+            <Text className="text-primary font-semibold">Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Quiet Hours */}
+        <View className="bg-surface border border-border rounded-lg p-4 mb-6">
+          <Text className="text-base font-semibold text-foreground">Quiet hours</Text>
+          <Text className="text-xs text-muted mt-1 mb-3">
+            Push and SMS wait until quiet hours end ({preferences.timezone}). Leave both empty to turn off.
+          </Text>
+          <View className="flex-row gap-3 mb-3">
+            <TextInput
+              className="flex-1 bg-background border border-border rounded-lg px-4 py-3 text-foreground"
+              placeholder="From (22:00)"
+              placeholderTextColor="#9BA1A6"
+              value={quietStart}
+              onChangeText={setQuietStartDraft}
+            />
+            <TextInput
+              className="flex-1 bg-background border border-border rounded-lg px-4 py-3 text-foreground"
+              placeholder="To (07:00)"
+              placeholderTextColor="#9BA1A6"
+              value={quietEnd}
+              onChangeText={setQuietEndDraft}
+            />
+          </View>
+          <TouchableOpacity
+            onPress={saveQuietHours}
+            disabled={updateMutation.isPending}
+            className="bg-primary rounded-lg py-2 items-center"
+          >
+            <Text className="text-white font-semibold text-sm">Save Quiet Hours</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Channels */}
+        <Text className="text-base font-semibold text-foreground mb-2">Notify me about</Text>
+        <View className="gap-2 mb-6">
+          {preferences.eventTypes.map(({ type, channels, isCritical }) => (
+            <View
+              key={type}
+              className="flex-row justify-between items-center bg-surface border border-border rounded-lg px-4 py-3"
+            >
+              <Text className="text-sm text-foreground flex-1 mr-2">{formatEventType(type)}</Text>
+              {isCritical ? (
+                <Text className="text-xs text-muted">Always on</Text>
+              ) : (
+                <View className="flex-row gap-2">
+                  {channels.map((channel) => {
+                    const enabled = !(optOuts[type] ?? []).includes(channel);
+                    return (
+                      <Pressable
+                        key={channel}
+                        onPress={() => toggleChannel(type, channel)}
+                        disabled={updateMutation.isPending}
+                        className={cn(
+                          "px-3 py-1 rounded-full",
+                          enabled ? "bg-primary" : "bg-background border border-border"
+                        )}
+                      >
+                        <Text className={cn("text-xs font-semibold", enabled ? "text-background" : "text-muted")}>
+                          {CHANNEL_LABELS[channel]}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+
+        {can("manage", "notification_rule") && (
+          <TouchableOpacity
+            onPress={() => router.push("/notification-rules")}
+            className="bg-surface border border-border rounded-lg px-4 py-3 mb-6"
+          >
+            <Text className="text-sm font-semibold text-primary">Business notification rules</Text>
+            <Text className="text-xs text-muted mt-1">Choose who hears about each event, how, and what it says</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Muted Jobs */}
+        <Text className="text-base font-semibold text-foreground mb-2">Muted jobs</Text>
+        {preferences.mutedJobIds.length === 0 ? (
+          <Text className="text-sm text-muted">
+            No muted jobs. Long-press a notification to mute its job.
+          </Text>
+        ) : (
+          <View className="gap-2">
+            {preferences.mutedJobIds.map((jobId: string) => (
+              <View
+                key={jobId}
+                className="flex-row justify-between items-center bg-surface border border-border rounded-lg px-4 py-3"
+              >
+                <Pressable onPress={() => router.push(`/job/${jobId}`)}>
+                  <Text className="text-sm text-primary">{jobId}</Text>
+                </Pressable>
+                <Pressable onPress={() => unmuteMutation.mutate({ jobId })} disabled={unmuteMutation.isPending}>
+                  <Text className="text-sm font-semibold text-primary">Unmute</Text>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
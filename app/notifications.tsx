@@ -0,0 +1,146 @@
+import { View, Text, FlatList, Pressable, ActivityIndicator, Alert, RefreshControl } from "react-native";
+import { useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+function formatReceived(date: Date): string {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(date).toLocaleDateString();
+}
+
+/**
+ * Notification Center
+ * Every notification delivered to the signed-in user, newest first.
+ * Tap to mark read (and open the job), long-press to mute its job or delete.
+ */
+export default function NotificationsScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const utils = trpc.useUtils();
+
+  const { data, isLoading, isRefetching, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.notifications.list.useInfiniteQuery(
+      { limit: PAGE_SIZE },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined }
+    );
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+  const refresh = () => {
+    utils.notifications.list.invalidate();
+    utils.notifications.unreadCount.invalidate();
+  };
+
+  const markRead = trpc.notifications.markRead.useMutation({ onSuccess: refresh });
+  const markAllRead = trpc.notifications.markAllRead.useMutation({ onSuccess: refresh });
+  const deleteNotification = trpc.notifications.delete.useMutation({
+    onSuccess: refresh,
+    onError: (error: any) => Alert.alert("Error", error.message || "Failed to delete notification"),
+  });
+
+  const handleOpen = (notification: (typeof items)[number]) => {
+    if (!notification.isRead) {
+      markRead.mutate({ notificationId: notification.id });
+    }
+    if (notification.jobId) {
+      router.push(`/job/${notification.jobId}`);
+    }
+  };
+
+  const muteJob = trpc.notifications.muteJob.useMutation({
+    onSuccess: () => Alert.alert("Job muted", "You will only get critical alerts about this job."),
+    onError: (error: any) => Alert.alert("Error", error.message || "Failed to mute job"),
+  });
+
+  const handleOptions = (notification: (typeof items)[number]) => {
+    const jobId = notification.jobId;
+    Alert.alert("Notification", notification.title, [
+      { text: "Cancel", style: "cancel" },
+      ...(jobId ? [{ text: "Mute this job", onPress: () => muteJob.mutate({ jobId }) }] : []),
+      {
+        text: "Delete",
+        style: "destructive" as const,
+        onPress: () => deleteNotification.mutate({ notificationId: notification.id }),
+      },
+    ]);
+  };
+
+  return (
+    <ScreenContainer className="flex-1">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-3">
+        <View className="flex-row items-center gap-3">
+          <Pressable onPress={() => router.back()}>
+            <Text className="text-primary font-semibold">Back</Text>
+          </Pressable>
+          <Text className="text-2xl font-bold text-foreground">Notifications</Text>
+        </View>
+        <View className="flex-row items-center gap-4">
+          <Pressable
+            onPress={() => markAllRead.mutate()}
+            disabled={markAllRead.isPending || !items.some((notification) => !notification.isRead)}
+          >
+            <Text className="text-primary font-semibold">Mark all read</Text>
+          </Pressable>
+          <Pressable onPress={() => router.push("/notification-settings")}>
+            <Text className="text-primary font-semibold">Settings</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(notification) => notification.id}
+          contentContainerStyle={{ padding: 16, flexGrow: 1 }}
+          refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={() => refetch()} />}
+          onEndReached={() => {
+            if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+          }}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={
+            <View className="items-center py-8">
+              <Text className="text-muted">No notifications yet</Text>
+            </View>
+          }
+          ListFooterComponent={isFetchingNextPage ? <ActivityIndicator color={colors.primary} /> : null}
+          renderItem={({ item: notification }) => (
+            <Pressable
+              onPress={() => handleOpen(notification)}
+              onLongPress={() => handleOptions(notification)}
+              className={cn(
+                "rounded-lg p-4 mb-3 border",
+                notification.isRead ? "bg-background border-border" : "bg-surface border-primary"
+              )}
+            >
+              <View className="flex-row items-center justify-between mb-1">
+                <Text
+                  className={cn(
+                    "text-base flex-1 mr-2",
+                    notification.isRead ? "text-foreground" : "text-foreground font-semibold",
+                    notification.isCritical && "text-error"
+                  )}
+                >
+                  {notification.title}
+                </Text>
+                <Text className="text-xs text-muted">{formatReceived(notification.createdAt)}</Text>
+              </View>
+              <Text className="text-sm text-muted">{notification.message}</Text>
+            </Pressable>
+          )}
+        />
+      )}
+    </ScreenContainer>
+  );
+}
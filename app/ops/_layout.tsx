@@ -19,7 +19,7 @@ export default function OpsLayout() {
     }
 
     // Redirect non-founders to login
-    if (!user || (user.role as string) !== "founder") {
+    if (!user || user.role !== "founder") {
       router.replace("/ops/login");
     }
   }, [user, isInitialized, router]);
@@ -30,7 +30,7 @@ export default function OpsLayout() {
   }
 
   // Show loading screen for non-founders (they'll be redirected)
-  if (!user || (user.role as string) !== "founder") {
+  if (!user || user.role !== "founder") {
     return <AuthLoadingScreen />;
   }
 
@@ -63,6 +63,12 @@ export default function OpsLayout() {
           title: "Audit Log",
         }}
       />
+      <Stack.Screen
+        name="notification-outbox"
+        options={{
+          title: "Notification Deliveries",
+        }}
+      />
       <Stack.Screen
         name="login"
         options={{
@@ -245,6 +245,14 @@ export default function OpsDashboardScreen() {
         >
           <Text className="text-white font-semibold">View Audit Log</Text>
         </TouchableOpacity>
+
+        {/* Notification Deliveries Link */}
+        <TouchableOpacity
+          onPress={() => router.push("/ops/notification-outbox")}
+          className="mt-3 bg-surface border border-border rounded-lg py-3 items-center"
+        >
+          <Text className="text-primary font-semibold">Notification Deliveries</Text>
+        </TouchableOpacity>
       </ScrollView>
     </ScreenContainer>
   );
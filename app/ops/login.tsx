@@ -23,9 +23,11 @@ export default function OpsLoginScreen() {
 
     setLoading(true);
     try {
-      await login(email, password);
-      // Navigation will be handled by auth context
-      router.replace("/ops");
+      const outcome = await login(email, password);
+      // Second-factor steps are routed by the root layout
+      if (outcome === "authenticated") {
+        router.replace("/ops");
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Login failed";
       Alert.alert("Login Failed", message);
@@ -0,0 +1,141 @@
+import { ScrollView, Text, View, TouchableOpacity, ActivityIndicator, Alert } from "react-native";
+import { useRouter } from "expo-router";
+import { useState } from "react";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+
+type StuckFilter = "all" | "retrying" | "dead";
+
+/**
+ * Simply Ops Notification Deliveries
+ * Outbox rows that keep failing (retrying) or that the worker gave up on (dead)
+ */
+export default function NotificationOutboxScreen() {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const [filter, setFilter] = useState<StuckFilter>("all");
+
+  const { data: summary } = trpc.notificationOutbox.getSummary.useQuery();
+  const { data: entries = [], isLoading, refetch, isRefetching } = trpc.notificationOutbox.listStuck.useQuery(
+    filter === "all" ? undefined : { status: filter }
+  );
+
+  const retryMutation = trpc.notificationOutbox.retry.useMutation({
+    onSuccess: () => {
+      utils.notificationOutbox.getSummary.invalidate();
+      utils.notificationOutbox.listStuck.invalidate();
+    },
+    onError: (error: any) => {
+      Alert.alert("Error", error.message || "Failed to retry delivery");
+    },
+  });
+
+  return (
+    <ScreenContainer className="p-4">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+        {/* Header */}
+        <View className="flex-row justify-between items-center mb-6">
+          <View>
+            <Text className="text-2xl font-bold text-foreground">Notification Deliveries</Text>
+            <Text className="text-sm text-muted">
+              Dead after {summary?.maxAttempts ?? "-"} failed attempts
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => router.back()} className="bg-surface rounded-lg p-2">
+            <Text className="text-primary font-semibold">Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Summary */}
+        <View className="flex-row gap-3 mb-6">
+          {[
+            { label: "Pending", value: summary?.pending },
+            { label: "Retrying", value: summary?.retrying },
+            { label: "Dead", value: summary?.dead },
+          ].map(({ label, value }) => (
+            <View key={label} className="flex-1 bg-surface border border-border rounded-lg p-3 items-center">
+              <Text className="text-xl font-bold text-foreground">{value ?? "-"}</Text>
+              <Text className="text-xs text-muted">{label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Filter */}
+        <View className="flex-row justify-between items-center mb-4">
+          <View className="flex-row gap-2">
+            {(["all", "retrying", "dead"] as const).map((option) => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setFilter(option)}
+                className={cn(
+                  "px-3 py-2 rounded-full",
+                  filter === option ? "bg-primary" : "bg-surface border border-border"
+                )}
+              >
+                <Text
+                  className={cn(
+                    "text-sm font-semibold capitalize",
+                    filter === option ? "text-background" : "text-foreground"
+                  )}
+                >
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity onPress={() => refetch()} disabled={isRefetching}>
+            <Text className="text-primary font-semibold">{isRefetching ? "Refreshing..." : "Refresh"}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Entries */}
+        {isLoading ? (
+          <View className="items-center justify-center py-8">
+            <ActivityIndicator size="large" color="#0a7ea4" />
+          </View>
+        ) : entries.length === 0 ? (
+          <View className="bg-surface border border-border rounded-lg p-4 items-center">
+            <Text className="text-muted">No stuck deliveries</Text>
+          </View>
+        ) : (
+          <View className="gap-3">
+            {entries.map((entry) => (
+              <View key={entry.id} className="bg-surface border border-border rounded-lg p-4 gap-2">
+                <View className="flex-row justify-between items-center">
+                  <Text className="text-base font-semibold text-foreground">
+                    {entry.type} · {entry.channel}
+                  </Text>
+                  <Text
+                    className={cn(
+                      "text-xs font-semibold px-2 py-1 rounded",
+                      entry.status === "dead" ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"
+                    )}
+                  >
+                    {entry.status === "dead" ? "Dead" : `Retry ${entry.attempts}`}
+                  </Text>
+                </View>
+                <Text className="text-xs text-muted">Business: {entry.businessId}</Text>
+                <Text className="text-xs text-muted">Queued: {new Date(entry.createdAt).toLocaleString()}</Text>
+                {entry.status !== "dead" && (
+                  <Text className="text-xs text-muted">
+                    Next attempt: {new Date(entry.nextAttemptAt).toLocaleString()}
+                  </Text>
+                )}
+                {entry.lastError && <Text className="text-xs text-error">{entry.lastError}</Text>}
+
+                <TouchableOpacity
+                  onPress={() => retryMutation.mutate({ entryId: entry.id })}
+                  disabled={retryMutation.isPending}
+                  className="bg-primary rounded-lg py-2 items-center mt-1"
+                >
+                  <Text className="text-white font-semibold text-sm">Retry Now</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,149 @@
+import React, { useState } from "react";
+import { ScrollView, Text, View, TextInput, Pressable, ActivityIndicator, Alert } from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * Reset Password Screen
+ * Step 1: request a reset code by email
+ * Step 2: enter the code (or arrive via ?token=...) and choose a new password
+ */
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ token?: string }>();
+  const [step, setStep] = useState<"request" | "confirm">(params.token ? "confirm" : "request");
+  const [email, setEmail] = useState("");
+  const [token, setToken] = useState(params.token ?? "");
+  const [password, setPassword] = useState("");
+
+  const requestReset = trpc.auth.requestReset.useMutation();
+  const confirmReset = trpc.auth.confirmReset.useMutation();
+  const isLoading = requestReset.isPending || confirmReset.isPending;
+  const error = requestReset.error?.message ?? confirmReset.error?.message;
+
+  const handleRequest = async () => {
+    if (!email) {
+      Alert.alert("Error", "Please enter your email");
+      return;
+    }
+
+    try {
+      await requestReset.mutateAsync({ email });
+      setStep("confirm");
+    } catch (err) {
+      console.error("[ResetPassword] Request error:", err);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!token.trim() || !password) {
+      Alert.alert("Error", "Please enter the reset code and a new password");
+      return;
+    }
+
+    try {
+      await confirmReset.mutateAsync({ token: token.trim(), password });
+      Alert.alert("Password updated", "You can now log in with your new password.");
+      router.replace("/login");
+    } catch (err) {
+      console.error("[ResetPassword] Confirm error:", err);
+    }
+  };
+
+  return (
+    <ScreenContainer edges={["top", "left", "right", "bottom"]} className="bg-background">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} className="flex-1">
+        <View className="flex-1 justify-center px-6 py-8">
+          {/* Header */}
+          <View className="mb-8 items-center">
+            <Text className="text-3xl font-bold text-foreground mb-2">Reset password</Text>
+            <Text className="text-base text-muted text-center">
+              {step === "request"
+                ? "We'll email you a one-time reset code"
+                : "If an account exists for that email, a reset code is on its way"}
+            </Text>
+          </View>
+
+          {/* Error Message */}
+          {error && (
+            <View className="mb-6 bg-error/10 border border-error rounded-lg p-4">
+              <Text className="text-error font-semibold">{error}</Text>
+            </View>
+          )}
+
+          {step === "request" ? (
+            <View className="mb-6">
+              <Text className="text-sm font-semibold text-foreground mb-2">Email</Text>
+              <TextInput
+                className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                placeholder="you@example.com"
+                placeholderTextColor="#9BA1A6"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                editable={!isLoading}
+                value={email}
+                onChangeText={setEmail}
+              />
+            </View>
+          ) : (
+            <>
+              <View className="mb-4">
+                <Text className="text-sm font-semibold text-foreground mb-2">Reset Code</Text>
+                <TextInput
+                  className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                  placeholder="Paste the code from your email"
+                  placeholderTextColor="#9BA1A6"
+                  autoCapitalize="none"
+                  editable={!isLoading}
+                  value={token}
+                  onChangeText={setToken}
+                />
+              </View>
+              <View className="mb-6">
+                <Text className="text-sm font-semibold text-foreground mb-2">New Password</Text>
+                <TextInput
+                  className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                  placeholder="At least 6 characters"
+                  placeholderTextColor="#9BA1A6"
+                  secureTextEntry
+                  editable={!isLoading}
+                  value={password}
+                  onChangeText={setPassword}
+                />
+              </View>
+            </>
+          )}
+
+          {/* Submit Button */}
+          <Pressable
+            onPress={step === "request" ? handleRequest : handleConfirm}
+            disabled={isLoading}
+            style={({ pressed }) => [
+              {
+                backgroundColor: "#0a7ea4",
+                paddingVertical: 12,
+                borderRadius: 8,
+                opacity: pressed || isLoading ? 0.8 : 1,
+              },
+            ]}
+          >
+            <View className="flex-row items-center justify-center">
+              {isLoading ? (
+                <ActivityIndicator color="#ffffff" size="small" />
+              ) : (
+                <Text className="text-white font-semibold text-center">
+                  {step === "request" ? "Send Reset Code" : "Set New Password"}
+                </Text>
+              )}
+            </View>
+          </Pressable>
+
+          <Pressable onPress={() => router.replace("/login")} disabled={isLoading} className="mt-4">
+            <Text className="text-muted text-center">Back to login</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { ScrollView, Text, View, TextInput, Pressable, ActivityIndicator, Alert, Linking } from "react-native";
+import { useRouter } from "expo-router";
+import { ScreenContainer } from "@/components/screen-container";
+import { useAuth, type TwoFactorSetup } from "@/lib/auth-context";
+
+/**
+ * Two-Factor Screen
+ * Verify: enter an authenticator code (or a recovery code) after the password step
+ * Setup: mandatory enrollment for super managers, then show recovery codes once
+ */
+export default function TwoFactorScreen() {
+  const router = useRouter();
+  const {
+    twoFactorChallenge,
+    error: authError,
+    verifyTwoFactor,
+    beginTwoFactorSetup,
+    completeTwoFactorSetup,
+    finishTwoFactorSetup,
+    cancelTwoFactor,
+  } = useAuth();
+  const mode = twoFactorChallenge?.status === "two_factor_setup_required" ? "setup" : "verify";
+
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const error = mode === "setup" ? setupError : authError;
+
+  useEffect(() => {
+    if (mode !== "setup" || setup) return;
+
+    beginTwoFactorSetup()
+      .then(setSetup)
+      .catch((err) => {
+        console.error("[TwoFactor] Setup error:", err);
+        setSetupError(err instanceof Error ? err.message : "Could not start two-factor setup");
+      });
+  }, [mode]);
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      Alert.alert("Error", useRecoveryCode ? "Please enter a recovery code" : "Please enter your code");
+      return;
+    }
+
+    try {
+      await verifyTwoFactor(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+      // Navigation will be handled by the root layout based on auth state
+    } catch (err) {
+      // Error is already set in auth context
+      console.error("[TwoFactor] Verify error:", err);
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    if (!code.trim()) {
+      Alert.alert("Error", "Please enter the code from your authenticator app");
+      return;
+    }
+
+    setIsWorking(true);
+    setSetupError(null);
+    try {
+      setRecoveryCodes(await completeTwoFactorSetup(code.trim()));
+    } catch (err) {
+      console.error("[TwoFactor] Confirm error:", err);
+      setSetupError(err instanceof Error ? err.message : "Could not enable two-factor authentication");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelTwoFactor();
+    router.replace("/login");
+  };
+
+  const title = recoveryCodes
+    ? "Save your recovery codes"
+    : mode === "setup"
+      ? "Set up two-factor"
+      : "Two-factor verification";
+  const subtitle = recoveryCodes
+    ? "Each code works once if you lose your phone. They won't be shown again."
+    : mode === "setup"
+      ? "Your role requires an authenticator app to sign in"
+      : useRecoveryCode
+        ? "Enter one of your saved recovery codes"
+        : "Enter the 6-digit code from your authenticator app";
+
+  return (
+    <ScreenContainer edges={["top", "left", "right", "bottom"]} className="bg-background">
+      <ScrollView contentContainerStyle={{ flexGrow: 1 }} className="flex-1">
+        <View className="flex-1 justify-center px-6 py-8">
+          {/* Header */}
+          <View className="mb-8 items-center">
+            <Text className="text-3xl font-bold text-foreground mb-2">{title}</Text>
+            <Text className="text-base text-muted text-center">{subtitle}</Text>
+          </View>
+
+          {/* Error Message */}
+          {error && (
+            <View className="mb-6 bg-error/10 border border-error rounded-lg p-4">
+              <Text className="text-error font-semibold">{error}</Text>
+            </View>
+          )}
+
+          {recoveryCodes ? (
+            <>
+              <View className="mb-6 bg-surface border border-border rounded-lg p-4">
+                {recoveryCodes.map((recoveryCode) => (
+                  <Text key={recoveryCode} selectable className="text-foreground font-mono text-center py-1">
+                    {recoveryCode}
+                  </Text>
+                ))}
+              </View>
+              <Pressable
+                onPress={finishTwoFactorSetup}
+                style={({ pressed }) => [
+                  { backgroundColor: "#0a7ea4", paddingVertical: 12, borderRadius: 8, opacity: pressed ? 0.8 : 1 },
+                ]}
+              >
+                <Text className="text-white font-semibold text-center">I&apos;ve saved these codes</Text>
+              </Pressable>
+            </>
+          ) : (
+            <>
+              {mode === "setup" && (
+                <View className="mb-6">
+                  {setup ? (
+                    <>
+                      <Text className="text-sm font-semibold text-foreground mb-2">Setup key</Text>
+                      <Text selectable className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground font-mono">
+                        {setup.secret}
+                      </Text>
+                      <Pressable onPress={() => Linking.openURL(setup.otpauthUrl)} className="mt-2">
+                        <Text className="text-primary">Open in authenticator app</Text>
+                      </Pressable>
+                    </>
+                  ) : (
+                    !setupError && <ActivityIndicator />
+                  )}
+                </View>
+              )}
+
+              <View className="mb-6">
+                <Text className="text-sm font-semibold text-foreground mb-2">
+                  {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+                </Text>
+                <TextInput
+                  className="bg-surface border border-border rounded-lg px-4 py-3 text-foreground"
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  placeholderTextColor="#9BA1A6"
+                  keyboardType={useRecoveryCode ? "default" : "number-pad"}
+                  autoCapitalize="none"
+                  autoComplete={useRecoveryCode ? "off" : "one-time-code"}
+                  editable={!isWorking}
+                  value={code}
+                  onChangeText={setCode}
+                />
+              </View>
+
+              {/* Submit Button */}
+              <Pressable
+                onPress={mode === "setup" ? handleConfirmSetup : handleVerify}
+                disabled={isWorking || (mode === "setup" && !setup)}
+                style={({ pressed }) => [
+                  {
+                    backgroundColor: "#0a7ea4",
+                    paddingVertical: 12,
+                    borderRadius: 8,
+                    opacity: pressed || isWorking ? 0.8 : 1,
+                  },
+                ]}
+              >
+                <View className="flex-row items-center justify-center">
+                  {isWorking ? (
+                    <ActivityIndicator color="#ffffff" size="small" />
+                  ) : (
+                    <Text className="text-white font-semibold text-center">
+                      {mode === "setup" ? "Enable Two-Factor" : "Verify"}
+                    </Text>
+                  )}
+                </View>
+              </Pressable>
+
+              {mode === "verify" && (
+                <Pressable
+                  onPress={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  className="mt-4"
+                >
+                  <Text className="text-primary text-center">
+                    {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                  </Text>
+                </Pressable>
+              )}
+
+              <Pressable onPress={handleCancel} disabled={isWorking} className="mt-4">
+                <Text className="text-muted text-center">Back to login</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
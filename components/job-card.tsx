@@ -10,7 +10,7 @@ export interface JobCardProps {
   guestCount: number;
   hasPets: boolean;
   price: number;
-  status: "available" | "accepted" | "in_progress" | "completed" | "needs_review";
+  status: "available" | "accepted" | "in_progress" | "completed" | "needs_review" | "cancelled";
   payType?: "hourly" | "per_job";
   onPress?: () => void;
   onAccept?: () => void;
@@ -39,6 +39,7 @@ export function JobCard({
     in_progress: { label: "In Progress", bgColor: colors.warning, textColor: "#ffffff" },
     completed: { label: "Completed", bgColor: colors.success, textColor: "#ffffff" },
     needs_review: { label: "Needs Review", bgColor: colors.error, textColor: "#ffffff" },
+    cancelled: { label: "Cancelled", bgColor: colors.muted, textColor: "#ffffff" },
   };
 
   const statusInfo = statusConfig[status];
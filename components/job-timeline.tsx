@@ -0,0 +1,76 @@
+import { ActivityIndicator, Text, View } from "react-native";
+import { trpc } from "@/lib/trpc";
+
+const EVENT_LABELS: Record<string, string> = {
+  create: "Job created",
+  accept: "Accepted",
+  start: "Started",
+  complete: "Completed",
+  flag_for_review: "Flagged for review",
+  reassign: "Reassigned",
+  override_complete: "Completed by manager override",
+  resolve_conflict: "Conflict resolved",
+  cancel: "Cancelled",
+  report_access_denied: "Access denied",
+  reschedule: "Rescheduled",
+  reopen: "Reopened",
+  release: "Released by cleaner",
+  request_release: "Release requested",
+  deny_release: "Release denied",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  available: "Available",
+  accepted: "Accepted",
+  in_progress: "In Progress",
+  completed: "Completed",
+  needs_review: "Needs Review",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Job Timeline
+ * Status history of a job (who moved it, when, and why), oldest first
+ */
+export function JobTimeline({ jobId }: { jobId: string }) {
+  const { data, isLoading } = trpc.jobs.getTimeline.useQuery({ jobId }, { enabled: !!jobId });
+
+  return (
+    <View className="bg-surface border border-border rounded-lg p-4 mb-4">
+      <Text className="text-lg font-semibold text-foreground mb-3">Timeline</Text>
+
+      {isLoading ? (
+        <ActivityIndicator color="#0a7ea4" />
+      ) : !data?.entries.length ? (
+        <Text className="text-sm text-muted">No status changes recorded yet</Text>
+      ) : (
+        <View className="gap-4">
+          {data.entries.map((entry: any) => {
+            const actorName = entry.actor
+              ? [entry.actor.firstName, entry.actor.lastName].filter(Boolean).join(" ") || entry.actor.role
+              : "System";
+
+            return (
+              <View key={entry.id} className="border-l-2 border-primary pl-3">
+                <View className="flex-row justify-between">
+                  <Text className="text-sm font-semibold text-foreground">
+                    {EVENT_LABELS[entry.event] || entry.event}
+                  </Text>
+                  <Text className="text-xs text-muted">{new Date(entry.createdAt).toLocaleString()}</Text>
+                </View>
+                {entry.fromStatus && entry.fromStatus !== entry.toStatus && (
+                  <Text className="text-xs text-muted mt-1">
+                    {STATUS_LABELS[entry.fromStatus] || entry.fromStatus} →{" "}
+                    {STATUS_LABELS[entry.toStatus] || entry.toStatus}
+                  </Text>
+                )}
+                <Text className="text-xs text-muted mt-1">By {actorName}</Text>
+                {entry.reason && <Text className="text-sm text-foreground mt-1">{entry.reason}</Text>}
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,38 @@
+import { Pressable, Text, View } from "react-native";
+import { useRouter } from "expo-router";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { useColors } from "@/hooks/use-colors";
+import { trpc } from "@/lib/trpc";
+
+// How often the unread badge refreshes while the screen is open
+const UNREAD_POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Notification Bell
+ * Header button that opens the notification center, with an unread badge
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const colors = useColors();
+
+  const { data } = trpc.notifications.unreadCount.useQuery(undefined, {
+    refetchInterval: UNREAD_POLL_INTERVAL_MS,
+  });
+  const unread = data?.count ?? 0;
+
+  return (
+    <Pressable
+      onPress={() => router.push("/notifications")}
+      accessibilityRole="button"
+      accessibilityLabel={unread > 0 ? `Notifications, ${unread} unread` : "Notifications"}
+      className="p-2"
+    >
+      <IconSymbol size={26} name="bell.fill" color={colors.foreground} />
+      {unread > 0 && (
+        <View className="absolute top-0 right-0 bg-error rounded-full min-w-[18px] h-[18px] px-1 items-center justify-center">
+          <Text className="text-white text-xs font-semibold">{unread > 99 ? "99+" : unread}</Text>
+        </View>
+      )}
+    </Pressable>
+  );
+}
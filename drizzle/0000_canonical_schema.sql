@@ -0,0 +1,408 @@
+CREATE TABLE `api_keys` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`key_prefix` varchar(32) NOT NULL,
+	`key_hash` varchar(64) NOT NULL,
+	`scopes` json NOT NULL,
+	`created_by_user_id` varchar(64) NOT NULL,
+	`expires_at` timestamp,
+	`replaced_by_key_id` varchar(64),
+	`last_used_at` timestamp,
+	`last_used_ip` varchar(64),
+	`revoked_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `api_keys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `api_keys_key_hash_unique` UNIQUE(`key_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `audit_log` (
+	`id` varchar(64) NOT NULL,
+	`actor_id` varchar(64),
+	`business_id` varchar(64),
+	`action` enum('business_created','business_activated','business_suspended','user_created','user_role_changed','user_deactivated','account_locked','account_unlocked','api_key_created','api_key_rotated','api_key_revoked') NOT NULL,
+	`target_type` varchar(50) NOT NULL,
+	`target_id` varchar(255) NOT NULL,
+	`details` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audit_log_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `bookings` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`property_id` varchar(64) NOT NULL,
+	`platform` enum('guesty','hostaway','other') NOT NULL,
+	`external_booking_id` varchar(255) NOT NULL,
+	`guest_name` varchar(255) NOT NULL,
+	`guest_email` varchar(255),
+	`guest_phone` varchar(20),
+	`guest_count` int NOT NULL DEFAULT 1,
+	`has_pets` boolean NOT NULL DEFAULT false,
+	`check_in_date` timestamp NOT NULL,
+	`check_out_date` timestamp NOT NULL,
+	`booking_status` enum('confirmed','cancelled','no_show') NOT NULL DEFAULT 'confirmed',
+	`notes` text,
+	`last_synced_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `bookings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `bookings_platform_external_unique` UNIQUE(`platform`,`external_booking_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `businesses` (
+	`id` varchar(64) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`email` varchar(255) NOT NULL,
+	`phone` varchar(20),
+	`address` text,
+	`city` varchar(100),
+	`state` varchar(50),
+	`zip_code` varchar(20),
+	`country` varchar(100) DEFAULT 'US',
+	`timezone` varchar(50) DEFAULT 'America/Los_Angeles',
+	`is_sandbox` boolean NOT NULL DEFAULT false,
+	`status` enum('pending','active','suspended') NOT NULL DEFAULT 'pending',
+	`activated_at` timestamp,
+	`suspended_at` timestamp,
+	`suspension_reason` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `businesses_id` PRIMARY KEY(`id`),
+	CONSTRAINT `businesses_email_unique` UNIQUE(`email`)
+);
+--> statement-breakpoint
+CREATE TABLE `cleaning_jobs` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`booking_id` varchar(64) NOT NULL,
+	`property_id` varchar(64) NOT NULL,
+	`cleaning_date` timestamp NOT NULL,
+	`job_status` enum('available','accepted','in_progress','completed','needs_review') NOT NULL DEFAULT 'available',
+	`price` decimal(10,2) NOT NULL,
+	`instructions` text,
+	`assigned_cleaner_id` varchar(64),
+	`accepted_at` timestamp,
+	`started_at` timestamp,
+	`completed_at` timestamp,
+	`gps_start_lat` decimal(10,8),
+	`gps_start_lng` decimal(11,8),
+	`gps_end_lat` decimal(10,8),
+	`gps_end_lng` decimal(11,8),
+	`invoice_id` varchar(64),
+	`access_denied` boolean NOT NULL DEFAULT false,
+	`pay_type` enum('hourly','per_job') DEFAULT 'per_job',
+	`overridden_by` varchar(64),
+	`override_reason` text,
+	`overridden_at` timestamp,
+	`override_status` varchar(50),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `cleaning_jobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `cleaning_jobs_booking_id_unique` UNIQUE(`booking_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `damage_photos` (
+	`id` varchar(64) NOT NULL,
+	`damage_report_id` varchar(64) NOT NULL,
+	`uri` text NOT NULL,
+	`uploaded_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `damage_photos_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `damage_reports` (
+	`id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`description` text NOT NULL,
+	`damage_severity` enum('minor','moderate','severe') NOT NULL DEFAULT 'minor',
+	`reported_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `damage_reports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `inventory_items` (
+	`id` varchar(64) NOT NULL,
+	`property_id` varchar(64) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`quantity` int NOT NULL DEFAULT 1,
+	`unit` varchar(50),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `inventory_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `inventory_logs` (
+	`id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`inventory_item_id` varchar(64) NOT NULL,
+	`is_used` boolean NOT NULL DEFAULT false,
+	`notes` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `inventory_logs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `invoice_line_item_void_audit` (
+	`id` varchar(64) NOT NULL,
+	`line_item_id` varchar(64) NOT NULL,
+	`invoice_id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`void_reason` text NOT NULL,
+	`voided_by` varchar(64) NOT NULL,
+	`voided_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `invoice_line_item_void_audit_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `invoice_line_items` (
+	`id` varchar(64) NOT NULL,
+	`invoice_id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`price` decimal(10,2) NOT NULL,
+	`adjusted_price` decimal(10,2),
+	`is_voided` boolean NOT NULL DEFAULT false,
+	`void_reason` text,
+	`voided_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `invoice_line_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `invoices` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`cleaner_id` varchar(64) NOT NULL,
+	`invoice_status` enum('open','submitted','approved','paid') NOT NULL DEFAULT 'open',
+	`invoice_cycle` enum('1st','15th','bi_weekly') NOT NULL DEFAULT 'bi_weekly',
+	`pay_type` enum('hourly','per_job') NOT NULL DEFAULT 'per_job',
+	`period_start` timestamp NOT NULL,
+	`period_end` timestamp NOT NULL,
+	`total_amount` decimal(10,2) NOT NULL DEFAULT '0',
+	`pdf_url` text,
+	`submitted_at` timestamp,
+	`approved_at` timestamp,
+	`paid_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `invoices_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `job_chat` (
+	`id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`sender_id` varchar(64) NOT NULL,
+	`message` text NOT NULL,
+	`is_read` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `job_chat_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `login_throttles` (
+	`id` varchar(64) NOT NULL,
+	`scope` enum('email','ip') NOT NULL,
+	`throttle_key` varchar(255) NOT NULL,
+	`failure_count` int NOT NULL DEFAULT 0,
+	`last_failure_at` timestamp,
+	`locked_until` timestamp,
+	`lockout_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `login_throttles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `login_throttles_scope_key_unique` UNIQUE(`scope`,`throttle_key`)
+);
+--> statement-breakpoint
+CREATE TABLE `media` (
+	`id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`media_type` enum('photo','video') NOT NULL,
+	`uri` text NOT NULL,
+	`room` varchar(100),
+	`is_required` boolean NOT NULL DEFAULT false,
+	`uploaded_at` timestamp NOT NULL DEFAULT (now()),
+	`is_voided` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `media_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `media_void_audit` (
+	`id` varchar(64) NOT NULL,
+	`media_id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`void_reason` text NOT NULL,
+	`voided_by` varchar(64) NOT NULL,
+	`voided_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `media_void_audit_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `notifications` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`user_id` varchar(64) NOT NULL,
+	`notification_type` enum('job_assigned','job_accepted','job_completed','damage_reported','message','invoice_ready') NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`message` text,
+	`related_job_id` varchar(64),
+	`is_read` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `password_reset_tokens` (
+	`id` varchar(64) NOT NULL,
+	`user_id` varchar(64) NOT NULL,
+	`token_hash` varchar(128) NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	`used_at` timestamp,
+	`requested_ip` varchar(64),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `password_reset_tokens_id` PRIMARY KEY(`id`),
+	CONSTRAINT `password_reset_tokens_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `pms_sync_log` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`platform` enum('guesty','hostaway','other') NOT NULL,
+	`last_sync_at` timestamp NOT NULL DEFAULT (now()),
+	`bookings_count` int NOT NULL DEFAULT 0,
+	`jobs_created_count` int NOT NULL DEFAULT 0,
+	`jobs_updated_count` int NOT NULL DEFAULT 0,
+	`sync_status` varchar(50) NOT NULL DEFAULT 'success',
+	`error_message` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `pms_sync_log_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `properties` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`address` text NOT NULL,
+	`city` varchar(100),
+	`state` varchar(50),
+	`zip_code` varchar(20),
+	`country` varchar(100) DEFAULT 'US',
+	`latitude` decimal(10,8),
+	`longitude` decimal(11,8),
+	`unit_type` varchar(100),
+	`notes` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `properties_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `user_invitations` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`email` varchar(255) NOT NULL,
+	`role` enum('founder','super_manager','manager','cleaner') NOT NULL DEFAULT 'cleaner',
+	`pay_type` enum('hourly','per_job') DEFAULT 'per_job',
+	`token_hash` varchar(128) NOT NULL,
+	`invited_by_user_id` varchar(64) NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	`send_count` int NOT NULL DEFAULT 1,
+	`last_sent_at` timestamp NOT NULL DEFAULT (now()),
+	`accepted_at` timestamp,
+	`accepted_user_id` varchar(64),
+	`revoked_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_invitations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `user_invitations_token_hash_unique` UNIQUE(`token_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `user_sessions` (
+	`id` varchar(64) NOT NULL,
+	`user_id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`refresh_token_hash` varchar(128) NOT NULL,
+	`device_name` varchar(100),
+	`platform` varchar(20),
+	`ip_address` varchar(64),
+	`user_agent` varchar(255),
+	`expires_at` timestamp NOT NULL,
+	`last_seen_at` timestamp NOT NULL DEFAULT (now()),
+	`revoked_at` timestamp,
+	`revoked_reason` varchar(50),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_sessions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `user_sessions_refresh_token_hash_unique` UNIQUE(`refresh_token_hash`)
+);
+--> statement-breakpoint
+CREATE TABLE `user_two_factor` (
+	`user_id` varchar(64) NOT NULL,
+	`secret_encrypted` text NOT NULL,
+	`enabled_at` timestamp,
+	`last_used_step` int,
+	`recovery_code_hashes` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_two_factor_user_id` PRIMARY KEY(`user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`email` varchar(255) NOT NULL,
+	`password_hash` text NOT NULL,
+	`first_name` varchar(100),
+	`last_name` varchar(100),
+	`phone` varchar(20),
+	`role` enum('founder','super_manager','manager','cleaner') NOT NULL DEFAULT 'cleaner',
+	`pay_type` enum('hourly','per_job') DEFAULT 'per_job',
+	`is_active` boolean NOT NULL DEFAULT true,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `users_id` PRIMARY KEY(`id`),
+	CONSTRAINT `users_business_email_unique` UNIQUE(`business_id`,`email`)
+);
+--> statement-breakpoint
+CREATE INDEX `api_keys_business_id_idx` ON `api_keys` (`business_id`);--> statement-breakpoint
+CREATE INDEX `audit_log_actor_id_idx` ON `audit_log` (`actor_id`);--> statement-breakpoint
+CREATE INDEX `audit_log_business_id_idx` ON `audit_log` (`business_id`);--> statement-breakpoint
+CREATE INDEX `audit_log_action_idx` ON `audit_log` (`action`);--> statement-breakpoint
+CREATE INDEX `audit_log_target_id_idx` ON `audit_log` (`target_id`);--> statement-breakpoint
+CREATE INDEX `audit_log_created_at_idx` ON `audit_log` (`created_at`);--> statement-breakpoint
+CREATE INDEX `bookings_business_id_idx` ON `bookings` (`business_id`);--> statement-breakpoint
+CREATE INDEX `bookings_property_id_idx` ON `bookings` (`property_id`);--> statement-breakpoint
+CREATE INDEX `bookings_check_out_date_idx` ON `bookings` (`check_out_date`);--> statement-breakpoint
+CREATE INDEX `cleaning_jobs_business_id_idx` ON `cleaning_jobs` (`business_id`);--> statement-breakpoint
+CREATE INDEX `cleaning_jobs_booking_id_idx` ON `cleaning_jobs` (`booking_id`);--> statement-breakpoint
+CREATE INDEX `cleaning_jobs_property_id_idx` ON `cleaning_jobs` (`property_id`);--> statement-breakpoint
+CREATE INDEX `cleaning_jobs_assigned_cleaner_id_idx` ON `cleaning_jobs` (`assigned_cleaner_id`);--> statement-breakpoint
+CREATE INDEX `cleaning_jobs_status_idx` ON `cleaning_jobs` (`job_status`);--> statement-breakpoint
+CREATE INDEX `cleaning_jobs_cleaning_date_idx` ON `cleaning_jobs` (`cleaning_date`);--> statement-breakpoint
+CREATE INDEX `damage_photos_damage_report_id_idx` ON `damage_photos` (`damage_report_id`);--> statement-breakpoint
+CREATE INDEX `damage_reports_job_id_idx` ON `damage_reports` (`job_id`);--> statement-breakpoint
+CREATE INDEX `inventory_items_property_id_idx` ON `inventory_items` (`property_id`);--> statement-breakpoint
+CREATE INDEX `inventory_logs_job_id_idx` ON `inventory_logs` (`job_id`);--> statement-breakpoint
+CREATE INDEX `inventory_logs_inventory_item_id_idx` ON `inventory_logs` (`inventory_item_id`);--> statement-breakpoint
+CREATE INDEX `invoice_line_item_void_audit_line_item_id_idx` ON `invoice_line_item_void_audit` (`line_item_id`);--> statement-breakpoint
+CREATE INDEX `invoice_line_item_void_audit_invoice_id_idx` ON `invoice_line_item_void_audit` (`invoice_id`);--> statement-breakpoint
+CREATE INDEX `invoice_line_item_void_audit_job_id_idx` ON `invoice_line_item_void_audit` (`job_id`);--> statement-breakpoint
+CREATE INDEX `invoice_line_item_void_audit_voided_by_idx` ON `invoice_line_item_void_audit` (`voided_by`);--> statement-breakpoint
+CREATE INDEX `invoice_line_items_invoice_id_idx` ON `invoice_line_items` (`invoice_id`);--> statement-breakpoint
+CREATE INDEX `invoice_line_items_job_id_idx` ON `invoice_line_items` (`job_id`);--> statement-breakpoint
+CREATE INDEX `invoices_business_id_idx` ON `invoices` (`business_id`);--> statement-breakpoint
+CREATE INDEX `invoices_cleaner_id_idx` ON `invoices` (`cleaner_id`);--> statement-breakpoint
+CREATE INDEX `invoices_status_idx` ON `invoices` (`invoice_status`);--> statement-breakpoint
+CREATE INDEX `job_chat_job_id_idx` ON `job_chat` (`job_id`);--> statement-breakpoint
+CREATE INDEX `job_chat_sender_id_idx` ON `job_chat` (`sender_id`);--> statement-breakpoint
+CREATE INDEX `media_job_id_idx` ON `media` (`job_id`);--> statement-breakpoint
+CREATE INDEX `media_void_audit_media_id_idx` ON `media_void_audit` (`media_id`);--> statement-breakpoint
+CREATE INDEX `media_void_audit_job_id_idx` ON `media_void_audit` (`job_id`);--> statement-breakpoint
+CREATE INDEX `media_void_audit_voided_by_idx` ON `media_void_audit` (`voided_by`);--> statement-breakpoint
+CREATE INDEX `notifications_business_id_idx` ON `notifications` (`business_id`);--> statement-breakpoint
+CREATE INDEX `notifications_user_id_idx` ON `notifications` (`user_id`);--> statement-breakpoint
+CREATE INDEX `notifications_related_job_id_idx` ON `notifications` (`related_job_id`);--> statement-breakpoint
+CREATE INDEX `password_reset_tokens_user_id_idx` ON `password_reset_tokens` (`user_id`);--> statement-breakpoint
+CREATE INDEX `pms_sync_log_business_id_idx` ON `pms_sync_log` (`business_id`);--> statement-breakpoint
+CREATE INDEX `pms_sync_log_platform_idx` ON `pms_sync_log` (`platform`);--> statement-breakpoint
+CREATE INDEX `properties_business_id_idx` ON `properties` (`business_id`);--> statement-breakpoint
+CREATE INDEX `user_invitations_business_id_idx` ON `user_invitations` (`business_id`);--> statement-breakpoint
+CREATE INDEX `user_invitations_email_idx` ON `user_invitations` (`email`);--> statement-breakpoint
+CREATE INDEX `user_sessions_user_id_idx` ON `user_sessions` (`user_id`);--> statement-breakpoint
+CREATE INDEX `users_business_id_idx` ON `users` (`business_id`);--> statement-breakpoint
+CREATE INDEX `users_role_idx` ON `users` (`role`);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `job_status_history` (
+	`id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`event` varchar(50) NOT NULL,
+	`from_status` enum('available','accepted','in_progress','completed','needs_review'),
+	`to_status` enum('available','accepted','in_progress','completed','needs_review') NOT NULL,
+	`actor_id` varchar(64),
+	`reason` text,
+	`gps_lat` decimal(10,8),
+	`gps_lng` decimal(11,8),
+	`details` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `job_status_history_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `job_status_history_job_id_idx` ON `job_status_history` (`job_id`);--> statement-breakpoint
+CREATE INDEX `job_status_history_business_id_idx` ON `job_status_history` (`business_id`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE `cleaning_jobs` MODIFY COLUMN `job_status` enum('available','accepted','in_progress','completed','needs_review','cancelled') NOT NULL DEFAULT 'available';--> statement-breakpoint
+ALTER TABLE `job_status_history` MODIFY COLUMN `from_status` enum('available','accepted','in_progress','completed','needs_review','cancelled');--> statement-breakpoint
+ALTER TABLE `job_status_history` MODIFY COLUMN `to_status` enum('available','accepted','in_progress','completed','needs_review','cancelled') NOT NULL;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `cancelled_at` timestamp;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `cancelled_by` varchar(64);--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `cancellation_reason` text;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `cancellation_fee` decimal(10,2);--> statement-breakpoint
+ALTER TABLE `invoice_line_items` ADD `line_item_type` enum('job','cancellation_fee') DEFAULT 'job' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `invoice_line_items` MODIFY COLUMN `line_item_type` enum('job','cancellation_fee','trip_fee') NOT NULL DEFAULT 'job';--> statement-breakpoint
+ALTER TABLE `businesses` ADD `access_denied_trip_fee` decimal(10,2);--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `access_denied_at` timestamp;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `access_denied_reason` enum('guest_present','lockbox_code_wrong','key_missing','no_answer','other');--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `access_denied_notes` text;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `access_denied_photo_id` varchar(64);--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `trip_fee` decimal(10,2);
\ No newline at end of file
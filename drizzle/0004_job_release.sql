@@ -0,0 +1,5 @@
+ALTER TABLE `businesses` ADD `job_release_cutoff_hours` int DEFAULT 12 NOT NULL;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `release_requested_at` timestamp;--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `release_requested_by` varchar(64);--> statement-breakpoint
+ALTER TABLE `cleaning_jobs` ADD `release_reason` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `release_count` int DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `notifications` MODIFY COLUMN `notification_type` enum('job_assigned','job_accepted','job_completed','damage_reported','message','invoice_ready','job_available','job_started','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied') NOT NULL;--> statement-breakpoint
+UPDATE `notifications` SET `notification_type` = 'message_received' WHERE `notification_type` = 'message';--> statement-breakpoint
+UPDATE `notifications` SET `notification_type` = 'invoice_period_ready' WHERE `notification_type` = 'invoice_ready';--> statement-breakpoint
+ALTER TABLE `notifications` MODIFY COLUMN `notification_type` enum('job_available','job_assigned','job_accepted','job_started','job_completed','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','damage_reported','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied') NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` ADD `is_critical` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` ADD `read_at` timestamp;--> statement-breakpoint
+CREATE INDEX `notifications_user_created_idx` ON `notifications` (`user_id`,`created_at`);
\ No newline at end of file
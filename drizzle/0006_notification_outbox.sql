@@ -0,0 +1,19 @@
+CREATE TABLE `notification_outbox` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`notification_type` enum('job_available','job_assigned','job_accepted','job_started','job_completed','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','damage_reported','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied') NOT NULL,
+	`channel` enum('in_app','push') NOT NULL,
+	`event` json NOT NULL,
+	`recipient_ids` json NOT NULL,
+	`status` enum('pending','delivered','dead') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`next_attempt_at` timestamp NOT NULL DEFAULT (now()),
+	`locked_until` timestamp,
+	`last_error` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`delivered_at` timestamp,
+	CONSTRAINT `notification_outbox_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `notification_outbox_business_id_idx` ON `notification_outbox` (`business_id`);--> statement-breakpoint
+CREATE INDEX `notification_outbox_due_idx` ON `notification_outbox` (`status`,`next_attempt_at`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `push_tickets` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`token` varchar(255) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `push_tickets_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `push_tokens` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`user_id` varchar(64) NOT NULL,
+	`token` varchar(255) NOT NULL,
+	`platform` enum('ios','android','web') NOT NULL,
+	`device_name` varchar(255),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `push_tokens_id` PRIMARY KEY(`id`),
+	CONSTRAINT `push_tokens_token_unique` UNIQUE(`token`)
+);
+--> statement-breakpoint
+CREATE INDEX `push_tickets_created_at_idx` ON `push_tickets` (`created_at`);--> statement-breakpoint
+CREATE INDEX `push_tokens_user_id_idx` ON `push_tokens` (`user_id`);
\ No newline at end of file
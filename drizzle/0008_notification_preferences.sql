@@ -0,0 +1,22 @@
+CREATE TABLE `notification_job_mutes` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`user_id` varchar(64) NOT NULL,
+	`job_id` varchar(64) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notification_job_mutes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `notification_job_mutes_user_job_unique` UNIQUE(`user_id`,`job_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `notification_preferences` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`user_id` varchar(64) NOT NULL,
+	`quiet_hours_start` varchar(5),
+	`quiet_hours_end` varchar(5),
+	`channel_opt_outs` json,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_preferences_id` PRIMARY KEY(`id`),
+	CONSTRAINT `notification_preferences_user_id_unique` UNIQUE(`user_id`)
+);
@@ -0,0 +1 @@
+ALTER TABLE `notification_outbox` MODIFY COLUMN `channel` enum('in_app','push','email','sms') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `notification_rule_overrides` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`notification_type` enum('job_available','job_assigned','job_accepted','job_started','job_completed','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','damage_reported','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied') NOT NULL,
+	`rule_role` enum('super_manager','manager','cleaner') NOT NULL,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`recipient_roles` json,
+	`is_critical` boolean,
+	`channels` json,
+	`title_template` varchar(255),
+	`message_template` text,
+	`updated_by` varchar(64) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_rule_overrides_id` PRIMARY KEY(`id`),
+	CONSTRAINT `notification_rule_overrides_rule_unique` UNIQUE(`business_id`,`notification_type`,`rule_role`)
+);
@@ -0,0 +1,14 @@
+CREATE TABLE `notification_digest_runs` (
+	`id` varchar(64) NOT NULL,
+	`business_id` varchar(64) NOT NULL,
+	`kind` enum('cleaner','manager') NOT NULL,
+	`run_date` varchar(10) NOT NULL,
+	`event_count` int NOT NULL DEFAULT 0,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notification_digest_runs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `notification_digest_runs_run_unique` UNIQUE(`business_id`,`kind`,`run_date`)
+);
+--> statement-breakpoint
+ALTER TABLE `notification_outbox` MODIFY COLUMN `notification_type` enum('job_available','job_assigned','job_accepted','job_started','job_completed','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','damage_reported','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied','cleaner_daily_digest','manager_daily_digest') NOT NULL;--> statement-breakpoint
+ALTER TABLE `notification_rule_overrides` MODIFY COLUMN `notification_type` enum('job_available','job_assigned','job_accepted','job_started','job_completed','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','damage_reported','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied','cleaner_daily_digest','manager_daily_digest') NOT NULL;--> statement-breakpoint
+ALTER TABLE `notifications` MODIFY COLUMN `notification_type` enum('job_available','job_assigned','job_accepted','job_started','job_completed','job_cancelled','job_reassigned','job_released','job_release_requested','job_release_decided','damage_reported','cleaner_removed','cleaner_override_request','gps_mismatch','booking_date_changed','invoice_submitted','invoice_period_ready','message_received','chat_locked','access_denied','cleaner_daily_digest','manager_daily_digest') NOT NULL;
\ No newline at end of file
@@ -10,6 +10,7 @@ import {
   index,
   unique,
   primaryKey,
+  json,
 } from "drizzle-orm/mysql-core";
 import { relations } from "drizzle-orm";
 
@@ -17,14 +18,23 @@ import { relations } from "drizzle-orm";
 // ENUMS
 // ============================================================================
 
-export const roleEnum = mysqlEnum("role", ["super_manager", "manager", "cleaner"]);
-export const jobStatusEnum = mysqlEnum("job_status", [
+export const roleEnum = mysqlEnum("role", ["founder", "super_manager", "manager", "cleaner"]);
+export const JOB_STATUSES = [
   "available",
   "accepted",
   "in_progress",
   "completed",
   "needs_review",
-]);
+  "cancelled",
+] as const;
+export const jobStatusEnum = mysqlEnum("job_status", JOB_STATUSES);
+export const ACCESS_DENIED_REASONS = [
+  "guest_present",
+  "lockbox_code_wrong",
+  "key_missing",
+  "no_answer",
+  "other",
+] as const;
 export const bookingStatusEnum = mysqlEnum("booking_status", [
   "confirmed",
   "cancelled",
@@ -40,15 +50,54 @@ export const invoiceStatusEnum = mysqlEnum("invoice_status", [
 export const invoiceCycleEnum = mysqlEnum("invoice_cycle", ["1st", "15th", "bi_weekly"]);
 export const payTypeEnum = mysqlEnum("pay_type", ["hourly", "per_job"]);
 export const damageSeverityEnum = mysqlEnum("damage_severity", ["minor", "moderate", "severe"]);
+export const invoiceLineItemTypeEnum = mysqlEnum("line_item_type", ["job", "cancellation_fee", "trip_fee"]);
 export const mediaTypeEnum = mysqlEnum("media_type", ["photo", "video"]);
-export const notificationTypeEnum = mysqlEnum("notification_type", [
+export const auditActionEnum = mysqlEnum("action", [
+  "business_created",
+  "business_activated",
+  "business_suspended",
+  "user_created",
+  "user_role_changed",
+  "user_deactivated",
+  "account_locked",
+  "account_unlocked",
+  "api_key_created",
+  "api_key_rotated",
+  "api_key_revoked",
+]);
+export const businessStatusEnum = mysqlEnum("status", ["pending", "active", "suspended"]);
+export const loginThrottleScopeEnum = mysqlEnum("scope", ["email", "ip"]);
+// One per NotificationEvent type (server/notifications/events.ts)
+export const NOTIFICATION_TYPES = [
+  "job_available",
   "job_assigned",
   "job_accepted",
+  "job_started",
   "job_completed",
+  "job_cancelled",
+  "job_reassigned",
+  "job_released",
+  "job_release_requested",
+  "job_release_decided",
   "damage_reported",
-  "message",
-  "invoice_ready",
-]);
+  "cleaner_removed",
+  "cleaner_override_request",
+  "gps_mismatch",
+  "booking_date_changed",
+  "invoice_submitted",
+  "invoice_period_ready",
+  "message_received",
+  "chat_locked",
+  "access_denied",
+  "cleaner_daily_digest",
+  "manager_daily_digest",
+] as const;
+export const notificationTypeEnum = mysqlEnum("notification_type", NOTIFICATION_TYPES);
+export const NOTIFICATION_CHANNELS = ["in_app", "push", "email", "sms"] as const;
+export const notificationChannelEnum = mysqlEnum("channel", NOTIFICATION_CHANNELS);
+export const outboxStatusEnum = mysqlEnum("status", ["pending", "delivered", "dead"]);
+export const PUSH_PLATFORMS = ["ios", "android", "web"] as const;
+export const pushPlatformEnum = mysqlEnum("platform", PUSH_PLATFORMS);
 
 // ============================================================================
 // BUSINESSES
@@ -65,7 +114,13 @@ export const businesses = mysqlTable("businesses", {
   zipCode: varchar("zip_code", { length: 20 }),
   country: varchar("country", { length: 100 }).default("US"),
   timezone: varchar("timezone", { length: 50 }).default("America/Los_Angeles"),
+  accessDeniedTripFee: decimal("access_denied_trip_fee", { precision: 10, scale: 2 }), // Paid when a cleaner is turned away at the door (null = none)
+  jobReleaseCutoffHours: int("job_release_cutoff_hours").notNull().default(12), // Cleaner releases closer to the cleaning need manager approval
   isSandbox: boolean("is_sandbox").notNull().default(false), // Sandbox isolation flag (default: production)
+  status: businessStatusEnum.notNull().default("pending"), // Pending until a founder activates it
+  activatedAt: timestamp("activated_at"),
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
 });
@@ -90,6 +145,7 @@ export const users = mysqlTable(
     role: roleEnum.notNull().default("cleaner"),
     payType: payTypeEnum.default("per_job"), // Cleaner's default pay type (hourly or per_job)
     isActive: boolean("is_active").notNull().default(true),
+    releaseCount: int("release_count").notNull().default(0), // Accepted jobs the cleaner has handed back
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
   },
@@ -103,6 +159,194 @@ export const users = mysqlTable(
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+// ============================================================================
+// USER SESSIONS (Signed access token + rotating refresh token)
+// ============================================================================
+
+export const userSessions = mysqlTable(
+  "user_sessions",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 }).notNull(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    refreshTokenHash: varchar("refresh_token_hash", { length: 128 }).notNull(), // SHA-256 of refresh token (never stored raw)
+    deviceName: varchar("device_name", { length: 100 }), // Client-reported, e.g. "Samsung SM-G991U"
+    platform: varchar("platform", { length: 20 }), // "ios", "android", "web"
+    ipAddress: varchar("ip_address", { length: 64 }), // Last seen IP
+    userAgent: varchar("user_agent", { length: 255 }),
+    expiresAt: timestamp("expires_at").notNull(), // Refresh token expiry
+    lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+    revokedAt: timestamp("revoked_at"), // Set on logout / forced sign-out
+    revokedReason: varchar("revoked_reason", { length: 50 }), // "logout", "password_reset", "revoked_by_user", "revoked_by_manager", etc.
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    userIdx: index("user_sessions_user_id_idx").on(table.userId),
+    refreshTokenIdx: unique("user_sessions_refresh_token_hash_unique").on(table.refreshTokenHash),
+  })
+);
+
+export type UserSession = typeof userSessions.$inferSelect;
+export type InsertUserSession = typeof userSessions.$inferInsert;
+
+// ============================================================================
+// USER INVITATIONS (Manager-issued, one-time token)
+// ============================================================================
+
+export const userInvitations = mysqlTable(
+  "user_invitations",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    role: roleEnum.notNull().default("cleaner"), // Never super_manager
+    payType: payTypeEnum.default("per_job"),
+    tokenHash: varchar("token_hash", { length: 128 }).notNull(), // SHA-256 of invite token (never stored raw)
+    invitedByUserId: varchar("invited_by_user_id", { length: 64 }).notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    sendCount: int("send_count").notNull().default(1),
+    lastSentAt: timestamp("last_sent_at").notNull().defaultNow(),
+    acceptedAt: timestamp("accepted_at"),
+    acceptedUserId: varchar("accepted_user_id", { length: 64 }),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    businessIdx: index("user_invitations_business_id_idx").on(table.businessId),
+    emailIdx: index("user_invitations_email_idx").on(table.email),
+    tokenHashIdx: unique("user_invitations_token_hash_unique").on(table.tokenHash),
+  })
+);
+
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type InsertUserInvitation = typeof userInvitations.$inferInsert;
+
+// ============================================================================
+// PASSWORD RESET TOKENS (One-time, expiring)
+// ============================================================================
+
+export const passwordResetTokens = mysqlTable(
+  "password_reset_tokens",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 }).notNull(),
+    tokenHash: varchar("token_hash", { length: 128 }).notNull(), // SHA-256 of reset token (never stored raw)
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"), // Set on successful reset or when superseded
+    requestedIp: varchar("requested_ip", { length: 64 }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    userIdx: index("password_reset_tokens_user_id_idx").on(table.userId),
+    tokenHashIdx: unique("password_reset_tokens_token_hash_unique").on(table.tokenHash),
+  })
+);
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+
+// ============================================================================
+// USER TWO-FACTOR (TOTP)
+// ============================================================================
+
+export const userTwoFactor = mysqlTable("user_two_factor", {
+  userId: varchar("user_id", { length: 64 }).primaryKey(),
+  secretEncrypted: text("secret_encrypted").notNull(), // AES-256-GCM, key derived from COOKIE_SECRET
+  enabledAt: timestamp("enabled_at"), // Null while enrollment is pending confirmation
+  lastUsedStep: int("last_used_step"), // Last accepted TOTP time step (prevents code replay)
+  recoveryCodeHashes: json("recovery_code_hashes").$type<string[]>(), // SHA-256 of unused recovery codes
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type InsertUserTwoFactor = typeof userTwoFactor.$inferInsert;
+
+// ============================================================================
+// API KEYS (Machine clients of the integrations router)
+// ============================================================================
+
+export const apiKeys = mysqlTable(
+  "api_keys",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    name: varchar("name", { length: 100 }).notNull(), // e.g. "Guesty sync"
+    keyPrefix: varchar("key_prefix", { length: 32 }).notNull(), // First characters of the key, shown in listings
+    keyHash: varchar("key_hash", { length: 64 }).notNull().unique(), // SHA-256 of the full key
+    scopes: json("scopes").$type<string[]>().notNull(), // e.g. ["jobs:write", "invoices:read"]
+    createdByUserId: varchar("created_by_user_id", { length: 64 }).notNull(),
+    expiresAt: timestamp("expires_at"), // Null = no expiry; set on the old key during rotation
+    replacedByKeyId: varchar("replaced_by_key_id", { length: 64 }),
+    lastUsedAt: timestamp("last_used_at"),
+    lastUsedIp: varchar("last_used_ip", { length: 64 }),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    businessIdx: index("api_keys_business_id_idx").on(table.businessId),
+  })
+);
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = typeof apiKeys.$inferInsert;
+
+// ============================================================================
+// LOGIN THROTTLES (Per-email and per-IP failed login tracking)
+// ============================================================================
+
+export const loginThrottles = mysqlTable(
+  "login_throttles",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    scope: loginThrottleScopeEnum.notNull(),
+    throttleKey: varchar("throttle_key", { length: 255 }).notNull(), // Normalized email or client IP
+    failureCount: int("failure_count").notNull().default(0), // Consecutive failures in the current window
+    lastFailureAt: timestamp("last_failure_at"),
+    lockedUntil: timestamp("locked_until"), // Temporary lockout; null when not locked
+    lockoutCount: int("lockout_count").notNull().default(0), // Lifetime lockouts (lengthens each lockout)
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    scopeKeyIdx: unique("login_throttles_scope_key_unique").on(table.scope, table.throttleKey),
+  })
+);
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type InsertLoginThrottle = typeof loginThrottles.$inferInsert;
+
+// ============================================================================
+// AUDIT LOG (Append-only)
+// ============================================================================
+
+export const auditLog = mysqlTable(
+  "audit_log",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    actorId: varchar("actor_id", { length: 64 }), // Null for system actions (e.g. automatic lockout)
+    businessId: varchar("business_id", { length: 64 }), // Null for platform-level targets
+    action: auditActionEnum.notNull(),
+    targetType: varchar("target_type", { length: 50 }).notNull(), // "business", "user", "login_email", "login_ip"
+    targetId: varchar("target_id", { length: 255 }).notNull(),
+    details: json("details"), // JSON object with action-specific details
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    actorIdx: index("audit_log_actor_id_idx").on(table.actorId),
+    businessIdx: index("audit_log_business_id_idx").on(table.businessId),
+    actionIdx: index("audit_log_action_idx").on(table.action),
+    targetIdx: index("audit_log_target_id_idx").on(table.targetId),
+    createdIdx: index("audit_log_created_at_idx").on(table.createdAt),
+  })
+);
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+
 // ============================================================================
 // PROPERTIES
 // ============================================================================
@@ -197,11 +441,23 @@ export const cleaningJobs = mysqlTable(
     gpsEndLng: decimal("gps_end_lng", { precision: 11, scale: 8 }),
     invoiceId: varchar("invoice_id", { length: 64 }), // Link to invoice after completion
     accessDenied: boolean("access_denied").notNull().default(false), // Guest present, job not started
+    accessDeniedAt: timestamp("access_denied_at"),
+    accessDeniedReason: mysqlEnum("access_denied_reason", ACCESS_DENIED_REASONS),
+    accessDeniedNotes: text("access_denied_notes"),
+    accessDeniedPhotoId: varchar("access_denied_photo_id", { length: 64 }), // Media row proving the cleaner was turned away
+    tripFee: decimal("trip_fee", { precision: 10, scale: 2 }), // Paid to the cleaner for the latest wasted trip (null = none)
+    releaseRequestedAt: timestamp("release_requested_at"), // Cleaner asked to hand the job back inside the cutoff
+    releaseRequestedBy: varchar("release_requested_by", { length: 64 }),
+    releaseReason: text("release_reason"),
     payTypeOverride: payTypeEnum, // Manager override for this job's pay type (nullable = use cleaner's default)
     overriddenBy: varchar("overridden_by", { length: 64 }), // Manager who overrode completion
     overrideReason: text("override_reason"), // Why manager overrode (required)
     overriddenAt: timestamp("overridden_at"), // When override occurred
     overrideStatus: varchar("override_status", { length: 50 }), // Explicit: "completed" or "needs_review"
+    cancelledAt: timestamp("cancelled_at"),
+    cancelledBy: varchar("cancelled_by", { length: 64 }), // Manager who cancelled
+    cancellationReason: text("cancellation_reason"), // Why the job was cancelled (required)
+    cancellationFee: decimal("cancellation_fee", { precision: 10, scale: 2 }), // Paid to the assigned cleaner (null = none)
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
   },
@@ -216,8 +472,38 @@ export const cleaningJobs = mysqlTable(
 );
 
 export type CleaningJob = typeof cleaningJobs.$inferSelect;
+export type AccessDeniedReason = (typeof ACCESS_DENIED_REASONS)[number];
 export type InsertCleaningJob = typeof cleaningJobs.$inferInsert;
 
+// ============================================================================
+// JOB STATUS HISTORY (Append-only, one row per transition)
+// ============================================================================
+
+export const jobStatusHistory = mysqlTable(
+  "job_status_history",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    jobId: varchar("job_id", { length: 64 }).notNull(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    event: varchar("event", { length: 50 }).notNull(), // "accept", "start", "complete", "reassign", … (see server/jobs/state-machine.ts)
+    fromStatus: mysqlEnum("from_status", JOB_STATUSES), // Null when the job is created
+    toStatus: mysqlEnum("to_status", JOB_STATUSES).notNull(),
+    actorId: varchar("actor_id", { length: 64 }), // Null for system transitions
+    reason: text("reason"),
+    gpsLat: decimal("gps_lat", { precision: 10, scale: 8 }),
+    gpsLng: decimal("gps_lng", { precision: 11, scale: 8 }),
+    details: json("details"), // Event-specific data (e.g. previous cleaner on reassign)
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    jobIdx: index("job_status_history_job_id_idx").on(table.jobId),
+    businessIdx: index("job_status_history_business_id_idx").on(table.businessId),
+  })
+);
+
+export type JobStatusHistoryEntry = typeof jobStatusHistory.$inferSelect;
+export type InsertJobStatusHistoryEntry = typeof jobStatusHistory.$inferInsert;
+
 // ============================================================================
 // INVENTORY (Per-property definitions)
 // ============================================================================
@@ -394,7 +680,8 @@ export const invoiceLineItems = mysqlTable(
     id: varchar("id", { length: 64 }).primaryKey(),
     invoiceId: varchar("invoice_id", { length: 64 }).notNull(),
     jobId: varchar("job_id", { length: 64 }).notNull(),
-    price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Original job price
+    type: invoiceLineItemTypeEnum.notNull().default("job"), // Job pay or a fee tied to the job
+    price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Original job price (or fee amount)
     adjustedPrice: decimal("adjusted_price", { precision: 10, scale: 2 }), // Manager override (before submission only)
     isVoided: boolean("is_voided").notNull().default(false), // Soft-void for corrections
     voidReason: text("void_reason"), // Why this line item was voided
@@ -472,19 +759,201 @@ export const notifications = mysqlTable(
     title: varchar("title", { length: 255 }).notNull(),
     message: text("message"),
     relatedJobId: varchar("related_job_id", { length: 64 }), // Link to job if applicable
+    isCritical: boolean("is_critical").notNull().default(false),
     isRead: boolean("is_read").notNull().default(false),
+    readAt: timestamp("read_at"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
   },
   (table) => ({
     businessIdx: index("notifications_business_id_idx").on(table.businessId),
     userIdx: index("notifications_user_id_idx").on(table.userId),
+    userCreatedIdx: index("notifications_user_created_idx").on(table.userId, table.createdAt), // Notification center feed
     jobIdx: index("notifications_related_job_id_idx").on(table.relatedJobId),
   })
 );
 
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = typeof notifications.$inferInsert;
 
+// ============================================================================
+// NOTIFICATION OUTBOX (Durable delivery queue, one row per event and channel)
+// ============================================================================
+
+export const notificationOutbox = mysqlTable(
+  "notification_outbox",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    type: notificationTypeEnum.notNull(),
+    channel: notificationChannelEnum.notNull(),
+    event: json("event").notNull(), // The NotificationEvent as emitted
+    recipientIds: json("recipient_ids").$type<string[]>().notNull(), // Users the event may reach
+    status: outboxStatusEnum.notNull().default("pending"),
+    attempts: int("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+    lockedUntil: timestamp("locked_until"), // Set while a worker is delivering the row
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    deliveredAt: timestamp("delivered_at"),
+  },
+  (table) => ({
+    businessIdx: index("notification_outbox_business_id_idx").on(table.businessId),
+    dueIdx: index("notification_outbox_due_idx").on(table.status, table.nextAttemptAt), // Worker polling
+  })
+);
+
+export type NotificationOutboxEntry = typeof notificationOutbox.$inferSelect;
+export type InsertNotificationOutboxEntry = typeof notificationOutbox.$inferInsert;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+// ============================================================================
+// NOTIFICATION PREFERENCES (Quiet hours and channel opt-outs, one row per user)
+// ============================================================================
+
+export const notificationPreferences = mysqlTable(
+  "notification_preferences",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    userId: varchar("user_id", { length: 64 }).notNull(),
+    quietHoursStart: varchar("quiet_hours_start", { length: 5 }), // "HH:MM" in the business timezone (null = no quiet hours)
+    quietHoursEnd: varchar("quiet_hours_end", { length: 5 }), // May be earlier than start (window crosses midnight)
+    channelOptOuts: json("channel_opt_outs").$type<Partial<Record<NotificationType, NotificationChannel[]>>>(), // Channels the user turned off, by event type
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    userIdx: unique("notification_preferences_user_id_unique").on(table.userId),
+  })
+);
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferences = typeof notificationPreferences.$inferInsert;
+
+// ============================================================================
+// NOTIFICATION JOB MUTES (Jobs a user stopped hearing about)
+// ============================================================================
+
+export const notificationJobMutes = mysqlTable(
+  "notification_job_mutes",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    userId: varchar("user_id", { length: 64 }).notNull(),
+    jobId: varchar("job_id", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    userJobIdx: unique("notification_job_mutes_user_job_unique").on(table.userId, table.jobId),
+  })
+);
+
+export type NotificationJobMute = typeof notificationJobMutes.$inferSelect;
+
+// ============================================================================
+// NOTIFICATION RULE OVERRIDES (A business's changes to a built-in notification rule)
+// ============================================================================
+
+// Roles a notification rule can address (NotificationRule.role)
+export const NOTIFICATION_RECIPIENT_ROLES = ["super_manager", "manager", "cleaner"] as const;
+export type NotificationRecipientRole = (typeof NOTIFICATION_RECIPIENT_ROLES)[number];
+
+export const notificationRuleOverrides = mysqlTable(
+  "notification_rule_overrides",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    type: notificationTypeEnum.notNull(), // With ruleRole, identifies the built-in rule
+    ruleRole: mysqlEnum("rule_role", NOTIFICATION_RECIPIENT_ROLES).notNull(),
+    // Null columns keep the built-in value
+    enabled: boolean("enabled").notNull().default(true),
+    recipientRoles: json("recipient_roles").$type<NotificationRecipientRole[]>(),
+    isCritical: boolean("is_critical"),
+    channels: json("channels").$type<NotificationChannel[]>(),
+    titleTemplate: varchar("title_template", { length: 255 }), // "{placeholder}" fields of the event
+    messageTemplate: text("message_template"), // Replaces the message and channel bodies
+    updatedBy: varchar("updated_by", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    ruleIdx: unique("notification_rule_overrides_rule_unique").on(table.businessId, table.type, table.ruleRole),
+  })
+);
+
+export type NotificationRuleOverride = typeof notificationRuleOverrides.$inferSelect;
+export type InsertNotificationRuleOverride = typeof notificationRuleOverrides.$inferInsert;
+
+// ============================================================================
+// NOTIFICATION DIGEST RUNS (One row per business, digest and local day sent)
+// ============================================================================
+
+export const DIGEST_KINDS = ["cleaner", "manager"] as const;
+export type DigestKind = (typeof DIGEST_KINDS)[number];
+
+export const notificationDigestRuns = mysqlTable(
+  "notification_digest_runs",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    kind: mysqlEnum("kind", DIGEST_KINDS).notNull(),
+    runDate: varchar("run_date", { length: 10 }).notNull(), // "YYYY-MM-DD" in the business timezone
+    eventCount: int("event_count").notNull().default(0), // Digests queued (0 = nothing to report)
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    runIdx: unique("notification_digest_runs_run_unique").on(table.businessId, table.kind, table.runDate),
+  })
+);
+
+export type NotificationDigestRun = typeof notificationDigestRuns.$inferSelect;
+
+// ============================================================================
+// PUSH TOKENS (Expo push tokens, one per device)
+// ============================================================================
+
+export const pushTokens = mysqlTable(
+  "push_tokens",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    userId: varchar("user_id", { length: 64 }).notNull(), // Whoever last signed in on the device
+    token: varchar("token", { length: 255 }).notNull(), // ExponentPushToken[...]
+    platform: pushPlatformEnum.notNull(),
+    deviceName: varchar("device_name", { length: 255 }),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow().onUpdateNow(),
+  },
+  (table) => ({
+    tokenIdx: unique("push_tokens_token_unique").on(table.token),
+    userIdx: index("push_tokens_user_id_idx").on(table.userId),
+  })
+);
+
+export type PushToken = typeof pushTokens.$inferSelect;
+export type InsertPushToken = typeof pushTokens.$inferInsert;
+
+// ============================================================================
+// PUSH TICKETS (Accepted sends awaiting a delivery receipt)
+// ============================================================================
+
+export const pushTickets = mysqlTable(
+  "push_tickets",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(), // Ticket id issued by the push service
+    businessId: varchar("business_id", { length: 64 }).notNull(),
+    token: varchar("token", { length: 255 }).notNull(), // Pruned if the receipt says the device is gone
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    createdAtIdx: index("push_tickets_created_at_idx").on(table.createdAt),
+  })
+);
+
+export type PushTicketRecord = typeof pushTickets.$inferSelect;
+export type InsertPushTicketRecord = typeof pushTickets.$inferInsert;
+
 // ============================================================================
 // PMS SYNC LOG (Track sync status for each platform)
 // ============================================================================
@@ -524,6 +993,7 @@ export const businessesRelations = relations(businesses, ({ many }) => ({
   invoices: many(invoices),
   notifications: many(notifications),
   pmsSyncLogs: many(pmsSyncLog),
+  invitations: many(userInvitations),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -535,6 +1005,25 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   sentMessages: many(jobChat),
   invoices: many(invoices),
   notifications: many(notifications),
+  sessions: many(userSessions),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userInvitationsRelations = relations(userInvitations, ({ one }) => ({
+  business: one(businesses, {
+    fields: [userInvitations.businessId],
+    references: [businesses.id],
+  }),
+  invitedBy: one(users, {
+    fields: [userInvitations.invitedByUserId],
+    references: [users.id],
+  }),
 }));
 
 export const propertiesRelations = relations(properties, ({ one, many }) => ({
@@ -581,6 +1070,18 @@ export const cleaningJobsRelations = relations(cleaningJobs, ({ one, many }) =>
   inventoryLogs: many(inventoryLogs),
   chatMessages: many(jobChat),
   invoiceLineItems: many(invoiceLineItems),
+  statusHistory: many(jobStatusHistory),
+}));
+
+export const jobStatusHistoryRelations = relations(jobStatusHistory, ({ one }) => ({
+  job: one(cleaningJobs, {
+    fields: [jobStatusHistory.jobId],
+    references: [cleaningJobs.id],
+  }),
+  actor: one(users, {
+    fields: [jobStatusHistory.actorId],
+    references: [users.id],
+  }),
 }));
 
 export const inventoryItemsRelations = relations(inventoryItems, ({ one, many }) => ({
@@ -0,0 +1,38 @@
+import { useCallback } from "react";
+import { useAuth } from "@/lib/auth-context";
+import {
+  can,
+  canWithScope,
+  type PermissionAction,
+  type PermissionActor,
+  type PermissionResource,
+  type PermissionScope,
+  type PermissionTarget,
+} from "@/shared/permissions";
+
+/**
+ * Checks the shared permission policy for the signed-in user.
+ * Usage: const { can } = usePermissions(); then can("assign", "job") to decide
+ * whether to show an action. The server enforces the same policy.
+ * canWithScope("view", "job", "business") tells business-wide views from own-only ones.
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+  const actor: PermissionActor | null = user
+    ? { id: user.id, role: user.role, businessId: user.companyId }
+    : null;
+
+  const check = useCallback(
+    (action: PermissionAction, resource: PermissionResource, target?: PermissionTarget) =>
+      can(actor, action, resource, target),
+    [actor?.id, actor?.role, actor?.businessId]
+  );
+
+  const checkScope = useCallback(
+    (action: PermissionAction, resource: PermissionResource, minimumScope: PermissionScope) =>
+      canWithScope(actor, action, resource, minimumScope),
+    [actor?.id, actor?.role, actor?.businessId]
+  );
+
+  return { can: check, canWithScope: checkScope };
+}
@@ -1,7 +1,9 @@
-import { createContext, useContext, useReducer, ReactNode, useEffect } from "react";
+import { createContext, useContext, useReducer, ReactNode, useEffect, useRef } from "react";
 import * as SecureStore from "expo-secure-store";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { trpcClient } from "./trpc-client";
+import * as Auth from "@/lib/_core/auth";
+import { getDeviceInfo } from "@/lib/device";
 
 // ============================================================================
 // SANDBOX AUTHENTICATION NOTE
@@ -10,17 +12,17 @@ import { trpcClient } from "./trpc-client";
 // Alpha uses persistent data with real workflows.
 // 
 // Current implementation:
-// - User creation via backend (first-time login)
+// - New businesses via registerBusiness, new team members via invitations
 // - Backend validation of credentials
-// - Session persistence via cookies and local storage
-// - Cookie-based session survives app restart
+// - Signed session token (Bearer on native, HTTP-only cookie on web)
+// - Refresh token renews the session across app restarts
 // - auth.me validates session on app launch
 // 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type UserRole = "super_manager" | "manager" | "cleaner";
+export type UserRole = "founder" | "super_manager" | "manager" | "cleaner";
 
 export interface User {
   id: string;
@@ -35,16 +37,51 @@ export interface User {
   updatedAt: Date;
 }
 
+export interface RegisterBusinessInput {
+  businessName: string;
+  email: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface AcceptInviteInput {
+  token: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export type SignInOutcome = "authenticated" | "two_factor_required" | "two_factor_setup_required";
+
+export interface TwoFactorChallenge {
+  status: Exclude<SignInOutcome, "authenticated">;
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
 export interface AuthState {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   error: string | null;
   isInitialized: boolean;
+  twoFactorChallenge: TwoFactorChallenge | null;
 }
 
 export interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<SignInOutcome>;
+  registerBusiness: (input: RegisterBusinessInput) => Promise<SignInOutcome>;
+  acceptInvite: (input: AcceptInviteInput) => Promise<SignInOutcome>;
+  verifyTwoFactor: (input: { code?: string; recoveryCode?: string }) => Promise<void>;
+  beginTwoFactorSetup: () => Promise<TwoFactorSetup>;
+  completeTwoFactorSetup: (code: string) => Promise<string[]>;
+  finishTwoFactorSetup: () => void;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
   updateUserRole: (userId: string, role: UserRole) => Promise<void>;
@@ -61,9 +98,94 @@ type AuthAction =
   | { type: "SET_TOKEN"; payload: string }
   | { type: "SET_ERROR"; payload: string }
   | { type: "CLEAR_ERROR" }
+  | { type: "SET_TWO_FACTOR_CHALLENGE"; payload: TwoFactorChallenge | null }
   | { type: "LOGOUT" }
   | { type: "SET_INITIALIZED" };
 
+// ============================================================================
+// SESSION STORAGE
+// ============================================================================
+
+const REFRESH_TOKEN_KEY = "auth_refresh_token";
+
+type BackendAuthSession = {
+  user: BackendAuthUser;
+  sessionToken: string;
+  refreshToken: string;
+};
+
+type BackendSignInResult = ({ status: "authenticated" } & BackendAuthSession) | TwoFactorChallenge;
+
+type BackendAuthUser = {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
+  businessId: string;
+  isActive: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+};
+
+function toUser(authUser: BackendAuthUser): User {
+  return {
+    id: authUser.id,
+    email: authUser.email,
+    firstName: authUser.firstName,
+    lastName: authUser.lastName,
+    role: authUser.role,
+    companyId: authUser.businessId,
+    managerId: null,
+    isActive: authUser.isActive,
+    createdAt: new Date(authUser.createdAt),
+    updatedAt: new Date(authUser.updatedAt),
+  };
+}
+
+/**
+ * Persist issued tokens (native only; web relies on HTTP-only cookies)
+ */
+async function storeSessionTokens(sessionToken: string, refreshToken: string): Promise<void> {
+  await Auth.setSessionToken(sessionToken);
+  try {
+    await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, refreshToken);
+  } catch (e) {
+    console.log("[Auth] Failed to store refresh token in SecureStore:", e);
+  }
+}
+
+async function clearSessionTokens(): Promise<void> {
+  await Auth.removeSessionToken();
+  try {
+    await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+  } catch (e) {
+    // Ignore
+  }
+}
+
+/**
+ * Renew the session with the stored refresh token (or refresh cookie on web)
+ * Returns the refreshed user, or null if the session can no longer be renewed
+ */
+async function renewSession(): Promise<User | null> {
+  let refreshToken: string | null = null;
+  try {
+    refreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+  } catch (e) {
+    // Web: refresh token is sent as a cookie
+  }
+
+  try {
+    const response = await trpcClient.auth.refresh.mutate(refreshToken ? { refreshToken } : undefined);
+    await storeSessionTokens(response.sessionToken, response.refreshToken);
+    return toUser(response.user);
+  } catch (e) {
+    console.log("[Auth] Session refresh failed:", e);
+    return null;
+  }
+}
+
 // ============================================================================
 // CONTEXT
 // ============================================================================
@@ -88,6 +210,7 @@ const initialState: AuthState = {
   isLoading: false,
   error: null,
   isInitialized: false,
+  twoFactorChallenge: null,
 };
 
 function authReducer(state: AuthState, action: AuthAction): AuthState {
@@ -102,6 +225,8 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
       return { ...state, error: action.payload };
     case "CLEAR_ERROR":
       return { ...state, error: null };
+    case "SET_TWO_FACTOR_CHALLENGE":
+      return { ...state, twoFactorChallenge: action.payload };
     case "LOGOUT":
       return { ...initialState, isInitialized: true };
     case "SET_INITIALIZED":
@@ -113,6 +238,8 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  // Signed in during mandatory enrollment, held back until recovery codes are acknowledged
+  const pendingSetupUser = useRef<User | null>(null);
 
   // Initialize auth on mount (validate session with backend)
   useEffect(() => {
@@ -138,23 +265,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           
           if (meResult) {
             // Backend session valid, use backend user data
-            const user: User = {
-              id: meResult.id,
-              email: meResult.email,
-              firstName: meResult.firstName,
-              lastName: meResult.lastName,
-              role: meResult.role,
-              companyId: meResult.businessId,
-              managerId: null,
-              isActive: meResult.isActive,
-              createdAt: new Date(meResult.createdAt),
-              updatedAt: new Date(meResult.updatedAt),
-            };
+            const user = toUser(meResult);
             dispatch({ type: "SET_USER", payload: user });
             dispatch({ type: "SET_TOKEN", payload: "session_valid" });
             console.log("[Auth] Session validated with backend:", user.email);
             return;
           }
+
+          // Access token missing or expired: try the refresh token
+          const renewedUser = await renewSession();
+          if (renewedUser) {
+            await AsyncStorage.setItem("auth_user", JSON.stringify(renewedUser));
+            dispatch({ type: "SET_USER", payload: renewedUser });
+            dispatch({ type: "SET_TOKEN", payload: "session_valid" });
+            console.log("[Auth] Session renewed with backend:", renewedUser.email);
+            return;
+          }
+
+          // Backend reachable and session cannot be renewed: do not fall back
+          savedUser = null;
         } catch (e) {
           console.log("[Auth] Backend validation failed:", e);
         }
@@ -169,11 +298,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
         // Step 4: No session found, clear storage
         console.log("[Auth] No session found, clearing storage");
-        try {
-          await SecureStore.deleteItemAsync("auth_token");
-        } catch (e) {
-          // Ignore
-        }
+        await clearSessionTokens();
         try {
           await AsyncStorage.removeItem("auth_user");
         } catch (e) {
@@ -191,52 +316,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     initializeAuth();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  /**
+   * Persist an issued session (tokens and user) for reloads
+   */
+  const persistSession = async (response: BackendAuthSession): Promise<User> => {
+    const user = toUser(response.user);
+
+    await storeSessionTokens(response.sessionToken, response.refreshToken);
+    try {
+      await AsyncStorage.setItem("auth_user", JSON.stringify(user));
+      console.log("[Auth] User saved to AsyncStorage:", user.email);
+    } catch (e) {
+      console.log("[Auth] Failed to store user in AsyncStorage:", e);
+    }
+
+    dispatch({ type: "SET_TOKEN", payload: response.sessionToken });
+    return user;
+  };
+
+  /**
+   * Run a sign-in request and persist the issued session
+   * Returns the second-factor step instead when the server asks for one.
+   */
+  const signIn = async (
+    request: () => Promise<BackendSignInResult>,
+    fallbackMessage: string
+  ): Promise<SignInOutcome> => {
     dispatch({ type: "SET_LOADING", payload: true });
     dispatch({ type: "CLEAR_ERROR" });
 
     try {
-      // Call backend login endpoint via tRPC
-      const response = await trpcClient.auth.login.mutate({ email, password });
+      const response = await request();
 
-      if (!response || !response.id) {
-        throw new Error("Login failed: No response from server");
+      if (!response) {
+        throw new Error(`${fallbackMessage}: No response from server`);
       }
 
-      // Map backend response to User interface
-      const user: User = {
-        id: response.id,
-        email: response.email,
-        firstName: response.firstName,
-        lastName: response.lastName,
-        role: response.role,
-        companyId: response.businessId,
-        managerId: null,
-        isActive: response.isActive,
-        createdAt: new Date(response.createdAt),
-        updatedAt: new Date(response.updatedAt),
-      };
-
-      // Generate session token (backend handles cookie, we store for reference)
-      const sessionToken = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Store token and user for persistence across app reloads
-      try {
-        await SecureStore.setItemAsync("auth_token", sessionToken);
-      } catch (e) {
-        console.log("[Auth] Failed to store token in SecureStore:", e);
-      }
-      try {
-        await AsyncStorage.setItem("auth_user", JSON.stringify(user));
-        console.log("[Auth] User saved to AsyncStorage:", user.email);
-      } catch (e) {
-        console.log("[Auth] Failed to store user in AsyncStorage:", e);
+      if (response.status !== "authenticated") {
+        dispatch({
+          type: "SET_TWO_FACTOR_CHALLENGE",
+          payload: { status: response.status, challengeToken: response.challengeToken },
+        });
+        return response.status;
       }
 
-      dispatch({ type: "SET_TOKEN", payload: sessionToken });
+      const user = await persistSession(response);
+      dispatch({ type: "SET_TWO_FACTOR_CHALLENGE", payload: null });
       dispatch({ type: "SET_USER", payload: user });
+      return "authenticated";
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Login failed";
+      const message = error instanceof Error ? error.message : fallbackMessage;
       dispatch({ type: "SET_ERROR", payload: message });
       throw error;
     } finally {
@@ -244,6 +373,76 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const login = (email: string, password: string) =>
+    signIn(
+      () => trpcClient.auth.login.mutate({ email, password, device: getDeviceInfo() }),
+      "Login failed"
+    );
+
+  const registerBusiness = (input: RegisterBusinessInput) =>
+    signIn(
+      () => trpcClient.auth.registerBusiness.mutate({ ...input, device: getDeviceInfo() }),
+      "Registration failed"
+    );
+
+  const acceptInvite = (input: AcceptInviteInput) =>
+    signIn(
+      () => trpcClient.auth.acceptInvite.mutate({ ...input, device: getDeviceInfo() }),
+      "Could not accept invitation"
+    );
+
+  const requireChallenge = (): string => {
+    if (!state.twoFactorChallenge) {
+      throw new Error("Sign in again to continue");
+    }
+    return state.twoFactorChallenge.challengeToken;
+  };
+
+  const verifyTwoFactor = async (input: { code?: string; recoveryCode?: string }) => {
+    await signIn(
+      () =>
+        trpcClient.auth.verifyTwoFactor.mutate({
+          challengeToken: requireChallenge(),
+          ...input,
+          device: getDeviceInfo(),
+        }),
+      "Verification failed"
+    );
+  };
+
+  // Enrollment steps leave loading state to the screen so it keeps the secret and codes mounted
+  const beginTwoFactorSetup = (): Promise<TwoFactorSetup> =>
+    trpcClient.auth.beginTwoFactorSetup.mutate({ challengeToken: requireChallenge() });
+
+  const completeTwoFactorSetup = async (code: string): Promise<string[]> => {
+    const response = await trpcClient.auth.completeTwoFactorSetup.mutate({
+      challengeToken: requireChallenge(),
+      code,
+      device: getDeviceInfo(),
+    });
+
+    pendingSetupUser.current = await persistSession(response);
+    return response.recoveryCodes;
+  };
+
+  /**
+   * Finish sign-in once the user has saved their recovery codes
+   */
+  const finishTwoFactorSetup = () => {
+    const user = pendingSetupUser.current;
+    pendingSetupUser.current = null;
+
+    dispatch({ type: "SET_TWO_FACTOR_CHALLENGE", payload: null });
+    if (user) {
+      dispatch({ type: "SET_USER", payload: user });
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    pendingSetupUser.current = null;
+    dispatch({ type: "SET_TWO_FACTOR_CHALLENGE", payload: null });
+  };
+
   const logout = async () => {
     dispatch({ type: "SET_LOADING", payload: true });
 
@@ -252,7 +451,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       await trpcClient.auth.logout.mutate();
 
       // Clear local storage
-      await SecureStore.deleteItemAsync("auth_token");
+      await clearSessionTokens();
       await AsyncStorage.removeItem("auth_user");
 
       dispatch({ type: "LOGOUT" });
@@ -267,7 +466,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const refreshUser = async () => {
     try {
-      console.log("[Auth] refreshUser called (session validation)");
+      const renewedUser = await renewSession();
+      if (!renewedUser) {
+        await AsyncStorage.removeItem("auth_user");
+        dispatch({ type: "LOGOUT" });
+        return;
+      }
+
+      await AsyncStorage.setItem("auth_user", JSON.stringify(renewedUser));
+      dispatch({ type: "SET_USER", payload: renewedUser });
     } catch (error) {
       console.error("[Auth] Failed to refresh user:", error);
     }
@@ -284,6 +491,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const value: AuthContextType = {
     ...state,
     login,
+    registerBusiness,
+    acceptInvite,
+    verifyTwoFactor,
+    beginTwoFactorSetup,
+    completeTwoFactorSetup,
+    finishTwoFactorSetup,
+    cancelTwoFactor,
     logout,
     refreshUser,
     updateUserRole,
@@ -0,0 +1,27 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+import { BUSINESS_PENDING_ERR_MSG, BUSINESS_SUSPENDED_ERR_MSG } from "@/shared/const";
+import { trpc } from "@/lib/trpc";
+
+export type RestrictedBusinessStatus = "pending" | "suspended";
+
+/**
+ * Which business restriction an API error reports, if any
+ * The server rejects calls from suspended businesses and writes from pending ones.
+ */
+export function getBusinessStatusFromError(error: unknown): RestrictedBusinessStatus | null {
+  const message = error instanceof Error ? error.message : null;
+  if (message === BUSINESS_SUSPENDED_ERR_MSG) return "suspended";
+  if (message === BUSINESS_PENDING_ERR_MSG) return "pending";
+  return null;
+}
+
+/**
+ * Re-check the business status after a restriction error so the root layout
+ * can switch to the pending or suspended screen
+ */
+export function refreshBusinessStatusOnError(queryClient: QueryClient, error: unknown): void {
+  if (!getBusinessStatusFromError(error)) return;
+
+  queryClient.invalidateQueries({ queryKey: getQueryKey(trpc.business.getStatus) });
+}
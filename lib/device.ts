@@ -0,0 +1,27 @@
+import { Platform } from "react-native";
+
+export interface DeviceInfo {
+  name: string;
+  platform: string;
+}
+
+/**
+ * Describe this device for the signed-in devices list
+ * Uses what React Native exposes without extra native modules.
+ */
+export function getDeviceInfo(): DeviceInfo {
+  const constants = (Platform as { constants?: Record<string, unknown> }).constants ?? {};
+
+  if (Platform.OS === "android") {
+    const brand = typeof constants.Brand === "string" ? constants.Brand : "";
+    const model = typeof constants.Model === "string" ? constants.Model : "";
+    return { name: `${brand} ${model}`.trim() || "Android device", platform: "android" };
+  }
+
+  if (Platform.OS === "ios") {
+    const idiom = constants.interfaceIdiom === "pad" ? "iPad" : "iPhone";
+    return { name: idiom, platform: "ios" };
+  }
+
+  return { name: "Web browser", platform: Platform.OS };
+}
@@ -1,17 +1,32 @@
 import type { CreateExpressContextOptions } from "@trpc/server/adapters/express";
+import type { Business, User } from "../../drizzle/schema";
+import { resolveSession, type SessionClaims } from "../auth/session";
 
 export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
-  user: null;
+  user: User | null;
+  business: Business | null;
+  session: SessionClaims | null;
 };
 
 export async function createContext(
   opts: CreateExpressContextOptions,
 ): Promise<TrpcContext> {
+  let resolved = null;
+
+  try {
+    resolved = await resolveSession(opts.req);
+  } catch (error) {
+    // Authentication is optional for public procedures
+    console.error("[Context] Failed to resolve session:", error);
+  }
+
   return {
     req: opts.req,
     res: opts.res,
-    user: null,
+    user: resolved?.user ?? null,
+    business: resolved?.business ?? null,
+    session: resolved?.session ?? null,
   };
 }
@@ -6,5 +6,29 @@ export const ENV = {
   supabaseUrl: process.env.SUPABASE_URL ?? "",
   supabaseAnonKey: process.env.SUPABASE_ANON_KEY ?? "",
 
+  // Public app URL used in emailed links (password reset, invitations)
+  appUrl: process.env.APP_URL ?? "",
+
+  // Outbound mail ("console", "file" or "smtp"); production only accepts smtp
+  mailTransport: process.env.MAIL_TRANSPORT ?? (process.env.NODE_ENV === "production" ? "smtp" : "console"),
+  mailOutboxDir: process.env.MAIL_OUTBOX_DIR ?? ".mail-outbox",
+  mailFrom: process.env.MAIL_FROM ?? "Simply Organized <no-reply@simplyorganized.app>",
+  smtpHost: process.env.SMTP_HOST ?? "",
+  smtpPort: Number(process.env.SMTP_PORT ?? 587),
+  smtpSecure: process.env.SMTP_SECURE === "true", // TLS from the start (port 465); otherwise STARTTLS
+  smtpUser: process.env.SMTP_USER ?? "",
+  smtpPassword: process.env.SMTP_PASSWORD ?? "",
+
+  // Outbound SMS ("console", "file" or "twilio"); production only accepts twilio
+  smsTransport: process.env.SMS_TRANSPORT ?? (process.env.NODE_ENV === "production" ? "twilio" : "console"),
+  smsOutboxDir: process.env.SMS_OUTBOX_DIR ?? ".sms-outbox",
+  smsFrom: process.env.SMS_FROM ?? "",
+  twilioAccountSid: process.env.TWILIO_ACCOUNT_SID ?? "",
+  twilioAuthToken: process.env.TWILIO_AUTH_TOKEN ?? "",
+
+  // Push notifications ("fake" or "expo"); the access token is only needed with enhanced push security
+  pushProvider: process.env.PUSH_PROVIDER ?? (process.env.NODE_ENV === "production" ? "expo" : "fake"),
+  expoAccessToken: process.env.EXPO_ACCESS_TOKEN ?? "",
+
   isProduction: process.env.NODE_ENV === "production",
 };
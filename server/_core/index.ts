@@ -5,8 +5,18 @@ import { createServer } from "http";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { getNotificationOutboxWorker } from "../notifications/outbox-worker";
+import { getPushReceiptChecker } from "../notifications/push-receipts";
+import { getDailyDigestScheduler } from "../notifications/digests";
+import { assertMailTransportConfigured } from "../mail/transport";
+import { warnIfSmsTransportUnconfigured } from "../sms/transport";
 
 async function startServer() {
+  // Refuse to run with a mail transport that would only log outgoing mail;
+  // SMS is optional, so its texts fail (and dead-letter) instead
+  assertMailTransportConfigured();
+  warnIfSmsTransportUnconfigured();
+
   const app = express();
 
   // --------------------
@@ -78,6 +88,16 @@ async function startServer() {
   server.listen(port, "0.0.0.0", () => {
     console.log(`[api] server listening on port ${port}`);
   });
+
+  // --------------------
+  // Notification delivery (outbox + push receipts + daily digests)
+  // --------------------
+  getNotificationOutboxWorker().start();
+  getPushReceiptChecker().start();
+  getDailyDigestScheduler().start();
 }
 
-startServer().catch(console.error);
+startServer().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
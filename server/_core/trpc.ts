@@ -3,13 +3,35 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from "../../shared/const.js";
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { getDb } from "../db";
+import { authenticateApiKey, hasApiKeyScopes, readApiKey, type ApiKeyScope } from "../auth/api-keys";
+import { assertPermission, assertPermissionScope } from "../auth/permissions";
+import { assertBusinessAccess } from "../auth/business-status";
+import { businesses } from "../../drizzle/schema";
+import type { Business } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+import type { PermissionAction, PermissionResource, PermissionScope } from "../../shared/permissions";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
 });
 
 export const router = t.router;
-export const publicProcedure = t.procedure;
+
+// Suspended businesses are blocked and pending ones are read-only (see auth/business-status.ts)
+const enforceBusinessStatus = t.middleware(async (opts) => {
+  const { ctx, next, type, path } = opts;
+
+  if (ctx.user && ctx.business && ctx.user.role !== "founder") {
+    assertBusinessAccess(ctx.business, type, path);
+  }
+
+  return next();
+});
+
+const baseProcedure = t.procedure.use(enforceBusinessStatus);
+
+export const publicProcedure = baseProcedure;
 
 const requireUser = t.middleware(async (opts) => {
   const { ctx, next } = opts;
@@ -26,14 +48,24 @@ const requireUser = t.middleware(async (opts) => {
   });
 });
 
-export const protectedProcedure = t.procedure.use(requireUser);
+export const protectedProcedure = baseProcedure.use(requireUser);
 
-export const superManagerProcedure = t.procedure.use(
+const requirePermission = (
+  action: PermissionAction,
+  resource: PermissionResource,
+  minimumScope?: PermissionScope
+) =>
   t.middleware(async (opts) => {
     const { ctx, next } = opts;
 
-    if (!ctx.user || ctx.user.role !== "super_manager") {
-      throw new TRPCError({ code: "FORBIDDEN", message: "Only Super Managers can access this" });
+    if (!ctx.user) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+    }
+
+    if (minimumScope) {
+      assertPermissionScope(ctx.user, action, resource, minimumScope);
+    } else {
+      assertPermission(ctx.user, action, resource);
     }
 
     return next({
@@ -42,15 +74,25 @@ export const superManagerProcedure = t.procedure.use(
         user: ctx.user,
       },
     });
-  }),
-);
+  });
+
+/**
+ * Signed-in procedure gated by the permission policy (shared/permissions.ts)
+ * Pass minimumScope for endpoints that return every record in the business;
+ * otherwise record-level scope is checked in the handler with assertPermission.
+ */
+export const authorizedProcedure = (
+  action: PermissionAction,
+  resource: PermissionResource,
+  minimumScope?: PermissionScope
+) => baseProcedure.use(requirePermission(action, resource, minimumScope));
 
-export const managerProcedure = t.procedure.use(
+export const superManagerProcedure = baseProcedure.use(
   t.middleware(async (opts) => {
     const { ctx, next } = opts;
 
-    if (!ctx.user || (ctx.user.role !== "manager" && ctx.user.role !== "super_manager")) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "Only Managers can access this" });
+    if (!ctx.user || ctx.user.role !== "super_manager") {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Only Super Managers can access this" });
     }
 
     return next({
@@ -62,5 +104,56 @@ export const managerProcedure = t.procedure.use(
   }),
 );
 
+const requireApiKey = (scopes: ApiKeyScope[]) =>
+  t.middleware(async (opts) => {
+    const { ctx, next, type, path } = opts;
+
+    const presentedKey = readApiKey(ctx.req);
+    if (!presentedKey) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "API key required" });
+    }
+
+    const db = await getDb();
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    const apiKey = await authenticateApiKey(db, presentedKey, ctx.req.ip ?? null);
+    if (!apiKey) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid or expired API key" });
+    }
+
+    const [business] = (await db
+      .select()
+      .from(businesses)
+      .where(eq(businesses.id, apiKey.businessId))
+      .limit(1)) as Business[];
+    if (!business) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid or expired API key" });
+    }
+    assertBusinessAccess(business, type, path);
+
+    if (!hasApiKeyScopes(apiKey.scopes, scopes)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `API key is missing required scope: ${scopes.filter((scope) => !apiKey.scopes.includes(scope)).join(", ")}`,
+      });
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        apiKey,
+        businessId: apiKey.businessId,
+      },
+    });
+  });
+
+/**
+ * Machine-client procedure: authenticates by API key instead of user session
+ * Every listed scope must be granted to the key.
+ */
+export const apiKeyProcedure = (...scopes: ApiKeyScope[]) => t.procedure.use(requireApiKey(scopes));
+
 // Deprecated: use superManagerProcedure instead
 export const adminProcedure = superManagerProcedure;
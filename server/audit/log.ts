@@ -0,0 +1,46 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of security and governance actions.
+ * Rows are never updated or deleted (enforced by triggers in 0007).
+ */
+
+import { auditLog } from "../../drizzle/schema";
+import type { AuditLogEntry } from "../../drizzle/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuditEntryInput {
+  actorId: string | null; // Null for system actions
+  businessId: string | null;
+  action: AuditLogEntry["action"];
+  targetType: string;
+  targetId: string;
+  details?: Record<string, unknown>;
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/**
+ * Append an entry to the audit log
+ */
+export async function recordAuditEntry(db: any, entry: AuditEntryInput): Promise<string> {
+  const auditId = `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  await db.insert(auditLog).values({
+    id: auditId,
+    actorId: entry.actorId,
+    businessId: entry.businessId,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    details: entry.details ?? null,
+    createdAt: new Date(),
+  });
+
+  return auditId;
+}
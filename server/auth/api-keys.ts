@@ -0,0 +1,246 @@
+/**
+ * API Keys
+ *
+ * Per-business keys for machine clients (PMS sync, accounting exports).
+ * Keys are shown once at creation and stored only as a SHA-256 hash; the
+ * prefix is kept so managers can tell keys apart. Rotation issues a new key
+ * and lets the old one keep working for a grace period.
+ */
+
+import crypto from "crypto";
+import { and, desc, eq } from "drizzle-orm";
+import type { Request } from "express";
+import { apiKeys } from "../../drizzle/schema";
+import type { ApiKey } from "../../drizzle/schema";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const API_KEY_SCOPES = [
+  "jobs:read",
+  "jobs:write",
+  "invoices:read",
+  "cleaners:read",
+  "properties:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_PREFIX = "so_live_";
+export const API_KEY_ROTATION_GRACE_MS = 1000 * 60 * 60 * 24; // Old key keeps working for 24 hours
+const LAST_USED_UPDATE_INTERVAL_MS = 1000 * 60; // Avoid a write on every request
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IssuedApiKey {
+  record: ApiKey;
+  key: string; // Returned once; never stored
+}
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  status: ApiKeyStatus;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+}
+
+export type ApiKeyStatus = "active" | "rotating" | "expired" | "revoked";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate API key row ID
+ */
+export function generateApiKeyId(): string {
+  return `apikey_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate a new secret key ("so_live_" + 32 random bytes)
+ */
+export function generateApiKey(): { key: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { key, keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+}
+
+/**
+ * Hash API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Read the key from `Authorization: Bearer so_live_...` or `X-API-Key`
+ */
+export function readApiKey(req: Pick<Request, "headers">): string | null {
+  const headerKey = req.headers["x-api-key"];
+  if (typeof headerKey === "string" && headerKey.startsWith(API_KEY_PREFIX)) {
+    return headerKey;
+  }
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    const token = authorization.slice("Bearer ".length).trim();
+    if (token.startsWith(API_KEY_PREFIX)) return token;
+  }
+
+  return null;
+}
+
+export function getApiKeyStatus(
+  key: Pick<ApiKey, "revokedAt" | "expiresAt" | "replacedByKeyId">,
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (key.revokedAt) return "revoked";
+  if (key.expiresAt && key.expiresAt <= now) return "expired";
+  if (key.replacedByKeyId) return "rotating";
+  return "active";
+}
+
+/**
+ * Whether a key grants every required scope
+ */
+export function hasApiKeyScopes(granted: readonly string[], required: readonly ApiKeyScope[]): boolean {
+  return required.every((scope) => granted.includes(scope));
+}
+
+export function toApiKeySummary(key: ApiKey, now: Date = new Date()): ApiKeySummary {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    scopes: key.scopes,
+    status: getApiKeyStatus(key, now),
+    expiresAt: key.expiresAt,
+    lastUsedAt: key.lastUsedAt,
+    lastUsedIp: key.lastUsedIp,
+    createdAt: key.createdAt,
+  };
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+/**
+ * Create a key for a business
+ */
+export async function createApiKey(
+  db: any,
+  input: { businessId: string; name: string; scopes: ApiKeyScope[]; createdByUserId: string }
+): Promise<IssuedApiKey> {
+  const { key, keyPrefix } = generateApiKey();
+  const now = new Date();
+
+  const record: ApiKey = {
+    id: generateApiKeyId(),
+    businessId: input.businessId,
+    name: input.name,
+    keyPrefix,
+    keyHash: hashApiKey(key),
+    scopes: [...input.scopes],
+    createdByUserId: input.createdByUserId,
+    expiresAt: null,
+    replacedByKeyId: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.insert(apiKeys).values(record);
+
+  return { record, key };
+}
+
+export async function listApiKeys(db: any, businessId: string): Promise<ApiKey[]> {
+  return (await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.businessId, businessId))
+    .orderBy(desc(apiKeys.createdAt))) as ApiKey[];
+}
+
+export async function getBusinessApiKey(db: any, businessId: string, keyId: string): Promise<ApiKey | null> {
+  const [key] = (await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.businessId, businessId)))
+    .limit(1)) as ApiKey[];
+
+  return key ?? null;
+}
+
+/**
+ * Replace a key: the new key gets the same name and scopes, and the old key
+ * expires after the grace period so clients can be redeployed
+ */
+export async function rotateApiKey(db: any, existing: ApiKey, rotatedByUserId: string): Promise<IssuedApiKey> {
+  return db.transaction(async (tx: any) => {
+    const issued = await createApiKey(tx, {
+      businessId: existing.businessId,
+      name: existing.name,
+      scopes: existing.scopes as ApiKeyScope[],
+      createdByUserId: rotatedByUserId,
+    });
+
+    const graceEndsAt = new Date(Date.now() + API_KEY_ROTATION_GRACE_MS);
+    await tx
+      .update(apiKeys)
+      .set({
+        replacedByKeyId: issued.record.id,
+        // Never extend a key that was already due to expire sooner
+        expiresAt: existing.expiresAt && existing.expiresAt < graceEndsAt ? existing.expiresAt : graceEndsAt,
+      })
+      .where(eq(apiKeys.id, existing.id));
+
+    return issued;
+  });
+}
+
+export async function revokeApiKey(db: any, keyId: string): Promise<void> {
+  await db.update(apiKeys).set({ revokedAt: new Date() }).where(eq(apiKeys.id, keyId));
+}
+
+/**
+ * Look up a presented key; returns the key row if it is usable
+ * Records last use (at most once a minute per key).
+ */
+export async function authenticateApiKey(
+  db: any,
+  presentedKey: string,
+  ipAddress: string | null = null
+): Promise<ApiKey | null> {
+  const [key] = (await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, hashApiKey(presentedKey)))
+    .limit(1)) as ApiKey[];
+
+  const now = new Date();
+  if (!key) return null;
+
+  const status = getApiKeyStatus(key, now);
+  if (status === "revoked" || status === "expired") return null;
+
+  if (!key.lastUsedAt || now.getTime() - key.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await db
+      .update(apiKeys)
+      .set({ lastUsedAt: now, lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, key.id));
+  }
+
+  return { ...key, lastUsedAt: now, lastUsedIp: ipAddress };
+}
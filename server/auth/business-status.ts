@@ -0,0 +1,78 @@
+/**
+ * Business Status Enforcement
+ *
+ * A business's lifecycle status decides what its users (and API keys) may do:
+ * - active:    full access
+ * - pending:   read-only until a founder activates the business
+ * - suspended: blocked
+ *
+ * Sign-in, session, 2FA and status endpoints stay reachable so users can see
+ * why they are restricted and sign out. Errors carry coded messages
+ * (shared/const.ts) that the client routes on.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { BUSINESS_PENDING_ERR_MSG, BUSINESS_SUSPENDED_ERR_MSG } from "../../shared/const.js";
+import type { Business } from "../../drizzle/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BusinessStatus = Business["status"];
+export type BusinessAccess = "full" | "read_only" | "blocked";
+export type ProcedureType = "query" | "mutation" | "subscription";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Routers every signed-in user can reach regardless of business status
+const EXEMPT_ROUTERS = ["auth", "twoFactor", "system"];
+
+// Single procedures of otherwise restricted routers that stay reachable
+const EXEMPT_PROCEDURES = ["business.getStatus"];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function getBusinessAccess(status: BusinessStatus): BusinessAccess {
+  if (status === "active") return "full";
+  if (status === "pending") return "read_only";
+  return "blocked";
+}
+
+export function isBusinessStatusExempt(path: string): boolean {
+  return EXEMPT_ROUTERS.includes(path.split(".")[0]) || EXEMPT_PROCEDURES.includes(path);
+}
+
+/**
+ * Error message for a call the business may not make, or null if allowed
+ */
+export function getBusinessAccessError(
+  status: BusinessStatus,
+  type: ProcedureType,
+  path: string
+): string | null {
+  if (isBusinessStatusExempt(path)) return null;
+
+  const access = getBusinessAccess(status);
+  if (access === "blocked") return BUSINESS_SUSPENDED_ERR_MSG;
+  if (access === "read_only" && type !== "query") return BUSINESS_PENDING_ERR_MSG;
+  return null;
+}
+
+/**
+ * Throw FORBIDDEN if the business's status does not allow the call
+ */
+export function assertBusinessAccess(
+  business: Pick<Business, "status">,
+  type: ProcedureType,
+  path: string
+): void {
+  const message = getBusinessAccessError(business.status, type, path);
+  if (message) {
+    throw new TRPCError({ code: "FORBIDDEN", message });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Invitations
+ *
+ * Managers invite people into their own business:
+ * - super_manager can invite managers and cleaners
+ * - manager can invite cleaners
+ * - nobody can invite a super_manager (one per business, created at signup)
+ *
+ * The invite token is shown once (to share with the invitee) and stored only
+ * as a SHA-256 hash. Resending issues a new token and invalidates the old one.
+ */
+
+import crypto from "crypto";
+import type { User, UserInvitation } from "../../drizzle/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export type InvitableRole = "manager" | "cleaner";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const INVITE_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate invitation ID
+ */
+export function generateInvitationId(): string {
+  return `invite_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate a one-time invite token (returned once, never stored raw)
+ */
+export function generateInviteToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * Hash invite token for storage and lookup
+ */
+export function hashInviteToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Derive invitation status
+ * Accepted and revoked are terminal; otherwise expiry decides.
+ */
+export function getInvitationStatus(
+  invitation: Pick<UserInvitation, "acceptedAt" | "revokedAt" | "expiresAt">,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt <= now) return "expired";
+  return "pending";
+}
+
+/**
+ * Whether a user may invite someone with the given role
+ */
+export function canInviteRole(inviterRole: User["role"], role: InvitableRole): boolean {
+  if (inviterRole === "super_manager") return true;
+  if (inviterRole === "manager") return role === "cleaner";
+  return false;
+}
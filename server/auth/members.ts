@@ -0,0 +1,26 @@
+/**
+ * Team Member Management Rules
+ *
+ * Who may act on whom inside a business (deactivate, force sign-out):
+ * - super_manager: managers and cleaners
+ * - manager: cleaners
+ * - nobody acts on themselves or on a super_manager through team management
+ */
+
+import type { User } from "../../drizzle/schema";
+
+/**
+ * Whether actor may manage target (same business required)
+ */
+export function canManageMember(
+  actor: Pick<User, "id" | "role" | "businessId">,
+  target: Pick<User, "id" | "role" | "businessId">
+): boolean {
+  if (actor.id === target.id) return false;
+  if (actor.businessId !== target.businessId) return false;
+  if (target.role === "super_manager") return false;
+
+  if (actor.role === "super_manager") return true;
+  if (actor.role === "manager") return target.role === "cleaner";
+  return false;
+}
@@ -0,0 +1,51 @@
+/**
+ * Password Reset
+ *
+ * One-time reset tokens, emailed to the account owner and stored only as a
+ * SHA-256 hash. Requesting a new token supersedes any outstanding ones, and a
+ * successful reset signs the user out everywhere.
+ */
+
+import crypto from "crypto";
+import type { PasswordResetToken } from "../../drizzle/schema";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PASSWORD_RESET_TTL_MS = 1000 * 60 * 60; // 1 hour
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate password reset token row ID
+ */
+export function generatePasswordResetId(): string {
+  return `reset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate a one-time reset token (emailed once, never stored raw)
+ */
+export function generateResetToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+/**
+ * Hash reset token for storage and lookup
+ */
+export function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Whether a reset token row can still be redeemed
+ */
+export function isResetTokenUsable(
+  token: Pick<PasswordResetToken, "usedAt" | "expiresAt">,
+  now: Date = new Date()
+): boolean {
+  return !token.usedAt && token.expiresAt > now;
+}
@@ -0,0 +1,151 @@
+/**
+ * Password Hashing
+ *
+ * Current format (versioned, self-describing):
+ *   scrypt$v1$<N>$<r>$<p>$<salt base64url>$<hash base64url>
+ *
+ * Legacy format (Alpha): unsalted SHA-256 hex digest.
+ * Legacy hashes still verify, and needsRehash() flags them so the login flow
+ * can upgrade them transparently after a successful login.
+ */
+
+import crypto from "crypto";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const HASH_PREFIX = "scrypt";
+const HASH_VERSION = "v1";
+
+const SCRYPT_PARAMS = {
+  N: 16384,
+  r: 8,
+  p: 1,
+};
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+const LEGACY_SHA256_PATTERN = /^[a-f0-9]{64}$/i;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function scrypt(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { N: params.N, r: params.r, p: params.p, maxmem: 128 * params.N * params.r * 2 },
+      (error, derivedKey) => {
+        if (error) reject(error);
+        else resolve(derivedKey);
+      }
+    );
+  });
+}
+
+/**
+ * Compare two buffers without leaking timing information
+ */
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  if (a.length !== b.length) {
+    // Still do a comparison so mismatched lengths take similar time
+    crypto.timingSafeEqual(a, a);
+    return false;
+  }
+  return crypto.timingSafeEqual(a, b);
+}
+
+function isLegacyHash(hash: string): boolean {
+  return LEGACY_SHA256_PATTERN.test(hash);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Hash a password with a random salt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const derivedKey = await scrypt(password, salt, SCRYPT_PARAMS);
+
+  return [
+    HASH_PREFIX,
+    HASH_VERSION,
+    SCRYPT_PARAMS.N,
+    SCRYPT_PARAMS.r,
+    SCRYPT_PARAMS.p,
+    salt.toString("base64url"),
+    derivedKey.toString("base64url"),
+  ].join("$");
+}
+
+/**
+ * Verify a password against a stored hash (current or legacy format)
+ * Comparison is constant-time; unknown or malformed hashes never match.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  if (!storedHash) return false;
+
+  if (isLegacyHash(storedHash)) {
+    const candidate = crypto.createHash("sha256").update(password).digest();
+    return safeEqual(candidate, Buffer.from(storedHash, "hex"));
+  }
+
+  const parts = storedHash.split("$");
+  if (parts.length !== 7 || parts[0] !== HASH_PREFIX || parts[1] !== HASH_VERSION) {
+    return false;
+  }
+
+  const [, , n, r, p, saltEncoded, hashEncoded] = parts;
+  const params = { N: Number(n), r: Number(r), p: Number(p) };
+  if (!Number.isInteger(params.N) || !Number.isInteger(params.r) || !Number.isInteger(params.p)) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashEncoded, "base64url");
+  const candidate = await scrypt(password, Buffer.from(saltEncoded, "base64url"), params);
+
+  return safeEqual(candidate, expected);
+}
+
+/**
+ * Whether a stored hash should be replaced with a fresh one
+ * True for legacy SHA-256 hashes and for scrypt hashes with outdated parameters.
+ */
+export function needsRehash(storedHash: string): boolean {
+  if (isLegacyHash(storedHash)) return true;
+
+  const parts = storedHash.split("$");
+  if (parts.length !== 7 || parts[0] !== HASH_PREFIX || parts[1] !== HASH_VERSION) {
+    return true;
+  }
+
+  return (
+    Number(parts[2]) !== SCRYPT_PARAMS.N ||
+    Number(parts[3]) !== SCRYPT_PARAMS.r ||
+    Number(parts[4]) !== SCRYPT_PARAMS.p
+  );
+}
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Spend the same work as a real verification when no account exists,
+ * so response timing does not reveal which emails are registered
+ */
+export async function verifyPasswordDummy(password: string): Promise<false> {
+  dummyHash ??= hashPassword(crypto.randomBytes(16).toString("hex"));
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
@@ -0,0 +1,47 @@
+/**
+ * Permission Enforcement
+ *
+ * Server side of the shared permission policy (shared/permissions.ts).
+ * Procedures gate on the role with authorizedProcedure; handlers that load a
+ * specific record call assertPermission to apply the business/ownership scope.
+ */
+
+import { TRPCError } from "@trpc/server";
+import {
+  can,
+  canWithScope,
+  describePermission,
+  type PermissionAction,
+  type PermissionActor,
+  type PermissionResource,
+  type PermissionScope,
+  type PermissionTarget,
+} from "../../shared/permissions";
+
+/**
+ * Throw FORBIDDEN unless the actor may act on the resource
+ */
+export function assertPermission(
+  actor: PermissionActor | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource,
+  target?: PermissionTarget
+): void {
+  if (!can(actor, action, resource, target)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: describePermission(action, resource) });
+  }
+}
+
+/**
+ * Throw FORBIDDEN unless the actor's grant spans at least the given scope
+ */
+export function assertPermissionScope(
+  actor: PermissionActor | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource,
+  minimumScope: PermissionScope
+): void {
+  if (!canWithScope(actor, action, resource, minimumScope)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: describePermission(action, resource) });
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * Session Management
+ *
+ * Sessions are two-part:
+ * - Access token: short-lived HS256 JWT (jose) carrying user, business and session IDs
+ * - Refresh token: opaque random string, stored only as a SHA-256 hash in user_sessions
+ *
+ * Every request re-checks the user_sessions row, so logout and forced sign-out
+ * take effect immediately even while the access token is still unexpired.
+ *
+ * Native clients send the access token as `Authorization: Bearer <token>`.
+ * Web clients receive it as an HTTP-only cookie (see getSessionCookieOptions).
+ */
+
+import crypto from "crypto";
+import { and, desc, eq, gt, isNull, ne } from "drizzle-orm";
+import { SignJWT, jwtVerify } from "jose";
+import { parse as parseCookieHeader } from "cookie";
+import type { Request, Response } from "express";
+import {
+  COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  SESSION_ACCESS_TTL_MS,
+  SESSION_REFRESH_TTL_MS,
+} from "../../shared/const.js";
+import { businesses, userSessions, users } from "../../drizzle/schema";
+import type { Business, User, UserSession } from "../../drizzle/schema";
+import { getSessionCookieOptions } from "../_core/cookies";
+import { ENV } from "../_core/env";
+import { getDb } from "../db";
+import { getAffectedRows } from "../jobs/state-machine";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SessionClaims {
+  userId: string;
+  sessionId: string;
+  businessId: string;
+}
+
+export interface IssuedSession {
+  sessionId: string;
+  sessionToken: string;
+  refreshToken: string;
+  expiresAt: Date; // Access token expiry
+  refreshExpiresAt: Date;
+}
+
+export interface SessionDevice {
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface DeviceSession {
+  sessionId: string;
+  deviceName: string | null;
+  platform: string | null;
+  ipAddress: string | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+  isCurrent: boolean;
+}
+
+export interface ResolvedSession {
+  user: User;
+  business: Business | null;
+  session: SessionClaims;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SESSION_ISSUER = "simply-organized";
+const BEARER_PREFIX = "Bearer ";
+
+// Avoid a write on every request: only bump last_seen_at when it is this stale
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// TOKEN HELPERS
+// ============================================================================
+
+export function getSigningKey(): Uint8Array {
+  if (!ENV.cookieSecret) {
+    throw new Error("COOKIE_SECRET is required to sign sessions");
+  }
+  return new TextEncoder().encode(ENV.cookieSecret);
+}
+
+/**
+ * Generate session ID
+ */
+function generateSessionId(): string {
+  return `sess_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Generate an opaque refresh token (returned to the client once, never stored raw)
+ */
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Hash refresh token for storage and lookup
+ */
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Sign an access token for a session
+ */
+export async function signSessionToken(
+  claims: SessionClaims,
+  ttlMs: number = SESSION_ACCESS_TTL_MS
+): Promise<string> {
+  const expiresAtSeconds = Math.floor((Date.now() + ttlMs) / 1000);
+
+  return new SignJWT({ sid: claims.sessionId, bid: claims.businessId })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(claims.userId)
+    .setIssuer(SESSION_ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(expiresAtSeconds)
+    .sign(getSigningKey());
+}
+
+/**
+ * Verify an access token
+ * Returns null for malformed, tampered or expired tokens
+ */
+export async function verifySessionToken(token: string): Promise<SessionClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSigningKey(), {
+      issuer: SESSION_ISSUER,
+      algorithms: ["HS256"],
+    });
+
+    if (
+      typeof payload.sub !== "string" ||
+      typeof payload.sid !== "string" ||
+      typeof payload.bid !== "string"
+    ) {
+      return null;
+    }
+
+    return {
+      userId: payload.sub,
+      sessionId: payload.sid,
+      businessId: payload.bid,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read access token from request
+ * Bearer header (native) takes precedence over cookie (web)
+ */
+export function readSessionToken(req: Request): string | null {
+  const authorization = req.headers?.authorization;
+  if (authorization?.startsWith(BEARER_PREFIX)) {
+    const token = authorization.slice(BEARER_PREFIX.length).trim();
+    if (token) return token;
+  }
+
+  const cookieHeader = req.headers?.cookie;
+  if (!cookieHeader) return null;
+
+  return parseCookieHeader(cookieHeader)[COOKIE_NAME] || null;
+}
+
+/**
+ * Read refresh token from the web refresh cookie
+ */
+export function readRefreshToken(req: Request): string | null {
+  const cookieHeader = req.headers?.cookie;
+  if (!cookieHeader) return null;
+
+  return parseCookieHeader(cookieHeader)[REFRESH_COOKIE_NAME] || null;
+}
+
+/**
+ * Describe the signing-in device
+ * Name and platform are client-reported; IP and user agent come from the request.
+ */
+export function getSessionDevice(
+  req: Request,
+  reported?: { name?: string | null; platform?: string | null }
+): SessionDevice {
+  const userAgent = req.headers?.["user-agent"];
+
+  return {
+    deviceName: reported?.name?.slice(0, 100) || null,
+    platform: reported?.platform?.slice(0, 20) || null,
+    ipAddress: req.ip ?? null,
+    userAgent: typeof userAgent === "string" ? userAgent.slice(0, 255) : null,
+  };
+}
+
+// ============================================================================
+// COOKIES
+// ============================================================================
+
+/**
+ * Set access and refresh cookies (web clients)
+ */
+export function setSessionCookies(req: Request, res: Response, issued: IssuedSession): void {
+  const cookieOptions = getSessionCookieOptions(req);
+
+  res.cookie(COOKIE_NAME, issued.sessionToken, {
+    ...cookieOptions,
+    maxAge: SESSION_ACCESS_TTL_MS,
+  });
+  res.cookie(REFRESH_COOKIE_NAME, issued.refreshToken, {
+    ...cookieOptions,
+    maxAge: SESSION_REFRESH_TTL_MS,
+  });
+}
+
+/**
+ * Clear access and refresh cookies
+ */
+export function clearSessionCookies(req: Request, res: Response): void {
+  const cookieOptions = getSessionCookieOptions(req);
+
+  res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
+  res.clearCookie(REFRESH_COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
+}
+
+// ============================================================================
+// SESSION LIFECYCLE
+// ============================================================================
+
+/**
+ * Create a session row and issue its tokens
+ */
+export async function createSession(
+  db: any,
+  user: User,
+  device: SessionDevice | null = null
+): Promise<IssuedSession> {
+  const now = new Date();
+  const sessionId = generateSessionId();
+  const refreshToken = generateRefreshToken();
+  const refreshExpiresAt = new Date(now.getTime() + SESSION_REFRESH_TTL_MS);
+
+  await db.insert(userSessions).values({
+    id: sessionId,
+    userId: user.id,
+    businessId: user.businessId,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    deviceName: device?.deviceName ?? null,
+    platform: device?.platform ?? null,
+    ipAddress: device?.ipAddress ?? null,
+    userAgent: device?.userAgent ?? null,
+    expiresAt: refreshExpiresAt,
+    lastSeenAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  const sessionToken = await signSessionToken({
+    userId: user.id,
+    sessionId,
+    businessId: user.businessId,
+  });
+
+  return {
+    sessionId,
+    sessionToken,
+    refreshToken,
+    expiresAt: new Date(now.getTime() + SESSION_ACCESS_TTL_MS),
+    refreshExpiresAt,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token
+ * The refresh token is rotated: the old one stops working immediately, and of
+ * two requests racing with the same token only the first gets a new one.
+ * Returns null if the token is unknown, expired, revoked, already rotated or
+ * the user is inactive.
+ */
+export async function refreshSession(
+  db: any,
+  refreshToken: string,
+  ipAddress: string | null = null
+): Promise<{ user: User; issued: IssuedSession } | null> {
+  const now = new Date();
+  const [session] = (await db
+    .select()
+    .from(userSessions)
+    .where(eq(userSessions.refreshTokenHash, hashRefreshToken(refreshToken)))
+    .limit(1)) as UserSession[];
+
+  if (!session || session.revokedAt || session.expiresAt <= now) {
+    return null;
+  }
+
+  const [user] = (await db.select().from(users).where(eq(users.id, session.userId)).limit(1)) as User[];
+
+  if (!user || !user.isActive) {
+    await revokeSession(db, session.id, "user_inactive");
+    return null;
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+  const refreshExpiresAt = new Date(now.getTime() + SESSION_REFRESH_TTL_MS);
+
+  const rotated = await db
+    .update(userSessions)
+    .set({
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      expiresAt: refreshExpiresAt,
+      lastSeenAt: now,
+      ...(ipAddress ? { ipAddress } : {}),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(userSessions.id, session.id),
+        eq(userSessions.refreshTokenHash, hashRefreshToken(refreshToken)),
+        isNull(userSessions.revokedAt)
+      )
+    );
+
+  if (getAffectedRows(rotated) !== 1) {
+    return null; // Rotated (or revoked) by a concurrent request
+  }
+
+  const sessionToken = await signSessionToken({
+    userId: user.id,
+    sessionId: session.id,
+    businessId: user.businessId,
+  });
+
+  return {
+    user,
+    issued: {
+      sessionId: session.id,
+      sessionToken,
+      refreshToken: nextRefreshToken,
+      expiresAt: new Date(now.getTime() + SESSION_ACCESS_TTL_MS),
+      refreshExpiresAt,
+    },
+  };
+}
+
+/**
+ * Revoke a session (logout, forced sign-out)
+ */
+export async function revokeSession(db: any, sessionId: string, reason: string): Promise<void> {
+  await db
+    .update(userSessions)
+    .set({
+      revokedAt: new Date(),
+      revokedReason: reason,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(userSessions.id, sessionId), isNull(userSessions.revokedAt)));
+}
+
+/**
+ * Revoke every active session for a user (password reset, deactivation)
+ * Pass exceptSessionId to keep the caller's own session signed in.
+ */
+export async function revokeUserSessions(
+  db: any,
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<void> {
+  await db
+    .update(userSessions)
+    .set({
+      revokedAt: new Date(),
+      revokedReason: reason,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        exceptSessionId ? ne(userSessions.id, exceptSessionId) : undefined
+      )
+    );
+}
+
+/**
+ * List a user's signed-in devices (most recently seen first)
+ */
+export async function listUserSessions(
+  db: any,
+  userId: string,
+  currentSessionId: string | null = null
+): Promise<DeviceSession[]> {
+  const rows = (await db
+    .select()
+    .from(userSessions)
+    .where(
+      and(
+        eq(userSessions.userId, userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(userSessions.lastSeenAt))) as UserSession[];
+
+  return rows.map((session) => ({
+    sessionId: session.id,
+    deviceName: session.deviceName,
+    platform: session.platform,
+    ipAddress: session.ipAddress,
+    lastSeenAt: session.lastSeenAt,
+    createdAt: session.createdAt,
+    isCurrent: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Authenticate a request
+ * Verifies the access token, then loads the live session, user and business.
+ */
+export async function resolveSession(req: Request): Promise<ResolvedSession | null> {
+  const token = readSessionToken(req);
+  if (!token || !ENV.cookieSecret) return null;
+
+  const claims = await verifySessionToken(token);
+  if (!claims) return null;
+
+  const db = (await getDb()) as any;
+  if (!db) return null;
+
+  const now = new Date();
+  const [session] = (await db
+    .select()
+    .from(userSessions)
+    .where(
+      and(
+        eq(userSessions.id, claims.sessionId),
+        eq(userSessions.userId, claims.userId),
+        isNull(userSessions.revokedAt),
+        gt(userSessions.expiresAt, now)
+      )
+    )
+    .limit(1)) as UserSession[];
+
+  if (!session) return null;
+
+  const [user] = (await db.select().from(users).where(eq(users.id, claims.userId)).limit(1)) as User[];
+  if (!user || !user.isActive) return null;
+
+  const [business] = (await db
+    .select()
+    .from(businesses)
+    .where(eq(businesses.id, user.businessId))
+    .limit(1)) as Business[];
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await db
+      .update(userSessions)
+      .set({ lastSeenAt: now, ...(req.ip ? { ipAddress: req.ip } : {}) })
+      .where(eq(userSessions.id, session.id));
+  }
+
+  return {
+    user,
+    business: business ?? null,
+    session: claims,
+  };
+}
@@ -0,0 +1,370 @@
+/**
+ * Login Throttling
+ *
+ * Failed logins are tracked per normalized email and per client IP:
+ * - After a few free attempts, each further attempt must wait an
+ *   exponentially growing delay (backoff)
+ * - After the lockout threshold, the key is locked for a period that doubles
+ *   with every repeated lockout
+ * - A successful login clears the email's failures; super managers can
+ *   unlock an account early
+ *
+ * Unknown emails are tracked exactly like known ones so throttling does not
+ * reveal which emails have accounts.
+ *
+ * Password reset requests follow the same policy under their own keys
+ * ("reset:" + email or IP), so they neither lock nor are locked by logins.
+ */
+
+import { and, eq, sql } from "drizzle-orm";
+import { loginThrottles } from "../../drizzle/schema";
+import type { LoginThrottle, User } from "../../drizzle/schema";
+import { recordAuditEntry } from "../audit/log";
+import { getAffectedRows } from "../jobs/state-machine";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ThrottleScope = LoginThrottle["scope"];
+
+export type ThrottleState = Pick<
+  LoginThrottle,
+  "failureCount" | "lastFailureAt" | "lockedUntil" | "lockoutCount"
+>;
+
+export interface ThrottleDecision {
+  allowed: boolean;
+  reason: "locked" | "backoff" | null;
+  retryAfterMs: number;
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+export const THROTTLE_POLICY = {
+  email: { freeAttempts: 3, lockoutThreshold: 10 },
+  ip: { freeAttempts: 10, lockoutThreshold: 50 },
+  baseDelayMs: 1000,
+  maxDelayMs: 1000 * 60 * 5, // 5 minutes
+  failureWindowMs: 1000 * 60 * 60, // Failures older than 1 hour are forgotten
+  lockoutDurationMs: 1000 * 60 * 15, // 15 minutes, doubled per repeated lockout
+  maxLockoutDurationMs: 1000 * 60 * 60 * 24, // 24 hours
+} as const;
+
+const RESET_KEY_PREFIX = "reset:";
+
+const EMPTY_STATE: ThrottleState = {
+  failureCount: 0,
+  lastFailureAt: null,
+  lockedUntil: null,
+  lockoutCount: 0,
+};
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Failures still inside the tracking window
+ */
+function activeFailureCount(state: ThrottleState, now: Date): number {
+  if (!state.lastFailureAt) return 0;
+  if (now.getTime() - state.lastFailureAt.getTime() > THROTTLE_POLICY.failureWindowMs) return 0;
+  return state.failureCount;
+}
+
+/**
+ * Delay required after the given number of consecutive failures
+ */
+export function computeBackoffMs(scope: ThrottleScope, failureCount: number): number {
+  const excess = failureCount - THROTTLE_POLICY[scope].freeAttempts;
+  if (excess <= 0) return 0;
+
+  return Math.min(THROTTLE_POLICY.baseDelayMs * 2 ** (excess - 1), THROTTLE_POLICY.maxDelayMs);
+}
+
+/**
+ * Lockout length for the Nth lockout (0-based)
+ */
+export function computeLockoutMs(previousLockouts: number): number {
+  return Math.min(
+    THROTTLE_POLICY.lockoutDurationMs * 2 ** previousLockouts,
+    THROTTLE_POLICY.maxLockoutDurationMs
+  );
+}
+
+/**
+ * Decide whether a login attempt may proceed
+ */
+export function evaluateThrottle(
+  scope: ThrottleScope,
+  state: ThrottleState | null,
+  now: Date = new Date()
+): ThrottleDecision {
+  if (!state) return { allowed: true, reason: null, retryAfterMs: 0 };
+
+  if (state.lockedUntil && state.lockedUntil > now) {
+    return { allowed: false, reason: "locked", retryAfterMs: state.lockedUntil.getTime() - now.getTime() };
+  }
+
+  const delayMs = computeBackoffMs(scope, activeFailureCount(state, now));
+  if (delayMs > 0 && state.lastFailureAt) {
+    const nextAttemptAt = state.lastFailureAt.getTime() + delayMs;
+    if (nextAttemptAt > now.getTime()) {
+      return { allowed: false, reason: "backoff", retryAfterMs: nextAttemptAt - now.getTime() };
+    }
+  }
+
+  return { allowed: true, reason: null, retryAfterMs: 0 };
+}
+
+/**
+ * Apply a failed attempt
+ * Reaching the lockout threshold locks the key and starts a fresh count.
+ */
+export function applyFailure(
+  scope: ThrottleScope,
+  state: ThrottleState | null,
+  now: Date = new Date()
+): { state: ThrottleState; locked: boolean } {
+  const current = state ?? EMPTY_STATE;
+  const counted: ThrottleState = {
+    failureCount: activeFailureCount(current, now) + 1,
+    lastFailureAt: now,
+    lockedUntil: null,
+    lockoutCount: current.lockoutCount,
+  };
+
+  const lockedState = applyLockout(scope, counted, now);
+  return lockedState ? { state: lockedState, locked: true } : { state: counted, locked: false };
+}
+
+/**
+ * The locked state once counted failures reach the lockout threshold, else null
+ */
+export function applyLockout(
+  scope: ThrottleScope,
+  counted: ThrottleState,
+  now: Date = new Date()
+): ThrottleState | null {
+  if (counted.failureCount < THROTTLE_POLICY[scope].lockoutThreshold) return null;
+
+  return {
+    failureCount: 0,
+    lastFailureAt: now,
+    lockedUntil: new Date(now.getTime() + computeLockoutMs(counted.lockoutCount)),
+    lockoutCount: counted.lockoutCount + 1,
+  };
+}
+
+/**
+ * Combine per-email and per-IP decisions (the stricter one wins)
+ */
+export function combineDecisions(decisions: ThrottleDecision[]): ThrottleDecision {
+  const blocked = decisions.filter((decision) => !decision.allowed);
+  if (blocked.length === 0) return { allowed: true, reason: null, retryAfterMs: 0 };
+
+  return blocked.reduce((worst, decision) => (decision.retryAfterMs > worst.retryAfterMs ? decision : worst));
+}
+
+/**
+ * Normalize email for throttling and lookup
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+function generateThrottleId(): string {
+  return `throttle_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+async function getThrottle(db: any, scope: ThrottleScope, key: string): Promise<LoginThrottle | null> {
+  const [row] = (await db
+    .select()
+    .from(loginThrottles)
+    .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.throttleKey, key)))
+    .limit(1)) as LoginThrottle[];
+
+  return row ?? null;
+}
+
+/**
+ * Count a failure in one statement, so concurrent failures for the same key
+ * all count, and return the row as counted
+ * Failures outside the tracking window start the count over.
+ */
+async function countFailure(db: any, scope: ThrottleScope, key: string, now: Date): Promise<LoginThrottle> {
+  const windowStart = new Date(now.getTime() - THROTTLE_POLICY.failureWindowMs);
+
+  // failure_count is assigned before last_failure_at, so it sees the previous failure's time
+  await db
+    .insert(loginThrottles)
+    .values({
+      id: generateThrottleId(),
+      scope,
+      throttleKey: key,
+      failureCount: 1,
+      lastFailureAt: now,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onDuplicateKeyUpdate({
+      set: {
+        failureCount: sql`if(${loginThrottles.lastFailureAt} > ${windowStart}, ${loginThrottles.failureCount} + 1, 1)`,
+        lastFailureAt: now,
+        updatedAt: now,
+      },
+    });
+
+  return (await getThrottle(db, scope, key))!;
+}
+
+/**
+ * Lock the key unless a concurrent failure already did (true if this one did)
+ */
+async function lockThrottle(db: any, counted: LoginThrottle, locked: ThrottleState): Promise<boolean> {
+  const result = await db
+    .update(loginThrottles)
+    .set({ ...locked, updatedAt: new Date() })
+    .where(and(eq(loginThrottles.id, counted.id), eq(loginThrottles.lockoutCount, counted.lockoutCount)));
+
+  return getAffectedRows(result) === 1;
+}
+
+/**
+ * Count a failure and lock the key if it crossed the threshold
+ * Returns the new lockout only when this call applied it.
+ */
+async function countAndLock(db: any, scope: ThrottleScope, key: string, now: Date): Promise<ThrottleState | null> {
+  const counted = await countFailure(db, scope, key, now);
+  const state = applyLockout(scope, counted, now);
+
+  return state && (await lockThrottle(db, counted, state)) ? state : null;
+}
+
+/**
+ * Check whether a login attempt for this email / IP may proceed
+ */
+export async function checkLoginThrottle(
+  db: any,
+  params: { email: string; ip: string | null }
+): Promise<ThrottleDecision> {
+  const now = new Date();
+  const decisions = [evaluateThrottle("email", await getThrottle(db, "email", params.email), now)];
+
+  if (params.ip) {
+    decisions.push(evaluateThrottle("ip", await getThrottle(db, "ip", params.ip), now));
+  }
+
+  return combineDecisions(decisions);
+}
+
+/**
+ * Record a failed login; writes an audit entry when a key becomes locked
+ */
+export async function recordLoginFailure(
+  db: any,
+  params: { email: string; ip: string | null; user: User | null }
+): Promise<void> {
+  const now = new Date();
+  const keys: [ThrottleScope, string][] = [["email", params.email]];
+  if (params.ip) keys.push(["ip", params.ip]);
+
+  for (const [scope, key] of keys) {
+    const state = await countAndLock(db, scope, key, now);
+
+    if (state) {
+      const isKnownUser = scope === "email" && params.user;
+      console.warn(`[Auth] Login locked for ${scope} ${key} until ${state.lockedUntil?.toISOString()}`);
+
+      await recordAuditEntry(db, {
+        actorId: null,
+        businessId: scope === "email" ? params.user?.businessId ?? null : null,
+        action: "account_locked",
+        targetType: isKnownUser ? "user" : `login_${scope}`,
+        targetId: isKnownUser ? params.user!.id : key,
+        details: {
+          scope,
+          key,
+          lockedUntil: state.lockedUntil?.toISOString(),
+          lockoutCount: state.lockoutCount,
+          ip: params.ip,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Clear failures for an email after a successful login
+ * Lockout history is kept so repeat offenders get longer lockouts.
+ */
+export async function clearLoginFailures(db: any, email: string): Promise<void> {
+  await db
+    .update(loginThrottles)
+    .set({ failureCount: 0, lastFailureAt: null, lockedUntil: null, updatedAt: new Date() })
+    .where(and(eq(loginThrottles.scope, "email"), eq(loginThrottles.throttleKey, email)));
+}
+
+/**
+ * Check whether a password reset may be requested for this email / IP
+ */
+export async function checkResetThrottle(
+  db: any,
+  params: { email: string; ip: string | null }
+): Promise<ThrottleDecision> {
+  return checkLoginThrottle(db, getResetThrottleKeys(params));
+}
+
+/**
+ * Count a password reset request (every request counts, sent or not)
+ */
+export async function recordResetRequest(db: any, params: { email: string; ip: string | null }): Promise<void> {
+  const now = new Date();
+  const { email, ip } = getResetThrottleKeys(params);
+  const keys: [ThrottleScope, string][] = [["email", email]];
+  if (ip) keys.push(["ip", ip]);
+
+  for (const [scope, key] of keys) {
+    const state = await countAndLock(db, scope, key, now);
+
+    if (state) {
+      console.warn(`[Auth] Password resets locked for ${scope} ${key} until ${state.lockedUntil?.toISOString()}`);
+    }
+  }
+}
+
+function getResetThrottleKeys(params: { email: string; ip: string | null }): { email: string; ip: string | null } {
+  return {
+    email: `${RESET_KEY_PREFIX}${params.email}`,
+    ip: params.ip ? `${RESET_KEY_PREFIX}${params.ip}` : null,
+  };
+}
+
+/**
+ * Lift a lockout early (super manager action) and record it
+ */
+export async function unlockLogin(db: any, user: User, actor: User): Promise<void> {
+  const email = normalizeEmail(user.email);
+  const existing = await getThrottle(db, "email", email);
+
+  await clearLoginFailures(db, email);
+
+  await recordAuditEntry(db, {
+    actorId: actor.id,
+    businessId: user.businessId,
+    action: "account_unlocked",
+    targetType: "user",
+    targetId: user.id,
+    details: {
+      email,
+      wasLockedUntil: existing?.lockedUntil?.toISOString() ?? null,
+    },
+  });
+}
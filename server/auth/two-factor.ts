@@ -0,0 +1,441 @@
+/**
+ * Two-Factor Authentication (TOTP, RFC 6238)
+ *
+ * - 6-digit codes, 30-second steps, HMAC-SHA1 (what authenticator apps expect)
+ * - One step of clock drift is accepted either side
+ * - A code's time step can only be used once (lastUsedStep)
+ * - Secrets are encrypted at rest with a key derived from COOKIE_SECRET
+ * - Ten single-use recovery codes, stored as SHA-256 hashes
+ *
+ * 2FA is mandatory for super_manager and founder. During login these roles
+ * receive a short-lived challenge token instead of a session, and must either
+ * verify a code or finish enrollment before a session is issued.
+ */
+
+import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { SignJWT, jwtVerify } from "jose";
+import { userTwoFactor } from "../../drizzle/schema";
+import type { User, UserTwoFactor } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import { getSigningKey } from "./session";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TwoFactorChallengePurpose = "verify" | "enroll";
+
+export interface TwoFactorEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUrl: string; // QR payload
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TOTP_ISSUER = "Simply Organized";
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const CHALLENGE_TTL_MS = 1000 * 60 * 10; // 10 minutes
+const CHALLENGE_AUDIENCE = "two_factor_challenge";
+
+const TWO_FACTOR_REQUIRED_ROLES = ["super_manager", "founder"];
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// ============================================================================
+// BASE32
+// ============================================================================
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+/**
+ * Generate a new base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Time step for a moment in time
+ */
+export function getTotpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * HOTP value for a counter (RFC 4226)
+ */
+export function generateHotp(secret: string, counter: number, digits: number = TOTP_DIGITS): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * Current TOTP code
+ */
+export function generateTotp(secret: string, now: Date = new Date()): string {
+  return generateHotp(secret, getTotpStep(now));
+}
+
+/**
+ * Verify a TOTP code
+ * Returns the matched time step, or null. Steps at or before lastUsedStep are
+ * rejected so a code cannot be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+  lastUsedStep: number | null = null
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const currentStep = getTotpStep(now);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+    const expected = Buffer.from(generateHotp(secret, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI rendered as a QR code by authenticator apps
+ */
+export function buildOtpauthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ============================================================================
+// RECOVERY CODES
+// ============================================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Hash recovery code for storage and lookup
+ */
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * Generate single-use recovery codes ("xxxxx-xxxxx")
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+// ============================================================================
+// SECRET ENCRYPTION
+// ============================================================================
+
+function getEncryptionKey(): Buffer {
+  if (!ENV.cookieSecret) {
+    throw new Error("COOKIE_SECRET is required to encrypt two-factor secrets");
+  }
+  return crypto.createHash("sha256").update(`totp-secret:${ENV.cookieSecret}`).digest();
+}
+
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+
+  return [
+    "v1",
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+export function decryptTotpSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== "v1" || !iv || !tag || !ciphertext) {
+    throw new Error("Unsupported two-factor secret format");
+  }
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+/**
+ * Whether a role must use two-factor authentication
+ */
+export function isTwoFactorRequired(role: string): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+}
+
+// ============================================================================
+// CHALLENGE TOKENS
+// ============================================================================
+
+/**
+ * Sign a login challenge (password already verified, second factor pending)
+ */
+export async function signTwoFactorChallenge(userId: string, purpose: TwoFactorChallengePurpose): Promise<string> {
+  return new SignJWT({ purpose })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(userId)
+    .setAudience(CHALLENGE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor((Date.now() + CHALLENGE_TTL_MS) / 1000))
+    .sign(getSigningKey());
+}
+
+/**
+ * Verify a login challenge; returns the user ID or null
+ */
+export async function verifyTwoFactorChallenge(
+  token: string,
+  purpose: TwoFactorChallengePurpose
+): Promise<string | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSigningKey(), {
+      audience: CHALLENGE_AUDIENCE,
+      algorithms: ["HS256"],
+    });
+
+    if (payload.purpose !== purpose || typeof payload.sub !== "string") return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// DATABASE OPERATIONS
+// ============================================================================
+
+export async function getTwoFactorRecord(db: any, userId: string): Promise<UserTwoFactor | null> {
+  const [record] = (await db
+    .select()
+    .from(userTwoFactor)
+    .where(eq(userTwoFactor.userId, userId))
+    .limit(1)) as UserTwoFactor[];
+
+  return record ?? null;
+}
+
+/**
+ * Whether a user has confirmed 2FA enrollment
+ */
+export async function isTwoFactorEnabled(db: any, userId: string): Promise<boolean> {
+  const record = await getTwoFactorRecord(db, userId);
+  return !!record?.enabledAt;
+}
+
+/**
+ * Start (or restart) enrollment with a fresh secret
+ * Not allowed once enrollment is confirmed; disable first.
+ */
+export async function beginTwoFactorEnrollment(db: any, user: User): Promise<TwoFactorEnrollment> {
+  const existing = await getTwoFactorRecord(db, user.id);
+  if (existing?.enabledAt) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  const now = new Date();
+
+  if (existing) {
+    await db
+      .update(userTwoFactor)
+      .set({
+        secretEncrypted: encryptTotpSecret(secret),
+        lastUsedStep: null,
+        recoveryCodeHashes: null,
+        updatedAt: now,
+      })
+      .where(eq(userTwoFactor.userId, user.id));
+  } else {
+    await db.insert(userTwoFactor).values({
+      userId: user.id,
+      secretEncrypted: encryptTotpSecret(secret),
+      enabledAt: null,
+      lastUsedStep: null,
+      recoveryCodeHashes: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, user.email) };
+}
+
+/**
+ * Confirm enrollment with a first code
+ * Returns fresh recovery codes (shown once), or null if the code is wrong.
+ */
+export async function confirmTwoFactorEnrollment(db: any, userId: string, code: string): Promise<string[] | null> {
+  const record = await getTwoFactorRecord(db, userId);
+  if (!record || record.enabledAt) return null;
+
+  const step = verifyTotp(decryptTotpSecret(record.secretEncrypted), code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  const now = new Date();
+
+  await db
+    .update(userTwoFactor)
+    .set({
+      enabledAt: now,
+      lastUsedStep: step,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      updatedAt: now,
+    })
+    .where(eq(userTwoFactor.userId, userId));
+
+  return recoveryCodes;
+}
+
+/**
+ * Verify a second factor (TOTP code or single-use recovery code)
+ */
+export async function verifySecondFactor(
+  db: any,
+  userId: string,
+  factor: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  const record = await getTwoFactorRecord(db, userId);
+  if (!record?.enabledAt) return false;
+
+  const now = new Date();
+
+  if (factor.code) {
+    const step = verifyTotp(decryptTotpSecret(record.secretEncrypted), factor.code, now, record.lastUsedStep);
+    if (step === null) return false;
+
+    await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: now })
+      .where(eq(userTwoFactor.userId, userId));
+    return true;
+  }
+
+  if (factor.recoveryCode) {
+    const hash = hashRecoveryCode(factor.recoveryCode);
+    const remaining = record.recoveryCodeHashes ?? [];
+    if (!remaining.includes(hash)) return false;
+
+    await db
+      .update(userTwoFactor)
+      .set({ recoveryCodeHashes: remaining.filter((candidate) => candidate !== hash), updatedAt: now })
+      .where(eq(userTwoFactor.userId, userId));
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Replace all recovery codes
+ */
+export async function regenerateRecoveryCodes(db: any, userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await db
+    .update(userTwoFactor)
+    .set({ recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() })
+    .where(eq(userTwoFactor.userId, userId));
+
+  return recoveryCodes;
+}
+
+/**
+ * Remove 2FA (roles where it is optional only)
+ */
+export async function disableTwoFactor(db: any, userId: string): Promise<void> {
+  await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+}
@@ -0,0 +1,52 @@
+/**
+ * Access-Denied Rules
+ *
+ * A cleaner who is turned away at the door (guest still present, wrong
+ * lockbox code…) reports it with GPS proof instead of starting the job. The
+ * job stays accepted but cannot be started until a manager reschedules it
+ * (same cleaner, new time) or reopens it (back to available for anyone).
+ *
+ * If the business has configured a trip fee it is paid on the cleaner's open
+ * invoice, but only when the report's GPS places the cleaner at the property.
+ */
+
+import type { Business, Property } from "../../drizzle/schema";
+import { validateGPSRadius } from "../utils/gps-validation";
+
+// Wider than the 50m completion radius: cleaners report from the street or the door
+export const ACCESS_DENIED_GPS_RADIUS_METERS = 150;
+
+export interface TripFeeDecision {
+  amount: number; // 0 = no fee
+  gpsVerified: boolean;
+  distance: number | null; // Meters from the property (null = unknown)
+}
+
+/**
+ * Trip fee owed for an access-denied report
+ */
+export function getAccessDeniedTripFee(
+  business: Pick<Business, "accessDeniedTripFee"> | null | undefined,
+  property: Pick<Property, "latitude" | "longitude"> | null | undefined,
+  gps: { lat: number; lng: number }
+): TripFeeDecision {
+  if (!property?.latitude || !property?.longitude) {
+    return { amount: 0, gpsVerified: false, distance: null };
+  }
+
+  const check = validateGPSRadius(
+    property.latitude,
+    property.longitude,
+    gps.lat,
+    gps.lng,
+    ACCESS_DENIED_GPS_RADIUS_METERS
+  );
+
+  const configuredFee = business?.accessDeniedTripFee ? parseFloat(business.accessDeniedTripFee) : 0;
+
+  return {
+    amount: check.valid ? configuredFee : 0,
+    gpsVerified: check.valid,
+    distance: check.distance >= 0 ? Math.round(check.distance) : null,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Job Cancellation Rules
+ *
+ * Cancelling is a manager action and always needs a reason. What the
+ * assigned cleaner is owed depends on how far the job had got:
+ *
+ * - available (nobody assigned):        no fee
+ * - accepted, more than 24h' notice:    no fee
+ * - accepted, within 24h of the clean:  50% of the job price
+ * - in_progress / needs_review:         full job price (cleaner was on site)
+ *
+ * The fee is added to the cleaner's open invoice as a cancellation_fee line
+ * item; any pay already invoiced for the job is voided. Managers may waive it.
+ */
+
+import type { CleaningJob } from "../../drizzle/schema";
+
+export const CANCELLATION_NOTICE_HOURS = 24;
+export const LATE_CANCELLATION_FEE_RATE = 0.5;
+
+type CancellableJob = Pick<CleaningJob, "status" | "price" | "cleaningDate" | "assignedCleanerId">;
+
+/**
+ * Fee owed to the assigned cleaner if the job is cancelled now (0 = none)
+ */
+export function getCancellationFee(job: CancellableJob, now: Date = new Date()): number {
+  if (!job.assignedCleanerId) return 0;
+
+  const price = parseFloat(job.price.toString());
+
+  switch (job.status) {
+    case "in_progress":
+    case "needs_review":
+      return price;
+    case "accepted": {
+      const hoursUntilClean = (new Date(job.cleaningDate).getTime() - now.getTime()) / (60 * 60 * 1000);
+      if (hoursUntilClean > CANCELLATION_NOTICE_HOURS) return 0;
+      return Math.round(price * LATE_CANCELLATION_FEE_RATE * 100) / 100;
+    }
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Job Invoicing
+ *
+ * Rolling invoice bookkeeping shared by job completion and cancellation:
+ * each cleaner has one open invoice that line items are appended to until it
+ * is submitted. Line items are append-only; corrections soft-void them
+ * (is_voided + invoice_line_item_void_audit) and take the amount off the
+ * invoice total. Items on submitted invoices cannot be voided.
+ *
+ * Totals are adjusted in SQL rather than rewritten from a row read earlier, so
+ * concurrent changes to the same invoice all count and the decimal stays exact.
+ */
+
+import { and, eq, sql } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { invoiceLineItemVoidAudit, invoiceLineItems, invoices } from "../../drizzle/schema";
+import type { Invoice, InvoiceLineItem, User } from "../../drizzle/schema";
+import type { TenantDb } from "../tenancy/tenant-db";
+
+// ============================================================================
+// OPEN INVOICE
+// ============================================================================
+
+/**
+ * The cleaner's open invoice, created if there is none
+ */
+export async function getOrCreateOpenInvoice(
+  tenant: TenantDb,
+  cleanerId: string,
+  payType: NonNullable<User["payType"]>
+): Promise<Invoice> {
+  const invoice = await tenant.invoices.findFirst({
+    where: and(eq(invoices.cleanerId, cleanerId), eq(invoices.status, "open")),
+  });
+
+  if (invoice) {
+    return invoice;
+  }
+
+  const now = new Date();
+  const newInvoice = {
+    id: `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    businessId: tenant.businessId,
+    cleanerId,
+    status: "open" as const,
+    invoiceCycle: "bi_weekly" as const, // Default cycle (TODO: use cleaner's preference)
+    payType, // Set pay type at invoice creation
+    periodStart: now,
+    periodEnd: new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000), // 2 weeks
+    totalAmount: "0",
+    pdfUrl: null,
+    submittedAt: null,
+    approvedAt: null,
+    paidAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await tenant.invoices.insert(newInvoice);
+  return newInvoice;
+}
+
+/**
+ * Append a line item and add it to the invoice total
+ */
+export async function addInvoiceLineItem(
+  tenant: TenantDb,
+  invoice: Invoice,
+  item: { jobId: string; type: InvoiceLineItem["type"]; amount: number }
+): Promise<string> {
+  const lineItemId = `ili_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  await tenant.invoiceLineItems.insert({
+    id: lineItemId,
+    invoiceId: invoice.id,
+    jobId: item.jobId,
+    type: item.type,
+    price: item.amount.toString(),
+    createdAt: new Date(),
+  });
+
+  await tenant.invoices.update(
+    {
+      totalAmount: sql`${invoices.totalAmount} + ${item.amount}`,
+      updatedAt: new Date(),
+    },
+    eq(invoices.id, invoice.id)
+  );
+
+  return lineItemId;
+}
+
+// ============================================================================
+// VOIDING
+// ============================================================================
+
+/**
+ * Soft-void the active pay line items for a job
+ * Fees tied to the job (an access-denied trip fee, a cancellation fee) are
+ * owed whatever happens to it and stay on the invoice.
+ * Throws BAD_REQUEST if any of them is on an invoice that is no longer open.
+ * Returns the voided line item ids.
+ */
+export async function voidJobLineItems(
+  tx: any,
+  tenant: TenantDb,
+  input: { jobId: string; reason: string; voidedBy: string }
+): Promise<string[]> {
+  const lineItems: InvoiceLineItem[] = await tenant.invoiceLineItems.findMany({
+    where: and(
+      eq(invoiceLineItems.jobId, input.jobId),
+      eq(invoiceLineItems.type, "job"),
+      eq(invoiceLineItems.isVoided, false)
+    ),
+  });
+
+  for (const lineItem of lineItems) {
+    const invoice: Invoice | undefined = await tenant.invoices.findFirst({
+      where: eq(invoices.id, lineItem.invoiceId),
+    });
+
+    if (!invoice) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+    }
+
+    if (invoice.status !== "open") {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Job is on a submitted invoice and can no longer be changed",
+      });
+    }
+
+    const now = new Date();
+    const amount = parseFloat(lineItem.adjustedPrice ?? lineItem.price);
+
+    await tenant.invoiceLineItems.update(
+      { isVoided: true, voidReason: input.reason, voidedAt: now },
+      eq(invoiceLineItems.id, lineItem.id)
+    );
+
+    // Not a tenant table: the line item was loaded through the tenant above
+    await tx.insert(invoiceLineItemVoidAudit).values({
+      id: `ilva_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      lineItemId: lineItem.id,
+      invoiceId: invoice.id,
+      jobId: input.jobId,
+      voidReason: input.reason,
+      voidedBy: input.voidedBy,
+      voidedAt: now,
+      createdAt: now,
+    });
+
+    await tenant.invoices.update(
+      {
+        totalAmount: sql`${invoices.totalAmount} - ${amount}`,
+        updatedAt: now,
+      },
+      eq(invoices.id, invoice.id)
+    );
+  }
+
+  return lineItems.map((lineItem) => lineItem.id);
+}
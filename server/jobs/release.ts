@@ -0,0 +1,35 @@
+/**
+ * Job Release Rules
+ *
+ * A cleaner who accepted a job by mistake (or can no longer make it) hands it
+ * back with a reason. Outside the business's release cutoff (default 12h
+ * before the cleaning) the job goes straight back to available and is
+ * re-broadcast to the other cleaners. Inside the cutoff the release becomes a
+ * request: the cleaner stays assigned until a manager approves or denies it.
+ *
+ * Every completed release is counted on the cleaner's record (users.release_count).
+ */
+
+import type { Business, CleaningJob } from "../../drizzle/schema";
+
+export const DEFAULT_RELEASE_CUTOFF_HOURS = 12;
+
+// Columns cleared whenever a pending release request is settled
+export const CLEARED_RELEASE_REQUEST = {
+  releaseRequestedAt: null,
+  releaseRequestedBy: null,
+  releaseReason: null,
+} satisfies Partial<CleaningJob>;
+
+/**
+ * Whether releasing the job now needs a manager's approval
+ */
+export function requiresReleaseApproval(
+  job: Pick<CleaningJob, "cleaningDate">,
+  business: Pick<Business, "jobReleaseCutoffHours"> | null | undefined,
+  now: Date = new Date()
+): boolean {
+  const cutoffHours = business?.jobReleaseCutoffHours ?? DEFAULT_RELEASE_CUTOFF_HOURS;
+  const hoursUntilClean = (new Date(job.cleaningDate).getTime() - now.getTime()) / (60 * 60 * 1000);
+  return hoursUntilClean <= cutoffHours;
+}
@@ -0,0 +1,221 @@
+/**
+ * Job State Machine
+ *
+ * Single definition of which events may happen to a job in which status, and
+ * the only place job status is written. Every applied event is recorded in
+ * job_status_history (from, to, actor, reason, GPS, timestamp) in the same
+ * transaction, which backs jobs.getTimeline.
+ *
+ *   available ──accept──▶ accepted ──start──▶ in_progress ──complete──▶ completed
+ *                                                  └──flag_for_review──▶ needs_review
+ *   needs_review ──override_complete──▶ completed
+ *   available | accepted | in_progress | needs_review ──cancel──▶ cancelled
+ *   accepted ──reopen | release──▶ available
+ *
+ * Some events (reassign, reschedule, report_access_denied, request_release,
+ * deny_release, resolve_conflict) are recorded without changing status.
+ */
+
+import { and, asc, eq } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { cleaningJobs, jobStatusHistory } from "../../drizzle/schema";
+import type { CleaningJob, JobStatusHistoryEntry } from "../../drizzle/schema";
+import { forBusiness } from "../tenancy/tenant-db";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JobStatus = CleaningJob["status"];
+
+export type JobEvent =
+  | "create"
+  | "accept"
+  | "start"
+  | "complete"
+  | "flag_for_review"
+  | "reassign"
+  | "override_complete"
+  | "resolve_conflict"
+  | "cancel"
+  | "report_access_denied"
+  | "reschedule"
+  | "reopen"
+  | "release"
+  | "request_release"
+  | "deny_release";
+
+interface JobEventRule {
+  from: readonly JobStatus[];
+  to: JobStatus | null; // Null = status unchanged
+  label: string; // "Job cannot be {label} from status …"
+}
+
+export interface JobTransitionInput {
+  businessId: string;
+  job: Pick<CleaningJob, "id" | "status">;
+  event: JobEvent;
+  actorId: string | null;
+  reason?: string | null;
+  gps?: { lat: number; lng: number } | null;
+  changes?: Partial<CleaningJob>; // Extra columns written with the status
+  details?: Record<string, unknown>;
+}
+
+export interface JobTransition {
+  historyId: string;
+  event: JobEvent;
+  from: JobStatus;
+  to: JobStatus;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+export const JOB_EVENT_RULES: Record<Exclude<JobEvent, "create">, JobEventRule> = {
+  accept: { from: ["available"], to: "accepted", label: "accepted" },
+  start: { from: ["accepted"], to: "in_progress", label: "started" },
+  complete: { from: ["in_progress"], to: "completed", label: "completed" },
+  flag_for_review: { from: ["in_progress"], to: "needs_review", label: "flagged for review" },
+  reassign: { from: ["available", "accepted"], to: null, label: "reassigned" },
+  override_complete: {
+    from: ["accepted", "in_progress", "needs_review"],
+    to: "completed",
+    label: "completed by override",
+  },
+  resolve_conflict: {
+    from: ["in_progress", "needs_review", "completed"],
+    to: null,
+    label: "resolved",
+  },
+  cancel: {
+    from: ["available", "accepted", "in_progress", "needs_review"],
+    to: "cancelled",
+    label: "cancelled",
+  },
+  report_access_denied: { from: ["accepted"], to: null, label: "reported as access denied" },
+  reschedule: { from: ["available", "accepted"], to: null, label: "rescheduled" },
+  reopen: { from: ["accepted"], to: "available", label: "reopened" },
+  release: { from: ["accepted"], to: "available", label: "released" },
+  request_release: { from: ["accepted"], to: null, label: "requested for release" },
+  deny_release: { from: ["accepted"], to: null, label: "kept assigned" },
+};
+
+/**
+ * Status a job ends up in after an event (null = event not allowed)
+ */
+export function getNextStatus(from: JobStatus, event: Exclude<JobEvent, "create">): JobStatus | null {
+  const rule = JOB_EVENT_RULES[event];
+  if (!rule.from.includes(from)) return null;
+  return rule.to ?? from;
+}
+
+/**
+ * Throw BAD_REQUEST unless the event is allowed from the current status
+ */
+export function assertTransition(from: JobStatus, event: Exclude<JobEvent, "create">): JobStatus {
+  const to = getNextStatus(from, event);
+
+  if (!to) {
+    const rule = JOB_EVENT_RULES[event];
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Job cannot be ${rule.label} from status '${from}'. Job must be ${rule.from.join(" or ")}.`,
+    });
+  }
+
+  return to;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const createHistoryId = () => `jsh_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Rows changed by an UPDATE (mysql2 returns [ResultSetHeader, fields])
+ */
+export function getAffectedRows(result: any): number {
+  const header = Array.isArray(result) ? result[0] : result;
+  return header?.affectedRows ?? 0;
+}
+
+async function recordHistory(
+  tx: any,
+  input: Omit<JobTransitionInput, "job" | "changes"> & { jobId: string; from: JobStatus | null; to: JobStatus }
+): Promise<string> {
+  const historyId = createHistoryId();
+
+  await forBusiness(tx, input.businessId).statusHistory.insert({
+    id: historyId,
+    jobId: input.jobId,
+    event: input.event,
+    fromStatus: input.from,
+    toStatus: input.to,
+    actorId: input.actorId,
+    reason: input.reason ?? null,
+    gpsLat: input.gps ? input.gps.lat.toString() : null,
+    gpsLng: input.gps ? input.gps.lng.toString() : null,
+    details: input.details ?? null,
+    createdAt: new Date(),
+  });
+
+  return historyId;
+}
+
+/**
+ * Validate and apply an event to a job, recording it in the history
+ * The update is conditional on the status the caller read, so a concurrent
+ * change makes this return null (callers report CONFLICT).
+ * Run inside the caller's transaction.
+ */
+export async function transitionJob(tx: any, input: JobTransitionInput): Promise<JobTransition | null> {
+  const event = input.event as Exclude<JobEvent, "create">;
+  const from = input.job.status;
+  const to = assertTransition(from, event);
+
+  const updated = await forBusiness(tx, input.businessId).jobs.update(
+    { ...input.changes, status: to, updatedAt: new Date() },
+    and(eq(cleaningJobs.id, input.job.id), eq(cleaningJobs.status, from))
+  );
+
+  if (getAffectedRows(updated) === 0) {
+    return null;
+  }
+
+  const historyId = await recordHistory(tx, { ...input, jobId: input.job.id, from, to });
+  return { historyId, event, from, to };
+}
+
+/**
+ * Record the initial status of a new job
+ */
+export async function recordJobCreated(
+  tx: any,
+  input: { businessId: string; jobId: string; status: JobStatus; actorId: string | null; details?: Record<string, unknown> }
+): Promise<string> {
+  return recordHistory(tx, {
+    businessId: input.businessId,
+    jobId: input.jobId,
+    event: "create",
+    from: null,
+    to: input.status,
+    actorId: input.actorId,
+    details: input.details,
+  });
+}
+
+/**
+ * Transitions for a job, oldest first
+ */
+export async function getJobTimeline(db: any, businessId: string, jobId: string): Promise<JobStatusHistoryEntry[]> {
+  return forBusiness(db, businessId).statusHistory.findMany({
+    where: eq(jobStatusHistory.jobId, jobId),
+    with: {
+      actor: { columns: { id: true, firstName: true, lastName: true, role: true } },
+    },
+    orderBy: [asc(jobStatusHistory.createdAt)],
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Mail Templates
+ *
+ * Plain-text bodies for transactional email. Links point at APP_URL when it is
+ * configured; the raw code is always included so it can be pasted in the app.
+ */
+
+import { ENV } from "../_core/env";
+import type { MailMessage } from "./transport";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function buildAppLink(pathname: string, token: string): string | null {
+  if (!ENV.appUrl) return null;
+
+  const url = new URL(pathname, ENV.appUrl);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Password reset email
+ */
+export function buildPasswordResetEmail(params: {
+  to: string;
+  firstName: string | null;
+  token: string;
+  expiresInMinutes: number;
+}): MailMessage {
+  const link = buildAppLink("/reset-password", params.token);
+
+  const lines = [
+    `Hi ${params.firstName || "there"},`,
+    "",
+    "We received a request to reset your Simply Organized password.",
+    link ? `Reset it here: ${link}` : null,
+    `Or enter this code in the app: ${params.token}`,
+    "",
+    `This code expires in ${params.expiresInMinutes} minutes and can only be used once.`,
+    "If you did not request a reset, you can ignore this email.",
+  ];
+
+  return {
+    to: params.to,
+    subject: "Reset your Simply Organized password",
+    text: lines.filter((line) => line !== null).join("\n"),
+  };
+}
+
+/**
+ * Team invitation email
+ */
+export function buildInvitationEmail(params: {
+  to: string;
+  businessName: string | null;
+  role: string;
+  token: string;
+  expiresAt: Date;
+}): MailMessage {
+  const link = buildAppLink("/invite", params.token);
+  const businessName = params.businessName || "A Simply Organized business";
+
+  const lines = [
+    "Hi,",
+    "",
+    `${businessName} invited you to join their team as a ${params.role}.`,
+    link ? `Accept the invitation here: ${link}` : null,
+    `Or enter this invitation code in the app: ${params.token}`,
+    "",
+    `This invitation expires on ${params.expiresAt.toUTCString()}.`,
+  ];
+
+  return {
+    to: params.to,
+    subject: `You're invited to join ${businessName}`,
+    text: lines.filter((line) => line !== null).join("\n"),
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Mail Transport
+ *
+ * Pluggable outbound email. Selected by MAIL_TRANSPORT:
+ * - "console" (default outside production): logs the message, for local development
+ * - "file": writes each message as JSON into MAIL_OUTBOX_DIR, for tests and QA
+ * - "smtp" (default in production): sends through SMTP_HOST (SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+ *
+ * Messages carry password reset and invitation tokens, so production refuses
+ * to start with anything but a configured SMTP transport (assertMailTransportConfigured).
+ *
+ * Tests install a CaptureMailTransport with setMailTransport() and inspect what was sent.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+import { ENV } from "../_core/env";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MailMessage {
+  from?: string; // Defaults to MAIL_FROM
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// ============================================================================
+// CONSOLE TRANSPORT
+// ============================================================================
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// ============================================================================
+// FILE TRANSPORT
+// ============================================================================
+
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      "utf8"
+    );
+
+    console.log(`[Mail] Wrote "${message.subject}" for ${message.to} to ${filePath}`);
+  }
+}
+
+// ============================================================================
+// SMTP TRANSPORT
+// ============================================================================
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = "smtp";
+
+  private readonly transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+// ============================================================================
+// CAPTURE TRANSPORT
+// ============================================================================
+
+export class CaptureMailTransport implements MailTransport {
+  readonly name = "capture";
+
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let mailTransport: MailTransport | null = null;
+
+function createDefaultTransport(): MailTransport {
+  if (ENV.mailTransport === "file") {
+    return new FileMailTransport(ENV.mailOutboxDir);
+  }
+  if (ENV.mailTransport === "smtp") {
+    return new SmtpMailTransport({
+      host: ENV.smtpHost,
+      port: ENV.smtpPort,
+      secure: ENV.smtpSecure,
+      user: ENV.smtpUser,
+      password: ENV.smtpPassword,
+    });
+  }
+  return new ConsoleMailTransport();
+}
+
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport = createDefaultTransport();
+  }
+  return mailTransport;
+}
+
+/**
+ * Why the configured transport cannot be used, or null if it can
+ */
+export function getMailTransportConfigError(
+  config: Pick<typeof ENV, "isProduction" | "mailTransport" | "smtpHost"> = ENV
+): string | null {
+  if (!config.isProduction) return null;
+  if (config.mailTransport !== "smtp") {
+    return `MAIL_TRANSPORT "${config.mailTransport}" would only log or store mail in production; use "smtp"`;
+  }
+  if (!config.smtpHost) return "MAIL_TRANSPORT is smtp but SMTP_HOST is not set";
+  return null;
+}
+
+/**
+ * Throw at startup unless the configured transport really sends mail
+ */
+export function assertMailTransportConfigured(
+  config?: Pick<typeof ENV, "isProduction" | "mailTransport" | "smtpHost">
+): void {
+  const error = getMailTransportConfigError(config);
+  if (error) {
+    throw new Error(`[Mail] ${error}`);
+  }
+}
+
+/**
+ * Replace the active transport (provider wiring, tests)
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  mailTransport = transport;
+}
+
+/**
+ * Send an email through the active transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ from: ENV.mailFrom, ...message });
+}
@@ -1,15 +1,29 @@
 /**
  * Notification Delivery Engine
  *
- * Handles multi-channel delivery:
- * - Push notifications (primary)
+ * Delivers one outbox channel of an event:
+ * - Push notifications (primary, through the active PushProvider in push.ts)
  * - In-app notifications (persistent, auditable)
- * - Offline queuing (sync on reconnect)
+ * - Email and SMS, for the rules that ask for them (NotificationRule.channels),
+ *   through the mail and SMS transports
+ *
+ * Failures are thrown so the outbox worker can retry the channel (outbox.ts);
+ * when only some recipients failed, a PartialDeliveryError names them.
  */
 
-import type { NotificationEvent } from "./events";
-import { getRecipientsForEvent, isCriticalEvent, getNotificationRulesForEvent } from "./events";
-import type { User } from "@/drizzle/schema";
+import type { NotificationEvent, NotificationRule } from "./events";
+import { getNotificationRulesForEvent, getRuleChannels } from "./events";
+import { notifications, pushTickets } from "@/drizzle/schema";
+import type { InsertNotification, InsertPushTicketRecord, NotificationChannel, User } from "@/drizzle/schema";
+import { getDb } from "@/server/db";
+import { sendMail } from "@/server/mail/transport";
+import { sendSms } from "@/server/sms/transport";
+import { DEVICE_NOT_REGISTERED, getPushErrorCode, getPushProvider, type PushMessage } from "./push";
+import { getPushTokensForUsers, prunePushTokens } from "./push-tokens";
+import { PartialDeliveryError, deferNotificationEvent } from "./outbox";
+import { getBusinessTimezone, getQuietHoursEnd, isChannelOptedOut, loadRecipientPreferences } from "./preferences";
+import { loadNotificationRules } from "./rule-overrides";
+import { buildNotificationEmail, buildNotificationSms } from "./templates";
 
 // ============================================================================
 // TYPES
@@ -17,6 +31,7 @@ import type { User } from "@/drizzle/schema";
 
 export interface NotificationPayload {
   notificationId: string;
+  businessId: string;
   userId: string;
   role: "super_manager" | "manager" | "cleaner";
   type: NotificationEvent["type"];
@@ -28,255 +43,326 @@ export interface NotificationPayload {
   createdAt: Date;
 }
 
-export interface PushNotificationPayload {
-  title: string;
-  message: string;
-  badge?: number;
-  sound?: string; // "default", "critical", "silent"
-  priority?: "high" | "normal";
-  data?: Record<string, string>;
-}
-
-export interface OfflineQueueItem {
-  id: string;
-  event: NotificationEvent;
-  businessUsers: User[];
-  queuedAt: Date;
-  retryCount: number;
-}
-
 // ============================================================================
 // NOTIFICATION DELIVERY SERVICE
 // ============================================================================
 
 export class NotificationDeliveryService {
-  private offlineQueue: Map<string, OfflineQueueItem> = new Map();
-  private isOnline: boolean = true;
-
   /**
-   * Deliver notification for an event
+   * Deliver an event on one channel
+   * Only the business's rules (rule-overrides.ts) that deliver on the channel
+   * are used. Recipients' preferences are applied first (see preferences.ts):
+   * opted-out and muted recipients are dropped, and push or SMS to anyone in
+   * quiet hours is queued again for when their quiet hours end (once per
+   * sourceId, the outbox row being delivered, however often it is retried).
+   * Throws if any recipient could not be reached on that channel.
    */
-  async deliverNotification(event: NotificationEvent, businessUsers: User[]): Promise<void> {
-    if (!this.isOnline) {
-      this.queueOfflineEvent(event, businessUsers);
-      return;
+  async deliverChannel(
+    channel: NotificationChannel,
+    event: NotificationEvent,
+    businessUsers: User[],
+    now: Date = new Date(),
+    sourceId?: string
+  ): Promise<void> {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new Error("Database unavailable");
     }
 
-    try {
-      const recipientIds = getRecipientsForEvent(event, businessUsers);
-      const rules = getNotificationRulesForEvent(event);
-
-      for (const rule of rules) {
-        for (const recipientId of recipientIds) {
-          const recipient = businessUsers.find((u) => u.id === recipientId);
-          if (!recipient) continue;
+    const rules = await loadNotificationRules(db, event.businessId);
+    const deliveries = await this.applyPreferences(
+      channel,
+      event,
+      this.buildPayloads(event, businessUsers, channel, rules),
+      now,
+      sourceId
+    );
+    if (deliveries.length === 0) return;
+
+    switch (channel) {
+      case "in_app":
+        await this.saveInAppNotifications(deliveries.map(({ payload }) => payload));
+        await Promise.all(deliveries.map(({ payload }) => this.logNotificationEvent(payload, event)));
+        return;
+      case "push":
+        await this.sendPushNotifications(deliveries.map(({ payload }) => payload));
+        return;
+      case "email":
+        await this.sendEachRecipient(channel, deliveries, (recipient, payload) =>
+          sendMail(buildNotificationEmail(payload, recipient))
+        );
+        return;
+      case "sms":
+        await this.sendEachRecipient(channel, deliveries, (recipient, payload) =>
+          recipient.phone ? sendSms(buildNotificationSms(payload, { ...recipient, phone: recipient.phone })) : null
+        );
+        return;
+    }
+  }
 
-          const payload: NotificationPayload = {
+  /**
+   * One payload per rule and recipient, with the rule's body for the channel
+   */
+  private buildPayloads(
+    event: NotificationEvent,
+    businessUsers: User[],
+    channel: NotificationChannel,
+    rules: NotificationRule[]
+  ): { recipient: User; payload: NotificationPayload }[] {
+    const deliveries: { recipient: User; payload: NotificationPayload }[] = [];
+
+    for (const rule of getNotificationRulesForEvent(event, rules)) {
+      if (!getRuleChannels(rule).includes(channel)) continue;
+      const message = rule.bodies?.[channel] ?? rule.message;
+
+      // Each rule only reaches its own recipients (a manager never gets the cleaner copy)
+      for (const recipientId of rule.recipientIds(event, businessUsers)) {
+        const recipient = businessUsers.find((u) => u.id === recipientId);
+        if (!recipient) continue;
+
+        deliveries.push({
+          recipient,
+          payload: {
             notificationId: `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            businessId: recipient.businessId,
             userId: recipientId,
             role: recipient.role as "super_manager" | "manager" | "cleaner",
             type: event.type,
             jobId: (event as any).jobId,
             title: rule.title(event),
-            message: rule.message(event),
+            message: message(event),
             isCritical: rule.isCritical,
             isRead: false,
             createdAt: new Date(),
-          };
-
-          // Deliver via multiple channels
-          await Promise.all([
-            this.sendPushNotification(recipient, payload, rule.isCritical),
-            this.saveInAppNotification(payload),
-            this.logNotificationEvent(payload, event),
-          ]);
-        }
+          },
+        });
       }
-    } catch (error) {
-      console.error("[Notifications] Delivery failed:", error);
-      this.queueOfflineEvent(event, businessUsers);
     }
+
+    return deliveries;
   }
 
   /**
-   * Send push notification (primary channel)
+   * Deliveries that should go out now
+   * Critical payloads always do; the rest follow the recipient's preferences.
    */
-  private async sendPushNotification(
-    user: User,
-    payload: NotificationPayload,
-    isCritical: boolean
-  ): Promise<void> {
-    try {
-      const pushPayload: PushNotificationPayload = {
-        title: payload.title,
-        message: payload.message,
-        badge: 1,
-        sound: isCritical ? "critical" : "default",
-        priority: isCritical ? "high" : "normal",
-        data: {
-          notificationId: payload.notificationId,
-          jobId: payload.jobId || "",
-          type: payload.type,
-        },
-      };
-
-      // TODO: Integrate with push notification service (Firebase Cloud Messaging, APNs, etc.)
-      // For now, log the push notification
-      console.log(`[Push] To ${user.email}: ${payload.title}`);
-
-      // Simulate push delivery
-      await this.simulatePushDelivery(user.id, pushPayload);
-    } catch (error) {
-      console.error(`[Push] Failed to send to ${user.email}:`, error);
-      throw error;
+  private async applyPreferences(
+    channel: NotificationChannel,
+    event: NotificationEvent,
+    deliveries: { recipient: User; payload: NotificationPayload }[],
+    now: Date,
+    sourceId?: string
+  ): Promise<{ recipient: User; payload: NotificationPayload }[]> {
+    const optional = deliveries.filter(({ payload }) => !payload.isCritical);
+    if (optional.length === 0) return deliveries;
+
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new Error("Database unavailable");
     }
-  }
 
-  /**
-   * Save in-app notification (persistent, auditable)
-   */
-  private async saveInAppNotification(payload: NotificationPayload): Promise<void> {
-    try {
-      // TODO: Save to database
-      // await db.insert(notifications).values({
-      //   id: payload.notificationId,
-      //   userId: payload.userId,
-      //   type: payload.type,
-      //   title: payload.title,
-      //   message: payload.message,
-      //   isCritical: payload.isCritical,
-      //   isRead: false,
-      //   createdAt: payload.createdAt,
-      // });
-
-      console.log(`[InApp] Saved notification ${payload.notificationId} for ${payload.userId}`);
-    } catch (error) {
-      console.error("[InApp] Failed to save notification:", error);
-      throw error;
+    const jobId: string | undefined = (event as any).jobId;
+    const preferences = await loadRecipientPreferences(
+      db,
+      [...new Set(optional.map(({ payload }) => payload.userId))],
+      jobId
+    );
+
+    let timeZone: string | null = null;
+    const deferred = new Map<number, Set<string>>(); // Quiet hours end -> recipients
+    const sendNow: { recipient: User; payload: NotificationPayload }[] = [];
+
+    for (const delivery of deliveries) {
+      const { payload } = delivery;
+      const userPreferences = preferences.get(payload.userId);
+
+      if (payload.isCritical || !userPreferences) {
+        sendNow.push(delivery);
+        continue;
+      }
+
+      if ((jobId && userPreferences.mutedJobIds.has(jobId)) || isChannelOptedOut(userPreferences, event.type, channel)) {
+        continue;
+      }
+
+      // Quiet hours only hold back channels that buzz a phone
+      if ((channel === "push" || channel === "sms") && userPreferences.quietHours) {
+        timeZone ??= await getBusinessTimezone(db, event.businessId);
+        const until = getQuietHoursEnd(userPreferences.quietHours, now, timeZone);
+
+        if (until) {
+          const recipients = deferred.get(until.getTime()) ?? new Set<string>();
+          recipients.add(payload.userId);
+          deferred.set(until.getTime(), recipients);
+          continue;
+        }
+      }
+
+      sendNow.push(delivery);
     }
-  }
 
-  /**
-   * Log notification event for audit trail
-   */
-  private async logNotificationEvent(
-    payload: NotificationPayload,
-    event: NotificationEvent
-  ): Promise<void> {
-    try {
-      // TODO: Save to audit log
-      console.log(
-        `[Audit] Notification ${payload.notificationId} for event ${event.type} to ${payload.userId}`
-      );
-    } catch (error) {
-      console.error("[Audit] Failed to log notification:", error);
+    for (const [until, recipientIds] of deferred) {
+      await deferNotificationEvent(db, event, channel, [...recipientIds], new Date(until), sourceId);
+      console.log(`[Delivery] Holding ${channel} ${event.type} for ${recipientIds.size} recipient(s) until ${new Date(until).toISOString()}`);
     }
+
+    return sendNow;
   }
 
   /**
-   * Queue event for offline delivery
+   * Send push notifications (primary channel)
+   * One message per registered device; recipients without a device are skipped.
+   * Tokens the service reports as unregistered are pruned; any other rejection
+   * fails the channel so the outbox retries it for the rejected recipients only.
    */
-  private queueOfflineEvent(event: NotificationEvent, businessUsers: User[]): void {
-    const queueId = `queue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const item: OfflineQueueItem = {
-      id: queueId,
-      event,
-      businessUsers,
-      queuedAt: new Date(),
-      retryCount: 0,
-    };
+  private async sendPushNotifications(payloads: NotificationPayload[]): Promise<void> {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new Error("Database unavailable");
+    }
 
-    this.offlineQueue.set(queueId, item);
-    console.log(`[Offline] Queued event ${event.type} (queue size: ${this.offlineQueue.size})`);
-  }
+    const tokens = await getPushTokensForUsers(db, [...new Set(payloads.map((payload) => payload.userId))]);
+    const messages: PushMessage[] = payloads.flatMap((payload) =>
+      tokens
+        .filter((token) => token.userId === payload.userId)
+        .map((token) => ({
+          to: token.token,
+          title: payload.title,
+          body: payload.message,
+          sound: "default" as const,
+          badge: 1,
+          priority: payload.isCritical ? ("high" as const) : ("default" as const),
+          interruptionLevel: payload.isCritical ? ("time-sensitive" as const) : ("active" as const),
+          data: {
+            notificationId: payload.notificationId,
+            jobId: payload.jobId || "",
+            type: payload.type,
+          },
+        }))
+    );
+
+    if (messages.length === 0) return;
+
+    const tickets = await getPushProvider().send(messages);
+
+    const accepted: InsertPushTicketRecord[] = [];
+    const unregistered = new Set<string>();
+    const rejected: string[] = [];
+    const rejectedUserIds = new Set<string>();
+
+    tickets.forEach((ticket, index) => {
+      const message = messages[index];
+      if (ticket.status === "ok") {
+        accepted.push({ id: ticket.id, businessId: payloads[0].businessId, token: message.to });
+      } else if (getPushErrorCode(ticket) === DEVICE_NOT_REGISTERED) {
+        unregistered.add(message.to);
+      } else {
+        rejected.push(ticket.message);
+        rejectedUserIds.add(tokens.find((token) => token.token === message.to)!.userId);
+      }
+    });
 
-  /**
-   * Process offline queue when connectivity resumes
-   */
-  async processOfflineQueue(): Promise<void> {
-    if (this.offlineQueue.size === 0) {
-      console.log("[Offline] Queue is empty");
-      return;
+    // Receipts for accepted messages are checked later (push-receipts.ts)
+    if (accepted.length > 0) {
+      await db.insert(pushTickets).values(accepted);
     }
+    await prunePushTokens(db, [...unregistered]);
 
-    console.log(`[Offline] Processing ${this.offlineQueue.size} queued events...`);
+    console.log(`[Push] Sent ${accepted.length}/${messages.length} message(s) for event ${payloads[0].type}`);
 
-    const failedItems: string[] = [];
+    if (rejected.length > 0) {
+      throw new PartialDeliveryError(`Push service rejected ${rejected.length} message(s): ${rejected[0]}`, [
+        ...rejectedUserIds,
+      ]);
+    }
+  }
 
-    for (const [queueId, item] of this.offlineQueue) {
+  /**
+   * Send one email or text per payload
+   * Every recipient is attempted; the channel fails afterwards if any send did,
+   * naming the recipients to retry. A recipient without an address (null from
+   * send) is skipped.
+   */
+  private async sendEachRecipient(
+    channel: "email" | "sms",
+    deliveries: { recipient: User; payload: NotificationPayload }[],
+    send: (recipient: User, payload: NotificationPayload) => Promise<void> | null
+  ): Promise<void> {
+    const label = channel === "email" ? "Email" : "SMS";
+    const failures: string[] = [];
+    const failedRecipientIds = new Set<string>();
+    let sent = 0;
+
+    for (const { recipient, payload } of deliveries) {
       try {
-        await this.deliverNotification(item.event, item.businessUsers);
-        this.offlineQueue.delete(queueId);
-        console.log(`[Offline] Delivered queued event ${item.event.type}`);
+        const delivery = send(recipient, payload);
+        if (!delivery) continue;
+        await delivery;
+        sent++;
       } catch (error) {
-        item.retryCount++;
-        if (item.retryCount >= 3) {
-          console.error(`[Offline] Max retries exceeded for ${queueId}:`, error);
-          failedItems.push(queueId);
-        } else {
-          console.warn(`[Offline] Retry ${item.retryCount}/3 for ${queueId}:`, error);
-        }
+        console.error(`[${label}] Failed to send to ${recipient.id}:`, error);
+        failures.push(error instanceof Error ? error.message : String(error));
+        failedRecipientIds.add(recipient.id);
       }
     }
 
-    // Remove failed items after max retries
-    failedItems.forEach((id) => this.offlineQueue.delete(id));
+    console.log(`[${label}] Sent ${sent} message(s) for event ${deliveries[0].payload.type}`);
 
-    if (this.offlineQueue.size === 0) {
-      console.log("[Offline] Queue processed successfully");
-    } else {
-      console.warn(`[Offline] ${this.offlineQueue.size} items still in queue`);
+    if (failures.length > 0) {
+      throw new PartialDeliveryError(`${failures.length} ${channel} message(s) failed: ${failures[0]}`, [
+        ...failedRecipientIds,
+      ]);
     }
   }
 
   /**
-   * Set online/offline status
+   * Save in-app notifications (persistent, auditable)
+   * One insert, so a retried channel never leaves a partial set behind
    */
-  setOnlineStatus(isOnline: boolean): void {
-    const wasOnline = this.isOnline;
-    this.isOnline = isOnline;
-
-    if (!wasOnline && isOnline) {
-      console.log("[Connectivity] Back online, processing queue...");
-      this.processOfflineQueue().catch((error) => {
-        console.error("[Connectivity] Failed to process queue:", error);
-      });
-    } else if (wasOnline && !isOnline) {
-      console.log("[Connectivity] Offline, queuing notifications");
-    }
-  }
+  private async saveInAppNotifications(payloads: NotificationPayload[]): Promise<void> {
+    try {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database unavailable");
+      }
 
-  /**
-   * Get offline queue status
-   */
-  getQueueStatus(): { size: number; oldestItem?: Date } {
-    if (this.offlineQueue.size === 0) {
-      return { size: 0 };
-    }
+      const rows: InsertNotification[] = payloads.map((payload) => ({
+        id: payload.notificationId,
+        businessId: payload.businessId,
+        userId: payload.userId,
+        type: payload.type,
+        title: payload.title.substring(0, 255),
+        message: payload.message,
+        relatedJobId: payload.jobId ?? null,
+        isCritical: payload.isCritical,
+        isRead: false,
+        createdAt: payload.createdAt,
+      }));
 
-    let oldestDate: Date | undefined;
-    for (const item of this.offlineQueue.values()) {
-      if (!oldestDate || item.queuedAt < oldestDate) {
-        oldestDate = item.queuedAt;
-      }
-    }
+      await db.insert(notifications).values(rows);
 
-    return { size: this.offlineQueue.size, oldestItem: oldestDate };
+      console.log(`[InApp] Saved ${rows.length} notification(s) for event ${payloads[0].type}`);
+    } catch (error) {
+      console.error("[InApp] Failed to save notifications:", error);
+      throw error;
+    }
   }
 
   /**
-   * Simulate push delivery (for testing)
+   * Log notification event for audit trail
    */
-  private async simulatePushDelivery(
-    userId: string,
-    payload: PushNotificationPayload
+  private async logNotificationEvent(
+    payload: NotificationPayload,
+    event: NotificationEvent
   ): Promise<void> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        console.log(`[Push] Delivered to ${userId}: ${payload.title}`);
-        resolve();
-      }, 100);
-    });
+    try {
+      // TODO: Save to audit log
+      console.log(
+        `[Audit] Notification ${payload.notificationId} for event ${event.type} to ${payload.userId}`
+      );
+    } catch (error) {
+      console.error("[Audit] Failed to log notification:", error);
+    }
   }
 }
 
@@ -292,26 +378,3 @@ export function getNotificationDeliveryService(): NotificationDeliveryService {
   }
   return deliveryService;
 }
-
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Emit notification event
- */
-export async function emitNotificationEvent(
-  event: NotificationEvent,
-  businessUsers: User[]
-): Promise<void> {
-  const service = getNotificationDeliveryService();
-  await service.deliverNotification(event, businessUsers);
-}
-
-/**
- * Handle connectivity change
- */
-export function handleConnectivityChange(isOnline: boolean): void {
-  const service = getNotificationDeliveryService();
-  service.setOnlineStatus(isOnline);
-}
@@ -0,0 +1,421 @@
+/**
+ * Daily Schedule Digests
+ *
+ * Two digests per business, sent at a fixed local time in the business's
+ * timezone and delivered through the notification engine like any other
+ * event (rules, preferences and channels apply):
+ * - Cleaners, at CLEANER_DIGEST_TIME: their accepted jobs for the next day,
+ *   with address, guest count, pets and instructions
+ * - Managers, at MANAGER_DIGEST_TIME: upcoming unassigned jobs, jobs needing
+ *   review and today's same-day turnovers
+ *
+ * A digest is claimed in notification_digest_runs in the same transaction
+ * that queues it, so each business gets it once per local day however many
+ * servers run the scheduler, and a failed run is picked up on the next tick.
+ */
+
+import { DrizzleQueryError, and, asc, eq, gte, inArray, lt, ne, type SQL } from "drizzle-orm";
+import { bookings, businesses, cleaningJobs, notificationDigestRuns } from "@/drizzle/schema";
+import type { Booking, CleaningJob, DigestKind, Property, User } from "@/drizzle/schema";
+import { getDb } from "@/server/db";
+import { forBusiness } from "../tenancy/tenant-db";
+import type { CleanerDailyDigestEvent, DigestJob, ManagerDailyDigestEvent } from "./events";
+import { getBusinessUsers } from "./job-context";
+import { emitNotificationEvent } from "./outbox";
+import { DEFAULT_TIMEZONE, getLocalTime, toMinutes } from "./preferences";
+
+export const CLEANER_DIGEST_TIME = "18:00"; // Evening before
+export const MANAGER_DIGEST_TIME = "07:00"; // Morning of
+export const UNASSIGNED_LOOKAHEAD_DAYS = 7;
+
+const DEFAULT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000; // Widest timezone offset
+const UNBOUNDED_JOB_LIMIT = 50; // Jobs loaded for a section without a date range
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DueDigest {
+  kind: DigestKind;
+  runDate: string; // Local day the digest is sent on
+  digestDate: string; // Local day the digest is about
+}
+
+export interface DigestRunResult {
+  runs: number;
+  events: number;
+}
+
+type JobWithDetails = CleaningJob & {
+  property: Pick<Property, "name" | "address" | "city"> | null;
+  booking: Pick<Booking, "guestCount" | "hasPets"> | null;
+};
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * "YYYY-MM-DD" shifted by whole days
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * A UTC range certain to contain every instant of local days first..last
+ * (callers narrow it down with getLocalTime)
+ */
+function getUtcWindow(first: string, last: string): { from: Date; to: Date } {
+  return {
+    from: new Date(Date.parse(`${first}T00:00:00Z`) - MAX_UTC_OFFSET_MS),
+    to: new Date(Date.parse(`${last}T00:00:00Z`) + DAY_MS + MAX_UTC_OFFSET_MS),
+  };
+}
+
+/**
+ * Digests whose send time has passed today in the timezone
+ */
+export function getDueDigests(now: Date, timeZone: string): DueDigest[] {
+  const { date, minutes } = getLocalTime(now, timeZone);
+  const due: DueDigest[] = [];
+
+  if (minutes >= toMinutes(CLEANER_DIGEST_TIME)) {
+    due.push({ kind: "cleaner", runDate: date, digestDate: addDays(date, 1) });
+  }
+  if (minutes >= toMinutes(MANAGER_DIGEST_TIME)) {
+    due.push({ kind: "manager", runDate: date, digestDate: date });
+  }
+
+  return due;
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+function getUserName(user: User | undefined): string | null {
+  if (!user) return null;
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+}
+
+/**
+ * Jobs matching a condition (and on local days first..last, if given) with
+ * their property and booking, flagged when other guests check in to the
+ * property the same local day
+ */
+async function loadDigestJobs(
+  tx: any,
+  businessId: string,
+  timeZone: string,
+  condition: SQL,
+  businessUsers: User[],
+  days?: { first: string; last: string }
+): Promise<DigestJob[]> {
+  const localDate = (date: Date) => getLocalTime(date, timeZone).date;
+  const window = days ? getUtcWindow(days.first, days.last) : null;
+
+  const found: JobWithDetails[] = await forBusiness(tx, businessId).jobs.findMany({
+    where: window
+      ? and(gte(cleaningJobs.cleaningDate, window.from), lt(cleaningJobs.cleaningDate, window.to), condition)
+      : condition,
+    with: {
+      property: { columns: { name: true, address: true, city: true } },
+      booking: { columns: { guestCount: true, hasPets: true } },
+    },
+    orderBy: asc(cleaningJobs.cleaningDate),
+    limit: days ? undefined : UNBOUNDED_JOB_LIMIT,
+  });
+  const jobs = days
+    ? found.filter((job) => localDate(job.cleaningDate) >= days.first && localDate(job.cleaningDate) <= days.last)
+    : found;
+
+  if (jobs.length === 0) return [];
+
+  // Jobs are sorted by date: check-ins within a day either side can share a local day with them
+  const from = new Date(jobs[0].cleaningDate.getTime() - DAY_MS);
+  const to = new Date(jobs[jobs.length - 1].cleaningDate.getTime() + DAY_MS);
+
+  const checkIns: Pick<Booking, "id" | "propertyId" | "checkInDate">[] = await tx
+    .select({ id: bookings.id, propertyId: bookings.propertyId, checkInDate: bookings.checkInDate })
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.businessId, businessId),
+        inArray(bookings.propertyId, [...new Set(jobs.map((job) => job.propertyId))]),
+        gte(bookings.checkInDate, from),
+        lt(bookings.checkInDate, to),
+        ne(bookings.status, "cancelled")
+      )
+    );
+
+  return jobs.map((job) => ({
+    jobId: job.id,
+    propertyName: job.property?.name ?? "Unknown property",
+    address: [job.property?.address, job.property?.city].filter(Boolean).join(", "),
+    cleaningDate: job.cleaningDate,
+    status: job.status,
+    cleanerId: job.assignedCleanerId,
+    cleanerName: job.assignedCleanerId
+      ? getUserName(businessUsers.find((user) => user.id === job.assignedCleanerId))
+      : null,
+    guestCount: job.booking?.guestCount ?? null,
+    hasPets: job.booking?.hasPets ?? false,
+    instructions: job.instructions,
+    sameDayCheckIn: checkIns.some(
+      (booking) =>
+        booking.propertyId === job.propertyId &&
+        booking.id !== job.bookingId &&
+        localDate(booking.checkInDate) === localDate(job.cleaningDate)
+    ),
+  }));
+}
+
+/**
+ * One digest per cleaner with accepted jobs on the day
+ */
+export function buildCleanerDigests(
+  businessId: string,
+  date: string,
+  jobs: DigestJob[],
+  businessUsers: User[],
+  now: Date
+): CleanerDailyDigestEvent[] {
+  const byCleaner = new Map<string, DigestJob[]>();
+  for (const job of jobs) {
+    if (!job.cleanerId) continue;
+    byCleaner.set(job.cleanerId, [...(byCleaner.get(job.cleanerId) ?? []), job]);
+  }
+
+  return Array.from(byCleaner, ([cleanerId, cleanerJobs]) => ({
+    type: "cleaner_daily_digest" as const,
+    businessId,
+    cleanerId,
+    cleanerName: getUserName(businessUsers.find((user) => user.id === cleanerId)) ?? "there",
+    date,
+    jobCount: cleanerJobs.length,
+    jobs: cleanerJobs,
+    timestamp: now,
+  }));
+}
+
+/**
+ * The manager digest (null when there is nothing to report)
+ */
+export function buildManagerDigest(
+  businessId: string,
+  date: string,
+  sections: { unassigned: DigestJob[]; needsReview: DigestJob[]; today: DigestJob[] },
+  now: Date
+): ManagerDailyDigestEvent | null {
+  const sameDayTurnovers = sections.today.filter((job) => job.sameDayCheckIn && job.status !== "cancelled");
+  if (sections.unassigned.length + sections.needsReview.length + sameDayTurnovers.length === 0) return null;
+
+  return {
+    type: "manager_daily_digest",
+    businessId,
+    date,
+    unassignedCount: sections.unassigned.length,
+    needsReviewCount: sections.needsReview.length,
+    turnoverCount: sameDayTurnovers.length,
+    unassigned: sections.unassigned,
+    needsReview: sections.needsReview,
+    sameDayTurnovers,
+    timestamp: now,
+  };
+}
+
+async function loadCleanerDigests(
+  tx: any,
+  businessId: string,
+  timeZone: string,
+  date: string,
+  businessUsers: User[],
+  now: Date
+): Promise<CleanerDailyDigestEvent[]> {
+  const jobs = await loadDigestJobs(tx, businessId, timeZone, eq(cleaningJobs.status, "accepted"), businessUsers, {
+    first: date,
+    last: date,
+  });
+
+  return buildCleanerDigests(businessId, date, jobs, businessUsers, now);
+}
+
+async function loadManagerDigest(
+  tx: any,
+  businessId: string,
+  timeZone: string,
+  date: string,
+  businessUsers: User[],
+  now: Date
+): Promise<ManagerDailyDigestEvent | null> {
+  const [unassigned, today, needsReview] = await Promise.all([
+    loadDigestJobs(tx, businessId, timeZone, eq(cleaningJobs.status, "available"), businessUsers, {
+      first: date,
+      last: addDays(date, UNASSIGNED_LOOKAHEAD_DAYS - 1),
+    }),
+    loadDigestJobs(tx, businessId, timeZone, ne(cleaningJobs.status, "cancelled"), businessUsers, {
+      first: date,
+      last: date,
+    }),
+    // Reviews stay open until a manager acts, whatever the job's date
+    loadDigestJobs(tx, businessId, timeZone, eq(cleaningJobs.status, "needs_review"), businessUsers),
+  ]);
+
+  return buildManagerDigest(businessId, date, { unassigned, needsReview, today }, now);
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * MySQL's duplicate key error (drizzle wraps mysql2's error as the cause)
+ */
+function isDuplicateKeyError(error: unknown): boolean {
+  const cause = error instanceof DrizzleQueryError ? error.cause : error;
+  return (cause as { code?: string } | undefined)?.code === "ER_DUP_ENTRY";
+}
+
+export class DailyDigestScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  /**
+   * Start checking for due digests (no-op if already started)
+   */
+  start(intervalMs: number = DEFAULT_CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+
+      this.running = true;
+      this.runDue()
+        .catch((error) => console.error("[Digest] Run failed:", error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, intervalMs);
+
+    console.log(`[Digest] Scheduler started (every ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send every digest that is due and not yet sent, across active businesses
+   * A business that fails is logged and retried on the next run.
+   */
+  async runDue(now: Date = new Date()): Promise<DigestRunResult> {
+    const result: DigestRunResult = { runs: 0, events: 0 };
+
+    const db = (await getDb()) as any;
+    if (!db) return result;
+
+    const activeBusinesses: { id: string; timezone: string | null }[] = await db
+      .select({ id: businesses.id, timezone: businesses.timezone })
+      .from(businesses)
+      .where(eq(businesses.status, "active"));
+
+    const due = activeBusinesses.flatMap((business) => {
+      const timeZone = business.timezone || DEFAULT_TIMEZONE;
+      return getDueDigests(now, timeZone).map((digest) => ({ ...digest, businessId: business.id, timeZone }));
+    });
+    if (due.length === 0) return result;
+
+    const done: { businessId: string; kind: DigestKind; runDate: string }[] = await db
+      .select({
+        businessId: notificationDigestRuns.businessId,
+        kind: notificationDigestRuns.kind,
+        runDate: notificationDigestRuns.runDate,
+      })
+      .from(notificationDigestRuns)
+      .where(inArray(notificationDigestRuns.runDate, [...new Set(due.map((digest) => digest.runDate))]));
+
+    for (const digest of due) {
+      const sent = done.some(
+        (run) => run.businessId === digest.businessId && run.kind === digest.kind && run.runDate === digest.runDate
+      );
+      if (sent) continue;
+
+      try {
+        const events = await this.sendDigest(db, digest.businessId, digest.timeZone, digest, now);
+        if (events === null) continue; // Another server got there first
+
+        result.runs++;
+        result.events += events;
+        console.log(`[Digest] Queued ${events} ${digest.kind} digest(s) for ${digest.businessId} (${digest.digestDate})`);
+      } catch (error) {
+        console.error(`[Digest] ${digest.kind} digest failed for ${digest.businessId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Claim the run and queue its digests in one transaction
+   * Returns the number queued, or null if the run was already claimed.
+   */
+  private async sendDigest(
+    db: any,
+    businessId: string,
+    timeZone: string,
+    digest: DueDigest,
+    now: Date
+  ): Promise<number | null> {
+    return db.transaction(async (tx: any) => {
+      const runId = `digest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      try {
+        await tx
+          .insert(notificationDigestRuns)
+          .values({ id: runId, businessId, kind: digest.kind, runDate: digest.runDate });
+      } catch (error) {
+        if (isDuplicateKeyError(error)) return null; // Another server's run
+        throw error;
+      }
+
+      const businessUsers = await getBusinessUsers(tx, businessId);
+      const events =
+        digest.kind === "cleaner"
+          ? await loadCleanerDigests(tx, businessId, timeZone, digest.digestDate, businessUsers, now)
+          : [await loadManagerDigest(tx, businessId, timeZone, digest.digestDate, businessUsers, now)].filter(
+              (event): event is ManagerDailyDigestEvent => event !== null
+            );
+
+      for (const event of events) {
+        await emitNotificationEvent(tx, event, businessUsers);
+      }
+      await tx
+        .update(notificationDigestRuns)
+        .set({ eventCount: events.length })
+        .where(eq(notificationDigestRuns.id, runId));
+
+      return events.length;
+    });
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let digestScheduler: DailyDigestScheduler | null = null;
+
+export function getDailyDigestScheduler(): DailyDigestScheduler {
+  if (!digestScheduler) {
+    digestScheduler = new DailyDigestScheduler();
+  }
+  return digestScheduler;
+}
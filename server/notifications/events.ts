@@ -6,7 +6,16 @@
  * Notifications are delivered based on role-based rules.
  */
 
-import type { CleaningJob, User, Booking, DamageReport, JobChat } from "@/drizzle/schema";
+import type {
+  AccessDeniedReason,
+  CleaningJob,
+  User,
+  Booking,
+  DamageReport,
+  JobChat,
+  NotificationChannel,
+  NotificationType,
+} from "@/drizzle/schema";
 
 // ============================================================================
 // EVENT TYPES
@@ -20,6 +29,9 @@ export type NotificationEvent =
   | JobCompletedEvent
   | JobCancelledEvent
   | JobReassignedEvent
+  | JobReleasedEvent
+  | JobReleaseRequestedEvent
+  | JobReleaseDecidedEvent
   | DamageReportedEvent
   | CleanerRemovedEvent
   | CleanerOverrideRequestEvent
@@ -29,7 +41,9 @@ export type NotificationEvent =
   | InvoicePeriodReadyEvent
   | MessageReceivedEvent
   | ChatLockedEvent
-  | AccessDeniedEvent;
+  | AccessDeniedEvent
+  | CleanerDailyDigestEvent
+  | ManagerDailyDigestEvent;
 
 // ============================================================================
 // EVENT DEFINITIONS
@@ -122,7 +136,7 @@ export interface JobCompletedEvent {
 
 /**
  * Fired when a job is cancelled by manager
- * Delivery: Assigned cleaner, other cleaners (job becomes available again)
+ * Delivery: Assigned cleaner
  */
 export interface JobCancelledEvent {
   type: "job_cancelled";
@@ -132,6 +146,7 @@ export interface JobCancelledEvent {
   propertyId: string;
   propertyName: string;
   reason?: string;
+  cancellationFee?: number; // Added to the cleaner's invoice
   timestamp: Date;
 }
 
@@ -153,6 +168,55 @@ export interface JobReassignedEvent {
   timestamp: Date;
 }
 
+/**
+ * Fired when a cleaner hands back an accepted job (outside the release cutoff)
+ * Delivery: Managers
+ */
+export interface JobReleasedEvent {
+  type: "job_released";
+  jobId: string;
+  businessId: string;
+  cleanerId: string;
+  cleanerName: string;
+  propertyId: string;
+  propertyName: string;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * Fired when a cleaner asks to hand back a job inside the release cutoff (CRITICAL ALERT)
+ * Delivery: Managers (high priority, bypass quiet hours)
+ */
+export interface JobReleaseRequestedEvent {
+  type: "job_release_requested";
+  jobId: string;
+  businessId: string;
+  cleanerId: string;
+  cleanerName: string;
+  propertyId: string;
+  propertyName: string;
+  cleaningDate: Date;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * Fired when a manager approves or denies a release request
+ * Delivery: Requesting cleaner
+ */
+export interface JobReleaseDecidedEvent {
+  type: "job_release_decided";
+  jobId: string;
+  businessId: string;
+  cleanerId: string;
+  propertyId: string;
+  propertyName: string;
+  approved: boolean;
+  reason?: string;
+  timestamp: Date;
+}
+
 /**
  * Fired when damage is reported (CRITICAL ALERT)
  * Delivery: Assigned manager (high priority, bypass quiet hours)
@@ -276,7 +340,7 @@ export interface InvoicePeriodReadyEvent {
 
 /**
  * Fired when a message is sent in job chat
- * Delivery: Other participant (cleaner or manager)
+ * Delivery: The assigned cleaner for a manager's message, all managers for the cleaner's
  */
 export interface MessageReceivedEvent {
   type: "message_received";
@@ -286,21 +350,21 @@ export interface MessageReceivedEvent {
   senderId: string;
   senderName: string;
   senderRole: "manager" | "cleaner";
-  recipientId: string;
+  cleanerId: string;
   message: string;
   timestamp: Date;
 }
 
 /**
  * Fired when job is completed and chat is locked
- * Delivery: Both participants
+ * Delivery: The assigned cleaner and all managers
  */
 export interface ChatLockedEvent {
   type: "chat_locked";
   jobId: string;
   businessId: string;
   cleanerId: string;
-  managerId: string;
+  propertyName: string;
   timestamp: Date;
 }
 
@@ -316,11 +380,71 @@ export interface AccessDeniedEvent {
   cleanerName: string;
   propertyId: string;
   propertyName: string;
+  reason: AccessDeniedReason;
+  notes?: string;
   gpsLat: number;
   gpsLng: number;
+  tripFee?: number; // Added to the cleaner's invoice
+  timestamp: Date;
+}
+
+/**
+ * A job as listed in a daily digest (digests.ts)
+ */
+export interface DigestJob {
+  jobId: string;
+  propertyName: string;
+  address: string;
+  cleaningDate: Date;
+  status: CleaningJob["status"];
+  cleanerId: string | null;
+  cleanerName: string | null;
+  guestCount: number | null; // Of the booking checking out
+  hasPets: boolean;
+  instructions: string | null;
+  sameDayCheckIn: boolean; // The next guests arrive the day of the cleaning
+}
+
+/**
+ * Sent each evening with the cleaner's jobs for the next day (digests.ts)
+ * Delivery: The cleaner
+ */
+export interface CleanerDailyDigestEvent {
+  type: "cleaner_daily_digest";
+  businessId: string;
+  cleanerId: string;
+  cleanerName: string;
+  date: string; // "YYYY-MM-DD" in the business timezone, the day the jobs are on
+  jobCount: number;
+  jobs: DigestJob[];
+  timestamp: Date;
+}
+
+/**
+ * Sent each morning with what needs a manager's attention (digests.ts)
+ * Delivery: Managers
+ */
+export interface ManagerDailyDigestEvent {
+  type: "manager_daily_digest";
+  businessId: string;
+  date: string; // "YYYY-MM-DD" in the business timezone
+  unassignedCount: number;
+  needsReviewCount: number;
+  turnoverCount: number;
+  unassigned: DigestJob[]; // Open jobs coming up
+  needsReview: DigestJob[];
+  sameDayTurnovers: DigestJob[]; // Today's jobs with guests arriving the same day
   timestamp: Date;
 }
 
+export const ACCESS_DENIED_REASON_LABELS: Record<AccessDeniedReason, string> = {
+  guest_present: "guest still present",
+  lockbox_code_wrong: "lockbox code wrong",
+  key_missing: "key missing",
+  no_answer: "no answer at the door",
+  other: "other",
+};
+
 // ============================================================================
 // NOTIFICATION RULES
 // ============================================================================
@@ -330,8 +454,69 @@ export interface NotificationRule {
   role: "super_manager" | "manager" | "cleaner";
   title: (event: NotificationEvent) => string;
   message: (event: NotificationEvent) => string;
-  isCritical: boolean; // Bypass quiet hours if true
+  isCritical: boolean; // Bypass quiet hours, opt-outs and job mutes if true (preferences.ts)
   recipientIds: (event: NotificationEvent, businessUsers: User[]) => string[];
+  channels?: NotificationChannel[]; // Defaults to DEFAULT_NOTIFICATION_CHANNELS
+  bodies?: Partial<Record<NotificationChannel, (event: NotificationEvent) => string>>; // Replaces message on that channel
+}
+
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannel[] = ["in_app", "push"];
+
+const DIGEST_LIST_LIMIT = 20; // Jobs listed per section; the rest are counted
+
+// Noon UTC keeps the calendar day in every US timezone
+function formatDigestDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString();
+}
+
+function formatDigestList(heading: string, jobs: DigestJob[], total: number, line: (job: DigestJob) => string): string[] {
+  if (total === 0) return [];
+  const more = total - Math.min(jobs.length, DIGEST_LIST_LIMIT);
+  return [
+    `${heading} (${total}):`,
+    ...jobs.slice(0, DIGEST_LIST_LIMIT).map((job) => `- ${line(job)}`),
+    ...(more > 0 ? [`- and ${more} more`] : []),
+    "",
+  ];
+}
+
+function formatCleanerDigest(e: NotificationEvent): string {
+  const event = e as CleanerDailyDigestEvent;
+  const lines = [`Your jobs for ${formatDigestDate(event.date)}:`, ""];
+
+  event.jobs.forEach((job, index) => {
+    const details = [
+      job.guestCount !== null ? `Guests: ${job.guestCount}` : null,
+      job.hasPets ? "Pets" : null,
+      job.sameDayCheckIn ? "Next guests arrive the same day" : null,
+    ].filter(Boolean);
+
+    lines.push(`${index + 1}. ${job.propertyName}`, `   ${job.address}`);
+    if (details.length > 0) lines.push(`   ${details.join(" · ")}`);
+    if (job.instructions) lines.push(`   Instructions: ${job.instructions}`);
+    lines.push("");
+  });
+
+  return lines.join("\n").trimEnd();
+}
+
+function formatManagerDigest(e: NotificationEvent): string {
+  const event = e as ManagerDailyDigestEvent;
+  const withCleaner = (job: DigestJob) => (job.cleanerName ? ` (${job.cleanerName})` : "");
+
+  return [
+    ...formatDigestList("Unassigned jobs", event.unassigned, event.unassignedCount, (job) =>
+      `${job.propertyName}, ${job.cleaningDate.toLocaleDateString()}`
+    ),
+    ...formatDigestList("Needs review", event.needsReview, event.needsReviewCount, (job) =>
+      `${job.propertyName}, ${job.cleaningDate.toLocaleDateString()}${withCleaner(job)}`
+    ),
+    ...formatDigestList("Same-day turnovers today", event.sameDayTurnovers, event.turnoverCount, (job) =>
+      `${job.propertyName}${withCleaner(job)}`
+    ),
+  ]
+    .join("\n")
+    .trimEnd();
 }
 
 export const NOTIFICATION_RULES: NotificationRule[] = [
@@ -388,7 +573,10 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
     title: () => "Job Cancelled",
     message: (e: NotificationEvent) => {
       const event = e as JobCancelledEvent;
-      return `Job at ${event.propertyName} has been cancelled${event.reason ? `: ${event.reason}` : ""}`;
+      const fee = event.cancellationFee
+        ? ` A $${event.cancellationFee.toFixed(2)} cancellation fee has been added to your invoice.`
+        : "";
+      return `Job at ${event.propertyName} has been cancelled${event.reason ? `: ${event.reason}` : ""}.${fee}`;
     },
     isCritical: false,
     recipientIds: (event) => {
@@ -435,7 +623,21 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
     isCritical: false,
     recipientIds: (event) => {
       const e = event as MessageReceivedEvent;
-      return [e.recipientId];
+      return e.senderRole === "manager" ? [e.cleanerId] : [];
+    },
+  },
+  {
+    event: "chat_locked",
+    role: "cleaner",
+    title: () => "Chat Closed",
+    message: (e: NotificationEvent) => {
+      const event = e as ChatLockedEvent;
+      return `Chat for ${event.propertyName} is closed now that the job is complete`;
+    },
+    isCritical: false,
+    recipientIds: (event) => {
+      const e = event as ChatLockedEvent;
+      return [e.cleanerId];
     },
   },
   {
@@ -453,6 +655,25 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
     },
   },
 
+  {
+    event: "job_release_decided",
+    role: "cleaner",
+    title: (e: NotificationEvent) =>
+      (e as JobReleaseDecidedEvent).approved ? "Release Approved" : "Release Denied",
+    message: (e: NotificationEvent) => {
+      const event = e as JobReleaseDecidedEvent;
+      const outcome = event.approved
+        ? `You have been released from the job at ${event.propertyName}`
+        : `You are still assigned to the job at ${event.propertyName}`;
+      return `${outcome}${event.reason ? `: ${event.reason}` : ""}`;
+    },
+    isCritical: false,
+    recipientIds: (event) => {
+      const e = event as JobReleaseDecidedEvent;
+      return [e.cleanerId];
+    },
+  },
+
   // ========== MANAGER NOTIFICATIONS ==========
   {
     event: "job_accepted",
@@ -518,6 +739,13 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
         .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
         .map((u) => u.id);
     },
+    channels: ["in_app", "push", "sms"],
+    bodies: {
+      sms: (e: NotificationEvent) => {
+        const event = e as DamageReportedEvent;
+        return `${event.severity.toUpperCase()} damage at ${event.propertyName} reported by ${event.cleanerName} (${event.photoCount} photos)`;
+      },
+    },
   },
   {
     event: "cleaner_removed",
@@ -566,6 +794,7 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
         .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
         .map((u) => u.id);
     },
+    channels: ["in_app", "push", "sms"],
   },
   {
     event: "booking_date_changed",
@@ -598,6 +827,21 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
         .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
         .map((u) => u.id);
     },
+    channels: ["in_app", "push", "email"],
+    bodies: {
+      email: (e: NotificationEvent) => {
+        const event = e as InvoiceSubmittedEvent;
+        return [
+          `${event.cleanerName} submitted an invoice for review.`,
+          "",
+          `Period: ${event.periodStart.toLocaleDateString()} - ${event.periodEnd.toLocaleDateString()}`,
+          `Jobs: ${event.jobCount}`,
+          `Total: $${event.totalAmount}`,
+          "",
+          "Review and approve it in the Invoices tab.",
+        ].join("\n");
+      },
+    },
   },
   {
     event: "message_received",
@@ -608,9 +852,60 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
       return event.message.substring(0, 100);
     },
     isCritical: false,
-    recipientIds: (event) => {
+    recipientIds: (event, users) => {
       const e = event as MessageReceivedEvent;
-      return [e.recipientId];
+      if (e.senderRole !== "cleaner") return [];
+      return users
+        .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
+        .map((u) => u.id);
+    },
+  },
+  {
+    event: "chat_locked",
+    role: "manager",
+    title: () => "Chat Closed",
+    message: (e: NotificationEvent) => {
+      const event = e as ChatLockedEvent;
+      return `Chat for ${event.propertyName} is closed now that the job is complete`;
+    },
+    isCritical: false,
+    recipientIds: (event, users) => {
+      const e = event as ChatLockedEvent;
+      return users
+        .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
+        .map((u) => u.id);
+    },
+  },
+  {
+    event: "job_released",
+    role: "manager",
+    title: () => "Job Released",
+    message: (e: NotificationEvent) => {
+      const event = e as JobReleasedEvent;
+      return `${event.cleanerName} released the job at ${event.propertyName}: ${event.reason}`;
+    },
+    isCritical: false,
+    recipientIds: (event, users) => {
+      const e = event as JobReleasedEvent;
+      return users
+        .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
+        .map((u) => u.id);
+    },
+  },
+  {
+    event: "job_release_requested",
+    role: "manager",
+    title: () => "⚠️ RELEASE REQUEST",
+    message: (e: NotificationEvent) => {
+      const event = e as JobReleaseRequestedEvent;
+      return `${event.cleanerName} asks to be released from ${event.propertyName} on ${event.cleaningDate.toLocaleDateString()}: ${event.reason}`;
+    },
+    isCritical: true, // Bypass quiet hours
+    recipientIds: (event, users) => {
+      const e = event as JobReleaseRequestedEvent;
+      return users
+        .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
+        .map((u) => u.id);
     },
   },
   {
@@ -619,7 +914,8 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
     title: () => "⚠️ ACCESS DENIED",
     message: (e: NotificationEvent) => {
       const event = e as AccessDeniedEvent;
-      return `${event.cleanerName} could not access ${event.propertyName} (guest present)`;
+      const reason = event.reason === "other" && event.notes ? event.notes : ACCESS_DENIED_REASON_LABELS[event.reason];
+      return `${event.cleanerName} could not access ${event.propertyName} (${reason})`;
     },
     isCritical: true, // Bypass quiet hours
     recipientIds: (event, users) => {
@@ -629,6 +925,43 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
         .map((u) => u.id);
     },
   },
+
+  // ========== DAILY DIGESTS ==========
+  {
+    event: "cleaner_daily_digest",
+    role: "cleaner",
+    title: () => "Tomorrow's Schedule",
+    message: (e: NotificationEvent) => {
+      const event = e as CleanerDailyDigestEvent;
+      const properties = event.jobs.map((job) => job.propertyName).join(", ");
+      return `${event.jobCount} job${event.jobCount === 1 ? "" : "s"} on ${formatDigestDate(event.date)}: ${properties}`;
+    },
+    isCritical: false,
+    recipientIds: (event) => {
+      const e = event as CleanerDailyDigestEvent;
+      return [e.cleanerId];
+    },
+    channels: ["in_app", "push", "email"],
+    bodies: { in_app: formatCleanerDigest, email: formatCleanerDigest },
+  },
+  {
+    event: "manager_daily_digest",
+    role: "manager",
+    title: () => "Morning Digest",
+    message: (e: NotificationEvent) => {
+      const event = e as ManagerDailyDigestEvent;
+      return `${event.unassignedCount} unassigned, ${event.needsReviewCount} needing review, ${event.turnoverCount} same-day turnover${event.turnoverCount === 1 ? "" : "s"} today`;
+    },
+    isCritical: false,
+    recipientIds: (event, users) => {
+      const e = event as ManagerDailyDigestEvent;
+      return users
+        .filter((u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === e.businessId)
+        .map((u) => u.id);
+    },
+    channels: ["in_app", "push", "email"],
+    bodies: { in_app: formatManagerDigest, email: formatManagerDigest },
+  },
 ];
 
 // ============================================================================
@@ -637,27 +970,54 @@ export const NOTIFICATION_RULES: NotificationRule[] = [
 
 /**
  * Get notification rules for an event
+ * Pass a business's rules (rule-overrides.ts) to use its overrides instead of the built-ins.
+ */
+export function getNotificationRulesForEvent(
+  event: NotificationEvent,
+  rules: NotificationRule[] = NOTIFICATION_RULES
+): NotificationRule[] {
+  return rules.filter((rule) => rule.event === event.type);
+}
+
+/**
+ * Channels a rule delivers on
+ */
+export function getRuleChannels(rule: NotificationRule): NotificationChannel[] {
+  return rule.channels ?? DEFAULT_NOTIFICATION_CHANNELS;
+}
+
+/**
+ * Every channel any rule for the event type delivers on
  */
-export function getNotificationRulesForEvent(event: NotificationEvent): NotificationRule[] {
-  return NOTIFICATION_RULES.filter((rule) => rule.event === event.type);
+export function getChannelsForType(
+  type: NotificationType,
+  rules: NotificationRule[] = NOTIFICATION_RULES
+): NotificationChannel[] {
+  const channels = new Set<NotificationChannel>();
+  for (const rule of rules) {
+    if (rule.event === type) getRuleChannels(rule).forEach((channel) => channels.add(channel));
+  }
+  return Array.from(channels);
 }
 
 /**
  * Check if event is critical (should bypass quiet hours)
  */
-export function isCriticalEvent(event: NotificationEvent): boolean {
-  const rules = getNotificationRulesForEvent(event);
-  return rules.some((rule) => rule.isCritical);
+export function isCriticalEvent(event: NotificationEvent, rules: NotificationRule[] = NOTIFICATION_RULES): boolean {
+  return getNotificationRulesForEvent(event, rules).some((rule) => rule.isCritical);
 }
 
 /**
  * Get recipient IDs for an event
  */
-export function getRecipientsForEvent(event: NotificationEvent, businessUsers: User[]): string[] {
-  const rules = getNotificationRulesForEvent(event);
+export function getRecipientsForEvent(
+  event: NotificationEvent,
+  businessUsers: User[],
+  rules: NotificationRule[] = NOTIFICATION_RULES
+): string[] {
   const recipients = new Set<string>();
 
-  for (const rule of rules) {
+  for (const rule of getNotificationRulesForEvent(event, rules)) {
     const ids = rule.recipientIds(event, businessUsers);
     ids.forEach((id) => recipients.add(id));
   }
@@ -1,16 +1,33 @@
 /**
  * Job-Scoped Chat System
  *
- * - One chat thread per job
- * - Cleaner ↔ Manager only
+ * - One chat thread per job, stored in job_chat
+ * - The assigned cleaner ↔ the business's managers only
  * - No cross-job chat
- * - Messages trigger push notifications
- * - Chat locked when job completed
+ * - Messages trigger notifications, queued in the transaction that saves them:
+ *   a cleaner's message reaches every manager, a manager's the cleaner
+ * - Chat locked when job completed (or cancelled); the history stays readable,
+ *   and completion tells the participants (chat_locked)
  */
 
+import { and, asc, count, eq, inArray, notInArray, type SQL } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import { cleaningJobs, jobChat, users } from "@/drizzle/schema";
 import type { JobChat, CleaningJob, User } from "@/drizzle/schema";
-import { emitNotificationEvent } from "./delivery";
-import type { MessageReceivedEvent } from "./events";
+import { canWithScope } from "@/shared/permissions";
+import { assertPermission } from "../auth/permissions";
+import { getAffectedRows } from "../jobs/state-machine";
+import { forBusiness } from "../tenancy/tenant-db";
+import { emitNotificationEvent } from "./outbox";
+import { getBusinessUsers } from "./job-context";
+import type { ChatLockedEvent, MessageReceivedEvent } from "./events";
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+/**
+ * Job statuses in which the thread is read-only
+ */
+export const CHAT_LOCKED_STATUSES: CleaningJob["status"][] = ["completed", "needs_review", "cancelled"];
 
 // ============================================================================
 // TYPES
@@ -20,6 +37,7 @@ export interface ChatMessage {
   id: string;
   jobId: string;
   senderId: string;
+  senderName: string;
   message: string;
   isRead: boolean;
   createdAt: Date;
@@ -28,184 +46,257 @@ export interface ChatMessage {
 export interface ChatThread {
   jobId: string;
   cleanerId: string;
-  managerId: string;
   isLocked: boolean;
   messages: ChatMessage[];
   createdAt: Date;
   lockedAt?: Date;
 }
 
+export interface ChatUnreadCount {
+  jobId: string;
+  count: number;
+}
+
+type ChatSender = Pick<User, "firstName" | "lastName" | "email">;
+
 // ============================================================================
-// JOB CHAT SERVICE
+// HELPERS
 // ============================================================================
 
-export class JobChatService {
-  /**
-   * Send message in job chat
-   * Only cleaner and assigned manager can participate
-   */
-  async sendMessage(
-    jobId: string,
-    senderId: string,
-    message: string,
-    job: CleaningJob,
-    businessUsers: User[]
-  ): Promise<ChatMessage> {
-    // Validate sender is either cleaner or manager
-    const sender = businessUsers.find((u) => u.id === senderId);
-    if (!sender) {
-      throw new Error("Sender not found");
-    }
+export function isChatLocked(job: Pick<CleaningJob, "status">): boolean {
+  return CHAT_LOCKED_STATUSES.includes(job.status);
+}
 
-    if (sender.role === "cleaner" && sender.id !== job.assignedCleanerId) {
-      throw new Error("Cleaner can only message their own jobs");
-    }
+function getLockedAt(job: CleaningJob): Date | undefined {
+  if (!isChatLocked(job)) return undefined;
+  return (job.status === "cancelled" ? job.cancelledAt : job.completedAt) || undefined;
+}
 
-    if (sender.role !== "cleaner" && sender.role !== "manager" && sender.role !== "super_manager") {
-      throw new Error("Invalid role for chat");
-    }
+function getDisplayName(user: ChatSender): string {
+  return `${user.firstName || ""} ${user.lastName || ""}`.trim() || user.email;
+}
 
-    // Check if chat is locked (job completed)
-    if (job.status === "completed" || job.status === "needs_review") {
-      throw new Error("Chat is locked for completed jobs");
-    }
+function toChatMessage(row: JobChat & { sender?: ChatSender | null }): ChatMessage {
+  return {
+    id: row.id,
+    jobId: row.jobId,
+    senderId: row.senderId,
+    senderName: row.sender ? getDisplayName(row.sender) : "Former team member",
+    message: row.message,
+    isRead: row.isRead,
+    createdAt: row.createdAt,
+  };
+}
 
-    // Create message
-    const chatMessage: ChatMessage = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      jobId,
-      senderId,
-      message,
-      isRead: false,
-      createdAt: new Date(),
-    };
+/**
+ * Throw unless the user may read (view) or post in (create) the job's thread
+ * Managers chat on any job in their business, cleaners only on their own.
+ */
+function assertChatAccess(user: User, action: "view" | "create", job: CleaningJob): void {
+  assertPermission(user, action, "job_chat", { businessId: job.businessId, ownerId: job.assignedCleanerId });
+}
 
-    // TODO: Save to database
-    // await db.insert(jobChat).values({
-    //   id: chatMessage.id,
-    //   jobId,
-    //   senderId,
-    //   message,
-    //   isRead: false,
-    //   createdAt: chatMessage.createdAt,
-    // });
-
-    // Determine recipient
-    const recipientId =
-      sender.role === "cleaner" ? this.getManagerForJob(job, businessUsers) : job.assignedCleanerId;
-
-    if (!recipientId) {
-      throw new Error("Could not determine message recipient");
-    }
+/**
+ * Messages from the other side of the thread: the cleaner reads the managers'
+ * messages, the managers read the cleaner's
+ * Read state belongs to a side, so a manager reading a message reads it for
+ * every manager but never for the cleaner.
+ */
+function fromOtherSide(db: any, reader: User): SQL {
+  const cleanerIds = db.select({ id: users.id }).from(users).where(eq(users.role, "cleaner"));
+  return reader.role === "cleaner" ? notInArray(jobChat.senderId, cleanerIds) : inArray(jobChat.senderId, cleanerIds);
+}
 
-    // Emit notification event
-    const event: MessageReceivedEvent = {
-      type: "message_received",
-      messageId: chatMessage.id,
-      jobId,
-      businessId: job.businessId,
-      senderId,
-      senderName: `${sender.firstName || ""} ${sender.lastName || ""}`.trim() || sender.email,
-      senderRole: sender.role === "cleaner" ? "cleaner" : "manager",
-      recipientId,
-      message,
-      timestamp: new Date(),
-    };
+async function findJob(db: any, user: User, jobId: string): Promise<CleaningJob> {
+  const job = await forBusiness(db, user.businessId).jobs.findFirst({ where: eq(cleaningJobs.id, jobId) });
+  if (!job) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+  }
+  return job;
+}
 
-    await emitNotificationEvent(event, businessUsers);
+// ============================================================================
+// JOB CHAT SERVICE
+// ============================================================================
 
-    console.log(`[Chat] Message sent in job ${jobId} from ${senderId} to ${recipientId}`);
+export class JobChatService {
+  /**
+   * Send message in job chat
+   * Only the assigned cleaner and the business's managers can participate.
+   * The job row is locked while the message is saved, so a job completed
+   * concurrently either sees the message first or rejects it.
+   */
+  async sendMessage(db: any, sender: User, jobId: string, message: string): Promise<ChatMessage> {
+    const text = message.trim();
+    if (!text) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Message cannot be empty" });
+    }
 
-    return chatMessage;
+    return db.transaction(async (tx: any) => {
+      const tenant = forBusiness(tx, sender.businessId);
+
+      const [job]: CleaningJob[] = await tx
+        .select()
+        .from(cleaningJobs)
+        .where(tenant.jobs.where(eq(cleaningJobs.id, jobId)))
+        .for("update");
+
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      }
+
+      assertChatAccess(sender, "create", job);
+
+      if (isChatLocked(job)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Chat is locked once a job is completed or cancelled" });
+      }
+
+      // The rules address the other side: the cleaner, or every manager (events.ts)
+      if (!job.assignedCleanerId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not determine message recipient" });
+      }
+
+      const chatMessage: ChatMessage = {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        jobId,
+        senderId: sender.id,
+        senderName: getDisplayName(sender),
+        message: text,
+        isRead: false,
+        createdAt: new Date(),
+      };
+
+      await tenant.chat.insert({
+        id: chatMessage.id,
+        jobId,
+        senderId: sender.id,
+        message: text,
+        isRead: false,
+        createdAt: chatMessage.createdAt,
+      });
+
+      // Emit notification event
+      const event: MessageReceivedEvent = {
+        type: "message_received",
+        messageId: chatMessage.id,
+        jobId,
+        businessId: job.businessId,
+        senderId: sender.id,
+        senderName: chatMessage.senderName,
+        senderRole: sender.role === "cleaner" ? "cleaner" : "manager",
+        cleanerId: job.assignedCleanerId,
+        message: text,
+        timestamp: chatMessage.createdAt,
+      };
+
+      await emitNotificationEvent(tx, event, await getBusinessUsers(tx, job.businessId));
+
+      console.log(`[Chat] Message sent in job ${jobId} from ${sender.id}`);
+
+      return chatMessage;
+    });
   }
 
   /**
-   * Get chat thread for a job
+   * Get chat thread for a job, oldest message first
    */
-  async getChatThread(jobId: string, job: CleaningJob, businessUsers: User[]): Promise<ChatThread> {
-    // TODO: Fetch from database
-    // const messages = await db.query.jobChat.findMany({
-    //   where: eq(jobChat.jobId, jobId),
-    //   orderBy: asc(jobChat.createdAt),
-    // });
+  async getChatThread(db: any, viewer: User, jobId: string): Promise<ChatThread> {
+    const job = await findJob(db, viewer, jobId);
+    assertChatAccess(viewer, "view", job);
 
-    const managerId = this.getManagerForJob(job, businessUsers);
+    const rows = await forBusiness(db, viewer.businessId).chat.findMany({
+      where: eq(jobChat.jobId, jobId),
+      with: { sender: { columns: { firstName: true, lastName: true, email: true } } },
+      orderBy: [asc(jobChat.createdAt), asc(jobChat.id)],
+    });
 
     return {
       jobId,
       cleanerId: job.assignedCleanerId || "",
-      managerId: managerId || "",
-      isLocked: job.status === "completed" || job.status === "needs_review",
-      messages: [], // TODO: Map from database
+      isLocked: isChatLocked(job),
+      messages: rows.map(toChatMessage),
       createdAt: job.createdAt,
-      lockedAt:
-        job.status === "completed" || job.status === "needs_review" ? job.completedAt || undefined : undefined,
+      lockedAt: getLockedAt(job),
     };
   }
 
   /**
-   * Mark messages as read
+   * Mark the other side's messages in a job as read
+   * Returns how many messages changed.
    */
-  async markMessagesAsRead(jobId: string, userId: string): Promise<void> {
-    // TODO: Update database
-    // await db.update(jobChat)
-    //   .set({ isRead: true })
-    //   .where(and(
-    //     eq(jobChat.jobId, jobId),
-    //     ne(jobChat.senderId, userId)
-    //   ));
-
-    console.log(`[Chat] Marked messages as read for ${userId} in job ${jobId}`);
+  async markMessagesAsRead(db: any, user: User, jobId: string): Promise<number> {
+    const job = await findJob(db, user, jobId);
+    assertChatAccess(user, "view", job);
+
+    const result = await forBusiness(db, user.businessId).chat.update(
+      { isRead: true },
+      and(eq(jobChat.jobId, jobId), fromOtherSide(db, user), eq(jobChat.isRead, false))
+    );
+
+    const updated = getAffectedRows(result);
+    console.log(`[Chat] Marked ${updated} messages as read for ${user.id} in job ${jobId}`);
+    return updated;
   }
 
   /**
    * Lock chat when job is completed
+   * The lock is the job status itself (see isChatLocked); this only tells the
+   * participants, queued in the completing transaction.
    */
-  async lockChatForJob(jobId: string, job: CleaningJob, businessUsers: User[]): Promise<void> {
-    const managerId = this.getManagerForJob(job, businessUsers);
-
-    // TODO: Update database to mark chat as locked
-    // (This is implicit in the job status, but could add explicit lock flag)
+  async lockChatForJob(tx: any, job: CleaningJob, propertyName: string, businessUsers: User[]): Promise<void> {
+    if (!job.assignedCleanerId) return;
 
-    console.log(`[Chat] Chat locked for job ${jobId}`);
+    const event: ChatLockedEvent = {
+      type: "chat_locked",
+      jobId: job.id,
+      businessId: job.businessId,
+      cleanerId: job.assignedCleanerId,
+      propertyName,
+      timestamp: new Date(),
+    };
 
-    // Notify both participants
-    const cleaner = businessUsers.find((u) => u.id === job.assignedCleanerId);
-    const manager = businessUsers.find((u) => u.id === managerId);
+    await emitNotificationEvent(tx, event, businessUsers);
 
-    if (cleaner && manager) {
-      // TODO: Emit notification event
-      console.log(`[Chat] Notified ${cleaner.email} and ${manager.email} that chat is locked`);
-    }
+    console.log(`[Chat] Chat locked for job ${job.id}`);
   }
 
   /**
-   * Get unread message count for user in a job
+   * Unread messages from the other side, per job with any (optionally only the given jobs)
+   * Cleaners only count the jobs assigned to them.
    */
-  async getUnreadCount(jobId: string, userId: string): Promise<number> {
-    // TODO: Query database
-    // const count = await db.query.jobChat.findMany({
-    //   where: and(
-    //     eq(jobChat.jobId, jobId),
-    //     ne(jobChat.senderId, userId),
-    //     eq(jobChat.isRead, false)
-    //   ),
-    // });
-    // return count.length;
-
-    return 0;
+  async getUnreadCounts(db: any, user: User, jobIds?: string[]): Promise<ChatUnreadCount[]> {
+    const tenant = forBusiness(db, user.businessId);
+
+    const conditions: (SQL | undefined)[] = [
+      fromOtherSide(db, user),
+      eq(jobChat.isRead, false),
+      jobIds ? inArray(jobChat.jobId, jobIds) : undefined,
+    ];
+
+    if (!canWithScope(user, "view", "job_chat", "business")) {
+      conditions.push(
+        inArray(
+          jobChat.jobId,
+          db.select({ id: cleaningJobs.id }).from(cleaningJobs).where(eq(cleaningJobs.assignedCleanerId, user.id))
+        )
+      );
+    }
+
+    const rows: { jobId: string; count: number }[] = await db
+      .select({ jobId: jobChat.jobId, count: count() })
+      .from(jobChat)
+      .where(tenant.chat.where(...conditions))
+      .groupBy(jobChat.jobId);
+
+    return rows.map((row) => ({ jobId: row.jobId, count: Number(row.count) }));
   }
 
   /**
-   * Get manager for a job
+   * Get unread message count for user in a job
    */
-  private getManagerForJob(job: CleaningJob, businessUsers: User[]): string | undefined {
-    // TODO: Get the manager who assigned this job
-    // For now, return first manager in business
-    const manager = businessUsers.find(
-      (u) => (u.role === "manager" || u.role === "super_manager") && u.businessId === job.businessId
-    );
-    return manager?.id;
+  async getUnreadCount(db: any, user: User, jobId: string): Promise<number> {
+    const [unread] = await this.getUnreadCounts(db, user, [jobId]);
+    return unread?.count ?? 0;
   }
 }
 
@@ -230,36 +321,32 @@ export function getJobChatService(): JobChatService {
  * Send message in job chat
  */
 export async function sendJobChatMessage(
+  db: any,
+  sender: User,
   jobId: string,
-  senderId: string,
-  message: string,
-  job: CleaningJob,
-  businessUsers: User[]
+  message: string
 ): Promise<ChatMessage> {
   const service = getJobChatService();
-  return service.sendMessage(jobId, senderId, message, job, businessUsers);
+  return service.sendMessage(db, sender, jobId, message);
 }
 
 /**
  * Get chat thread for job
  */
-export async function getJobChatThread(
-  jobId: string,
-  job: CleaningJob,
-  businessUsers: User[]
-): Promise<ChatThread> {
+export async function getJobChatThread(db: any, viewer: User, jobId: string): Promise<ChatThread> {
   const service = getJobChatService();
-  return service.getChatThread(jobId, job, businessUsers);
+  return service.getChatThread(db, viewer, jobId);
 }
 
 /**
  * Lock chat when job completes
  */
 export async function lockJobChat(
-  jobId: string,
+  tx: any,
   job: CleaningJob,
+  propertyName: string,
   businessUsers: User[]
 ): Promise<void> {
   const service = getJobChatService();
-  return service.lockChatForJob(jobId, job, businessUsers);
+  return service.lockChatForJob(tx, job, propertyName, businessUsers);
 }
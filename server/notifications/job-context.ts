@@ -0,0 +1,67 @@
+/**
+ * Job Notification Context
+ *
+ * Routers queue job and invoice events inside the transaction of the change
+ * that caused them (see outbox.ts): a rolled-back mutation never notifies
+ * anyone, and a failed queue write rolls the mutation back with it.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { cleaningJobs, properties, users } from "../../drizzle/schema";
+import type { CleaningJob, User } from "../../drizzle/schema";
+import { forBusiness } from "../tenancy/tenant-db";
+
+export interface JobNotificationContext {
+  job: CleaningJob;
+  property: { name: string; latitude: string | null; longitude: string | null };
+  businessUsers: User[];
+}
+
+/**
+ * Active members of a business (the list getRecipientsForEvent filters)
+ */
+export async function getBusinessUsers(db: any, businessId: string): Promise<User[]> {
+  return db.query.users.findMany({
+    where: and(eq(users.businessId, businessId), eq(users.isActive, true)),
+  });
+}
+
+/**
+ * State of a job as the transaction sees it, plus everything its emitters need
+ */
+async function loadJobNotificationContext(
+  tx: any,
+  businessId: string,
+  jobId: string
+): Promise<JobNotificationContext | null> {
+  const tenant = forBusiness(tx, businessId);
+  const job = await tenant.jobs.findFirst({ where: eq(cleaningJobs.id, jobId) });
+  if (!job) return null;
+
+  const [property, businessUsers] = await Promise.all([
+    tenant.properties.findFirst({
+      where: eq(properties.id, job.propertyId),
+      columns: { name: true, latitude: true, longitude: true },
+    }),
+    getBusinessUsers(tx, businessId),
+  ]);
+
+  return {
+    job,
+    property: property ?? { name: "Unknown property", latitude: null, longitude: null },
+    businessUsers,
+  };
+}
+
+/**
+ * Reload a job inside the transaction and queue its notifications (skipped if the job is gone)
+ */
+export async function notifyJobInTransaction(
+  tx: any,
+  businessId: string,
+  jobId: string,
+  send: (context: JobNotificationContext) => Promise<void>
+): Promise<void> {
+  const context = await loadJobNotificationContext(tx, businessId, jobId);
+  if (context) await send(context);
+}
@@ -3,10 +3,11 @@
  *
  * These functions emit events at key points in the job workflow.
  * Events trigger notifications via the event-driven system.
+ * Pass the transaction of the change: events are queued in the outbox with it.
  */
 
 import type { CleaningJob, Booking, User, DamageReport } from "@/drizzle/schema";
-import { emitNotificationEvent } from "./delivery";
+import { emitNotificationEvent } from "./outbox";
 import { lockJobChat } from "./job-chat";
 import type {
   JobAvailableEvent,
@@ -16,6 +17,9 @@ import type {
   JobCompletedEvent,
   JobCancelledEvent,
   JobReassignedEvent,
+  JobReleasedEvent,
+  JobReleaseRequestedEvent,
+  JobReleaseDecidedEvent,
   DamageReportedEvent,
   CleanerRemovedEvent,
   CleanerOverrideRequestEvent,
@@ -34,6 +38,7 @@ import type {
  * Emit when a new job is created and available
  */
 export async function emitJobAvailable(
+  tx: any,
   job: CleaningJob,
   property: { name: string },
   businessUsers: User[]
@@ -49,7 +54,7 @@ export async function emitJobAvailable(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Job available: ${job.id}`);
 }
 
@@ -57,6 +62,7 @@ export async function emitJobAvailable(
  * Emit when a job is assigned to a cleaner
  */
 export async function emitJobAssigned(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -75,7 +81,7 @@ export async function emitJobAssigned(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Job assigned: ${job.id} to ${cleaner.id}`);
 }
 
@@ -83,6 +89,7 @@ export async function emitJobAssigned(
  * Emit when a cleaner accepts a job
  */
 export async function emitJobAccepted(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -99,7 +106,7 @@ export async function emitJobAccepted(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Job accepted: ${job.id} by ${cleaner.id}`);
 }
 
@@ -107,6 +114,7 @@ export async function emitJobAccepted(
  * Emit when job starts (first photo uploaded)
  */
 export async function emitJobStarted(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -126,7 +134,7 @@ export async function emitJobStarted(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Job started: ${job.id}`);
 }
 
@@ -134,6 +142,7 @@ export async function emitJobStarted(
  * Emit when job is completed
  */
 export async function emitJobCompleted(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -157,10 +166,10 @@ export async function emitJobCompleted(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
 
   // Lock chat when job completes
-  await lockJobChat(job.id, job, businessUsers);
+  await lockJobChat(tx, job, property.name, businessUsers);
 
   console.log(`[Events] Job completed: ${job.id}`);
 }
@@ -169,6 +178,7 @@ export async function emitJobCompleted(
  * Emit when job is cancelled
  */
 export async function emitJobCancelled(
+  tx: any,
   job: CleaningJob,
   property: { name: string },
   reason: string | undefined,
@@ -182,10 +192,11 @@ export async function emitJobCancelled(
     propertyId: job.propertyId,
     propertyName: property.name,
     reason,
+    cancellationFee: job.cancellationFee ? Number(job.cancellationFee) : undefined,
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Job cancelled: ${job.id}`);
 }
 
@@ -193,6 +204,7 @@ export async function emitJobCancelled(
  * Emit when job is reassigned to a different cleaner
  */
 export async function emitJobReassigned(
+  tx: any,
   job: CleaningJob,
   previousCleaner: User,
   newCleaner: User,
@@ -217,10 +229,92 @@ export async function emitJobReassigned(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Job reassigned: ${job.id} from ${previousCleaner.id} to ${newCleaner.id}`);
 }
 
+/**
+ * Emit when a cleaner hands back an accepted job
+ */
+export async function emitJobReleased(
+  tx: any,
+  job: CleaningJob,
+  cleaner: User,
+  property: { name: string },
+  reason: string,
+  businessUsers: User[]
+): Promise<void> {
+  const event: JobReleasedEvent = {
+    type: "job_released",
+    jobId: job.id,
+    businessId: job.businessId,
+    cleanerId: cleaner.id,
+    cleanerName: `${cleaner.firstName || ""} ${cleaner.lastName || ""}`.trim() || cleaner.email,
+    propertyId: job.propertyId,
+    propertyName: property.name,
+    reason,
+    timestamp: new Date(),
+  };
+
+  await emitNotificationEvent(tx, event, businessUsers);
+  console.log(`[Events] Job released: ${job.id} by ${cleaner.id}`);
+}
+
+/**
+ * Emit when a cleaner asks to be released inside the cutoff
+ */
+export async function emitJobReleaseRequested(
+  tx: any,
+  job: CleaningJob,
+  cleaner: User,
+  property: { name: string },
+  businessUsers: User[]
+): Promise<void> {
+  const event: JobReleaseRequestedEvent = {
+    type: "job_release_requested",
+    jobId: job.id,
+    businessId: job.businessId,
+    cleanerId: cleaner.id,
+    cleanerName: `${cleaner.firstName || ""} ${cleaner.lastName || ""}`.trim() || cleaner.email,
+    propertyId: job.propertyId,
+    propertyName: property.name,
+    cleaningDate: job.cleaningDate,
+    reason: job.releaseReason || "",
+    timestamp: new Date(),
+  };
+
+  await emitNotificationEvent(tx, event, businessUsers);
+  console.log(`[Events] Job release requested: ${job.id} by ${cleaner.id}`);
+}
+
+/**
+ * Emit when a manager approves or denies a release request
+ */
+export async function emitJobReleaseDecided(
+  tx: any,
+  job: CleaningJob,
+  cleanerId: string,
+  property: { name: string },
+  approved: boolean,
+  reason: string | undefined,
+  businessUsers: User[]
+): Promise<void> {
+  const event: JobReleaseDecidedEvent = {
+    type: "job_release_decided",
+    jobId: job.id,
+    businessId: job.businessId,
+    cleanerId,
+    propertyId: job.propertyId,
+    propertyName: property.name,
+    approved,
+    reason,
+    timestamp: new Date(),
+  };
+
+  await emitNotificationEvent(tx, event, businessUsers);
+  console.log(`[Events] Job release ${approved ? "approved" : "denied"}: ${job.id}`);
+}
+
 // ============================================================================
 // CRITICAL ALERT EVENTS
 // ============================================================================
@@ -229,6 +323,7 @@ export async function emitJobReassigned(
  * Emit when damage is reported (CRITICAL)
  */
 export async function emitDamageReported(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -250,7 +345,7 @@ export async function emitDamageReported(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Damage reported: ${job.id} - ${damage.severity}`);
 }
 
@@ -258,6 +353,7 @@ export async function emitDamageReported(
  * Emit when cleaner is removed (CRITICAL)
  */
 export async function emitCleanerRemoved(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -276,7 +372,7 @@ export async function emitCleanerRemoved(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Cleaner removed: ${job.id} - ${reason}`);
 }
 
@@ -284,6 +380,7 @@ export async function emitCleanerRemoved(
  * Emit when cleaner requests override (CRITICAL)
  */
 export async function emitCleanerOverrideRequest(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -302,7 +399,7 @@ export async function emitCleanerOverrideRequest(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Override requested: ${job.id} - ${reason}`);
 }
 
@@ -310,6 +407,7 @@ export async function emitCleanerOverrideRequest(
  * Emit when GPS coordinates don't match (CRITICAL)
  */
 export async function emitGPSMismatch(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string; latitude: number; longitude: number },
@@ -334,7 +432,7 @@ export async function emitGPSMismatch(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] GPS mismatch: ${job.id} - ${distanceMeters}m away`);
 }
 
@@ -342,6 +440,7 @@ export async function emitGPSMismatch(
  * Emit when access is denied (CRITICAL)
  */
 export async function emitAccessDenied(
+  tx: any,
   job: CleaningJob,
   cleaner: User,
   property: { name: string },
@@ -357,12 +456,15 @@ export async function emitAccessDenied(
     cleanerName: `${cleaner.firstName || ""} ${cleaner.lastName || ""}`.trim() || cleaner.email,
     propertyId: job.propertyId,
     propertyName: property.name,
+    reason: job.accessDeniedReason ?? "other",
+    notes: job.accessDeniedNotes || undefined,
     gpsLat,
     gpsLng,
+    tripFee: job.tripFee ? Number(job.tripFee) : undefined,
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Access denied: ${job.id}`);
 }
 
@@ -374,6 +476,7 @@ export async function emitAccessDenied(
  * Emit when booking date changes (extended stay)
  */
 export async function emitBookingDateChanged(
+  tx: any,
   job: CleaningJob,
   booking: Booking,
   oldCheckoutDate: Date,
@@ -396,7 +499,7 @@ export async function emitBookingDateChanged(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Booking date changed: ${job.id}`);
 }
 
@@ -404,6 +507,7 @@ export async function emitBookingDateChanged(
  * Emit when invoice is submitted
  */
 export async function emitInvoiceSubmitted(
+  tx: any,
   invoiceId: string,
   businessId: string,
   cleaner: User,
@@ -426,7 +530,7 @@ export async function emitInvoiceSubmitted(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Invoice submitted: ${invoiceId}`);
 }
 
@@ -434,6 +538,7 @@ export async function emitInvoiceSubmitted(
  * Emit when invoice period is ready
  */
 export async function emitInvoicePeriodReady(
+  tx: any,
   invoiceId: string,
   businessId: string,
   cleaner: User,
@@ -456,6 +561,6 @@ export async function emitInvoicePeriodReady(
     timestamp: new Date(),
   };
 
-  await emitNotificationEvent(event, businessUsers);
+  await emitNotificationEvent(tx, event, businessUsers);
   console.log(`[Events] Invoice period ready: ${invoiceId}`);
 }
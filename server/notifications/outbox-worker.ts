@@ -0,0 +1,206 @@
+/**
+ * Notification Outbox Worker
+ *
+ * Polls notification_outbox for due rows and delivers them. A row is claimed
+ * by setting lockedUntil (only one worker wins the conditional update), so
+ * several API processes can run the worker side by side. A worker that dies
+ * mid-delivery leaves its claim to expire and the row is picked up again.
+ * A row that reached only some recipients is retried for the rest.
+ */
+
+import { and, asc, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import { notificationOutbox, users } from "@/drizzle/schema";
+import type { NotificationOutboxEntry, User } from "@/drizzle/schema";
+import { getDb } from "@/server/db";
+import { getAffectedRows } from "@/server/jobs/state-machine";
+import { getNotificationDeliveryService, type NotificationDeliveryService } from "./delivery";
+import { OUTBOX_MAX_ATTEMPTS, PartialDeliveryError, getRetryDelayMs, parseOutboxEvent } from "./outbox";
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 1000;
+const DEFAULT_BATCH_SIZE = 50;
+const CLAIM_DURATION_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OutboxBatchResult {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+// ============================================================================
+// OUTBOX WORKER
+// ============================================================================
+
+export class NotificationOutboxWorker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly deliveryService: NotificationDeliveryService = getNotificationDeliveryService(),
+    private readonly batchSize: number = DEFAULT_BATCH_SIZE
+  ) {}
+
+  /**
+   * Start polling (no-op if already started)
+   */
+  start(intervalMs: number = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      // Skip a tick while the previous batch is still being delivered
+      if (this.running) return;
+
+      this.running = true;
+      this.processDue()
+        .catch((error) => console.error("[Outbox] Batch failed:", error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, intervalMs);
+
+    console.log(`[Outbox] Worker started (every ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deliver every row that is due
+   */
+  async processDue(now: Date = new Date()): Promise<OutboxBatchResult> {
+    const result: OutboxBatchResult = { delivered: 0, retried: 0, deadLettered: 0 };
+
+    const db = (await getDb()) as any;
+    if (!db) return result;
+
+    const due: NotificationOutboxEntry[] = await db
+      .select()
+      .from(notificationOutbox)
+      .where(
+        and(
+          eq(notificationOutbox.status, "pending"),
+          lte(notificationOutbox.nextAttemptAt, now),
+          or(isNull(notificationOutbox.lockedUntil), lte(notificationOutbox.lockedUntil, now))
+        )
+      )
+      .orderBy(asc(notificationOutbox.nextAttemptAt))
+      .limit(this.batchSize);
+
+    for (const entry of due) {
+      if (!(await this.claim(db, entry, now))) continue; // Another worker has it
+
+      const outcome = await this.deliver(db, entry, now);
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Take the row for CLAIM_DURATION_MS (false if someone else claimed it first)
+   */
+  private async claim(db: any, entry: NotificationOutboxEntry, now: Date): Promise<boolean> {
+    const claimed = await db
+      .update(notificationOutbox)
+      .set({ lockedUntil: new Date(now.getTime() + CLAIM_DURATION_MS) })
+      .where(
+        and(
+          eq(notificationOutbox.id, entry.id),
+          eq(notificationOutbox.status, "pending"),
+          or(isNull(notificationOutbox.lockedUntil), lte(notificationOutbox.lockedUntil, now))
+        )
+      );
+
+    return getAffectedRows(claimed) === 1;
+  }
+
+  /**
+   * Deliver one claimed row and record the outcome
+   */
+  private async deliver(
+    db: any,
+    entry: NotificationOutboxEntry,
+    now: Date
+  ): Promise<keyof OutboxBatchResult> {
+    const attempts = entry.attempts + 1;
+
+    try {
+      const event = parseOutboxEvent(entry);
+      const recipients = await this.loadRecipients(db, entry);
+      await this.deliveryService.deliverChannel(entry.channel, event, recipients, now, entry.id);
+
+      await db
+        .update(notificationOutbox)
+        .set({ status: "delivered", attempts, deliveredAt: new Date(), lockedUntil: null, lastError: null })
+        .where(eq(notificationOutbox.id, entry.id));
+
+      return "delivered";
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      // Keep only the recipients still owed this channel (an admin retry of a dead row too)
+      const remaining = error instanceof PartialDeliveryError ? { recipientIds: error.failedRecipientIds } : {};
+
+      if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+        console.error(`[Outbox] Dead-lettered ${entry.id} (${entry.channel}) after ${attempts} attempts:`, error);
+        await db
+          .update(notificationOutbox)
+          .set({ status: "dead", attempts, lockedUntil: null, lastError, ...remaining })
+          .where(eq(notificationOutbox.id, entry.id));
+
+        return "deadLettered";
+      }
+
+      console.warn(`[Outbox] Retry ${attempts}/${OUTBOX_MAX_ATTEMPTS} for ${entry.id} (${entry.channel}):`, error);
+      await db
+        .update(notificationOutbox)
+        .set({
+          attempts,
+          nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)),
+          lockedUntil: null,
+          lastError,
+          ...remaining,
+        })
+        .where(eq(notificationOutbox.id, entry.id));
+
+      return "retried";
+    }
+  }
+
+  /**
+   * Recipients still active in the business (deactivated users are skipped)
+   */
+  private async loadRecipients(db: any, entry: NotificationOutboxEntry): Promise<User[]> {
+    if (entry.recipientIds.length === 0) return [];
+
+    return db.query.users.findMany({
+      where: and(
+        eq(users.businessId, entry.businessId),
+        eq(users.isActive, true),
+        inArray(users.id, entry.recipientIds)
+      ),
+    });
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let outboxWorker: NotificationOutboxWorker | null = null;
+
+export function getNotificationOutboxWorker(): NotificationOutboxWorker {
+  if (!outboxWorker) {
+    outboxWorker = new NotificationOutboxWorker();
+  }
+  return outboxWorker;
+}
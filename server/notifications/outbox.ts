@@ -0,0 +1,132 @@
+/**
+ * Notification Outbox
+ *
+ * Events are written to notification_outbox in the same transaction as the
+ * business change that caused them (one row per delivery channel), so a
+ * rolled-back mutation never notifies anyone and a committed one is never
+ * lost to a restart. The outbox worker (outbox-worker.ts) delivers the rows.
+ *
+ * Each channel retries on its own with exponential backoff; after
+ * OUTBOX_MAX_ATTEMPTS failures a row is dead-lettered for an admin to retry.
+ */
+
+import crypto from "crypto";
+import { notificationOutbox } from "@/drizzle/schema";
+import type {
+  InsertNotificationOutboxEntry,
+  NotificationChannel,
+  NotificationOutboxEntry,
+  User,
+} from "@/drizzle/schema";
+import { getChannelsForType, type NotificationEvent } from "./events";
+import { loadNotificationRules } from "./rule-overrides";
+
+export const OUTBOX_MAX_ATTEMPTS = 6;
+export const OUTBOX_BASE_RETRY_DELAY_MS = 30 * 1000;
+export const OUTBOX_MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// ISO-8601 timestamps as produced by JSON.stringify(Date)
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * A channel delivery that reached some recipients but not others
+ * The worker retries the row for failedRecipientIds only, so the recipients
+ * who already got the email, text or push don't get it again.
+ */
+export class PartialDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly failedRecipientIds: string[]
+  ) {
+    super(message);
+    this.name = "PartialDeliveryError";
+  }
+}
+
+/**
+ * Queue an event for delivery on every channel its rules use
+ * (with the business's rule overrides applied, see rule-overrides.ts)
+ * Pass the transaction of the change that caused the event.
+ * businessUsers is the candidate list the notification rules pick recipients from.
+ */
+export async function emitNotificationEvent(
+  tx: any,
+  event: NotificationEvent,
+  businessUsers: User[]
+): Promise<void> {
+  const now = new Date();
+  const rules = await loadNotificationRules(tx, event.businessId);
+
+  const entries: InsertNotificationOutboxEntry[] = getChannelsForType(event.type, rules).map((channel) => ({
+    id: `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    businessId: event.businessId,
+    type: event.type,
+    channel,
+    event,
+    recipientIds: businessUsers.map((user) => user.id),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+  }));
+  if (entries.length === 0) return; // Every rule for the event is turned off
+
+  await tx.insert(notificationOutbox).values(entries);
+}
+
+/**
+ * Queue one channel of an event for some of its recipients at a later time
+ * Used for notifications held back by quiet hours (preferences.ts). Given the
+ * outbox row being delivered (sourceId), the row's id is derived from it, so
+ * a retried delivery that defers the same recipients again adds nothing.
+ */
+export async function deferNotificationEvent(
+  db: any,
+  event: NotificationEvent,
+  channel: NotificationChannel,
+  recipientIds: string[],
+  until: Date,
+  sourceId?: string
+): Promise<void> {
+  const entry: InsertNotificationOutboxEntry = {
+    id: sourceId
+      ? getDeferredEntryId(sourceId, channel, until)
+      : `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    businessId: event.businessId,
+    type: event.type,
+    channel,
+    event,
+    recipientIds,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: until,
+    createdAt: new Date(),
+  };
+
+  await db
+    .insert(notificationOutbox)
+    .values(entry)
+    .onDuplicateKeyUpdate({ set: { id: entry.id } });
+}
+
+function getDeferredEntryId(sourceId: string, channel: NotificationChannel, until: Date): string {
+  const hash = crypto.createHash("sha256").update(`${sourceId}:${channel}:${until.toISOString()}`).digest("hex");
+  return `outbox_${hash.slice(0, 40)}`;
+}
+
+/**
+ * Read a stored event back, restoring its Date fields
+ */
+export function parseOutboxEvent(entry: Pick<NotificationOutboxEntry, "event">): NotificationEvent {
+  const json = typeof entry.event === "string" ? entry.event : JSON.stringify(entry.event);
+  return JSON.parse(json, (_key, value) =>
+    typeof value === "string" && ISO_DATE.test(value) ? new Date(value) : value
+  );
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures (30s, 1m, 2m, ... capped at 1h)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(OUTBOX_BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), OUTBOX_MAX_RETRY_DELAY_MS);
+}
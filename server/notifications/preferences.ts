@@ -0,0 +1,181 @@
+/**
+ * Notification Preferences
+ *
+ * What each user asked not to be bothered with:
+ * - Quiet hours (business timezone): push is held until the window ends
+ * - Channel opt-outs per event type
+ * - Muted jobs: nothing about the job reaches the user
+ *
+ * Critical notifications (NotificationRule.isCritical) ignore all of these.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { businesses, notificationJobMutes, notificationPreferences } from "@/drizzle/schema";
+import type { NotificationChannel, NotificationPreferences, NotificationType } from "@/drizzle/schema";
+import { NOTIFICATION_RULES, type NotificationRule } from "./events";
+
+export const DEFAULT_TIMEZONE = "America/Los_Angeles";
+
+// "HH:MM", 24-hour clock
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Event types with at least one critical rule (always delivered)
+ * Pass a business's rules (rule-overrides.ts) to use its overrides instead of the built-ins.
+ */
+export function getCriticalNotificationTypes(rules: NotificationRule[] = NOTIFICATION_RULES): NotificationType[] {
+  return [...new Set(rules.filter((rule) => rule.isCritical).map((rule) => rule.event))];
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QuietHours {
+  start: string; // "HH:MM"
+  end: string;
+}
+
+export interface RecipientPreferences {
+  quietHours: QuietHours | null;
+  channelOptOuts: Partial<Record<NotificationType, NotificationChannel[]>>;
+  mutedJobIds: Set<string>;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+export function getQuietHours(
+  preferences: Pick<NotificationPreferences, "quietHoursStart" | "quietHoursEnd">
+): QuietHours | null {
+  return preferences.quietHoursStart && preferences.quietHoursEnd
+    ? { start: preferences.quietHoursStart, end: preferences.quietHoursEnd }
+    : null;
+}
+
+/**
+ * Preferences of the users who set any (users missing from the map get everything)
+ * Pass jobId to also load who muted that job.
+ */
+export async function loadRecipientPreferences(
+  db: any,
+  userIds: string[],
+  jobId?: string
+): Promise<Map<string, RecipientPreferences>> {
+  const byUser = new Map<string, RecipientPreferences>();
+  if (userIds.length === 0) return byUser;
+
+  const forUser = (userId: string) => {
+    let preferences = byUser.get(userId);
+    if (!preferences) {
+      preferences = { quietHours: null, channelOptOuts: {}, mutedJobIds: new Set() };
+      byUser.set(userId, preferences);
+    }
+    return preferences;
+  };
+
+  const rows: NotificationPreferences[] = await db
+    .select()
+    .from(notificationPreferences)
+    .where(inArray(notificationPreferences.userId, userIds));
+
+  for (const row of rows) {
+    const preferences = forUser(row.userId);
+    preferences.quietHours = getQuietHours(row);
+    preferences.channelOptOuts = row.channelOptOuts ?? {};
+  }
+
+  if (jobId) {
+    const mutes: { userId: string }[] = await db
+      .select({ userId: notificationJobMutes.userId })
+      .from(notificationJobMutes)
+      .where(and(eq(notificationJobMutes.jobId, jobId), inArray(notificationJobMutes.userId, userIds)));
+
+    for (const mute of mutes) {
+      forUser(mute.userId).mutedJobIds.add(jobId);
+    }
+  }
+
+  return byUser;
+}
+
+/**
+ * Timezone quiet hours are read in (falls back to the schema default)
+ */
+export async function getBusinessTimezone(db: any, businessId: string): Promise<string> {
+  const [business] = await db
+    .select({ timezone: businesses.timezone })
+    .from(businesses)
+    .where(eq(businesses.id, businessId))
+    .limit(1);
+
+  return business?.timezone || DEFAULT_TIMEZONE;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+export function isChannelOptedOut(
+  preferences: RecipientPreferences,
+  type: NotificationType,
+  channel: NotificationChannel
+): boolean {
+  return preferences.channelOptOuts[type]?.includes(channel) ?? false;
+}
+
+export function toMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Local calendar date ("YYYY-MM-DD") and minutes past local midnight in the timezone
+ */
+export function getLocalTime(now: Date, timeZone: string): { date: string; minutes: number } {
+  const options = {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  } as const;
+
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", { ...options, timeZone });
+  } catch {
+    // Unknown timezone stored on the business
+    formatter = new Intl.DateTimeFormat("en-US", { ...options, timeZone: DEFAULT_TIMEZONE });
+  }
+
+  const parts = formatter.formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+/**
+ * When the quiet hours the user is in right now end (null = not in quiet hours)
+ * A window whose start is after its end runs across midnight (22:00-07:00).
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, now: Date, timeZone: string): Date | null {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return null; // Empty window
+
+  const current = getLocalTime(now, timeZone).minutes;
+  const inWindow = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!inWindow) return null;
+
+  const minutesLeft = (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const until = new Date(now.getTime() + minutesLeft * 60 * 1000);
+  until.setUTCSeconds(0, 0); // Back to the top of the minute the window ends on
+  return until;
+}
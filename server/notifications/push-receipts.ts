@@ -0,0 +1,140 @@
+/**
+ * Push Receipt Checker
+ *
+ * A push ticket only says the service accepted a message. Receipts, ready a
+ * few minutes later, say whether APNs/FCM took it; a DeviceNotRegistered
+ * receipt means the app is gone from that device and its token is pruned.
+ * Tickets are dropped once their receipt is read, or after RECEIPT_TTL_MS
+ * (the service keeps receipts for a day).
+ */
+
+import { asc, inArray, lte } from "drizzle-orm";
+import { pushTickets } from "@/drizzle/schema";
+import type { PushTicketRecord } from "@/drizzle/schema";
+import { getDb } from "@/server/db";
+import { DEVICE_NOT_REGISTERED, getPushErrorCode, getPushProvider, type PushProvider } from "./push";
+import { prunePushTokens } from "./push-tokens";
+
+const DEFAULT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const RECEIPT_DELAY_MS = 15 * 60 * 1000; // Receipts are usually ready well within this
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReceiptCheckResult {
+  checked: number;
+  failed: number;
+  prunedTokens: number;
+}
+
+// ============================================================================
+// RECEIPT CHECKER
+// ============================================================================
+
+export class PushReceiptChecker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    private readonly provider: () => PushProvider = getPushProvider,
+    private readonly batchSize: number = DEFAULT_BATCH_SIZE
+  ) {}
+
+  /**
+   * Start polling (no-op if already started)
+   */
+  start(intervalMs: number = DEFAULT_CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+
+      this.running = true;
+      this.checkDue()
+        .catch((error) => console.error("[Push] Receipt check failed:", error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, intervalMs);
+
+    console.log(`[Push] Receipt checker started (every ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Read the receipts of tickets old enough to have one
+   */
+  async checkDue(now: Date = new Date()): Promise<ReceiptCheckResult> {
+    const result: ReceiptCheckResult = { checked: 0, failed: 0, prunedTokens: 0 };
+
+    const db = (await getDb()) as any;
+    if (!db) return result;
+
+    const tickets: PushTicketRecord[] = await db
+      .select()
+      .from(pushTickets)
+      .where(lte(pushTickets.createdAt, new Date(now.getTime() - RECEIPT_DELAY_MS)))
+      .orderBy(asc(pushTickets.createdAt))
+      .limit(this.batchSize);
+
+    if (tickets.length === 0) return result;
+
+    const receipts = await this.provider().getReceipts(tickets.map((ticket) => ticket.id));
+    const unregistered = new Set<string>();
+
+    for (const ticket of tickets) {
+      const receipt = receipts[ticket.id];
+      if (!receipt) continue; // Not ready yet
+
+      result.checked++;
+      if (receipt.status === "ok") continue;
+
+      result.failed++;
+      if (getPushErrorCode(receipt) === DEVICE_NOT_REGISTERED) {
+        unregistered.add(ticket.token);
+      } else {
+        console.warn(`[Push] Delivery failed for ticket ${ticket.id}: ${receipt.message}`);
+      }
+    }
+
+    await prunePushTokens(db, [...unregistered]);
+    result.prunedTokens = unregistered.size;
+
+    // Done with: tickets that have a receipt, and tickets too old to ever get one
+    const expiredBefore = new Date(now.getTime() - RECEIPT_TTL_MS);
+    const finished = tickets
+      .filter((ticket) => receipts[ticket.id] || ticket.createdAt <= expiredBefore)
+      .map((ticket) => ticket.id);
+
+    if (finished.length > 0) {
+      await db.delete(pushTickets).where(inArray(pushTickets.id, finished));
+    }
+
+    return result;
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let receiptChecker: PushReceiptChecker | null = null;
+
+export function getPushReceiptChecker(): PushReceiptChecker {
+  if (!receiptChecker) {
+    receiptChecker = new PushReceiptChecker();
+  }
+  return receiptChecker;
+}
@@ -0,0 +1,65 @@
+/**
+ * Push Token Registry
+ *
+ * One row per device. A token belongs to whoever last registered it, so a
+ * shared phone stops receiving the previous user's notifications as soon as
+ * the next user signs in. Tokens the push service reports as no longer
+ * registered are pruned by delivery and by the receipt checker.
+ */
+
+import { inArray } from "drizzle-orm";
+import { pushTokens } from "../../drizzle/schema";
+import type { PushToken, User } from "../../drizzle/schema";
+
+const EXPO_PUSH_TOKEN_PATTERN = /^(Exponent|Expo)PushToken\[.+\]$/;
+
+export function isExpoPushToken(token: string): boolean {
+  return EXPO_PUSH_TOKEN_PATTERN.test(token);
+}
+
+/**
+ * Register (or take over) a device's token for the user
+ */
+export async function registerPushToken(
+  db: any,
+  user: User,
+  device: { token: string; platform: PushToken["platform"]; deviceName?: string | null }
+): Promise<void> {
+  await db
+    .insert(pushTokens)
+    .values({
+      id: `push_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      businessId: user.businessId,
+      userId: user.id,
+      token: device.token,
+      platform: device.platform,
+      deviceName: device.deviceName ?? null,
+    })
+    .onDuplicateKeyUpdate({
+      set: {
+        businessId: user.businessId,
+        userId: user.id,
+        platform: device.platform,
+        deviceName: device.deviceName ?? null,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Tokens registered to any of the users
+ */
+export async function getPushTokensForUsers(db: any, userIds: string[]): Promise<PushToken[]> {
+  if (userIds.length === 0) return [];
+  return db.select().from(pushTokens).where(inArray(pushTokens.userId, userIds));
+}
+
+/**
+ * Forget tokens the push service no longer accepts
+ */
+export async function prunePushTokens(db: any, tokens: string[]): Promise<void> {
+  if (tokens.length === 0) return;
+
+  await db.delete(pushTokens).where(inArray(pushTokens.token, tokens));
+  console.log(`[Push] Pruned ${tokens.length} unregistered token(s)`);
+}
@@ -0,0 +1,202 @@
+/**
+ * Push Provider
+ *
+ * Pluggable push delivery. Selected by PUSH_PROVIDER:
+ * - "expo" (default in production): Expo's push service, which relays to APNs and FCM
+ * - "fake" (default elsewhere): records messages in memory, for local development and tests
+ *
+ * Sending returns one ticket per message. A ticket only means the service
+ * accepted the message; whether it reached the device is reported later by a
+ * receipt (see push-receipts.ts).
+ */
+
+import { ENV } from "../_core/env";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PushMessage {
+  to: string; // Expo push token
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+  sound?: "default" | null;
+  badge?: number;
+  priority?: "default" | "normal" | "high";
+  interruptionLevel?: "active" | "time-sensitive"; // iOS: time-sensitive breaks through Focus
+}
+
+/**
+ * Error code the push service uses when the app was uninstalled or the token expired
+ */
+export const DEVICE_NOT_REGISTERED = "DeviceNotRegistered";
+
+export type PushTicket =
+  | { status: "ok"; id: string }
+  | { status: "error"; message: string; details?: { error?: string } };
+
+export type PushReceipt = { status: "ok" } | { status: "error"; message: string; details?: { error?: string } };
+
+export interface PushProvider {
+  readonly name: string;
+  /** One ticket per message, in the same order */
+  send(messages: PushMessage[]): Promise<PushTicket[]>;
+  /** Receipts that are ready, keyed by ticket id (missing = not ready yet) */
+  getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>>;
+}
+
+// ============================================================================
+// EXPO PROVIDER
+// ============================================================================
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const EXPO_RECEIPTS_URL = "https://exp.host/--/api/v2/push/getReceipts";
+const EXPO_SEND_CHUNK_SIZE = 100; // Service limits per request
+const EXPO_RECEIPT_CHUNK_SIZE = 300;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class ExpoPushProvider implements PushProvider {
+  readonly name = "expo";
+
+  constructor(private readonly accessToken: string = "") {}
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    const tickets: PushTicket[] = [];
+
+    for (const batch of chunk(messages, EXPO_SEND_CHUNK_SIZE)) {
+      const response = await this.post<PushTicket[]>(EXPO_PUSH_URL, batch);
+      if (!Array.isArray(response) || response.length !== batch.length) {
+        throw new Error(`Expo push returned ${response?.length ?? 0} tickets for ${batch.length} messages`);
+      }
+      tickets.push(...response);
+    }
+
+    return tickets;
+  }
+
+  async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+    const receipts: Record<string, PushReceipt> = {};
+
+    for (const ids of chunk(ticketIds, EXPO_RECEIPT_CHUNK_SIZE)) {
+      Object.assign(receipts, await this.post<Record<string, PushReceipt>>(EXPO_RECEIPTS_URL, { ids }));
+    }
+
+    return receipts;
+  }
+
+  private async post<T>(url: string, body: unknown): Promise<T> {
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    };
+    if (this.accessToken) {
+      headers.Authorization = `Bearer ${this.accessToken}`;
+    }
+
+    const response = await fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
+    const result = (await response.json().catch(() => null)) as { data?: T; errors?: { message: string }[] } | null;
+
+    // Request-level failures (bad credentials, malformed batch) come back as errors with no data
+    if (!response.ok || !result?.data) {
+      const reason = result?.errors?.map((error) => error.message).join("; ") || response.statusText;
+      throw new Error(`Expo push request failed (${response.status}): ${reason}`);
+    }
+
+    return result.data;
+  }
+}
+
+// ============================================================================
+// FAKE PROVIDER
+// ============================================================================
+
+export class FakePushProvider implements PushProvider {
+  readonly name = "fake";
+
+  readonly sent: PushMessage[] = [];
+  private readonly invalidTokens = new Set<string>();
+  private readonly ticketTokens = new Map<string, string>();
+
+  /**
+   * Treat a token as uninstalled: later sends are rejected and receipts for
+   * tickets already issued to it report the device as gone
+   */
+  markInvalid(token: string): void {
+    this.invalidTokens.add(token);
+  }
+
+  async send(messages: PushMessage[]): Promise<PushTicket[]> {
+    return messages.map((message) => {
+      if (this.invalidTokens.has(message.to)) {
+        return {
+          status: "error",
+          message: `${message.to} is not a registered push notification recipient`,
+          details: { error: DEVICE_NOT_REGISTERED },
+        };
+      }
+
+      const id = `ticket_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      this.sent.push(message);
+      this.ticketTokens.set(id, message.to);
+      console.log(`[Push] To ${message.to}: ${message.title}`);
+      return { status: "ok", id };
+    });
+  }
+
+  async getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>> {
+    const receipts: Record<string, PushReceipt> = {};
+
+    for (const id of ticketIds) {
+      const token = this.ticketTokens.get(id);
+      if (!token) continue;
+
+      receipts[id] = this.invalidTokens.has(token)
+        ? { status: "error", message: "The device is no longer registered", details: { error: DEVICE_NOT_REGISTERED } }
+        : { status: "ok" };
+    }
+
+    return receipts;
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let pushProvider: PushProvider | null = null;
+
+function createDefaultProvider(): PushProvider {
+  if (ENV.pushProvider === "expo") {
+    return new ExpoPushProvider(ENV.expoAccessToken);
+  }
+  return new FakePushProvider();
+}
+
+export function getPushProvider(): PushProvider {
+  if (!pushProvider) {
+    pushProvider = createDefaultProvider();
+  }
+  return pushProvider;
+}
+
+/**
+ * Replace the active provider (tests)
+ */
+export function setPushProvider(provider: PushProvider | null): void {
+  pushProvider = provider;
+}
+
+/**
+ * Error code carried by a rejected ticket or receipt
+ */
+export function getPushErrorCode(result: PushTicket | PushReceipt): string | undefined {
+  return result.status === "error" ? result.details?.error : undefined;
+}
@@ -0,0 +1,181 @@
+/**
+ * Notification Rule Overrides
+ *
+ * A business can change the built-in NOTIFICATION_RULES (events.ts) without a
+ * deploy: turn a rule off, narrow or widen who receives it by role, change its
+ * criticality and channels, or replace its text with a template. Each override
+ * row targets one built-in rule by (event type, rule role); anything it leaves
+ * null keeps the built-in value, and rules without a row are used as-is.
+ */
+
+import { eq } from "drizzle-orm";
+import { notificationRuleOverrides } from "@/drizzle/schema";
+import type {
+  NotificationRecipientRole,
+  NotificationRuleOverride,
+  NotificationType,
+  User,
+} from "@/drizzle/schema";
+import { NOTIFICATION_RULES, type NotificationEvent, type NotificationRule } from "./events";
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+type EventFields<T extends NotificationType> = Exclude<keyof Extract<NotificationEvent, { type: T }>, "type">[];
+
+/**
+ * Event fields a title or message template may use as {placeholder}
+ */
+export const TEMPLATE_PLACEHOLDERS: { [T in NotificationType]: EventFields<T> } = {
+  job_available: ["propertyName", "cleaningDate", "price"],
+  job_assigned: ["propertyName", "cleaningDate", "price", "instructions"],
+  job_accepted: ["cleanerName", "propertyName"],
+  job_started: ["cleanerName", "propertyName", "startedAt"],
+  job_completed: ["cleanerName", "propertyName", "completedAt", "photoCount", "damageCount"],
+  job_cancelled: ["propertyName", "reason", "cancellationFee"],
+  job_reassigned: ["previousCleanerName", "newCleanerName", "propertyName", "reason"],
+  job_released: ["cleanerName", "propertyName", "reason"],
+  job_release_requested: ["cleanerName", "propertyName", "cleaningDate", "reason"],
+  job_release_decided: ["propertyName", "approved", "reason"],
+  damage_reported: ["cleanerName", "propertyName", "severity", "description", "photoCount"],
+  cleaner_removed: ["cleanerName", "propertyName", "reason"],
+  cleaner_override_request: ["cleanerName", "propertyName", "reason"],
+  gps_mismatch: ["cleanerName", "propertyName", "distanceMeters"],
+  booking_date_changed: ["propertyName", "oldCheckoutDate", "newCheckoutDate", "cleanerName"],
+  invoice_submitted: ["cleanerName", "totalAmount", "jobCount", "periodStart", "periodEnd"],
+  invoice_period_ready: ["cleanerName", "totalAmount", "jobCount", "periodStart", "periodEnd"],
+  message_received: ["senderName", "message"],
+  chat_locked: ["propertyName"],
+  access_denied: ["cleanerName", "propertyName", "reason", "notes", "tripFee"],
+  cleaner_daily_digest: ["cleanerName", "date", "jobCount"],
+  manager_daily_digest: ["date", "unassignedCount", "needsReviewCount", "turnoverCount"],
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function formatTemplateValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+/**
+ * Placeholders in a template that the event type does not provide
+ */
+export function getUnknownPlaceholders(template: string, type: NotificationType): string[] {
+  const known: string[] = TEMPLATE_PLACEHOLDERS[type];
+  const names = Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+  return [...new Set(names.filter((name) => !known.includes(name)))];
+}
+
+/**
+ * Fill a template's {placeholders} from the event (missing values become empty)
+ */
+export function renderTemplate(template: string, event: NotificationEvent): string {
+  const known: string[] = TEMPLATE_PLACEHOLDERS[event.type];
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    known.includes(name) ? formatTemplateValue((event as unknown as Record<string, unknown>)[name]) : placeholder
+  );
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Roles a built-in rule is written for (manager rules also reach super managers)
+ */
+export const RULE_AUDIENCE_ROLES: Record<NotificationRule["role"], NotificationRecipientRole[]> = {
+  super_manager: ["super_manager"],
+  manager: ["manager", "super_manager"],
+  cleaner: ["cleaner"],
+};
+
+export function getRuleKey(type: NotificationType, ruleRole: NotificationRule["role"]): string {
+  return `${type}:${ruleRole}`;
+}
+
+/**
+ * Find the built-in rule an override targets
+ */
+export function findBuiltInRule(type: NotificationType, ruleRole: NotificationRule["role"]): NotificationRule | null {
+  return NOTIFICATION_RULES.find((rule) => rule.event === type && rule.role === ruleRole) ?? null;
+}
+
+/**
+ * Recipients of a rule limited to (or widened to) some roles
+ * Roles the rule is written for keep its own recipient logic (the accepting
+ * cleaner still doesn't hear about their own job); any other role listed
+ * brings in every member of the business with that role.
+ */
+function pickRecipientsByRole(
+  rule: NotificationRule,
+  roles: NotificationRecipientRole[],
+  event: NotificationEvent,
+  businessUsers: User[]
+): string[] {
+  const audience = RULE_AUDIENCE_ROLES[rule.role];
+  const builtIn = new Set(rule.recipientIds(event, businessUsers));
+
+  return businessUsers
+    .filter((user) => user.businessId === event.businessId && roles.includes(user.role as NotificationRecipientRole))
+    .filter((user) => builtIn.has(user.id) || !audience.includes(user.role as NotificationRecipientRole))
+    .map((user) => user.id);
+}
+
+/**
+ * A built-in rule with a business's override applied (null = turned off)
+ */
+export function applyRuleOverride(rule: NotificationRule, override: NotificationRuleOverride): NotificationRule | null {
+  if (!override.enabled) return null;
+
+  const { recipientRoles, titleTemplate, messageTemplate } = override;
+
+  return {
+    ...rule,
+    isCritical: override.isCritical ?? rule.isCritical,
+    channels: override.channels ?? rule.channels,
+    title: titleTemplate ? (event) => renderTemplate(titleTemplate, event) : rule.title,
+    message: messageTemplate ? (event) => renderTemplate(messageTemplate, event) : rule.message,
+    bodies: messageTemplate ? undefined : rule.bodies,
+    recipientIds: recipientRoles
+      ? (event, businessUsers) => pickRecipientsByRole(rule, recipientRoles, event, businessUsers)
+      : rule.recipientIds,
+  };
+}
+
+/**
+ * The built-in rules with overrides applied, turned-off rules removed
+ */
+export function resolveNotificationRules(overrides: NotificationRuleOverride[]): NotificationRule[] {
+  if (overrides.length === 0) return NOTIFICATION_RULES;
+
+  const byKey = new Map(overrides.map((override) => [getRuleKey(override.type, override.ruleRole), override]));
+
+  return NOTIFICATION_RULES.flatMap((rule) => {
+    const override = byKey.get(getRuleKey(rule.event, rule.role));
+    if (!override) return [rule];
+    const resolved = applyRuleOverride(rule, override);
+    return resolved ? [resolved] : [];
+  });
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+export async function loadRuleOverrides(db: any, businessId: string): Promise<NotificationRuleOverride[]> {
+  return db.query.notificationRuleOverrides.findMany({
+    where: eq(notificationRuleOverrides.businessId, businessId),
+  });
+}
+
+/**
+ * The notification rules in effect for a business
+ * Accepts a transaction, so events can be queued with the rules of the moment.
+ */
+export async function loadNotificationRules(db: any, businessId: string): Promise<NotificationRule[]> {
+  return resolveNotificationRules(await loadRuleOverrides(db, businessId));
+}
@@ -0,0 +1,64 @@
+/**
+ * Notification Templates
+ *
+ * Wraps a notification's title and channel body for the channels that need
+ * more than that: email gets a greeting, a link to the job and a footer; SMS
+ * gets a sender prefix and is kept short. The body itself comes from the
+ * rule (NotificationRule.bodies, falling back to message).
+ */
+
+import { ENV } from "../_core/env";
+import type { User } from "../../drizzle/schema";
+import type { MailMessage } from "../mail/transport";
+import type { SmsMessage } from "../sms/transport";
+import type { NotificationPayload } from "./delivery";
+
+const SMS_MAX_LENGTH = 320; // Two segments
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function buildJobLink(jobId: string | undefined): string | null {
+  if (!ENV.appUrl || !jobId) return null;
+  return new URL(`/job/${jobId}`, ENV.appUrl).toString();
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Notification email
+ */
+export function buildNotificationEmail(payload: NotificationPayload, recipient: User): MailMessage {
+  const link = buildJobLink(payload.jobId);
+
+  const lines = [
+    `Hi ${recipient.firstName || "there"},`,
+    "",
+    payload.message,
+    link ? "" : null,
+    link ? `Open the job: ${link}` : null,
+    "",
+    "You can change which notifications you receive in the app under Notifications > Settings.",
+  ];
+
+  return {
+    to: recipient.email,
+    subject: `${payload.isCritical ? "[Action needed] " : ""}${payload.title}`,
+    text: lines.filter((line) => line !== null).join("\n"),
+  };
+}
+
+/**
+ * Notification text message
+ */
+export function buildNotificationSms(payload: NotificationPayload, recipient: User & { phone: string }): SmsMessage {
+  const body = `Simply Organized: ${payload.title} - ${payload.message}`;
+
+  return {
+    to: recipient.phone,
+    body: body.length > SMS_MAX_LENGTH ? `${body.slice(0, SMS_MAX_LENGTH - 3)}...` : body,
+  };
+}
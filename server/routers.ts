@@ -13,21 +13,37 @@ import { photosRouter } from "./routers/photos";
 import { propertiesRouter } from "./routers/properties";
 import { integrationsRouter } from "./routers/integrations";
 import { authRouter } from "./routers/auth";
+import { invitationsRouter } from "./routers/invitations";
+import { teamRouter } from "./routers/team";
+import { twoFactorRouter } from "./routers/two-factor";
+import { apiKeysRouter } from "./routers/api-keys";
+import { notificationsRouter } from "./routers/notifications";
+import { notificationOutboxRouter } from "./routers/notification-outbox";
+import { notificationRulesRouter } from "./routers/notification-rules";
+import { chatRouter } from "./routers/chat";
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
   system: systemRouter,
   auth: authRouter,
+  invitations: invitationsRouter,
+  team: teamRouter,
+  twoFactor: twoFactorRouter,
+  apiKeys: apiKeysRouter,
+  notifications: notificationsRouter,
+  notificationRules: notificationRulesRouter,
 
   // Job lifecycle API
   jobs: jobsRouter,
   jobsDetail: jobsDetailRouter,
   managerOverrides: router(managerOverridesRouter),
+  chat: chatRouter,
   invoices: invoicesRouter,
 
   // Founder/Governance API
   founder: founderRouter,
   governance: governanceRouter,
+  notificationOutbox: notificationOutboxRouter,
 
   // Business API
   business: businessRouter,
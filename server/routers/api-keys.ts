@@ -0,0 +1,148 @@
+/**
+ * API Keys Router
+ *
+ * Super managers issue, rotate and revoke keys for their own business.
+ * The raw key is returned once (on create and rotate) and never again.
+ * Machine clients present the key to integrations procedures via
+ * `Authorization: Bearer so_live_...` or `X-API-Key`.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { authorizedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { recordAuditEntry } from "../audit/log";
+import {
+  API_KEY_ROTATION_GRACE_MS,
+  API_KEY_SCOPES,
+  createApiKey,
+  getApiKeyStatus,
+  getBusinessApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  toApiKeySummary,
+} from "../auth/api-keys";
+
+export const apiKeysRouter = router({
+  /**
+   * List keys for the caller's business (hashes are never returned)
+   */
+  list: authorizedProcedure("view", "api_key", "business").query(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    const now = new Date();
+    return (await listApiKeys(db, ctx.user.businessId)).map((key) => toApiKeySummary(key, now));
+  }),
+
+  /**
+   * Create a key (returns the raw key once)
+   */
+  create: authorizedProcedure("manage", "api_key")
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const issued = await createApiKey(db, {
+        businessId: ctx.user.businessId,
+        name: input.name,
+        scopes: Array.from(new Set(input.scopes)),
+        createdByUserId: ctx.user.id,
+      });
+
+      await recordAuditEntry(db, {
+        actorId: ctx.user.id,
+        businessId: ctx.user.businessId,
+        action: "api_key_created",
+        targetType: "api_key",
+        targetId: issued.record.id,
+        details: { name: issued.record.name, scopes: issued.record.scopes },
+      });
+
+      console.log(`[ApiKeys] Created ${issued.record.keyPrefix}… for ${ctx.user.businessId}`);
+
+      return { ...toApiKeySummary(issued.record), key: issued.key };
+    }),
+
+  /**
+   * Rotate a key (returns the new raw key; the old key works for 24 hours)
+   */
+  rotate: authorizedProcedure("manage", "api_key")
+    .input(z.object({ keyId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const existing = await getBusinessApiKey(db, ctx.user.businessId, input.keyId);
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "API key not found" });
+      }
+      if (getApiKeyStatus(existing) !== "active") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only active keys can be rotated" });
+      }
+
+      const issued = await rotateApiKey(db, existing, ctx.user.id);
+
+      await recordAuditEntry(db, {
+        actorId: ctx.user.id,
+        businessId: ctx.user.businessId,
+        action: "api_key_rotated",
+        targetType: "api_key",
+        targetId: existing.id,
+        details: { replacedByKeyId: issued.record.id, graceMs: API_KEY_ROTATION_GRACE_MS },
+      });
+
+      console.log(`[ApiKeys] Rotated ${existing.keyPrefix}… to ${issued.record.keyPrefix}…`);
+
+      return { ...toApiKeySummary(issued.record), key: issued.key };
+    }),
+
+  /**
+   * Revoke a key immediately
+   */
+  revoke: authorizedProcedure("manage", "api_key")
+    .input(z.object({ keyId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const existing = await getBusinessApiKey(db, ctx.user.businessId, input.keyId);
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "API key not found" });
+      }
+      if (existing.revokedAt) {
+        return { success: true } as const;
+      }
+
+      await revokeApiKey(db, existing.id);
+      await recordAuditEntry(db, {
+        actorId: ctx.user.id,
+        businessId: ctx.user.businessId,
+        action: "api_key_revoked",
+        targetType: "api_key",
+        targetId: existing.id,
+        details: { name: existing.name },
+      });
+
+      console.log(`[ApiKeys] Revoked ${existing.keyPrefix}…`);
+
+      return { success: true } as const;
+    }),
+});
+
+export type ApiKeysRouter = typeof apiKeysRouter;
@@ -1,9 +1,55 @@
-import { publicProcedure, router } from "../_core/trpc";
+import { authorizedProcedure, protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import type { TrpcContext } from "../_core/context";
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
-import { users, businesses } from "../../drizzle/schema";
-import { eq } from "drizzle-orm";
-import crypto from "crypto";
+import { users, businesses, userInvitations, passwordResetTokens, loginThrottles } from "../../drizzle/schema";
+import type { LoginThrottle, PasswordResetToken, User, UserInvitation } from "../../drizzle/schema";
+import { and, eq, gt, inArray, isNull } from "drizzle-orm";
+import { hashPassword, needsRehash, verifyPassword, verifyPasswordDummy } from "../auth/password";
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  normalizeEmail,
+  checkResetThrottle,
+  recordLoginFailure,
+  recordResetRequest,
+  unlockLogin,
+  type ThrottleDecision,
+} from "../auth/throttle";
+import { getInvitationStatus, hashInviteToken } from "../auth/invitations";
+import {
+  PASSWORD_RESET_TTL_MS,
+  generatePasswordResetId,
+  generateResetToken,
+  hashResetToken,
+  isResetTokenUsable,
+} from "../auth/password-reset";
+import { sendMail } from "../mail/transport";
+import { buildPasswordResetEmail } from "../mail/templates";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  signTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+  type TwoFactorChallengePurpose,
+} from "../auth/two-factor";
+import {
+  clearSessionCookies,
+  createSession,
+  getSessionDevice,
+  listUserSessions,
+  readRefreshToken,
+  refreshSession,
+  revokeSession,
+  revokeUserSessions,
+  setSessionCookies,
+  type IssuedSession,
+  type SessionDevice,
+} from "../auth/session";
 
 // ============================================================================
 // TYPES
@@ -14,30 +60,144 @@ export interface AuthUser {
   email: string;
   firstName: string | null;
   lastName: string | null;
-  role: "super_manager" | "manager" | "cleaner";
+  role: User["role"];
   businessId: string;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface AuthSession {
+  user: AuthUser;
+  sessionToken: string; // Bearer token for native clients (web also receives it as a cookie)
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export interface TwoFactorChallenge {
+  status: "two_factor_required" | "two_factor_setup_required";
+  challengeToken: string; // Short-lived; exchanged for a session once the second factor is done
+}
+
+export type SignInResult = ({ status: "authenticated" } & AuthSession) | TwoFactorChallenge;
+
+// ============================================================================
+// INPUTS
+// ============================================================================
+
+// Client-reported device, shown in auth.listSessions
+const deviceInput = z
+  .object({
+    name: z.string().max(100).optional(),
+    platform: z.string().max(20).optional(),
+  })
+  .optional();
+
 // ============================================================================
 // HELPERS
 // ============================================================================
 
 /**
- * Hash password using SHA-256 (for Alpha testing only)
- * Production should use bcrypt or similar
+ * Map a user row to the public auth shape (never exposes passwordHash)
  */
-function hashPassword(password: string): string {
-  return crypto.createHash("sha256").update(password).digest("hex");
+function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    businessId: user.businessId,
+    isActive: user.isActive,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
 }
 
 /**
- * Verify password
+ * Hand issued tokens to the client (cookies for web, body for native)
  */
-function verifyPassword(password: string, hash: string): boolean {
-  return hashPassword(password) === hash;
+function toAuthSession(ctx: TrpcContext, user: User, issued: IssuedSession): AuthSession {
+  setSessionCookies(ctx.req, ctx.res, issued);
+
+  return {
+    user: toAuthUser(user),
+    sessionToken: issued.sessionToken,
+    refreshToken: issued.refreshToken,
+    expiresAt: issued.expiresAt,
+  };
+}
+
+/**
+ * Finish a password-verified sign-in
+ * Users with 2FA enabled get a verify challenge; roles that require 2FA but
+ * have not enrolled get a setup challenge. Everyone else gets a session.
+ */
+async function completeSignIn(
+  ctx: TrpcContext,
+  db: any,
+  user: User,
+  device: SessionDevice
+): Promise<SignInResult> {
+  if (await isTwoFactorEnabled(db, user.id)) {
+    return {
+      status: "two_factor_required",
+      challengeToken: await signTwoFactorChallenge(user.id, "verify"),
+    };
+  }
+
+  if (isTwoFactorRequired(user.role)) {
+    return {
+      status: "two_factor_setup_required",
+      challengeToken: await signTwoFactorChallenge(user.id, "enroll"),
+    };
+  }
+
+  const issued = await createSession(db, user, device);
+  return { status: "authenticated", ...toAuthSession(ctx, user, issued) };
+}
+
+/**
+ * Resolve the active user behind a two-factor challenge
+ */
+async function getChallengeUser(
+  db: any,
+  challengeToken: string,
+  purpose: TwoFactorChallengePurpose
+): Promise<User> {
+  const userId = await verifyTwoFactorChallenge(challengeToken, purpose);
+  const user = userId
+    ? ((await db.query.users.findFirst({ where: eq(users.id, userId) })) as User | undefined)
+    : undefined;
+
+  if (!user || !user.isActive) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Sign-in expired. Please log in again." });
+  }
+
+  return user;
+}
+
+/**
+ * User-facing message for a throttled login
+ */
+function formatThrottleMessage(decision: ThrottleDecision): string {
+  const wait = formatRetryAfter(decision);
+
+  return decision.reason === "locked"
+    ? `Too many failed login attempts. Account is temporarily locked. Try again in ${wait}.`
+    : `Too many failed login attempts. Try again in ${wait}.`;
+}
+
+/**
+ * User-facing message for throttled password reset requests
+ */
+function formatResetThrottleMessage(decision: ThrottleDecision): string {
+  return `Too many password reset requests. Try again in ${formatRetryAfter(decision)}.`;
+}
+
+function formatRetryAfter(decision: ThrottleDecision): string {
+  const seconds = Math.ceil(decision.retryAfterMs / 1000);
+  return seconds >= 120 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
 }
 
 /**
@@ -48,7 +208,7 @@ function generateUserId(): string {
 }
 
 /**
- * Generate business ID (for first-time users)
+ * Generate business ID (for new business signups)
  */
 function generateBusinessId(): string {
   return `business_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -60,150 +220,613 @@ function generateBusinessId(): string {
 
 export const authRouter = router({
   /**
-   * Login / Registration (Merged)
-   * - First-time login: creates user and business
-   * - Returning login: validates credentials and returns user
+   * Login
+   * Validates credentials for an existing account. Accounts with 2FA (and
+   * roles that require it) receive a challenge instead of a session.
+   * New people join via a manager invitation (acceptInvite) or by
+   * registering a new business (registerBusiness).
    * 
    * Alpha constraints:
    * - Email/password only
-   * - Isolated Alpha users
    * - No external identity providers
-   * - Session persists across app restarts
+   * - Session persists across app restarts (signed session + refresh token)
    */
   login: publicProcedure
     .input(
       z.object({
         email: z.string().email(),
         password: z.string().min(6),
+        device: deviceInput,
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const db = (await getDb()) as any;
       if (!db) {
         throw new Error("Database connection failed");
       }
 
-      const { email, password } = input;
+      const email = normalizeEmail(input.email);
+      const { password } = input;
+      const ip = ctx.req.ip ?? null;
 
       try {
-        // Check if user exists
-        const existingUser = await db.query.users.findFirst({
+        const decision = await checkLoginThrottle(db, { email, ip });
+        if (!decision.allowed) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: formatThrottleMessage(decision) });
+        }
+
+        const existingUser = (await db.query.users.findFirst({
           where: eq(users.email, email),
-        });
+        })) as User | undefined;
+
+        const passwordValid = existingUser
+          ? await verifyPassword(password, existingUser.passwordHash)
+          : await verifyPasswordDummy(password);
 
-        if (existingUser) {
-          // Returning user: validate credentials
-          if (!verifyPassword(password, existingUser.passwordHash)) {
-            throw new Error("Invalid email or password");
-          }
-
-          if (!existingUser.isActive) {
-            throw new Error("User account is inactive");
-          }
-
-          // Return user as auth context
-          return {
-            id: existingUser.id,
-            email: existingUser.email,
-            firstName: existingUser.firstName,
-            lastName: existingUser.lastName,
-            role: existingUser.role,
-            businessId: existingUser.businessId,
-            isActive: existingUser.isActive,
-            createdAt: existingUser.createdAt,
-            updatedAt: existingUser.updatedAt,
-          } as AuthUser;
+        if (!existingUser || !passwordValid) {
+          await recordLoginFailure(db, { email, ip, user: existingUser ?? null });
+          throw new Error("Invalid email or password");
         }
 
-        // First-time login: create user and business
-        const businessId = generateBusinessId();
-        const userId = generateUserId();
-        const passwordHash = hashPassword(password);
+        if (!existingUser.isActive) {
+          throw new Error("User account is inactive");
+        }
+
+        await clearLoginFailures(db, email);
+
+        // Upgrade legacy SHA-256 hashes now that we have the plaintext
+        if (needsRehash(existingUser.passwordHash)) {
+          await db
+            .update(users)
+            .set({ passwordHash: await hashPassword(password), updatedAt: new Date() })
+            .where(eq(users.id, existingUser.id));
+        }
+
+        return completeSignIn(ctx, db, existingUser, getSessionDevice(ctx.req, input.device));
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        const message = error instanceof Error ? error.message : "Login failed";
+        throw new Error(message);
+      }
+    }),
+
+  /**
+   * Verify second factor
+   * Exchanges a verify challenge plus a TOTP or recovery code for a session.
+   * Failed codes count toward login throttling.
+   */
+  verifyTwoFactor: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().optional(),
+        recoveryCode: z.string().optional(),
+        device: deviceInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      if (!input.code && !input.recoveryCode) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Enter an authentication or recovery code" });
+      }
+
+      const user = await getChallengeUser(db, input.challengeToken, "verify");
+      const email = normalizeEmail(user.email);
+      const ip = ctx.req.ip ?? null;
+
+      const decision = await checkLoginThrottle(db, { email, ip });
+      if (!decision.allowed) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: formatThrottleMessage(decision) });
+      }
+
+      const verified = await verifySecondFactor(db, user.id, {
+        code: input.code,
+        recoveryCode: input.recoveryCode,
+      });
+      if (!verified) {
+        await recordLoginFailure(db, { email, ip, user });
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid authentication code" });
+      }
+
+      await clearLoginFailures(db, email);
+
+      const issued = await createSession(db, user, getSessionDevice(ctx.req, input.device));
+      return { status: "authenticated" as const, ...toAuthSession(ctx, user, issued) };
+    }),
+
+  /**
+   * Begin mandatory 2FA setup during login
+   * Returns the secret and QR payload for the authenticator app.
+   */
+  beginTwoFactorSetup: publicProcedure
+    .input(z.object({ challengeToken: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const user = await getChallengeUser(db, input.challengeToken, "enroll");
+      return beginTwoFactorEnrollment(db, user);
+    }),
+
+  /**
+   * Complete mandatory 2FA setup during login
+   * Confirms the first code, returns recovery codes (shown once) and a session.
+   */
+  completeTwoFactorSetup: publicProcedure
+    .input(
+      z.object({
+        challengeToken: z.string().min(1),
+        code: z.string().min(1),
+        device: deviceInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const user = await getChallengeUser(db, input.challengeToken, "enroll");
+      const recoveryCodes = await confirmTwoFactorEnrollment(db, user.id, input.code);
+      if (!recoveryCodes) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid authentication code" });
+      }
+
+      console.log(`[Auth] Two-factor enabled for ${user.id}`);
+
+      const issued = await createSession(db, user, getSessionDevice(ctx.req, input.device));
+      return { status: "authenticated" as const, ...toAuthSession(ctx, user, issued), recoveryCodes };
+    }),
+
+  /**
+   * List locked accounts in the caller's business (super managers only)
+   */
+  listLockedAccounts: authorizedProcedure("view", "login_lock", "business").query(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    const businessUsers = (await db
+      .select()
+      .from(users)
+      .where(eq(users.businessId, ctx.user.businessId))) as User[];
+    if (businessUsers.length === 0) return [];
 
-        // Extract name from email (e.g., "john.doe@example.com" -> "John Doe")
-        const nameParts = email.split("@")[0].split(".");
-        const firstName = nameParts[0]?.charAt(0).toUpperCase() + nameParts[0]?.slice(1);
-        const lastName = nameParts[1]?.charAt(0).toUpperCase() + nameParts[1]?.slice(1);
+    const usersByEmail = new Map(businessUsers.map((user) => [normalizeEmail(user.email), user]));
+    const locked = (await db
+      .select()
+      .from(loginThrottles)
+      .where(
+        and(
+          eq(loginThrottles.scope, "email"),
+          inArray(loginThrottles.throttleKey, Array.from(usersByEmail.keys())),
+          gt(loginThrottles.lockedUntil, new Date())
+        )
+      )) as LoginThrottle[];
 
-        // Create business (Alpha sandbox)
-        await (db as any).insert(businesses).values({
+    return locked.map((throttle) => {
+      const user = usersByEmail.get(throttle.throttleKey)!;
+      return {
+        userId: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        lockedUntil: throttle.lockedUntil,
+        lockoutCount: throttle.lockoutCount,
+      };
+    });
+  }),
+
+  /**
+   * Unlock account (super managers only)
+   * Lifts a temporary lockout for a user in the caller's business.
+   */
+  unlockAccount: authorizedProcedure("manage", "login_lock")
+    .input(z.object({ userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const [user] = (await db
+        .select()
+        .from(users)
+        .where(and(eq(users.id, input.userId), eq(users.businessId, ctx.user.businessId)))
+        .limit(1)) as User[];
+
+      if (!user) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+      }
+
+      await unlockLogin(db, user, ctx.user);
+      console.log(`[Auth] ${ctx.user.id} unlocked login for ${user.id}`);
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Register a new business
+   * Creates the business and its super_manager, then signs them in.
+   */
+  registerBusiness: publicProcedure
+    .input(
+      z.object({
+        businessName: z.string().min(1).max(255),
+        email: z.string().email(),
+        password: z.string().min(6),
+        firstName: z.string().max(100).optional(),
+        lastName: z.string().max(100).optional(),
+        device: deviceInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const email = normalizeEmail(input.email);
+
+      const existingUser = await db.query.users.findFirst({
+        where: eq(users.email, email),
+      });
+      if (existingUser) {
+        throw new TRPCError({ code: "CONFLICT", message: "This email already has an account" });
+      }
+
+      const businessId = generateBusinessId();
+      const now = new Date();
+      const newUser: User = {
+        id: generateUserId(),
+        businessId,
+        email,
+        passwordHash: await hashPassword(input.password),
+        firstName: input.firstName || null,
+        lastName: input.lastName || null,
+        phone: null,
+        role: "super_manager", // Business creator is super_manager
+        payType: "per_job",
+        isActive: true,
+        releaseCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.transaction(async (tx: any) => {
+        await tx.insert(businesses).values({
           id: businessId,
-          name: `${firstName}'s Business`,
-          email: email,
+          name: input.businessName,
+          email,
           isSandbox: true, // Alpha is sandbox mode
-          createdAt: new Date(),
-          updatedAt: new Date(),
+          status: "pending", // Read-only until a founder activates it
+          createdAt: now,
+          updatedAt: now,
         });
+        await tx.insert(users).values(newUser);
+      });
+
+      return completeSignIn(ctx, db, newUser, getSessionDevice(ctx.req, input.device));
+    }),
+
+  /**
+   * Accept invitation
+   * Redeems a one-time invite token: sets the password, joins the inviting
+   * business with the invited role and pay type, and signs in.
+   */
+  acceptInvite: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        password: z.string().min(6),
+        firstName: z.string().max(100).optional(),
+        lastName: z.string().max(100).optional(),
+        device: deviceInput,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const [invitation] = (await db
+        .select()
+        .from(userInvitations)
+        .where(eq(userInvitations.tokenHash, hashInviteToken(input.token)))
+        .limit(1)) as UserInvitation[];
+
+      if (!invitation || getInvitationStatus(invitation) !== "pending") {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation is invalid or has expired" });
+      }
+
+      const existingUser = await db.query.users.findFirst({
+        where: eq(users.email, invitation.email),
+      });
+      if (existingUser) {
+        throw new TRPCError({ code: "CONFLICT", message: "This email already has an account" });
+      }
+
+      const now = new Date();
+      const newUser: User = {
+        id: generateUserId(),
+        businessId: invitation.businessId,
+        email: invitation.email,
+        passwordHash: await hashPassword(input.password),
+        firstName: input.firstName || null,
+        lastName: input.lastName || null,
+        phone: null,
+        role: invitation.role,
+        payType: invitation.payType,
+        isActive: true,
+        releaseCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.transaction(async (tx: any) => {
+        // One-time: only the first redemption flips accepted_at
+        const [result] = await tx
+          .update(userInvitations)
+          .set({ acceptedAt: now, acceptedUserId: newUser.id, updatedAt: now })
+          .where(
+            and(
+              eq(userInvitations.id, invitation.id),
+              isNull(userInvitations.acceptedAt),
+              isNull(userInvitations.revokedAt)
+            )
+          );
+
+        if (!result?.affectedRows) {
+          throw new TRPCError({ code: "CONFLICT", message: "Invitation was already used" });
+        }
+
+        await tx.insert(users).values(newUser);
+      });
+
+      console.log(`[Invitations] ${newUser.email} joined ${newUser.businessId} as ${newUser.role}`);
+
+      return completeSignIn(ctx, db, newUser, getSessionDevice(ctx.req, input.device));
+    }),
 
-        // Create user (super_manager for first-time user)
-        await (db as any).insert(users).values({
-          id: userId,
-          businessId: businessId,
-          email: email,
-          passwordHash: passwordHash,
-          firstName: firstName || null,
-          lastName: lastName || null,
-          role: "super_manager", // First user is super_manager
-          payType: "per_job",
-          isActive: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
+  /**
+   * Request password reset
+   * Always reports success so the endpoint cannot be used to probe which
+   * emails have accounts. Supersedes any outstanding reset tokens.
+   * Throttled per email and IP like logins, counting every request.
+   */
+  requestReset: publicProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const email = normalizeEmail(input.email);
+      const ip = ctx.req.ip ?? null;
+
+      const decision = await checkResetThrottle(db, { email, ip });
+      if (!decision.allowed) {
+        throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: formatResetThrottleMessage(decision) });
+      }
+      await recordResetRequest(db, { email, ip });
+
+      const user = (await db.query.users.findFirst({
+        where: eq(users.email, email),
+      })) as User | undefined;
+
+      if (!user || !user.isActive) {
+        return { success: true } as const;
+      }
+
+      const now = new Date();
+      const token = generateResetToken();
+
+      await db.transaction(async (tx: any) => {
+        await tx
+          .update(passwordResetTokens)
+          .set({ usedAt: now })
+          .where(and(eq(passwordResetTokens.userId, user.id), isNull(passwordResetTokens.usedAt)));
+
+        await tx.insert(passwordResetTokens).values({
+          id: generatePasswordResetId(),
+          userId: user.id,
+          tokenHash: hashResetToken(token),
+          expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+          requestedIp: ip,
+          createdAt: now,
         });
+      });
 
-        // Return newly created user
-        return {
-          id: userId,
-          email: email,
-          firstName: firstName || null,
-          lastName: lastName || null,
-          role: "super_manager" as const,
-          businessId: businessId,
-          isActive: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        } as AuthUser;
+      try {
+        await sendMail(
+          buildPasswordResetEmail({
+            to: user.email,
+            firstName: user.firstName,
+            token,
+            expiresInMinutes: PASSWORD_RESET_TTL_MS / 60000,
+          })
+        );
       } catch (error) {
-        const message = error instanceof Error ? error.message : "Login failed";
-        throw new Error(message);
+        console.error("[Auth] Failed to send password reset email:", error);
       }
+
+      return { success: true } as const;
     }),
 
   /**
-   * Get current user (already exists in routers.ts)
-   * Kept here for reference
+   * Confirm password reset
+   * Redeems a one-time reset token, sets the new password and signs the
+   * user out of every device.
+   */
+  confirmReset: publicProcedure
+    .input(
+      z.object({
+        token: z.string().min(1),
+        password: z.string().min(6),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const [resetToken] = (await db
+        .select()
+        .from(passwordResetTokens)
+        .where(eq(passwordResetTokens.tokenHash, hashResetToken(input.token)))
+        .limit(1)) as PasswordResetToken[];
+
+      if (!resetToken || !isResetTokenUsable(resetToken)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Reset code is invalid or has expired" });
+      }
+
+      const now = new Date();
+      const passwordHash = await hashPassword(input.password);
+
+      await db.transaction(async (tx: any) => {
+        // One-time: only the first redemption flips used_at
+        const [result] = await tx
+          .update(passwordResetTokens)
+          .set({ usedAt: now })
+          .where(and(eq(passwordResetTokens.id, resetToken.id), isNull(passwordResetTokens.usedAt)));
+
+        if (!result?.affectedRows) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Reset code is invalid or has expired" });
+        }
+
+        await tx
+          .update(users)
+          .set({ passwordHash, updatedAt: now })
+          .where(eq(users.id, resetToken.userId));
+
+        await revokeUserSessions(tx, resetToken.userId, "password_reset");
+      });
+
+      console.log(`[Auth] Password reset for ${resetToken.userId}`);
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Refresh session
+   * Exchanges a refresh token (body for native, cookie for web) for a new
+   * access token. The refresh token is rotated on every use.
+   */
+  refresh: publicProcedure
+    .input(
+      z
+        .object({
+          refreshToken: z.string().min(1).optional(),
+        })
+        .optional()
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      const refreshToken = input?.refreshToken ?? readRefreshToken(ctx.req);
+      if (!refreshToken) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Refresh token required" });
+      }
+
+      const refreshed = await refreshSession(db, refreshToken, ctx.req.ip ?? null);
+      if (!refreshed) {
+        clearSessionCookies(ctx.req, ctx.res);
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Session expired. Please log in again." });
+      }
+
+      return toAuthSession(ctx, refreshed.user, refreshed.issued);
+    }),
+
+  /**
+   * Get current user
+   * Returns null when the request carries no valid session
    */
   me: publicProcedure.query(async (opts) => {
     if (!opts.ctx.user) return null;
+    return toAuthUser(opts.ctx.user);
+  }),
+
+  /**
+   * Logout
+   * Revokes the current session server-side and clears session cookies
+   */
+  logout: publicProcedure.mutation(async ({ ctx }) => {
+    if (ctx.session) {
+      const db = (await getDb()) as any;
+      if (db) {
+        await revokeSession(db, ctx.session.sessionId, "logout");
+      }
+    }
+
+    clearSessionCookies(ctx.req, ctx.res);
+    return { success: true } as const;
+  }),
+
+  /**
+   * List signed-in devices for the current user
+   */
+  listSessions: protectedProcedure.query(async ({ ctx }) => {
     const db = (await getDb()) as any;
-    if (!db) return null;
-    try {
-      const dbUser = await db.query.users.findFirst({
-        where: eq(users.id, opts.ctx.user.id),
-      });
-      if (!dbUser || !dbUser.isActive) return null;
-      return {
-        id: dbUser.id,
-        email: dbUser.email,
-        firstName: dbUser.firstName,
-        lastName: dbUser.lastName,
-        role: dbUser.role,
-        businessId: dbUser.businessId,
-        isActive: dbUser.isActive,
-        createdAt: dbUser.createdAt,
-        updatedAt: dbUser.updatedAt,
-      } as AuthUser;
-    } catch (error) {
-      console.error("[Auth.me] Error:", error);
-      return null;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
     }
+
+    return listUserSessions(db, ctx.user.id, ctx.session?.sessionId ?? null);
   }),
 
   /**
-   * Logout (already exists in routers.ts)
-   * Kept here for reference
+   * Sign out one of the current user's devices
+   * Revoking the current session also clears its cookies.
    */
-  logout: publicProcedure.mutation(({ ctx }) => {
-    // Logout is handled by clearing the session cookie in routers.ts
+  revokeSession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const sessions = await listUserSessions(db, ctx.user.id);
+      if (!sessions.some((session) => session.sessionId === input.sessionId)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+      }
+
+      await revokeSession(db, input.sessionId, "revoked_by_user");
+
+      if (input.sessionId === ctx.session?.sessionId) {
+        clearSessionCookies(ctx.req, ctx.res);
+      }
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Sign out every device except this one
+   */
+  revokeOtherSessions: protectedProcedure.mutation(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    await revokeUserSessions(db, ctx.user.id, "revoked_by_user", ctx.session?.sessionId);
     return { success: true } as const;
   }),
 });
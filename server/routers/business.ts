@@ -1,11 +1,12 @@
-import { router, publicProcedure } from "@/server/_core/trpc";
+import { router, publicProcedure, authorizedProcedure } from "@/server/_core/trpc";
 import { z } from "zod";
 import { eq } from "drizzle-orm";
 import { getDb } from "@/server/db";
-import { businesses } from "@/server/db/schema";
+import { businesses } from "@/drizzle/schema";
+import { DEFAULT_RELEASE_CUTOFF_HOURS } from "@/server/jobs/release";
 
 /**
- * Business router - public endpoints for business status checks
+ * Business router - business status checks and job settings
  */
 export const businessRouter = router({
   /**
@@ -43,4 +44,57 @@ export const businessRouter = router({
         reason: business.suspensionReason || null,
       };
     }),
+
+  /**
+   * Job settings for the caller's business
+   */
+  getJobSettings: authorizedProcedure("view", "business").query(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new Error("Database connection failed");
+    }
+
+    const business = await db.query.businesses.findFirst({
+      where: eq(businesses.id, ctx.user.businessId),
+      columns: { accessDeniedTripFee: true, jobReleaseCutoffHours: true },
+    });
+
+    return {
+      accessDeniedTripFee: business?.accessDeniedTripFee ? Number(business.accessDeniedTripFee) : null,
+      jobReleaseCutoffHours: business?.jobReleaseCutoffHours ?? DEFAULT_RELEASE_CUTOFF_HOURS,
+    };
+  }),
+
+  /**
+   * Update job settings (super manager only)
+   * accessDeniedTripFee: paid to a cleaner turned away at the door (null = none)
+   * jobReleaseCutoffHours: releases closer to the cleaning than this need manager approval
+   * Omitted settings are left unchanged.
+   */
+  updateJobSettings: authorizedProcedure("update", "business")
+    .input(
+      z.object({
+        accessDeniedTripFee: z.number().min(0).max(10000).nullable().optional(),
+        jobReleaseCutoffHours: z.number().int().min(0).max(168).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new Error("Database connection failed");
+      }
+
+      await db
+        .update(businesses)
+        .set({
+          ...(input.accessDeniedTripFee !== undefined && {
+            accessDeniedTripFee: input.accessDeniedTripFee ? input.accessDeniedTripFee.toString() : null,
+          }),
+          ...(input.jobReleaseCutoffHours !== undefined && { jobReleaseCutoffHours: input.jobReleaseCutoffHours }),
+          updatedAt: new Date(),
+        })
+        .where(eq(businesses.id, ctx.user.businessId));
+
+      return { success: true, ...input };
+    }),
 });
@@ -0,0 +1,73 @@
+/**
+ * Job Chat Router
+ *
+ * The message thread of one job, between its assigned cleaner and the
+ * business's managers (see server/notifications/job-chat.ts):
+ * - Thread (oldest first) with its lock state
+ * - Send (rejected once the job is completed or cancelled)
+ * - Mark the other side's messages read
+ * - Unread counts per job (badges)
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { authorizedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { MAX_CHAT_MESSAGE_LENGTH, getJobChatService } from "../notifications/job-chat";
+
+async function requireDb(): Promise<any> {
+  const db = (await getDb()) as any;
+  if (!db) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  }
+  return db;
+}
+
+export const chatRouter = router({
+  /**
+   * Messages in a job's thread, oldest first
+   */
+  thread: authorizedProcedure("view", "job_chat")
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const db = await requireDb();
+      return getJobChatService().getChatThread(db, ctx.user, input.jobId);
+    }),
+
+  /**
+   * Send a message and notify the other participant
+   */
+  send: authorizedProcedure("create", "job_chat")
+    .input(
+      z.object({
+        jobId: z.string(),
+        message: z.string().trim().min(1, "Message cannot be empty").max(MAX_CHAT_MESSAGE_LENGTH),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      return getJobChatService().sendMessage(db, ctx.user, input.jobId, input.message);
+    }),
+
+  /**
+   * Mark the other side's messages in a job read (the cleaner's, for managers)
+   */
+  markRead: authorizedProcedure("view", "job_chat")
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      const updated = await getJobChatService().markMessagesAsRead(db, ctx.user, input.jobId);
+      return { success: true, updated };
+    }),
+
+  /**
+   * Unread messages per job (jobs without any are left out)
+   * Pass jobIds to count only those jobs.
+   */
+  unreadCounts: authorizedProcedure("view", "job_chat")
+    .input(z.object({ jobIds: z.array(z.string()).max(100).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const db = await requireDb();
+      return getJobChatService().getUnreadCounts(db, ctx.user, input?.jobIds);
+    }),
+});
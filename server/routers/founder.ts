@@ -17,7 +17,7 @@
 import { z } from "zod";
 import { count, eq } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
-import { protectedProcedure, router } from "../_core/trpc";
+import { authorizedProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
 import { users, businesses } from "../../drizzle/schema";
 
@@ -52,18 +52,10 @@ export const founderRouter = router({
    * - totalUsers: count of all users
    * - governanceReady: whether governance framework is initialized
    *
-   * Permission: super_manager only
+   * Permission: view system_metrics (founders and super managers)
    * Returns: Aggregate counts (no details, no filtering)
    */
-  getMetrics: protectedProcedure.query(async (opts) => {
-    // Permission check: super_manager only
-    if (opts.ctx.user?.role !== "super_manager") {
-      throw new TRPCError({
-        code: "FORBIDDEN",
-        message: "Only founders can access system metrics",
-      });
-    }
-
+  getMetrics: authorizedProcedure("view", "system_metrics", "global").query(async (opts) => {
     const db = await getDb();
     if (!db) {
       throw new TRPCError({
@@ -104,18 +96,10 @@ export const founderRouter = router({
    * Get legal acceptance records (observational log only)
    * Returns a list of governance-related acceptance events.
    *
-   * Permission: super_manager only
+   * Permission: view legal_record (founders and super managers)
    * Returns: Legal acceptance log (read-only, non-authoritative)
    */
-  getLegalRecords: protectedProcedure.query(async (opts) => {
-    // Permission check: super_manager only
-    if (opts.ctx.user?.role !== "super_manager") {
-      throw new TRPCError({
-        code: "FORBIDDEN",
-        message: "Only founders can access legal records",
-      });
-    }
-
+  getLegalRecords: authorizedProcedure("view", "legal_record", "global").query(async (opts) => {
     // Return hardcoded legal records (system-level governance log)
     // These are observational records, not enforcement mechanisms
     const records: LegalRecord[] = [
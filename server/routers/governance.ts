@@ -1,72 +1,29 @@
-import { router, publicProcedure } from "@/server/_core/trpc";
+import { router, authorizedProcedure } from "@/server/_core/trpc";
 import { z } from "zod";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { getDb } from "@/server/db";
-import { businesses, auditLog, users } from "@/server/db/schema";
+import { recordAuditEntry } from "@/server/audit/log";
+import { businesses, auditLog } from "@/drizzle/schema";
 
 /**
  * Founder-only governance router
  * Controls business activation, suspension, and audit logging
- * All actions are immutable and logged
+ * All actions are immutable and logged (see server/audit/log.ts)
+ * Every procedure spans all businesses, so each requires a global grant.
  */
 
-/**
- * Founder procedure - only allows users with founder role
- */
-const founderProcedure = publicProcedure.use(async (opts) => {
-  const user = opts.ctx.user;
-
-  if (!user || (user.role as string) !== "founder") {
-    throw new Error("Founder access required");
-  }
-
-  return opts.next({
-    ctx: {
-      ...opts.ctx,
-      founder: user,
-    },
-  });
-});
-
-/**
- * Log a governance action to the immutable audit log
- */
-async function logGovernanceAction(
-  db: any,
-  founderId: string,
-  action: string,
-  targetType: string,
-  targetId: string,
-  details: Record<string, any>
-) {
-  const auditId = `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-  await db.insert(auditLog).values({
-    id: auditId,
-    founderId,
-    action,
-    targetType,
-    targetId,
-    details,
-    createdAt: new Date(),
-  });
-
-  return auditId;
-}
-
 export const governanceRouter = router({
   /**
    * Get all businesses (founder view)
    * Shows pending, active, and suspended businesses
    */
-  getBusinesses: founderProcedure.query(async ({ ctx }) => {
+  getBusinesses: authorizedProcedure("view", "business", "global").query(async () => {
     const db = (await getDb()) as any;
     if (!db) {
       throw new Error("Database connection failed");
     }
 
     const allBusinesses = await db.query.businesses.findMany({
-      where: eq(businesses.founderId, ctx.founder.id),
       orderBy: (table: any) => table.createdAt,
     });
 
@@ -87,7 +44,7 @@ export const governanceRouter = router({
    * Only founder can activate
    * Action is logged immutably
    */
-  activateBusiness: founderProcedure
+  activateBusiness: authorizedProcedure("manage", "business", "global")
     .input(
       z.object({
         businessId: z.string(),
@@ -101,12 +58,9 @@ export const governanceRouter = router({
 
       const { businessId } = input;
 
-      // Verify business exists and belongs to this founder
+      // Verify business exists
       const business = await db.query.businesses.findFirst({
-        where: and(
-          eq(businesses.id, businessId),
-          eq(businesses.founderId, ctx.founder.id)
-        ),
+        where: eq(businesses.id, businessId),
       });
 
       if (!business) {
@@ -128,19 +82,19 @@ export const governanceRouter = router({
         .where(eq(businesses.id, businessId));
 
       // Log action immutably
-      await logGovernanceAction(
-        db,
-        ctx.founder.id,
-        "business_activated",
-        "business",
+      await recordAuditEntry(db, {
+        actorId: ctx.user.id,
         businessId,
-        {
+        action: "business_activated",
+        targetType: "business",
+        targetId: businessId,
+        details: {
           businessName: business.name,
           previousStatus: "pending",
           newStatus: "active",
-          activatedBy: ctx.founder.email,
-        }
-      );
+          activatedBy: ctx.user.email,
+        },
+      });
 
       return {
         success: true,
@@ -156,7 +110,7 @@ export const governanceRouter = router({
    * Requires suspension reason
    * Action is logged immutably
    */
-  suspendBusiness: founderProcedure
+  suspendBusiness: authorizedProcedure("manage", "business", "global")
     .input(
       z.object({
         businessId: z.string(),
@@ -171,12 +125,9 @@ export const governanceRouter = router({
 
       const { businessId, reason } = input;
 
-      // Verify business exists and belongs to this founder
+      // Verify business exists
       const business = await db.query.businesses.findFirst({
-        where: and(
-          eq(businesses.id, businessId),
-          eq(businesses.founderId, ctx.founder.id)
-        ),
+        where: eq(businesses.id, businessId),
       });
 
       if (!business) {
@@ -199,20 +150,20 @@ export const governanceRouter = router({
         .where(eq(businesses.id, businessId));
 
       // Log action immutably
-      await logGovernanceAction(
-        db,
-        ctx.founder.id,
-        "business_suspended",
-        "business",
+      await recordAuditEntry(db, {
+        actorId: ctx.user.id,
         businessId,
-        {
+        action: "business_suspended",
+        targetType: "business",
+        targetId: businessId,
+        details: {
           businessName: business.name,
           previousStatus: business.status,
           newStatus: "suspended",
           suspensionReason: reason,
-          suspendedBy: ctx.founder.email,
-        }
-      );
+          suspendedBy: ctx.user.email,
+        },
+      });
 
       return {
         success: true,
@@ -226,13 +177,13 @@ export const governanceRouter = router({
    * Shows all governance actions taken on this business
    * Founder-only access
    */
-  getBusinessAuditLog: founderProcedure
+  getBusinessAuditLog: authorizedProcedure("view", "audit_log", "global")
     .input(
       z.object({
         businessId: z.string(),
       })
     )
-    .query(async ({ input, ctx }) => {
+    .query(async ({ input }) => {
       const db = (await getDb()) as any;
       if (!db) {
         throw new Error("Database connection failed");
@@ -240,12 +191,9 @@ export const governanceRouter = router({
 
       const { businessId } = input;
 
-      // Verify business belongs to this founder
+      // Verify business exists
       const business = await db.query.businesses.findFirst({
-        where: and(
-          eq(businesses.id, businessId),
-          eq(businesses.founderId, ctx.founder.id)
-        ),
+        where: eq(businesses.id, businessId),
       });
 
       if (!business) {
@@ -254,10 +202,7 @@ export const governanceRouter = router({
 
       // Get all audit log entries for this business
       const logs = await db.query.auditLog.findMany({
-        where: and(
-          eq(auditLog.targetId, businessId),
-          eq(auditLog.founderId, ctx.founder.id)
-        ),
+        where: eq(auditLog.businessId, businessId),
         orderBy: (table: any) => table.createdAt,
       });
 
@@ -272,21 +217,21 @@ export const governanceRouter = router({
   /**
    * Get all audit logs (founder view)
    * Shows all governance actions across all businesses
-   * Immutable record of all founder actions
    */
-  getAllAuditLogs: founderProcedure.query(async ({ ctx }) => {
+  getAllAuditLogs: authorizedProcedure("view", "audit_log", "global").query(async () => {
     const db = (await getDb()) as any;
     if (!db) {
       throw new Error("Database connection failed");
     }
 
     const logs = await db.query.auditLog.findMany({
-      where: eq(auditLog.founderId, ctx.founder.id),
       orderBy: (table: any) => table.createdAt,
     });
 
     return logs.map((log: any) => ({
       id: log.id,
+      actorId: log.actorId,
+      businessId: log.businessId,
       action: log.action,
       targetType: log.targetType,
       targetId: log.targetId,
@@ -19,7 +19,8 @@
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { protectedProcedure, managerProcedure, router } from "../_core/trpc";
+import { apiKeyProcedure, authorizedProcedure, router } from "../_core/trpc";
+import { hasApiKeyScopes, type ApiKeyScope } from "../auth/api-keys";
 
 // ============================================================================
 // TYPES
@@ -49,6 +50,13 @@ export interface IntegrationConfig {
 // Global OFF switch — all integrations disabled until explicitly approved
 const INTEGRATIONS_ENABLED = process.env.INTEGRATIONS_ENABLED === "true" ? true : false;
 
+// Scope an API key needs for each export type
+const EXPORT_SCOPES: Record<"jobs" | "invoices" | "cleaners", ApiKeyScope> = {
+  jobs: "jobs:read",
+  invoices: "invoices:read",
+  cleaners: "cleaners:read",
+};
+
 // ============================================================================
 // ROUTER
 // ============================================================================
@@ -58,10 +66,10 @@ export const integrationsRouter = router({
    * Get integration status (read-only, observational)
    * Shows all available integrations and their current status.
    *
-   * Permission: manager and above
+   * Permission: view integration (managers and super managers)
    * Returns: List of integration statuses (disabled by default)
    */
-  getStatus: managerProcedure.query(async (opts) => {
+  getStatus: authorizedProcedure("view", "integration").query(async (opts) => {
     // Global OFF switch check
     if (!INTEGRATIONS_ENABLED) {
       return {
@@ -101,10 +109,10 @@ export const integrationsRouter = router({
    * Get integration configuration (read-only)
    * Shows configuration for a specific integration.
    *
-   * Permission: manager and above
+   * Permission: view integration (managers and super managers)
    * Returns: Integration configuration (disabled by default)
    */
-  getConfig: managerProcedure
+  getConfig: authorizedProcedure("view", "integration")
     .input(z.object({ integrationId: z.string() }))
     .query(async (opts) => {
       // Global OFF switch check
@@ -127,10 +135,10 @@ export const integrationsRouter = router({
    * This endpoint would accept job data from external PMS systems.
    * Currently disabled and returns error.
    *
-   * Permission: Requires API key authentication (not implemented)
+   * Permission: API key with jobs:write
    * Returns: Error (disabled)
    */
-  createJobFromExternalPMS: protectedProcedure
+  createJobFromExternalPMS: apiKeyProcedure("jobs:write")
     .input(
       z.object({
         externalBookingId: z.string(),
@@ -161,10 +169,10 @@ export const integrationsRouter = router({
    * This endpoint would export job/invoice data to external systems.
    * Currently disabled and returns error.
    *
-   * Permission: Requires API key authentication (not implemented)
+   * Permission: API key with the read scope for the requested data type
    * Returns: Error (disabled)
    */
-  exportDataToExternalSystem: protectedProcedure
+  exportDataToExternalSystem: apiKeyProcedure()
     .input(
       z.object({
         dataType: z.enum(["jobs", "invoices", "cleaners"]),
@@ -172,7 +180,15 @@ export const integrationsRouter = router({
         integrationId: z.string(),
       })
     )
-    .mutation(async (opts) => {
+    .mutation(async ({ ctx, input }) => {
+      const requiredScope = EXPORT_SCOPES[input.dataType];
+      if (!hasApiKeyScopes(ctx.apiKey.scopes, [requiredScope])) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `API key is missing required scope: ${requiredScope}`,
+        });
+      }
+
       // Global OFF switch check
       if (!INTEGRATIONS_ENABLED) {
         throw new TRPCError({
@@ -192,10 +208,10 @@ export const integrationsRouter = router({
    * Get global integration status (read-only)
    * Shows whether integrations framework is enabled or disabled.
    *
-   * Permission: manager and above
+   * Permission: view integration (managers and super managers)
    * Returns: Global status and governance message
    */
-  getGlobalStatus: managerProcedure.query(async (opts) => {
+  getGlobalStatus: authorizedProcedure("view", "integration").query(async (opts) => {
     return {
       isEnabled: INTEGRATIONS_ENABLED,
       message: INTEGRATIONS_ENABLED
@@ -0,0 +1,340 @@
+/**
+ * Invitations Router
+ *
+ * Manager-issued invitations into the manager's own business.
+ * All manager procedures are scoped to ctx.user.businessId.
+ *
+ * create/resend email the invite token to the invitee and also return it once
+ * so the manager can share it directly; the invitee redeems it via
+ * auth.acceptInvite.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { authorizedProcedure, publicProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { businesses, userInvitations, users } from "../../drizzle/schema";
+import type { UserInvitation } from "../../drizzle/schema";
+import {
+  INVITE_TTL_MS,
+  canInviteRole,
+  generateInvitationId,
+  generateInviteToken,
+  getInvitationStatus,
+  hashInviteToken,
+  type InvitationStatus,
+} from "../auth/invitations";
+import { sendMail } from "../mail/transport";
+import { buildInvitationEmail } from "../mail/templates";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface InvitationSummary {
+  id: string;
+  email: string;
+  role: UserInvitation["role"];
+  payType: UserInvitation["payType"];
+  status: InvitationStatus;
+  invitedByUserId: string;
+  expiresAt: Date;
+  sendCount: number;
+  lastSentAt: Date;
+  acceptedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toInvitationSummary(invitation: UserInvitation, now: Date = new Date()): InvitationSummary {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    payType: invitation.payType,
+    status: getInvitationStatus(invitation, now),
+    invitedByUserId: invitation.invitedByUserId,
+    expiresAt: invitation.expiresAt,
+    sendCount: invitation.sendCount,
+    lastSentAt: invitation.lastSentAt,
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+/**
+ * Load an invitation belonging to the caller's business
+ */
+async function getBusinessInvitation(db: any, businessId: string, invitationId: string): Promise<UserInvitation> {
+  const [invitation] = (await db
+    .select()
+    .from(userInvitations)
+    .where(and(eq(userInvitations.id, invitationId), eq(userInvitations.businessId, businessId)))
+    .limit(1)) as UserInvitation[];
+
+  if (!invitation) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+  }
+
+  return invitation;
+}
+
+/**
+ * Email the invite token (best-effort: the manager also receives the token)
+ */
+async function sendInvitationEmail(
+  invitation: Pick<UserInvitation, "id" | "email" | "role" | "expiresAt">,
+  businessName: string | null,
+  token: string
+): Promise<void> {
+  try {
+    await sendMail(
+      buildInvitationEmail({
+        to: invitation.email,
+        businessName,
+        role: invitation.role,
+        token,
+        expiresAt: invitation.expiresAt,
+      })
+    );
+  } catch (error) {
+    console.error(`[Invitations] Failed to email invitation ${invitation.id}:`, error);
+  }
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+export const invitationsRouter = router({
+  /**
+   * Create invitation
+   * Managers invite cleaners; super managers invite managers or cleaners.
+   */
+  create: authorizedProcedure("create", "invitation")
+    .input(
+      z.object({
+        email: z.string().email(),
+        role: z.enum(["manager", "cleaner"]).default("cleaner"),
+        payType: z.enum(["hourly", "per_job"]).default("per_job"),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      if (!canInviteRole(ctx.user.role, input.role)) {
+        throw new TRPCError({ code: "FORBIDDEN", message: `You cannot invite a ${input.role}` });
+      }
+
+      const email = input.email.trim().toLowerCase();
+
+      // Login is by email, so an email may only belong to one account
+      const [existingUser] = await db.select({ id: users.id }).from(users).where(eq(users.email, email)).limit(1);
+      if (existingUser) {
+        throw new TRPCError({ code: "CONFLICT", message: "This email already has an account" });
+      }
+
+      const now = new Date();
+      const pendingInvitations = (await db
+        .select()
+        .from(userInvitations)
+        .where(and(eq(userInvitations.businessId, ctx.user.businessId), eq(userInvitations.email, email)))) as UserInvitation[];
+
+      if (pendingInvitations.some((invitation) => getInvitationStatus(invitation, now) === "pending")) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "An invitation is already pending for this email. Resend it instead.",
+        });
+      }
+
+      const inviteToken = generateInviteToken();
+      const invitation: UserInvitation = {
+        id: generateInvitationId(),
+        businessId: ctx.user.businessId,
+        email,
+        role: input.role,
+        payType: input.payType,
+        tokenHash: hashInviteToken(inviteToken),
+        invitedByUserId: ctx.user.id,
+        expiresAt: new Date(now.getTime() + INVITE_TTL_MS),
+        sendCount: 1,
+        lastSentAt: now,
+        acceptedAt: null,
+        acceptedUserId: null,
+        revokedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await db.insert(userInvitations).values(invitation);
+      await sendInvitationEmail(invitation, ctx.business?.name ?? null, inviteToken);
+
+      console.log(`[Invitations] ${ctx.user.id} invited ${email} as ${input.role} to ${ctx.user.businessId}`);
+
+      return {
+        invitation: toInvitationSummary(invitation, now),
+        inviteToken,
+      };
+    }),
+
+  /**
+   * List invitations for the caller's business (newest first)
+   */
+  list: authorizedProcedure("view", "invitation", "business")
+    .input(
+      z
+        .object({
+          status: z.enum(["pending", "accepted", "revoked", "expired"]).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const rows = (await db
+        .select()
+        .from(userInvitations)
+        .where(eq(userInvitations.businessId, ctx.user.businessId))
+        .orderBy(desc(userInvitations.createdAt))) as UserInvitation[];
+
+      const now = new Date();
+      const summaries = rows.map((invitation) => toInvitationSummary(invitation, now));
+
+      return input?.status ? summaries.filter((invitation) => invitation.status === input.status) : summaries;
+    }),
+
+  /**
+   * Resend invitation
+   * Issues a fresh token and expiry; the previous token stops working.
+   * Also re-opens expired invitations.
+   */
+  resend: authorizedProcedure("manage", "invitation")
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const invitation = await getBusinessInvitation(db, ctx.user.businessId, input.invitationId);
+      const status = getInvitationStatus(invitation);
+
+      if (status === "accepted" || status === "revoked") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Cannot resend a ${status} invitation` });
+      }
+
+      if (!canInviteRole(ctx.user.role, invitation.role as "manager" | "cleaner")) {
+        throw new TRPCError({ code: "FORBIDDEN", message: `You cannot invite a ${invitation.role}` });
+      }
+
+      const now = new Date();
+      const inviteToken = generateInviteToken();
+      const expiresAt = new Date(now.getTime() + INVITE_TTL_MS);
+
+      await db
+        .update(userInvitations)
+        .set({
+          tokenHash: hashInviteToken(inviteToken),
+          expiresAt,
+          sendCount: sql`${userInvitations.sendCount} + 1`,
+          lastSentAt: now,
+          updatedAt: now,
+        })
+        .where(eq(userInvitations.id, invitation.id));
+
+      await sendInvitationEmail({ ...invitation, expiresAt }, ctx.business?.name ?? null, inviteToken);
+
+      console.log(`[Invitations] ${ctx.user.id} resent invitation ${invitation.id}`);
+
+      return {
+        invitation: toInvitationSummary(
+          { ...invitation, expiresAt, sendCount: invitation.sendCount + 1, lastSentAt: now },
+          now
+        ),
+        inviteToken,
+      };
+    }),
+
+  /**
+   * Revoke invitation
+   * Pending or expired invitations only; accepted invitations are history.
+   */
+  revoke: authorizedProcedure("manage", "invitation")
+    .input(z.object({ invitationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const invitation = await getBusinessInvitation(db, ctx.user.businessId, input.invitationId);
+      const status = getInvitationStatus(invitation);
+
+      if (status === "accepted") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invitation was already accepted" });
+      }
+      if (status === "revoked") {
+        return { success: true } as const;
+      }
+
+      const now = new Date();
+      await db
+        .update(userInvitations)
+        .set({ revokedAt: now, updatedAt: now })
+        .where(eq(userInvitations.id, invitation.id));
+
+      console.log(`[Invitations] ${ctx.user.id} revoked invitation ${invitation.id}`);
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Preview invitation (public)
+   * Lets the invite screen show who is inviting before a password is set.
+   */
+  preview: publicProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const [invitation] = (await db
+        .select()
+        .from(userInvitations)
+        .where(eq(userInvitations.tokenHash, hashInviteToken(input.token)))
+        .limit(1)) as UserInvitation[];
+
+      if (!invitation || getInvitationStatus(invitation) !== "pending") {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation is invalid or has expired" });
+      }
+
+      const [business] = await db
+        .select({ name: businesses.name })
+        .from(businesses)
+        .where(eq(businesses.id, invitation.businessId))
+        .limit(1);
+
+      return {
+        email: invitation.email,
+        role: invitation.role,
+        businessName: business?.name ?? null,
+        expiresAt: invitation.expiresAt,
+      };
+    }),
+});
+
+export type InvitationsRouter = typeof invitationsRouter;
@@ -1,6 +1,11 @@
-import { router, publicProcedure } from "@/server/_core/trpc";
+import { router, authorizedProcedure } from "@/server/_core/trpc";
+import { assertPermission } from "@/server/auth/permissions";
 import { getDb } from "@/server/db";
-import { invoices, invoiceLineItems, cleaningJobs } from "@/drizzle/schema";
+import { forBusiness } from "@/server/tenancy/tenant-db";
+import { getAffectedRows } from "@/server/jobs/state-machine";
+import { getBusinessUsers } from "@/server/notifications/job-context";
+import { emitInvoiceSubmitted } from "@/server/notifications/job-events";
+import { invoices, invoiceLineItems } from "@/drizzle/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { z } from "zod";
 
@@ -9,18 +14,14 @@ export const invoicesRouter = router({
    * Get the current (open) invoice for the authenticated cleaner
    * Returns running tally with all line items
    */
-  getCurrent: publicProcedure.query(async ({ ctx }) => {
-    if (!ctx.user?.id) {
-      throw new Error("Unauthorized");
-    }
-
+  getCurrent: authorizedProcedure("view", "invoice").query(async ({ ctx }) => {
     const db = await getDb();
     if (!db) {
       throw new Error("Database unavailable");
     }
 
     // Get the current open invoice for this cleaner
-    const currentInvoice = await (db as any).query.invoices.findFirst({
+    const currentInvoice = await forBusiness(db, ctx.user.businessId).invoices.findFirst({
       where: and(
         eq(invoices.cleanerId, ctx.user.id),
         eq(invoices.status, "open")
@@ -60,17 +61,13 @@ export const invoicesRouter = router({
   /**
    * Get invoice history (submitted invoices only)
    */
-  getHistory: publicProcedure.query(async ({ ctx }) => {
-    if (!ctx.user?.id) {
-      throw new Error("Unauthorized");
-    }
-
+  getHistory: authorizedProcedure("view", "invoice").query(async ({ ctx }) => {
     const db = await getDb();
     if (!db) {
       throw new Error("Database unavailable");
     }
 
-    const submittedInvoices = await (db as any).query.invoices.findMany({
+    const submittedInvoices = await forBusiness(db, ctx.user.businessId).invoices.findMany({
       where: and(
         eq(invoices.cleanerId, ctx.user.id),
         eq(invoices.status, "submitted")
@@ -98,24 +95,22 @@ export const invoicesRouter = router({
    * Locks it from further edits
    * Returns submission confirmation
    */
-  submit: publicProcedure
+  submit: authorizedProcedure("submit", "invoice")
     .input(
       z.object({
         invoiceId: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      if (!ctx.user?.id) {
-        throw new Error("Unauthorized");
-      }
-
       const db = await getDb();
       if (!db) {
         throw new Error("Database unavailable");
       }
 
+      const tenant = forBusiness(db, ctx.user.businessId);
+
       // Get the invoice
-      const invoice = await (db as any).query.invoices.findFirst({
+      const invoice = await tenant.invoices.findFirst({
         where: eq(invoices.id, input.invoiceId),
       });
 
@@ -124,28 +119,64 @@ export const invoicesRouter = router({
       }
 
       // Verify ownership
-      if (invoice.cleanerId !== ctx.user.id) {
-        throw new Error("Unauthorized");
-      }
+      assertPermission(ctx.user, "submit", "invoice", {
+        businessId: invoice.businessId,
+        ownerId: invoice.cleanerId,
+      });
 
       // Verify it's open
       if (invoice.status !== "open") {
         throw new Error("Invoice is already submitted or closed");
       }
 
-      // Submit the invoice
-      await db
-        .update(invoices)
-        .set({
-          status: "submitted",
-          submittedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(invoices.id, input.invoiceId));
-
-      // Fetch updated invoice
-      const updated = await (db as any).query.invoices.findFirst({
-        where: eq(invoices.id, input.invoiceId),
+      const updated = await db.transaction(async (tx: any) => {
+        const txTenant = forBusiness(tx, ctx.user.businessId);
+
+        // Submit the invoice (only if still open, so a double tap submits once)
+        const submitted = await txTenant.invoices.update(
+          {
+            status: "submitted",
+            submittedAt: new Date(),
+            updatedAt: new Date(),
+          },
+          and(eq(invoices.id, input.invoiceId), eq(invoices.status, "open"))
+        );
+
+        if (getAffectedRows(submitted) === 0) {
+          throw new Error("Invoice is already submitted or closed");
+        }
+
+        // Fetch updated invoice
+        const updated = await txTenant.invoices.findFirst({
+          where: eq(invoices.id, input.invoiceId),
+        });
+
+        // Queue the managers' notice with the submission
+        const [jobLineItems, businessUsers] = await Promise.all([
+          txTenant.invoiceLineItems.findMany({
+            where: and(
+              eq(invoiceLineItems.invoiceId, invoice.id),
+              eq(invoiceLineItems.type, "job"),
+              eq(invoiceLineItems.isVoided, false)
+            ),
+            columns: { id: true },
+          }),
+          getBusinessUsers(tx, ctx.user.businessId),
+        ]);
+
+        await emitInvoiceSubmitted(
+          tx,
+          invoice.id,
+          invoice.businessId,
+          ctx.user,
+          Number(updated?.totalAmount ?? invoice.totalAmount),
+          jobLineItems.length,
+          invoice.periodStart,
+          invoice.periodEnd,
+          businessUsers
+        );
+
+        return updated;
       });
 
       return {
@@ -160,23 +191,19 @@ export const invoicesRouter = router({
   /**
    * Get invoice details (for viewing submitted invoices)
    */
-  getDetail: publicProcedure
+  getDetail: authorizedProcedure("view", "invoice")
     .input(
       z.object({
         invoiceId: z.string(),
       })
     )
     .query(async ({ ctx, input }) => {
-      if (!ctx.user?.id) {
-        throw new Error("Unauthorized");
-      }
-
       const db = await getDb();
       if (!db) {
         throw new Error("Database unavailable");
       }
 
-      const invoice = await (db as any).query.invoices.findFirst({
+      const invoice = await forBusiness(db, ctx.user.businessId).invoices.findFirst({
         where: eq(invoices.id, input.invoiceId),
         with: {
           lineItems: {
@@ -190,9 +217,10 @@ export const invoicesRouter = router({
       }
 
       // Verify ownership
-      if (invoice.cleanerId !== ctx.user.id) {
-        throw new Error("Unauthorized");
-      }
+      assertPermission(ctx.user, "view", "invoice", {
+        businessId: invoice.businessId,
+        ownerId: invoice.cleanerId,
+      });
 
       return {
         id: invoice.id,
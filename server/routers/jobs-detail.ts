@@ -1,8 +1,9 @@
-import { router, managerProcedure, protectedProcedure } from "@/server/_core/trpc";
+import { router, authorizedProcedure } from "@/server/_core/trpc";
 import { z } from "zod";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { getDb } from "@/server/db";
-import { jobs } from "@/server/db/schema";
+import { forBusiness } from "@/server/tenancy/tenant-db";
+import { cleaningJobs } from "@/drizzle/schema";
 
 /**
  * Jobs Detail Router - Get individual job details
@@ -11,15 +12,15 @@ export const jobsDetailRouter = router({
   /**
    * Get job by ID for manager
    */
-  getByIdForManager: managerProcedure
+  getByIdForManager: authorizedProcedure("view", "job", "business")
     .input(z.object({ jobId: z.string() }))
     .query(async ({ input, ctx }: any) => {
       const db = (await getDb()) as any;
       if (!db) throw new Error("Database connection failed");
 
       const { jobId } = input;
-      const job = await db.query.jobs.findFirst({
-        where: and(eq(jobs.id, jobId), eq(jobs.companyId, ctx.user.companyId)),
+      const job = await forBusiness(db, ctx.user.businessId).jobs.findFirst({
+        where: eq(cleaningJobs.id, jobId),
         with: {
           property: true,
           assignedCleaner: true,
@@ -36,15 +37,15 @@ export const jobsDetailRouter = router({
   /**
    * Get job by ID for cleaner
    */
-  getByIdForCleaner: protectedProcedure
+  getByIdForCleaner: authorizedProcedure("view", "job")
     .input(z.object({ jobId: z.string() }))
     .query(async ({ input, ctx }: any) => {
       const db = (await getDb()) as any;
       if (!db) throw new Error("Database connection failed");
 
       const { jobId } = input;
-      const job = await db.query.jobs.findFirst({
-        where: and(eq(jobs.id, jobId), eq(jobs.companyId, ctx.user.companyId)),
+      const job = await forBusiness(db, ctx.user.businessId).jobs.findFirst({
+        where: eq(cleaningJobs.id, jobId),
         with: {
           property: true,
           assignedCleaner: true,
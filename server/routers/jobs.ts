@@ -4,7 +4,7 @@
  * Enforces:
  * - Atomic job acceptance (only one cleaner can accept)
  * - Atomic job completion (idempotent, single completion)
- * - Valid job status transitions only (available → accepted → in_progress → completed)
+ * - Valid job status transitions only (see server/jobs/state-machine.ts)
  * - Permission checks (cleaners can only access assigned/unassigned jobs in their business)
  * - Race condition prevention via database transactions
  *
@@ -12,27 +12,54 @@
  */
 
 import { z } from "zod";
-import { and, eq, inArray, or, isNull, type SQL } from "drizzle-orm";
+import { and, eq, inArray, or, isNull, sql, type SQL } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
-import { protectedProcedure, managerProcedure, router } from "../_core/trpc";
+import { authorizedProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
+import { forBusiness } from "../tenancy/tenant-db";
 import {
+  assertTransition,
+  getJobTimeline,
+  recordJobCreated,
+  transitionJob,
+  type JobStatus,
+} from "../jobs/state-machine";
+import { getAccessDeniedTripFee } from "../jobs/access-denied";
+import { getCancellationFee } from "../jobs/cancellation";
+import { CLEARED_RELEASE_REQUEST, requiresReleaseApproval } from "../jobs/release";
+import { addInvoiceLineItem, getOrCreateOpenInvoice, voidJobLineItems } from "../jobs/invoicing";
+import { assertPermission } from "../auth/permissions";
+import { notifyJobInTransaction } from "../notifications/job-context";
+import {
+  emitAccessDenied,
+  emitGPSMismatch,
+  emitJobAccepted,
+  emitJobAssigned,
+  emitJobAvailable,
+  emitJobCancelled,
+  emitJobCompleted,
+  emitJobReassigned,
+  emitJobReleased,
+  emitJobReleaseDecided,
+  emitJobReleaseRequested,
+  emitJobStarted,
+} from "../notifications/job-events";
+import {
+  ACCESS_DENIED_REASONS,
+  businesses,
   cleaningJobs,
   users,
   properties,
-  bookings,
   invoiceLineItems,
-  invoices,
+  media,
+  damageReports,
 } from "../../drizzle/schema";
+import type { User } from "../../drizzle/schema";
 import { validateGPSRadius, hasReasonablePrecision } from "../utils/gps-validation";
-import { media } from "../../drizzle/schema";
-import { randomUUID } from "crypto";
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type JobStatus = "available" | "accepted" | "in_progress" | "completed" | "needs_review";
-
 interface JobWithDetails {
   id: string;
   businessId: string;
@@ -74,25 +101,6 @@ interface JobWithDetails {
 // HELPERS
 // ============================================================================
 
-/**
- * Validate job status transition
- * Allowed: available → accepted → in_progress → completed
- */
-function validateTransition(currentStatus: JobStatus, newStatus: JobStatus): boolean {
-  const validTransitions: Record<JobStatus, JobStatus[]> = {
-    available: ["accepted"],
-    accepted: ["in_progress", "available"], // Can go back to available if reassigned
-    in_progress: ["completed", "needs_review"],
-    completed: [], // Terminal state
-    needs_review: ["completed", "available"], // Can be reset or completed
-  };
-
-  return validTransitions[currentStatus]?.includes(newStatus) ?? false;
-}
-
-// Suppress unused function warning
-void validateTransition;
-
 /**
  * Get job with property and booking details
  * Ensures cleaner only sees jobs assigned to them or unassigned in their business
@@ -103,16 +111,12 @@ async function getJobForCleaner(
   cleanerId: string,
   businessId: string
 ): Promise<JobWithDetails | null> {
-  const job = await db.query.cleaningJobs.findFirst({
-      where: and(
-        eq(cleaningJobs.id, jobId),
-        eq(cleaningJobs.businessId, businessId),
-        // Cleaner can see: jobs assigned to them OR unassigned jobs
-        or(
-          eq(cleaningJobs.assignedCleanerId, cleanerId),
-          isNull(cleaningJobs.assignedCleanerId)
-        )
-      ),
+  const job = await forBusiness(db, businessId).jobs.findFirst({
+    where: and(
+      eq(cleaningJobs.id, jobId),
+      // Cleaner can see: jobs assigned to them OR unassigned jobs
+      or(eq(cleaningJobs.assignedCleanerId, cleanerId), isNull(cleaningJobs.assignedCleanerId))
+    ),
     with: {
       property: {
         columns: {
@@ -145,8 +149,8 @@ async function getJobForManager(
   jobId: string,
   businessId: string
 ): Promise<JobWithDetails | null> {
-  const job = await db.query.cleaningJobs.findFirst({
-    where: and(eq(cleaningJobs.id, jobId), eq(cleaningJobs.businessId, businessId)),
+  const job = await forBusiness(db, businessId).jobs.findFirst({
+    where: eq(cleaningJobs.id, jobId),
     with: {
       property: {
         columns: {
@@ -171,6 +175,49 @@ async function getJobForManager(
   return job as JobWithDetails | null;
 }
 
+/**
+ * Hand an accepted job back to the pool and count it on the cleaner's record
+ * Run inside a transaction. Returns null when the job changed since it was
+ * read (caller throws CONFLICT)
+ */
+async function releaseJob(
+  tx: any,
+  params: {
+    businessId: string;
+    job: any;
+    cleanerId: string;
+    actorId: string;
+    reason: string;
+    details?: Record<string, unknown>;
+  }
+) {
+  const transition = await transitionJob(tx, {
+    businessId: params.businessId,
+    job: params.job,
+    event: "release",
+    actorId: params.actorId,
+    reason: params.reason,
+    details: { cleanerId: params.cleanerId, ...params.details },
+    changes: { assignedCleanerId: null, acceptedAt: null, accessDenied: false, ...CLEARED_RELEASE_REQUEST },
+  });
+
+  if (!transition) return null;
+
+  await tx
+    .update(users)
+    .set({ releaseCount: sql`${users.releaseCount} + 1` })
+    .where(and(eq(users.id, params.cleanerId), eq(users.businessId, params.businessId)));
+
+  return transition;
+}
+
+/**
+ * Recipients minus one user (e.g. don't offer a job back to the cleaner who dropped it)
+ */
+function withoutUser(businessUsers: User[], userId: string): User[] {
+  return businessUsers.filter((user) => user.id !== userId);
+}
+
 // ============================================================================
 // PROCEDURES
 // ============================================================================
@@ -180,7 +227,7 @@ export const jobsRouter = router({
    * List jobs for cleaner
    * Returns: unassigned jobs + jobs assigned to this cleaner
    */
-  listForCleaner: protectedProcedure.query(async ({ ctx }) => {
+  listForCleaner: authorizedProcedure("view", "job").query(async ({ ctx }) => {
     const db = await getDb() as any;
     if (!db) {
       throw new TRPCError({
@@ -188,21 +235,9 @@ export const jobsRouter = router({
         message: "Database unavailable",
       });
     }
-    if (ctx.user.role !== "cleaner") {
-      throw new TRPCError({
-        code: "FORBIDDEN",
-        message: "Only cleaners can list jobs",
-      });
-    }
 
-    const jobs = await db.query.cleaningJobs.findMany({
-      where: and(
-        eq(cleaningJobs.businessId, ctx.user.businessId),
-        or(
-          eq(cleaningJobs.assignedCleanerId, ctx.user.id),
-          isNull(cleaningJobs.assignedCleanerId)
-        )
-      ),
+    const jobs = await forBusiness(db, ctx.user.businessId).jobs.findMany({
+      where: or(eq(cleaningJobs.assignedCleanerId, ctx.user.id), isNull(cleaningJobs.assignedCleanerId)),
       with: {
         property: {
           columns: {
@@ -232,7 +267,7 @@ export const jobsRouter = router({
    * Get job detail for cleaner
    * Permission: Only if assigned to cleaner or unassigned in their business
    */
-  getDetail: protectedProcedure
+  getDetail: authorizedProcedure("view", "job")
     .input(z.object({ jobId: z.string() }))
     .query(async ({ ctx, input }) => {
       const db = await getDb() as any;
@@ -242,12 +277,6 @@ export const jobsRouter = router({
           message: "Database unavailable",
         });
       }
-      if (ctx.user.role !== "cleaner") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only cleaners can view job details",
-        });
-      }
 
       const job = await getJobForCleaner(db, input.jobId, ctx.user.id, ctx.user.businessId);
 
@@ -266,7 +295,7 @@ export const jobsRouter = router({
    * Transition: available → accepted
    * Only one cleaner can accept (race condition prevented by transaction)
    */
-  accept: protectedProcedure
+  accept: authorizedProcedure("accept", "job")
     .input(z.object({ jobId: z.string() }))
     .mutation(async ({ ctx, input }) => {
       const db = await getDb() as any;
@@ -276,21 +305,14 @@ export const jobsRouter = router({
           message: "Database unavailable",
         });
       }
-      if (ctx.user.role !== "cleaner") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only cleaners can accept jobs",
-        });
-      }
 
       // Use transaction to prevent race condition
       const result = await db.transaction(async (tx: any) => {
+        const tenant = forBusiness(tx, ctx.user.businessId);
+
         // 1. Lock and read current job state
-        const job = await tx.query.cleaningJobs.findFirst({
-          where: and(
-            eq(cleaningJobs.id, input.jobId),
-            eq(cleaningJobs.businessId, ctx.user.businessId)
-          ),
+        const job = await tenant.jobs.findFirst({
+          where: eq(cleaningJobs.id, input.jobId),
         });
 
         if (!job) {
@@ -301,12 +323,7 @@ export const jobsRouter = router({
         }
 
         // 2. Validate state transition
-        if (job.status !== "available") {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `Job cannot be accepted from status '${job.status}'. Job must be available.`,
-          });
-        }
+        assertTransition(job.status, "accept");
 
         // 3. Validate no other cleaner has accepted
         if (job.assignedCleanerId && job.assignedCleanerId !== ctx.user.id) {
@@ -316,32 +333,30 @@ export const jobsRouter = router({
           });
         }
 
-        // 4. Update job atomically
-        const updated = await tx
-          .update(cleaningJobs)
-          .set({
-            status: "accepted",
-            assignedCleanerId: ctx.user.id,
-            acceptedAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(
-            and(
-              eq(cleaningJobs.id, input.jobId),
-              eq(cleaningJobs.status, "available") // Double-check status hasn't changed
-            )
-          );
+        // 4. Update job atomically (only if still available) and record the transition
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "accept",
+          actorId: ctx.user.id,
+          changes: { assignedCleanerId: ctx.user.id, acceptedAt: new Date() },
+        });
 
         // 5. Verify exactly one row was updated (prevents race condition)
-        if (updated.rowsAffected === 0) {
+        if (!transition) {
           throw new TRPCError({
             code: "CONFLICT",
             message: "Job was already accepted by another cleaner",
           });
         }
 
-        // 6. Return updated job
-        const updatedJob = await tx.query.cleaningJobs.findFirst({
+        // 6. Queue notifications with the acceptance
+        await notifyJobInTransaction(tx, ctx.user.businessId, input.jobId, (context) =>
+          emitJobAccepted(tx, context.job, ctx.user, context.property, context.businessUsers)
+        );
+
+        // 7. Return updated job
+        const updatedJob = await tenant.jobs.findFirst({
           where: eq(cleaningJobs.id, input.jobId),
         });
 
@@ -356,7 +371,7 @@ export const jobsRouter = router({
    * Transition: accepted → in_progress
    * Requires GPS validation (client-side for now, server-side GPS validation in separate task)
    */
-  start: protectedProcedure
+  start: authorizedProcedure("start", "job")
     .input(
       z.object({
         jobId: z.string(),
@@ -372,21 +387,13 @@ export const jobsRouter = router({
           message: "Database unavailable",
         });
       }
-      if (ctx.user.role !== "cleaner") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only cleaners can start jobs",
-        });
-      }
 
       const result = await db.transaction(async (tx: any) => {
+        const tenant = forBusiness(tx, ctx.user.businessId);
+
         // 1. Lock and read current job state
-        const job = await tx.query.cleaningJobs.findFirst({
-          where: and(
-            eq(cleaningJobs.id, input.jobId),
-            eq(cleaningJobs.businessId, ctx.user.businessId),
-            eq(cleaningJobs.assignedCleanerId, ctx.user.id)
-          ),
+        const job = await tenant.jobs.findFirst({
+          where: and(eq(cleaningJobs.id, input.jobId), eq(cleaningJobs.assignedCleanerId, ctx.user.id)),
         });
 
         if (!job) {
@@ -397,10 +404,12 @@ export const jobsRouter = router({
         }
 
         // 2. Validate state transition
-        if (job.status !== "accepted") {
+        assertTransition(job.status, "start");
+
+        if (job.accessDenied) {
           throw new TRPCError({
             code: "BAD_REQUEST",
-            message: `Job cannot be started from status '${job.status}'. Job must be accepted first.`,
+            message: "Access was reported denied for this job. A manager must reschedule or reopen it first.",
           });
         }
 
@@ -408,31 +417,32 @@ export const jobsRouter = router({
         // GPS validation happens only at completion
         // Start location may be noisy, so we don't enforce it
 
-        // 4. Update job atomically
-        const updated = await tx
-          .update(cleaningJobs)
-          .set({
-            status: "in_progress",
+        // 4. Update job atomically (only if still accepted) and record the transition
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "start",
+          actorId: ctx.user.id,
+          gps: { lat: input.gpsLat, lng: input.gpsLng },
+          changes: {
             startedAt: new Date(),
             gpsStartLat: input.gpsLat.toString(),
             gpsStartLng: input.gpsLng.toString(),
-            updatedAt: new Date(),
-          })
-          .where(
-            and(
-              eq(cleaningJobs.id, input.jobId),
-              eq(cleaningJobs.status, "accepted") // Double-check status hasn't changed
-            )
-          );
+          },
+        });
 
-        if (updated.rowsAffected === 0) {
+        if (!transition) {
           throw new TRPCError({
             code: "CONFLICT",
             message: "Job state changed before start could be processed",
           });
         }
 
-        const updatedJob = await tx.query.cleaningJobs.findFirst({
+        await notifyJobInTransaction(tx, ctx.user.businessId, input.jobId, (context) =>
+          emitJobStarted(tx, context.job, ctx.user, context.property, context.businessUsers)
+        );
+
+        const updatedJob = await tenant.jobs.findFirst({
           where: eq(cleaningJobs.id, input.jobId),
         });
 
@@ -448,7 +458,7 @@ export const jobsRouter = router({
    * Adds job to rolling invoice atomically
    * Idempotent: calling twice returns same result, doesn't duplicate invoice items
    */
-  complete: protectedProcedure
+  complete: authorizedProcedure("complete", "job")
     .input(
       z.object({
         jobId: z.string(),
@@ -464,21 +474,13 @@ export const jobsRouter = router({
           message: "Database unavailable",
         });
       }
-      if (ctx.user.role !== "cleaner") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only cleaners can complete jobs",
-        });
-      }
 
       const result = await db.transaction(async (tx: any) => {
+        const tenant = forBusiness(tx, ctx.user.businessId);
+
         // 1. Lock and read current job state
-        const job = await tx.query.cleaningJobs.findFirst({
-          where: and(
-            eq(cleaningJobs.id, input.jobId),
-            eq(cleaningJobs.businessId, ctx.user.businessId),
-            eq(cleaningJobs.assignedCleanerId, ctx.user.id)
-          ),
+        const job = await tenant.jobs.findFirst({
+          where: and(eq(cleaningJobs.id, input.jobId), eq(cleaningJobs.assignedCleanerId, ctx.user.id)),
         });
 
         if (!job) {
@@ -495,22 +497,19 @@ export const jobsRouter = router({
         }
 
         // 3. Validate state transition
-        if (job.status !== "in_progress") {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `Job cannot be completed from status '${job.status}'. Job must be in progress.`,
-          });
-        }
+        assertTransition(job.status, "complete");
 
         // 4. Check for photos and GPS conflicts (do NOT reject, just detect)
-        const jobPhotos = await tx.query.media.findMany({
+        const jobPhotos = await tenant.media.findMany({
           where: and(
             eq(media.jobId, input.jobId),
             eq(media.type, "photo")
           ),
         });
 
-        const hasPhotos = jobPhotos.length > 0;
+        // Proof of an earlier access-denied report does not count as completion evidence
+        const completionPhotos = jobPhotos.filter((photo: any) => photo.id !== job.accessDeniedPhotoId);
+        const hasPhotos = completionPhotos.length > 0;
         const conflicts: string[] = [];
 
         if (!hasPhotos) {
@@ -519,7 +518,7 @@ export const jobsRouter = router({
 
         // 5. Server-side GPS validation for completion
         // Get property coordinates for validation
-        const property = await tx.query.properties.findFirst({
+        const property = await tenant.properties.findFirst({
           where: eq(properties.id, job.propertyId),
           columns: {
             latitude: true,
@@ -529,6 +528,7 @@ export const jobsRouter = router({
 
         let gpsValid = false;
         let gpsError: string | null = null;
+        let gpsDistance: number | null = null; // Set when the cleaner was out of range
 
         if (!property || !property.latitude || !property.longitude) {
           gpsError = "Property coordinates not available";
@@ -550,6 +550,7 @@ export const jobsRouter = router({
 
             if (!gpsValidation.valid) {
               gpsError = gpsValidation.error || "GPS location is too far from property";
+              gpsDistance = gpsValidation.distance >= 0 ? Math.round(gpsValidation.distance) : null;
               conflicts.push("GPS_OUT_OF_RANGE");
             } else {
               gpsValid = true;
@@ -557,28 +558,27 @@ export const jobsRouter = router({
           }
         }
 
-        // 6. Determine final status based on conflicts
-        const finalStatus: JobStatus = conflicts.length === 0 ? "completed" : "needs_review";
-
-        // 7. Update job atomically with final status (completed or needs_review)
-        const updated = await tx
-          .update(cleaningJobs)
-          .set({
-            status: finalStatus,
+        // 6. Determine final status based on conflicts (completed or needs_review)
+        const completionEvent = conflicts.length === 0 ? "complete" : "flag_for_review";
+
+        // 7. Update job atomically (only if still in progress) and record the transition
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: completionEvent,
+          actorId: ctx.user.id,
+          reason: conflicts.length > 0 ? conflicts.join(", ") : null,
+          gps: { lat: input.gpsLat, lng: input.gpsLng },
+          details: conflicts.length > 0 ? { conflicts, gpsError } : undefined,
+          changes: {
             completedAt: new Date(),
             gpsEndLat: input.gpsLat.toString(),
             gpsEndLng: input.gpsLng.toString(),
-            updatedAt: new Date(),
-          })
-          .where(
-            and(
-              eq(cleaningJobs.id, input.jobId),
-              eq(cleaningJobs.status, "in_progress") // Double-check status hasn't changed
-            )
-          );
+          },
+        });
 
-        if (updated.rowsAffected === 0) {
-          const currentJob = await tx.query.cleaningJobs.findFirst({
+        if (!transition) {
+          const currentJob = await tenant.jobs.findFirst({
             where: eq(cleaningJobs.id, input.jobId),
           });
 
@@ -629,70 +629,64 @@ export const jobsRouter = router({
         }
 
         // Get or create open invoice for this cleaner
-        let invoice = await tx.query.invoices.findFirst({
-          where: and(
-            eq(invoices.cleanerId, ctx.user.id),
-            eq(invoices.status, "open")
-          ),
-        });
-
-        if (!invoice) {
-          // Create new open invoice
-          const newInvoiceId = `inv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          const now = new Date();
-          const invoiceData = {
-            id: newInvoiceId,
-            businessId: ctx.user.businessId,
-            cleanerId: ctx.user.id,
-            status: "open" as const,
-            invoiceCycle: "bi_weekly" as const, // Default cycle (TODO: use cleaner's preference)
-            payType: effectivePayType as "hourly" | "per_job", // Set pay type at invoice creation
-            periodStart: now,
-            periodEnd: new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000), // 2 weeks
-            totalAmount: lineItemAmount.toString(),
-            submittedAt: null,
-            approvedAt: null,
-            paidAt: null,
-            createdAt: now,
-            updatedAt: now,
-          };
-
-          const invoiceInsert = await tx.insert(invoices).values(invoiceData);
-          invoice = invoiceData;
-        }
+        const invoice = await getOrCreateOpenInvoice(
+          tenant,
+          ctx.user.id,
+          effectivePayType as "hourly" | "per_job"
+        );
 
         // Add line item to invoice (idempotent: check if already exists)
-        const existingLineItem = await tx.query.invoiceLineItems.findFirst({
+        const existingLineItem = await tenant.invoiceLineItems.findFirst({
           where: and(
             eq(invoiceLineItems.invoiceId, invoice.id),
-            eq(invoiceLineItems.jobId, input.jobId)
+            eq(invoiceLineItems.jobId, input.jobId),
+            eq(invoiceLineItems.type, "job"),
+            eq(invoiceLineItems.isVoided, false)
           ),
         });
 
         if (!existingLineItem) {
           // Add line item only if not already added
-          await tx.insert(invoiceLineItems).values({
-            id: `ili_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            invoiceId: invoice.id,
-            jobId: input.jobId,
-            price: lineItemAmount.toString(),
-            createdAt: new Date(),
+          await addInvoiceLineItem(tenant, invoice, { jobId: input.jobId, type: "job", amount: lineItemAmount });
+        }
+
+        // 9. Queue notifications with the completion (idempotent replays returned earlier, so never twice)
+        await notifyJobInTransaction(tx, ctx.user.businessId, input.jobId, async (context) => {
+          const damage = await tx.query.damageReports.findMany({
+            where: eq(damageReports.jobId, input.jobId),
+            columns: { id: true },
           });
 
-          // Update invoice total
-          await tx
-            .update(invoices)
-            .set({
-              totalAmount: (
-                parseFloat(invoice.totalAmount) + lineItemAmount
-              ).toString(),
-              updatedAt: new Date(),
-            })
-            .where(eq(invoices.id, invoice.id));
-        }
+          await emitJobCompleted(
+            tx,
+            context.job,
+            ctx.user,
+            context.property,
+            completionPhotos.length,
+            damage.length,
+            context.businessUsers
+          );
 
-        // 9. Return updated job with conflict details
-        const updatedJob = await tx.query.cleaningJobs.findFirst({
+          if (gpsDistance !== null && context.property.latitude && context.property.longitude) {
+            await emitGPSMismatch(
+              tx,
+              context.job,
+              ctx.user,
+              {
+                name: context.property.name,
+                latitude: Number(context.property.latitude),
+                longitude: Number(context.property.longitude),
+              },
+              input.gpsLat,
+              input.gpsLng,
+              gpsDistance,
+              context.businessUsers
+            );
+          }
+        });
+
+        // 10. Return updated job with conflict details
+        const updatedJob = await tenant.jobs.findFirst({
           where: eq(cleaningJobs.id, input.jobId),
         });
 
@@ -709,7 +703,7 @@ export const jobsRouter = router({
   /**
    * List jobs for manager (all jobs in business)
    */
-  listForManager: managerProcedure.query(async ({ ctx }) => {
+  listForManager: authorizedProcedure("view", "job", "business").query(async ({ ctx }) => {
     const db = await getDb() as any;
     if (!db) {
       throw new TRPCError({
@@ -718,8 +712,7 @@ export const jobsRouter = router({
       });
     }
     
-    const jobs = await db.query.cleaningJobs.findMany({
-      where: eq(cleaningJobs.businessId, ctx.user.businessId),
+    const jobs = await forBusiness(db, ctx.user.businessId).jobs.findMany({
       with: {
         property: {
           columns: {
@@ -751,7 +744,7 @@ export const jobsRouter = router({
   /**
    * Get job detail for manager (all jobs in business)
    */
-  getDetailForManager: managerProcedure
+  getDetailForManager: authorizedProcedure("view", "job", "business")
     .input(z.object({ jobId: z.string() }))
     .query(async ({ ctx, input }) => {
       const db = await getDb() as any;
@@ -778,7 +771,7 @@ export const jobsRouter = router({
    * Manager-only endpoint for manual job creation
    * No Guesty or external integrations
    */
-  create: managerProcedure
+  create: authorizedProcedure("create", "job")
     .input(
       z.object({
         propertyId: z.string(),
@@ -798,11 +791,10 @@ export const jobsRouter = router({
         });
       }
 
-      const property = await db.query.properties.findFirst({
-        where: and(
-          eq(properties.id, input.propertyId),
-          eq(properties.businessId, ctx.user.businessId)
-        ),
+      const tenant = forBusiness(db, ctx.user.businessId);
+
+      const property = await tenant.properties.findFirst({
+        where: eq(properties.id, input.propertyId),
       });
 
       if (!property) {
@@ -855,7 +847,27 @@ export const jobsRouter = router({
         updatedAt: now,
       };
 
-      await db.insert(cleaningJobs).values(newJob);
+      await db.transaction(async (tx: any) => {
+        await forBusiness(tx, ctx.user.businessId).jobs.insert(newJob);
+        await recordJobCreated(tx, {
+          businessId: ctx.user.businessId,
+          jobId,
+          status: newJob.status,
+          actorId: ctx.user.id,
+          details: newJob.assignedCleanerId ? { assignedCleanerId: newJob.assignedCleanerId } : undefined,
+        });
+
+        // Offer the job to every cleaner, or tell the pre-assigned one
+        await notifyJobInTransaction(tx, ctx.user.businessId, jobId, async (context) => {
+          const cleaner = context.businessUsers.find((user) => user.id === newJob.assignedCleanerId);
+
+          if (cleaner) {
+            await emitJobAssigned(tx, context.job, cleaner, context.property, context.businessUsers);
+          } else {
+            await emitJobAvailable(tx, context.job, context.property, context.businessUsers);
+          }
+        });
+      });
 
       return {
         id: jobId,
@@ -869,68 +881,762 @@ export const jobsRouter = router({
       };
     }),
 
-  reassign: managerProcedure
+  /**
+   * Reassign job to another cleaner in the business
+   * Not allowed once the job is in progress or completed
+   */
+  reassign: authorizedProcedure("assign", "job")
     .input(
       z.object({
         jobId: z.string(),
         newCleanerId: z.string(),
       })
     )
-    .mutation(async ({ input, ctx }: any) => {
-      const db = (await getDb()) as any;
-      if (!db) throw new Error("Database connection failed");
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
+      }
 
       const { jobId, newCleanerId } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      const job = await db.query.cleaningJobs.findFirst({
+      const job = await tenant.jobs.findFirst({
         where: eq(cleaningJobs.id, jobId),
       });
 
       if (!job) {
-        throw new Error("Job not found");
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
+      }
+
+      assertTransition(job.status, "reassign");
+
+      const newCleaner = await db.query.users.findFirst({
+        where: and(
+          eq(users.id, newCleanerId),
+          eq(users.businessId, ctx.user.businessId),
+          eq(users.role, "cleaner")
+        ),
+      });
+
+      if (!newCleaner) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Cleaner not found or does not belong to your business",
+        });
       }
 
-      if (job.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
+      const oldCleanerId = job.assignedCleanerId;
+
+      const transition = await db.transaction(async (tx: any) => {
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "reassign",
+          actorId: ctx.user.id,
+          changes: { assignedCleanerId: newCleanerId, ...CLEARED_RELEASE_REQUEST },
+          details: { oldCleanerId, newCleanerId },
+        });
+        if (!transition) return null;
+
+        await notifyJobInTransaction(tx, ctx.user.businessId, jobId, async (context) => {
+          const previousCleaner = context.businessUsers.find((user) => user.id === oldCleanerId);
+
+          if (previousCleaner) {
+            await emitJobReassigned(
+              tx,
+              context.job,
+              previousCleaner,
+              newCleaner,
+              context.property,
+              undefined,
+              context.businessUsers
+            );
+          } else {
+            await emitJobAssigned(tx, context.job, newCleaner, context.property, context.businessUsers);
+          }
+        });
+
+        return transition;
+      });
+
+      if (!transition) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Job state changed before reassignment could be processed",
+        });
       }
 
-      if (job.status === "in_progress" || job.status === "completed") {
-        throw new Error(`Cannot reassign job with status: ${job.status}`);
+      return {
+        success: true,
+        jobId,
+        oldCleanerId,
+        newCleanerId,
+      };
+    }),
+
+  /**
+   * Cancel a job (manager only, reason required)
+   * Transition: available | accepted | in_progress | needs_review → cancelled
+   * Voids any invoiced pay for the job and, depending on how far the job had
+   * got, pays the assigned cleaner a cancellation fee (see server/jobs/cancellation.ts)
+   */
+  cancel: authorizedProcedure("cancel", "job")
+    .input(
+      z.object({
+        jobId: z.string(),
+        reason: z.string().trim().min(1, "Cancellation reason is required"),
+        waiveFee: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
       }
 
-      const newCleaner = await db.query.users.findFirst({
-        where: eq(users.id, newCleanerId),
+      const tenant = forBusiness(db, ctx.user.businessId);
+
+      const job = await tenant.jobs.findFirst({
+        where: eq(cleaningJobs.id, input.jobId),
       });
 
-      if (!newCleaner) {
-        throw new Error("Cleaner not found");
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
       }
 
-      if ((newCleaner as any).companyId !== job.companyId) {
-        throw new Error("Cleaner not in your company");
+      assertTransition(job.status, "cancel");
+
+      const cancellationFee = input.waiveFee ? 0 : getCancellationFee(job);
+
+      const voidedLineItemIds = await db.transaction(async (tx: any) => {
+        const txTenant = forBusiness(tx, ctx.user.businessId);
+
+        // 1. Void pay already invoiced for the job (fails if the invoice was submitted)
+        const voided = await voidJobLineItems(tx, txTenant, {
+          jobId: job.id,
+          reason: `Job cancelled: ${input.reason}`,
+          voidedBy: ctx.user.id,
+        });
+
+        // 2. Cancel the job (only if unchanged since it was read) and record the transition
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "cancel",
+          actorId: ctx.user.id,
+          reason: input.reason,
+          details: {
+            cancellationFee,
+            feeWaived: !!input.waiveFee,
+            voidedLineItemIds: voided,
+          },
+          changes: {
+            cancelledAt: new Date(),
+            cancelledBy: ctx.user.id,
+            cancellationReason: input.reason,
+            cancellationFee: cancellationFee > 0 ? cancellationFee.toString() : null,
+          },
+        });
+
+        if (!transition) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Job state changed before cancellation could be processed",
+          });
+        }
+
+        // 3. Pay the cancellation fee on the cleaner's open invoice
+        if (cancellationFee > 0 && job.assignedCleanerId) {
+          const cleaner = await tx.query.users.findFirst({
+            where: and(eq(users.id, job.assignedCleanerId), eq(users.businessId, ctx.user.businessId)),
+            columns: { payType: true },
+          });
+
+          const invoice = await getOrCreateOpenInvoice(
+            txTenant,
+            job.assignedCleanerId,
+            job.payTypeOverride || cleaner?.payType || "per_job"
+          );
+          await addInvoiceLineItem(txTenant, invoice, {
+            jobId: job.id,
+            type: "cancellation_fee",
+            amount: cancellationFee,
+          });
+        }
+
+        // 4. Queue notifications with the cancellation
+        await notifyJobInTransaction(tx, ctx.user.businessId, job.id, (context) =>
+          emitJobCancelled(tx, context.job, context.property, input.reason, context.businessUsers)
+        );
+
+        return voided;
+      });
+
+      return {
+        success: true,
+        jobId: job.id,
+        status: "cancelled" as const,
+        cancellationFee,
+        voidedLineItemIds,
+      };
+    }),
+
+  /**
+   * Report that the cleaner could not get into the property
+   * The job stays accepted but cannot be started until a manager reschedules
+   * or reopens it. Managers are alerted; a configured trip fee is paid when the
+   * GPS places the cleaner at the property (see server/jobs/access-denied.ts).
+   */
+  reportAccessDenied: authorizedProcedure("start", "job")
+    .input(
+      z
+        .object({
+          jobId: z.string(),
+          reason: z.enum(ACCESS_DENIED_REASONS),
+          notes: z.string().trim().max(1000).optional(),
+          gpsLat: z.number(),
+          gpsLng: z.number(),
+          photoId: z.string().optional(), // Uploaded with photos.uploadPhoto
+        })
+        .refine((input) => input.reason !== "other" || !!input.notes, {
+          message: "Please describe what happened",
+          path: ["notes"],
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
       }
 
-      if ((newCleaner as any).role !== "cleaner") {
-        throw new Error("User is not a cleaner");
+      const tenant = forBusiness(db, ctx.user.businessId);
+
+      const job = await tenant.jobs.findFirst({
+        where: and(eq(cleaningJobs.id, input.jobId), eq(cleaningJobs.assignedCleanerId, ctx.user.id)),
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found or not assigned to you",
+        });
       }
 
-      const oldCleanerId = job.assignedCleanerId;
+      if (job.accessDenied) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Access denied has already been reported for this job",
+        });
+      }
+
+      assertTransition(job.status, "report_access_denied");
+
+      if (input.photoId) {
+        const photo = await tenant.media.findFirst({
+          where: and(eq(media.id, input.photoId), eq(media.jobId, job.id)),
+          columns: { id: true },
+        });
+
+        if (!photo) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Photo not found",
+          });
+        }
+      }
 
-      await db
-        .update(cleaningJobs)
-        .set({
-          assignedCleanerId: newCleanerId,
-          updatedAt: new Date(),
+      const [property, business] = await Promise.all([
+        tenant.properties.findFirst({
+          where: eq(properties.id, job.propertyId),
+          columns: { name: true, latitude: true, longitude: true },
+        }),
+        db.query.businesses.findFirst({
+          where: eq(businesses.id, ctx.user.businessId),
+          columns: { accessDeniedTripFee: true },
+        }),
+      ]);
+
+      const gps = { lat: input.gpsLat, lng: input.gpsLng };
+      const tripFee = getAccessDeniedTripFee(business, property, gps);
+
+      await db.transaction(async (tx: any) => {
+        const txTenant = forBusiness(tx, ctx.user.businessId);
+
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "report_access_denied",
+          actorId: ctx.user.id,
+          reason: input.notes || input.reason,
+          gps,
+          details: {
+            reason: input.reason,
+            photoId: input.photoId ?? null,
+            gpsVerified: tripFee.gpsVerified,
+            distance: tripFee.distance,
+            tripFee: tripFee.amount,
+          },
+          changes: {
+            accessDenied: true,
+            accessDeniedAt: new Date(),
+            accessDeniedReason: input.reason,
+            accessDeniedNotes: input.notes || null,
+            accessDeniedPhotoId: input.photoId ?? null,
+            tripFee: tripFee.amount > 0 ? tripFee.amount.toString() : null,
+          },
+        });
+
+        if (!transition) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Job state changed before the report could be processed",
+          });
+        }
+
+        if (tripFee.amount > 0) {
+          const invoice = await getOrCreateOpenInvoice(
+            txTenant,
+            ctx.user.id,
+            job.payTypeOverride || ctx.user.payType || "per_job"
+          );
+          await addInvoiceLineItem(txTenant, invoice, { jobId: job.id, type: "trip_fee", amount: tripFee.amount });
+        }
+
+        // Alert managers with the report
+        await notifyJobInTransaction(tx, ctx.user.businessId, job.id, (context) =>
+          emitAccessDenied(
+            tx,
+            context.job,
+            ctx.user,
+            context.property,
+            input.gpsLat,
+            input.gpsLng,
+            context.businessUsers
+          )
+        );
+      });
+
+      return {
+        success: true,
+        jobId: job.id,
+        tripFee: tripFee.amount,
+        gpsVerified: tripFee.gpsVerified,
+      };
+    }),
+
+  /**
+   * Move a job to a new date/time, keeping the assigned cleaner
+   * Clears an access-denied report so the cleaner can start on the new date
+   */
+  reschedule: authorizedProcedure("assign", "job")
+    .input(
+      z.object({
+        jobId: z.string(),
+        cleaningDate: z.date(),
+        reason: z.string().trim().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
+      }
+
+      const job = await forBusiness(db, ctx.user.businessId).jobs.findFirst({
+        where: eq(cleaningJobs.id, input.jobId),
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
+      }
+
+      assertTransition(job.status, "reschedule");
+
+      const transition = await db.transaction((tx: any) =>
+        transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "reschedule",
+          actorId: ctx.user.id,
+          reason: input.reason || null,
+          details: {
+            previousCleaningDate: job.cleaningDate,
+            cleaningDate: input.cleaningDate,
+            accessDeniedCleared: job.accessDenied,
+          },
+          changes: { cleaningDate: input.cleaningDate, accessDenied: false },
         })
-        .where(eq(cleaningJobs.id, jobId));
+      );
 
-      // TODO: Log reassignment in audit log when table is available
+      if (!transition) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Job state changed before rescheduling could be processed",
+        });
+      }
 
       return {
         success: true,
-        jobId,
-        oldCleanerId,
-        newCleanerId,
+        jobId: job.id,
+        cleaningDate: input.cleaningDate,
+      };
+    }),
+
+  /**
+   * Put an accepted job back up for any cleaner to accept
+   * Unassigns the cleaner and clears an access-denied report
+   */
+  reopen: authorizedProcedure("assign", "job")
+    .input(
+      z.object({
+        jobId: z.string(),
+        reason: z.string().trim().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
+      }
+
+      const job = await forBusiness(db, ctx.user.businessId).jobs.findFirst({
+        where: eq(cleaningJobs.id, input.jobId),
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
+      }
+
+      assertTransition(job.status, "reopen");
+
+      const transition = await db.transaction(async (tx: any) => {
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "reopen",
+          actorId: ctx.user.id,
+          reason: input.reason || null,
+          details: {
+            previousCleanerId: job.assignedCleanerId,
+            accessDeniedCleared: job.accessDenied,
+          },
+          changes: { assignedCleanerId: null, acceptedAt: null, accessDenied: false, ...CLEARED_RELEASE_REQUEST },
+        });
+        if (!transition) return null;
+
+        // Offer the job to every cleaner except the one just taken off it
+        await notifyJobInTransaction(tx, ctx.user.businessId, job.id, (context) =>
+          emitJobAvailable(
+            tx,
+            context.job,
+            context.property,
+            job.assignedCleanerId ? withoutUser(context.businessUsers, job.assignedCleanerId) : context.businessUsers
+          )
+        );
+
+        return transition;
+      });
+
+      if (!transition) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Job state changed before it could be reopened",
+        });
+      }
+
+      return {
+        success: true,
+        jobId: job.id,
+        status: transition.to,
+      };
+    }),
+
+  /**
+   * Hand back an accepted job (assigned cleaner, reason required)
+   * Transition: accepted → available, re-broadcast to the other cleaners.
+   * Inside the business's release cutoff the job stays assigned and managers
+   * are asked to approve (see server/jobs/release.ts).
+   */
+  release: authorizedProcedure("accept", "job")
+    .input(
+      z.object({
+        jobId: z.string(),
+        reason: z.string().trim().min(1, "Release reason is required").max(1000),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
+      }
+
+      const tenant = forBusiness(db, ctx.user.businessId);
+
+      const job = await tenant.jobs.findFirst({
+        where: and(eq(cleaningJobs.id, input.jobId), eq(cleaningJobs.assignedCleanerId, ctx.user.id)),
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found or not assigned to you",
+        });
+      }
+
+      assertTransition(job.status, "release");
+
+      if (job.releaseRequestedAt) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "A release request for this job is already waiting for manager approval",
+        });
+      }
+
+      const business = await db.query.businesses.findFirst({
+        where: eq(businesses.id, ctx.user.businessId),
+        columns: { jobReleaseCutoffHours: true },
+      });
+
+      // Inside the cutoff: record the request and ask managers
+      if (requiresReleaseApproval(job, business)) {
+        const transition = await db.transaction(async (tx: any) => {
+          const transition = await transitionJob(tx, {
+            businessId: ctx.user.businessId,
+            job,
+            event: "request_release",
+            actorId: ctx.user.id,
+            reason: input.reason,
+            changes: {
+              releaseRequestedAt: new Date(),
+              releaseRequestedBy: ctx.user.id,
+              releaseReason: input.reason,
+            },
+          });
+          if (!transition) return null;
+
+          await notifyJobInTransaction(tx, ctx.user.businessId, job.id, (context) =>
+            emitJobReleaseRequested(tx, context.job, ctx.user, context.property, context.businessUsers)
+          );
+
+          return transition;
+        });
+
+        if (!transition) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Job state changed before the release could be requested",
+          });
+        }
+
+        return {
+          success: true,
+          jobId: job.id,
+          status: job.status,
+          pendingApproval: true,
+        };
+      }
+
+      const transition = await db.transaction(async (tx: any) => {
+        const transition = await releaseJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          cleanerId: ctx.user.id,
+          actorId: ctx.user.id,
+          reason: input.reason,
+        });
+        if (!transition) return null;
+
+        await notifyJobInTransaction(tx, ctx.user.businessId, job.id, async (context) => {
+          await emitJobReleased(tx, context.job, ctx.user, context.property, input.reason, context.businessUsers);
+          await emitJobAvailable(tx, context.job, context.property, withoutUser(context.businessUsers, ctx.user.id));
+        });
+
+        return transition;
+      });
+
+      if (!transition) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Job state changed before it could be released",
+        });
+      }
+
+      return {
+        success: true,
+        jobId: job.id,
+        status: transition.to,
+        pendingApproval: false,
+      };
+    }),
+
+  /**
+   * Approve or deny a cleaner's pending release request
+   * Approving releases the job exactly as jobs.release would have; denying
+   * keeps the cleaner assigned.
+   */
+  decideRelease: authorizedProcedure("assign", "job")
+    .input(
+      z.object({
+        jobId: z.string(),
+        approve: z.boolean(),
+        reason: z.string().trim().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
+      }
+
+      const tenant = forBusiness(db, ctx.user.businessId);
+
+      const job = await tenant.jobs.findFirst({
+        where: eq(cleaningJobs.id, input.jobId),
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
+      }
+
+      const cleanerId = job.releaseRequestedBy;
+      if (!job.releaseRequestedAt || !cleanerId || cleanerId !== job.assignedCleanerId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This job has no pending release request",
+        });
+      }
+
+      assertTransition(job.status, input.approve ? "release" : "deny_release");
+
+      const transition = await db.transaction(async (tx: any) => {
+        const transition = input.approve
+          ? await releaseJob(tx, {
+              businessId: ctx.user.businessId,
+              job,
+              cleanerId,
+              actorId: ctx.user.id,
+              reason: job.releaseReason || input.reason || "Release approved",
+              details: { approvedBy: ctx.user.id, requestedAt: job.releaseRequestedAt },
+            })
+          : await transitionJob(tx, {
+              businessId: ctx.user.businessId,
+              job,
+              event: "deny_release",
+              actorId: ctx.user.id,
+              reason: input.reason || null,
+              details: { cleanerId, requestedAt: job.releaseRequestedAt },
+              changes: CLEARED_RELEASE_REQUEST,
+            });
+        if (!transition) return null;
+
+        await notifyJobInTransaction(tx, ctx.user.businessId, job.id, async (context) => {
+          await emitJobReleaseDecided(
+            tx,
+            context.job,
+            cleanerId,
+            context.property,
+            input.approve,
+            input.reason,
+            context.businessUsers
+          );
+          if (input.approve) {
+            await emitJobAvailable(tx, context.job, context.property, withoutUser(context.businessUsers, cleanerId));
+          }
+        });
+
+        return transition;
+      });
+
+      if (!transition) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Job state changed before the release request could be settled",
+        });
+      }
+
+      return {
+        success: true,
+        jobId: job.id,
+        status: transition.to,
+        approved: input.approve,
+      };
+    }),
+
+  /**
+   * Status timeline for a job (oldest first)
+   * Managers see any job in the business; cleaners their own or unassigned jobs
+   */
+  getTimeline: authorizedProcedure("view", "job")
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb() as any;
+      if (!db) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Database unavailable",
+        });
+      }
+
+      const job = await forBusiness(db, ctx.user.businessId).jobs.findFirst({
+        where: eq(cleaningJobs.id, input.jobId),
+        columns: { id: true, businessId: true, assignedCleanerId: true, status: true },
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Job not found",
+        });
+      }
+
+      assertPermission(ctx.user, "view", "job", {
+        businessId: job.businessId,
+        ownerId: job.assignedCleanerId,
+      });
+
+      const entries = await getJobTimeline(db, ctx.user.businessId, job.id);
+
+      return {
+        jobId: job.id,
+        status: job.status,
+        entries,
       };
     }),
 });
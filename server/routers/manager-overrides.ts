@@ -6,16 +6,20 @@
  * - Missing photos (cleaner didn't upload required photos)
  * - Other conflicts (access denied, etc.)
  * 
- * All overrides are logged for audit trail.
- * No notifications sent (minimal scope).
+ * All overrides are recorded in the job's status history. Forced completions
+ * queue manager notifications (and lock the job chat) in the same transaction.
  */
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { eq, and } from "drizzle-orm";
 import { getDb } from "../db";
-import { cleaningJobs, media, properties } from "../../drizzle/schema";
-import { managerProcedure } from "../_core/trpc";
+import { forBusiness, type TenantDb } from "../tenancy/tenant-db";
+import { assertTransition, transitionJob } from "../jobs/state-machine";
+import { cleaningJobs, damageReports, media, properties } from "../../drizzle/schema";
+import { notifyJobInTransaction } from "../notifications/job-context";
+import { emitJobCompleted } from "../notifications/job-events";
+import { authorizedProcedure } from "../_core/trpc";
 
 // ============================================================================
 // TYPES
@@ -38,7 +42,7 @@ interface JobConflict {
  * Detect conflicts that would prevent job completion
  */
 async function detectJobConflicts(
-  tx: any,
+  tenant: TenantDb,
   jobId: string,
   gpsLat: number,
   gpsLng: number
@@ -46,7 +50,7 @@ async function detectJobConflicts(
   const conflicts: JobConflict[] = [];
 
   // Get job and property
-  const job = await tx.query.cleaningJobs.findFirst({
+  const job = await tenant.jobs.findFirst({
     where: eq(cleaningJobs.id, jobId),
   });
 
@@ -57,7 +61,7 @@ async function detectJobConflicts(
     });
   }
 
-  const property = await tx.query.properties.findFirst({
+  const property = await tenant.properties.findFirst({
     where: eq(properties.id, job.propertyId),
     columns: { latitude: true, longitude: true },
   });
@@ -81,7 +85,7 @@ async function detectJobConflicts(
   }
 
   // Check photo conflict
-  const photos = await tx.query.media.findMany({
+  const photos = await tenant.media.findMany({
     where: and(eq(media.jobId, jobId), eq(media.type, "photo")),
   });
 
@@ -138,7 +142,7 @@ export const managerOverridesRouter = {
   /**
    * Detect conflicts for a job (dry-run, doesn't change anything)
    */
-  detectConflicts: managerProcedure
+  detectConflicts: authorizedProcedure("view", "job", "business")
     .input(
       z.object({
         jobId: z.string(),
@@ -156,7 +160,12 @@ export const managerOverridesRouter = {
       }
 
       const conflicts = await db.transaction(async (tx: any) => {
-        return detectJobConflicts(tx, input.jobId, input.gpsLat, input.gpsLng);
+        return detectJobConflicts(
+          forBusiness(tx, ctx.user.businessId),
+          input.jobId,
+          input.gpsLat,
+          input.gpsLng
+        );
       });
 
       return {
@@ -174,7 +183,7 @@ export const managerOverridesRouter = {
    * - Photos missing but manager verified work was done
    * - Access denied but manager wants to mark as completed anyway
    */
-  overrideCompletion: managerProcedure
+  overrideCompletion: authorizedProcedure("override", "job")
     .input(
       z.object({
         jobId: z.string(),
@@ -192,20 +201,12 @@ export const managerOverridesRouter = {
         });
       }
 
-      if (ctx.user.role !== "manager" && ctx.user.role !== "super_manager") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only managers can override job completion",
-        });
-      }
-
       const result = await db.transaction(async (tx: any) => {
+        const tenant = forBusiness(tx, ctx.user.businessId);
+
         // 1. Get job and verify it exists
-        const job = await tx.query.cleaningJobs.findFirst({
-          where: and(
-            eq(cleaningJobs.id, input.jobId),
-            eq(cleaningJobs.businessId, ctx.user.businessId)
-          ),
+        const job = await tenant.jobs.findFirst({
+          where: eq(cleaningJobs.id, input.jobId),
         });
 
         if (!job) {
@@ -215,9 +216,11 @@ export const managerOverridesRouter = {
           });
         }
 
+        assertTransition(job.status, "override_complete");
+
         // 2. Detect conflicts (for audit log)
         const conflicts = await detectJobConflicts(
-          tx,
+          tenant,
           input.jobId,
           input.gpsLat,
           input.gpsLng
@@ -226,29 +229,60 @@ export const managerOverridesRouter = {
         const previousStatus = job.status;
 
         // 3. Update job to completed (force override)
-        const updated = await tx
-          .update(cleaningJobs)
-          .set({
-            status: "completed",
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "override_complete",
+          actorId: ctx.user.id,
+          reason: input.reason,
+          gps: { lat: input.gpsLat, lng: input.gpsLng },
+          details: { conflicts: conflicts.map((conflict) => conflict.type) },
+          changes: {
             completedAt: new Date(),
             gpsEndLat: input.gpsLat.toString(),
             gpsEndLng: input.gpsLng.toString(),
             overriddenBy: ctx.user.id,
             overrideReason: input.reason,
             overriddenAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(cleaningJobs.id, input.jobId));
+          },
+        });
 
-        if (updated.rowsAffected === 0) {
+        if (!transition) {
           throw new TRPCError({
             code: "CONFLICT",
             message: "Job could not be updated (may have been modified)",
           });
         }
 
-        // 4. Return updated job with override info
-        const updatedJob = await tx.query.cleaningJobs.findFirst({
+        // 4. Queue the completion notice with the override
+        await notifyJobInTransaction(tx, ctx.user.businessId, input.jobId, async (context) => {
+          const cleaner = context.businessUsers.find((user) => user.id === context.job.assignedCleanerId);
+          if (!cleaner) return;
+
+          const [photos, damage] = await Promise.all([
+            tenant.media.findMany({
+              where: and(eq(media.jobId, input.jobId), eq(media.type, "photo")),
+              columns: { id: true },
+            }),
+            tx.query.damageReports.findMany({
+              where: eq(damageReports.jobId, input.jobId),
+              columns: { id: true },
+            }),
+          ]);
+
+          await emitJobCompleted(
+            tx,
+            context.job,
+            cleaner,
+            context.property,
+            photos.length,
+            damage.length,
+            context.businessUsers
+          );
+        });
+
+        // 5. Return updated job with override info
+        const updatedJob = await tenant.jobs.findFirst({
           where: eq(cleaningJobs.id, input.jobId),
         });
 
@@ -274,7 +308,7 @@ export const managerOverridesRouter = {
    * Allows job completion even if GPS validation failed.
    * Manager takes responsibility for verification.
    */
-  resolveGPSConflict: managerProcedure
+  resolveGPSConflict: authorizedProcedure("override", "job")
     .input(
       z.object({
         jobId: z.string(),
@@ -292,20 +326,12 @@ export const managerOverridesRouter = {
         });
       }
 
-      if (ctx.user.role !== "manager" && ctx.user.role !== "super_manager") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only managers can resolve GPS conflicts",
-        });
-      }
-
       const result = await db.transaction(async (tx: any) => {
+        const tenant = forBusiness(tx, ctx.user.businessId);
+
         // 1. Get job
-        const job = await tx.query.cleaningJobs.findFirst({
-          where: and(
-            eq(cleaningJobs.id, input.jobId),
-            eq(cleaningJobs.businessId, ctx.user.businessId)
-          ),
+        const job = await tenant.jobs.findFirst({
+          where: eq(cleaningJobs.id, input.jobId),
         });
 
         if (!job) {
@@ -315,8 +341,10 @@ export const managerOverridesRouter = {
           });
         }
 
+        assertTransition(job.status, "resolve_conflict");
+
         // 2. Verify GPS conflict exists
-        const property = await tx.query.properties.findFirst({
+        const property = await tenant.properties.findFirst({
           where: eq(properties.id, job.propertyId),
           columns: { latitude: true, longitude: true },
         });
@@ -343,26 +371,31 @@ export const managerOverridesRouter = {
         }
 
         // 3. Update job (GPS conflict resolved)
-        const updated = await tx
-          .update(cleaningJobs)
-          .set({
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "resolve_conflict",
+          actorId: ctx.user.id,
+          reason: input.reason,
+          gps: { lat: input.gpsLat, lng: input.gpsLng },
+          details: { conflict: "gps_mismatch", distance },
+          changes: {
             gpsEndLat: input.gpsLat.toString(),
             gpsEndLng: input.gpsLng.toString(),
             overriddenBy: ctx.user.id,
             overrideReason: `GPS conflict resolved: ${input.reason}`,
             overriddenAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(cleaningJobs.id, input.jobId));
+          },
+        });
 
-        if (updated.rowsAffected === 0) {
+        if (!transition) {
           throw new TRPCError({
             code: "CONFLICT",
             message: "Job could not be updated",
           });
         }
 
-        const updatedJob = await tx.query.cleaningJobs.findFirst({
+        const updatedJob = await tenant.jobs.findFirst({
           where: eq(cleaningJobs.id, input.jobId),
         });
 
@@ -387,7 +420,7 @@ export const managerOverridesRouter = {
    * Allows job completion even if photos weren't uploaded through app.
    * Manager takes responsibility for verification.
    */
-  resolvePhotoConflict: managerProcedure
+  resolvePhotoConflict: authorizedProcedure("override", "job")
     .input(
       z.object({
         jobId: z.string(),
@@ -403,20 +436,12 @@ export const managerOverridesRouter = {
         });
       }
 
-      if (ctx.user.role !== "manager" && ctx.user.role !== "super_manager") {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Only managers can resolve photo conflicts",
-        });
-      }
-
       const result = await db.transaction(async (tx: any) => {
+        const tenant = forBusiness(tx, ctx.user.businessId);
+
         // 1. Get job
-        const job = await tx.query.cleaningJobs.findFirst({
-          where: and(
-            eq(cleaningJobs.id, input.jobId),
-            eq(cleaningJobs.businessId, ctx.user.businessId)
-          ),
+        const job = await tenant.jobs.findFirst({
+          where: eq(cleaningJobs.id, input.jobId),
         });
 
         if (!job) {
@@ -426,8 +451,10 @@ export const managerOverridesRouter = {
           });
         }
 
+        assertTransition(job.status, "resolve_conflict");
+
         // 2. Verify photo conflict exists
-        const photos = await tx.query.media.findMany({
+        const photos = await tenant.media.findMany({
           where: and(eq(media.jobId, input.jobId), eq(media.type, "photo")),
         });
 
@@ -439,24 +466,28 @@ export const managerOverridesRouter = {
         }
 
         // 3. Update job (photo conflict resolved)
-        const updated = await tx
-          .update(cleaningJobs)
-          .set({
+        const transition = await transitionJob(tx, {
+          businessId: ctx.user.businessId,
+          job,
+          event: "resolve_conflict",
+          actorId: ctx.user.id,
+          reason: input.reason,
+          details: { conflict: "missing_photos" },
+          changes: {
             overriddenBy: ctx.user.id,
             overrideReason: `Photo conflict resolved: ${input.reason}`,
             overriddenAt: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(cleaningJobs.id, input.jobId));
+          },
+        });
 
-        if (updated.rowsAffected === 0) {
+        if (!transition) {
           throw new TRPCError({
             code: "CONFLICT",
             message: "Job could not be updated",
           });
         }
 
-        const updatedJob = await tx.query.cleaningJobs.findFirst({
+        const updatedJob = await tenant.jobs.findFirst({
           where: eq(cleaningJobs.id, input.jobId),
         });
 
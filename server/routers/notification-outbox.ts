@@ -0,0 +1,123 @@
+/**
+ * Notification Outbox Router — Founder Ops
+ *
+ * Shows deliveries that are not getting through (retrying or dead-lettered)
+ * and lets a founder send a row back to the worker once the cause is fixed.
+ * See server/notifications/outbox.ts for the retry policy.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, count, desc, eq, gt, or } from "drizzle-orm";
+import { authorizedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { notificationOutbox } from "../../drizzle/schema";
+import type { NotificationOutboxEntry } from "../../drizzle/schema";
+import { getAffectedRows } from "../jobs/state-machine";
+import { OUTBOX_MAX_ATTEMPTS } from "../notifications/outbox";
+
+async function requireDb(): Promise<any> {
+  const db = (await getDb()) as any;
+  if (!db) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  }
+  return db;
+}
+
+// Pending rows that have failed at least once, or rows the worker gave up on
+const isStuck = or(
+  eq(notificationOutbox.status, "dead"),
+  and(eq(notificationOutbox.status, "pending"), gt(notificationOutbox.attempts, 0))
+);
+
+export const notificationOutboxRouter = router({
+  /**
+   * Row counts by status
+   */
+  getSummary: authorizedProcedure("view", "notification_outbox").query(async () => {
+    const db = await requireDb();
+
+    const rows: { status: NotificationOutboxEntry["status"]; count: number }[] = await db
+      .select({ status: notificationOutbox.status, count: count() })
+      .from(notificationOutbox)
+      .groupBy(notificationOutbox.status);
+
+    const [retrying] = await db
+      .select({ count: count() })
+      .from(notificationOutbox)
+      .where(and(eq(notificationOutbox.status, "pending"), gt(notificationOutbox.attempts, 0)));
+
+    const byStatus = (status: NotificationOutboxEntry["status"]) =>
+      Number(rows.find((row) => row.status === status)?.count ?? 0);
+
+    return {
+      pending: byStatus("pending"),
+      retrying: Number(retrying?.count ?? 0),
+      dead: byStatus("dead"),
+      delivered: byStatus("delivered"),
+      maxAttempts: OUTBOX_MAX_ATTEMPTS,
+    };
+  }),
+
+  /**
+   * Deliveries that are retrying or dead-lettered, most recent first
+   */
+  listStuck: authorizedProcedure("view", "notification_outbox")
+    .input(
+      z
+        .object({
+          status: z.enum(["dead", "retrying"]).optional(), // Omit for both
+          limit: z.number().int().min(1).max(200).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      const db = await requireDb();
+
+      const where =
+        input?.status === "dead"
+          ? eq(notificationOutbox.status, "dead")
+          : input?.status === "retrying"
+            ? and(eq(notificationOutbox.status, "pending"), gt(notificationOutbox.attempts, 0))
+            : isStuck;
+
+      const entries: NotificationOutboxEntry[] = await db
+        .select()
+        .from(notificationOutbox)
+        .where(where)
+        .orderBy(desc(notificationOutbox.createdAt))
+        .limit(input?.limit ?? 50);
+
+      return entries.map((entry) => ({
+        id: entry.id,
+        businessId: entry.businessId,
+        type: entry.type,
+        channel: entry.channel,
+        status: entry.status,
+        attempts: entry.attempts,
+        nextAttemptAt: entry.nextAttemptAt,
+        lastError: entry.lastError,
+        createdAt: entry.createdAt,
+      }));
+    }),
+
+  /**
+   * Send a stuck delivery back to the worker with a fresh set of attempts
+   */
+  retry: authorizedProcedure("manage", "notification_outbox")
+    .input(z.object({ entryId: z.string() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+
+      const result = await db
+        .update(notificationOutbox)
+        .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lockedUntil: null })
+        .where(and(eq(notificationOutbox.id, input.entryId), isStuck));
+
+      if (getAffectedRows(result) === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "No stuck delivery with that id" });
+      }
+
+      return { success: true } as const;
+    }),
+});
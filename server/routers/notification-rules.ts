@@ -0,0 +1,175 @@
+/**
+ * Notification Rules Router
+ *
+ * Super managers tune the built-in notification rules for their own business:
+ * turn a rule off, choose which roles receive it, make it critical, pick its
+ * channels or replace its text with a template. Overrides only store what was
+ * changed; resetting a rule deletes its override and the built-in applies
+ * again. See server/notifications/rule-overrides.ts for how they are applied.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { authorizedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import {
+  notificationRuleOverrides,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_RECIPIENT_ROLES,
+  NOTIFICATION_TYPES,
+} from "../../drizzle/schema";
+import type { NotificationRuleOverride } from "../../drizzle/schema";
+import { NOTIFICATION_RULES, getRuleChannels } from "../notifications/events";
+import {
+  RULE_AUDIENCE_ROLES,
+  TEMPLATE_PLACEHOLDERS,
+  findBuiltInRule,
+  getRuleKey,
+  getUnknownPlaceholders,
+  loadRuleOverrides,
+} from "../notifications/rule-overrides";
+
+async function requireDb(): Promise<any> {
+  const db = (await getDb()) as any;
+  if (!db) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  }
+  return db;
+}
+
+const ruleSchema = z.object({
+  type: z.enum(NOTIFICATION_TYPES),
+  ruleRole: z.enum(NOTIFICATION_RECIPIENT_ROLES),
+});
+
+// Empty text means "use the built-in text"
+const templateSchema = (maxLength: number) =>
+  z
+    .string()
+    .trim()
+    .max(maxLength)
+    .nullable()
+    .optional()
+    .transform((value) => (value === "" ? null : value));
+
+export const notificationRulesRouter = router({
+  /**
+   * Every built-in rule with the business's override, if any
+   */
+  list: authorizedProcedure("view", "notification_rule").query(async ({ ctx }) => {
+    const db = await requireDb();
+
+    const overrides: NotificationRuleOverride[] = await loadRuleOverrides(db, ctx.user.businessId);
+    const byKey = new Map(overrides.map((override) => [getRuleKey(override.type, override.ruleRole), override]));
+
+    return NOTIFICATION_RULES.map((rule) => {
+      const override = byKey.get(getRuleKey(rule.event, rule.role));
+
+      return {
+        type: rule.event,
+        ruleRole: rule.role,
+        placeholders: TEMPLATE_PLACEHOLDERS[rule.event] as string[],
+        builtIn: {
+          recipientRoles: RULE_AUDIENCE_ROLES[rule.role],
+          isCritical: rule.isCritical,
+          channels: getRuleChannels(rule),
+        },
+        override: override
+          ? {
+              enabled: override.enabled,
+              recipientRoles: override.recipientRoles,
+              isCritical: override.isCritical,
+              channels: override.channels,
+              titleTemplate: override.titleTemplate,
+              messageTemplate: override.messageTemplate,
+              updatedAt: override.updatedAt,
+            }
+          : null,
+      };
+    });
+  }),
+
+  /**
+   * Change a rule for the business
+   * Omitted fields are left as they are; null puts a field back to the built-in.
+   */
+  update: authorizedProcedure("manage", "notification_rule")
+    .input(
+      ruleSchema.extend({
+        enabled: z.boolean().optional(),
+        recipientRoles: z.array(z.enum(NOTIFICATION_RECIPIENT_ROLES)).min(1).nullable().optional(),
+        isCritical: z.boolean().nullable().optional(),
+        channels: z.array(z.enum(NOTIFICATION_CHANNELS)).min(1).nullable().optional(),
+        titleTemplate: templateSchema(255),
+        messageTemplate: templateSchema(1000),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      if (!findBuiltInRule(input.type, input.ruleRole)) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `There is no ${input.ruleRole} rule for ${input.type}`,
+        });
+      }
+
+      for (const template of [input.titleTemplate, input.messageTemplate]) {
+        const unknown = template ? getUnknownPlaceholders(template, input.type) : [];
+        if (unknown.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown placeholder(s) for ${input.type}: ${unknown.map((name) => `{${name}}`).join(", ")}`,
+          });
+        }
+      }
+
+      const changes: Record<string, unknown> = {};
+      if (input.enabled !== undefined) changes.enabled = input.enabled;
+      if (input.recipientRoles !== undefined) {
+        changes.recipientRoles = input.recipientRoles && Array.from(new Set(input.recipientRoles));
+      }
+      if (input.isCritical !== undefined) changes.isCritical = input.isCritical;
+      if (input.channels !== undefined) changes.channels = input.channels && Array.from(new Set(input.channels));
+      if (input.titleTemplate !== undefined) changes.titleTemplate = input.titleTemplate;
+      if (input.messageTemplate !== undefined) changes.messageTemplate = input.messageTemplate;
+
+      await db
+        .insert(notificationRuleOverrides)
+        .values({
+          id: `notifrule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          businessId: ctx.user.businessId,
+          type: input.type,
+          ruleRole: input.ruleRole,
+          ...changes,
+          updatedBy: ctx.user.id,
+        })
+        .onDuplicateKeyUpdate({ set: { ...changes, updatedBy: ctx.user.id, updatedAt: new Date() } });
+
+      console.log(`[NotificationRules] ${ctx.user.id} changed ${getRuleKey(input.type, input.ruleRole)} for ${ctx.user.businessId}`);
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Go back to the built-in rule
+   */
+  reset: authorizedProcedure("manage", "notification_rule")
+    .input(ruleSchema)
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      await db
+        .delete(notificationRuleOverrides)
+        .where(
+          and(
+            eq(notificationRuleOverrides.businessId, ctx.user.businessId),
+            eq(notificationRuleOverrides.type, input.type),
+            eq(notificationRuleOverrides.ruleRole, input.ruleRole)
+          )
+        );
+
+      return { success: true } as const;
+    }),
+});
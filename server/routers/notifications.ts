@@ -0,0 +1,363 @@
+/**
+ * Notifications Router
+ *
+ * The signed-in user's in-app notification center, backed by the rows
+ * NotificationDeliveryService saves for every delivered notification:
+ * - Paginated list (newest first)
+ * - Unread count (badge)
+ * - Mark one / all read
+ * - Delete
+ * - Push token registration for the signed-in device
+ * - Preferences: quiet hours, channel opt-outs, muted jobs
+ *
+ * Every query is scoped to ctx.user.id and ctx.user.businessId.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, count, desc, eq, lt, or, type SQL } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import {
+  cleaningJobs,
+  notificationJobMutes,
+  notificationPreferences,
+  notifications,
+  pushTokens,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  PUSH_PLATFORMS,
+} from "../../drizzle/schema";
+import type { Notification, User } from "../../drizzle/schema";
+import { getAffectedRows } from "../jobs/state-machine";
+import { isExpoPushToken, registerPushToken } from "../notifications/push-tokens";
+import {
+  TIME_OF_DAY_PATTERN,
+  getBusinessTimezone,
+  getCriticalNotificationTypes,
+  getQuietHours,
+} from "../notifications/preferences";
+import { getChannelsForType } from "../notifications/events";
+import { loadNotificationRules } from "../notifications/rule-overrides";
+import { forBusiness } from "../tenancy/tenant-db";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const timeOfDaySchema = z.string().regex(TIME_OF_DAY_PATTERN, "Use HH:MM (24-hour)");
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Only the caller's own notifications
+ */
+function ownedBy(user: User, ...conditions: (SQL | undefined)[]): SQL {
+  return and(eq(notifications.userId, user.id), eq(notifications.businessId, user.businessId), ...conditions) as SQL;
+}
+
+/**
+ * Rows after the cursor row in (createdAt desc, id desc) order
+ */
+function after(cursor: Pick<Notification, "id" | "createdAt">): SQL {
+  return or(
+    lt(notifications.createdAt, cursor.createdAt),
+    and(eq(notifications.createdAt, cursor.createdAt), lt(notifications.id, cursor.id))
+  ) as SQL;
+}
+
+async function requireDb(): Promise<any> {
+  const db = (await getDb()) as any;
+  if (!db) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  }
+  return db;
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+export const notificationsRouter = router({
+  /**
+   * List notifications, newest first
+   * Pass the returned nextCursor to load the next page (null = no more)
+   */
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          cursor: z.string().nullish(), // Id of the last notification on the previous page
+          limit: z.number().int().min(1).max(50).optional(),
+          unreadOnly: z.boolean().optional(),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const db = await requireDb();
+      const limit = input?.limit ?? DEFAULT_PAGE_SIZE;
+
+      let cursorCondition: SQL | undefined;
+      if (input?.cursor) {
+        const cursor = await db.query.notifications.findFirst({
+          where: ownedBy(ctx.user, eq(notifications.id, input.cursor)),
+          columns: { id: true, createdAt: true },
+        });
+
+        if (!cursor) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor" });
+        }
+        cursorCondition = after(cursor);
+      }
+
+      const rows = (await db.query.notifications.findMany({
+        where: ownedBy(ctx.user, input?.unreadOnly ? eq(notifications.isRead, false) : undefined, cursorCondition),
+        orderBy: [desc(notifications.createdAt), desc(notifications.id)],
+        limit: limit + 1, // One extra row tells us whether there is another page
+      })) as Notification[];
+
+      const items = rows.slice(0, limit);
+
+      return {
+        items: items.map((notification) => ({
+          id: notification.id,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          jobId: notification.relatedJobId,
+          isCritical: notification.isCritical,
+          isRead: notification.isRead,
+          createdAt: notification.createdAt,
+        })),
+        nextCursor: rows.length > limit ? items[items.length - 1].id : null,
+      };
+    }),
+
+  /**
+   * Number of unread notifications (badge)
+   */
+  unreadCount: protectedProcedure.query(async ({ ctx }) => {
+    const db = await requireDb();
+
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(ownedBy(ctx.user, eq(notifications.isRead, false)));
+
+    return { count: Number(result?.count ?? 0) };
+  }),
+
+  /**
+   * Mark one notification read
+   */
+  markRead: protectedProcedure
+    .input(z.object({ notificationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      const notification = await db.query.notifications.findFirst({
+        where: ownedBy(ctx.user, eq(notifications.id, input.notificationId)),
+        columns: { id: true, isRead: true },
+      });
+
+      if (!notification) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Notification not found" });
+      }
+
+      if (!notification.isRead) {
+        await db
+          .update(notifications)
+          .set({ isRead: true, readAt: new Date() })
+          .where(ownedBy(ctx.user, eq(notifications.id, input.notificationId)));
+      }
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Mark every unread notification read
+   */
+  markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+    const db = await requireDb();
+
+    const result = await db
+      .update(notifications)
+      .set({ isRead: true, readAt: new Date() })
+      .where(ownedBy(ctx.user, eq(notifications.isRead, false)));
+
+    return { success: true, updated: getAffectedRows(result) };
+  }),
+
+  /**
+   * Delete a notification
+   */
+  delete: protectedProcedure
+    .input(z.object({ notificationId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      const result = await db
+        .delete(notifications)
+        .where(ownedBy(ctx.user, eq(notifications.id, input.notificationId)));
+
+      if (getAffectedRows(result) === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Notification not found" });
+      }
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Register this device's Expo push token for the caller
+   * Call after sign-in and whenever the token changes; a token registered by
+   * someone else on the same device moves to the caller.
+   */
+  registerPushToken: protectedProcedure
+    .input(
+      z.object({
+        token: z.string().max(255).refine(isExpoPushToken, "Not an Expo push token"),
+        platform: z.enum(PUSH_PLATFORMS),
+        deviceName: z.string().max(255).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      await registerPushToken(db, ctx.user, input);
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Stop push notifications to this device (call on sign-out)
+   * Succeeds even if the token was never registered or was already pruned.
+   */
+  unregisterPushToken: protectedProcedure
+    .input(z.object({ token: z.string().max(255) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      await db
+        .delete(pushTokens)
+        .where(and(eq(pushTokens.token, input.token), eq(pushTokens.userId, ctx.user.id)));
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * The caller's notification preferences
+   * eventTypes lists the channels each type can use in the caller's business
+   * (types whose rules are all turned off are left out); critical types are
+   * always delivered whatever the preferences say.
+   */
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    const db = await requireDb();
+
+    const [preferences, mutes, timezone, rules] = await Promise.all([
+      db.query.notificationPreferences.findFirst({
+        where: eq(notificationPreferences.userId, ctx.user.id),
+      }),
+      db.query.notificationJobMutes.findMany({
+        where: eq(notificationJobMutes.userId, ctx.user.id),
+        columns: { jobId: true },
+      }),
+      getBusinessTimezone(db, ctx.user.businessId),
+      loadNotificationRules(db, ctx.user.businessId),
+    ]);
+    const criticalTypes = getCriticalNotificationTypes(rules);
+
+    return {
+      quietHours: preferences ? getQuietHours(preferences) : null,
+      channelOptOuts: preferences?.channelOptOuts ?? {},
+      mutedJobIds: mutes.map((mute: { jobId: string }) => mute.jobId),
+      timezone,
+      eventTypes: NOTIFICATION_TYPES.map((type) => ({
+        type,
+        channels: getChannelsForType(type, rules),
+        isCritical: criticalTypes.includes(type),
+      })).filter(({ channels }) => channels.length > 0),
+    };
+  }),
+
+  /**
+   * Update quiet hours and/or channel opt-outs
+   * Omitted fields are left as they are; quietHours: null turns quiet hours off.
+   */
+  updatePreferences: protectedProcedure
+    .input(
+      z.object({
+        quietHours: z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).nullable().optional(),
+        channelOptOuts: z.partialRecord(z.enum(NOTIFICATION_TYPES), z.array(z.enum(NOTIFICATION_CHANNELS))).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      const changes: Record<string, unknown> = {};
+      if (input.quietHours !== undefined) {
+        changes.quietHoursStart = input.quietHours?.start ?? null;
+        changes.quietHoursEnd = input.quietHours?.end ?? null;
+      }
+      if (input.channelOptOuts !== undefined) {
+        changes.channelOptOuts = input.channelOptOuts;
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await db
+          .insert(notificationPreferences)
+          .values({
+            id: `notifpref_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            businessId: ctx.user.businessId,
+            userId: ctx.user.id,
+            ...changes,
+          })
+          .onDuplicateKeyUpdate({ set: { ...changes, updatedAt: new Date() } });
+      }
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Stop notifications about a job (critical ones still come through)
+   */
+  muteJob: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      const job = await forBusiness(db, ctx.user.businessId).jobs.findFirst({
+        where: eq(cleaningJobs.id, input.jobId),
+        columns: { id: true },
+      });
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      }
+
+      await db
+        .insert(notificationJobMutes)
+        .values({
+          id: `mute_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          businessId: ctx.user.businessId,
+          userId: ctx.user.id,
+          jobId: input.jobId,
+        })
+        .onDuplicateKeyUpdate({ set: { jobId: input.jobId } }); // Already muted
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Resume notifications about a job
+   */
+  unmuteJob: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+
+      await db
+        .delete(notificationJobMutes)
+        .where(and(eq(notificationJobMutes.userId, ctx.user.id), eq(notificationJobMutes.jobId, input.jobId)));
+
+      return { success: true } as const;
+    }),
+});
@@ -1,8 +1,9 @@
-import { router, protectedProcedure } from "@/server/_core/trpc";
+import { router, authorizedProcedure } from "@/server/_core/trpc";
 import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { getDb } from "@/server/db";
-import { photos, jobs } from "@/server/db/schema";
+import { forBusiness } from "@/server/tenancy/tenant-db";
+import { media, cleaningJobs } from "@/drizzle/schema";
 import { randomUUID } from "crypto";
 
 /**
@@ -13,7 +14,7 @@ export const photosRouter = router({
    * Upload photo for a job
    * Expects base64 image data, stores in S3, returns URL
    */
-  uploadPhoto: protectedProcedure
+  uploadPhoto: authorizedProcedure("create", "job_photo")
     .input(
       z.object({
         jobId: z.string(),
@@ -26,29 +27,27 @@ export const photosRouter = router({
       if (!db) throw new Error("Database connection failed");
 
       const { jobId, imageBase64, room } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      // Verify job exists and belongs to user's company
-      const job = await db.query.jobs.findFirst({
-        where: eq(jobs.id, jobId),
+      // Verify job exists in user's business
+      const job = await tenant.jobs.findFirst({
+        where: eq(cleaningJobs.id, jobId),
       });
 
       if (!job) {
         throw new Error("Job not found");
       }
 
-      if (job.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
-      }
-
       // TODO: Upload to S3 and get URL
       // For now, use placeholder URL
       const photoUrl = `https://photos.example.com/${randomUUID()}.jpg`;
 
       // Store photo record
       const photoId = randomUUID();
-      await db.insert(photos).values({
+      await tenant.media.insert({
         id: photoId,
         jobId,
+        type: "photo",
         uri: photoUrl,
         room: room || null,
         uploadedAt: new Date(),
@@ -65,30 +64,27 @@ export const photosRouter = router({
   /**
    * Get all photos for a job
    */
-  getJobPhotos: protectedProcedure
+  getJobPhotos: authorizedProcedure("view", "job_photo")
     .input(z.object({ jobId: z.string() }))
     .query(async ({ input, ctx }: any) => {
       const db = (await getDb()) as any;
       if (!db) throw new Error("Database connection failed");
 
       const { jobId } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      // Verify job exists and user has access
-      const job = await db.query.jobs.findFirst({
-        where: eq(jobs.id, jobId),
+      // Verify job exists in user's business
+      const job = await tenant.jobs.findFirst({
+        where: eq(cleaningJobs.id, jobId),
       });
 
       if (!job) {
         throw new Error("Job not found");
       }
 
-      if (job.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
-      }
-
       // Fetch photos
-      const jobPhotos = await db.query.photos.findMany({
-        where: eq(photos.jobId, jobId),
+      const jobPhotos = await tenant.media.findMany({
+        where: and(eq(media.jobId, jobId), eq(media.type, "photo"), eq(media.isVoided, false)),
       });
 
       return jobPhotos;
@@ -97,34 +93,41 @@ export const photosRouter = router({
   /**
    * Delete photo (cleaner can delete before job completion)
    */
-  deletePhoto: protectedProcedure
+  deletePhoto: authorizedProcedure("delete", "job_photo")
     .input(z.object({ photoId: z.string(), jobId: z.string() }))
     .mutation(async ({ input, ctx }: any) => {
       const db = (await getDb()) as any;
       if (!db) throw new Error("Database connection failed");
 
       const { photoId, jobId } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      // Verify job exists and user has access
-      const job = await db.query.jobs.findFirst({
-        where: eq(jobs.id, jobId),
+      // Verify job exists in user's business
+      const job = await tenant.jobs.findFirst({
+        where: eq(cleaningJobs.id, jobId),
       });
 
       if (!job) {
         throw new Error("Job not found");
       }
 
-      if (job.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
-      }
-
       // Only allow deletion if job is not completed
       if (job.status === "completed") {
         throw new Error("Cannot delete photos from completed job");
       }
 
+      // Verify the photo belongs to this job
+      const photo = await tenant.media.findFirst({
+        where: and(eq(media.id, photoId), eq(media.jobId, jobId)),
+        columns: { id: true },
+      });
+
+      if (!photo) {
+        throw new Error("Photo not found");
+      }
+
       // Delete photo
-      await db.delete(photos).where(eq(photos.id, photoId));
+      await tenant.media.delete(and(eq(media.id, photoId), eq(media.jobId, jobId)));
 
       return { success: true };
     }),
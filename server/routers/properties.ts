@@ -1,8 +1,9 @@
-import { router, managerProcedure } from "@/server/_core/trpc";
+import { router, authorizedProcedure } from "@/server/_core/trpc";
 import { z } from "zod";
 import { eq } from "drizzle-orm";
 import { getDb } from "@/server/db";
-import { properties } from "@/server/db/schema";
+import { forBusiness } from "@/server/tenancy/tenant-db";
+import { properties } from "@/drizzle/schema";
 import { randomUUID } from "crypto";
 
 /**
@@ -10,15 +11,13 @@ import { randomUUID } from "crypto";
  */
 export const propertiesRouter = router({
   /**
-   * List all properties for manager's company
+   * List all properties for manager's business
    */
-  list: managerProcedure.query(async ({ ctx }: any) => {
+  list: authorizedProcedure("view", "property", "business").query(async ({ ctx }: any) => {
     const db = (await getDb()) as any;
     if (!db) throw new Error("Database connection failed");
 
-    const managerProperties = await db.query.properties.findMany({
-      where: eq(properties.companyId, ctx.user.companyId),
-    });
+    const managerProperties = await forBusiness(db, ctx.user.businessId).properties.findMany();
 
     return managerProperties;
   }),
@@ -26,15 +25,16 @@ export const propertiesRouter = router({
   /**
    * Get single property by ID
    */
-  getById: managerProcedure
+  getById: authorizedProcedure("view", "property")
     .input(z.object({ propertyId: z.string() }))
     .query(async ({ input, ctx }: any) => {
       const db = (await getDb()) as any;
       if (!db) throw new Error("Database connection failed");
 
       const { propertyId } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      const property = await db.query.properties.findFirst({
+      const property = await tenant.properties.findFirst({
         where: eq(properties.id, propertyId),
       });
 
@@ -42,17 +42,13 @@ export const propertiesRouter = router({
         throw new Error("Property not found");
       }
 
-      if (property.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
-      }
-
       return property;
     }),
 
   /**
    * Create new property
    */
-  create: managerProcedure
+  create: authorizedProcedure("create", "property")
     .input(
       z.object({
         name: z.string().min(1),
@@ -71,10 +67,8 @@ export const propertiesRouter = router({
       const propertyId = randomUUID();
       const { name, address, city, state, zipCode, unitType, notes } = input;
 
-      await db.insert(properties).values({
+      await forBusiness(db, ctx.user.businessId).properties.insert({
         id: propertyId,
-        companyId: ctx.user.companyId,
-        managerId: ctx.user.id,
         name,
         address,
         city: city || null,
@@ -101,7 +95,7 @@ export const propertiesRouter = router({
   /**
    * Update property
    */
-  update: managerProcedure
+  update: authorizedProcedure("update", "property")
     .input(
       z.object({
         propertyId: z.string(),
@@ -119,9 +113,10 @@ export const propertiesRouter = router({
       if (!db) throw new Error("Database connection failed");
 
       const { propertyId, ...updateData } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      // Verify property exists and belongs to manager's company
-      const property = await db.query.properties.findFirst({
+      // Verify property exists in manager's business
+      const property = await tenant.properties.findFirst({
         where: eq(properties.id, propertyId),
       });
 
@@ -129,10 +124,6 @@ export const propertiesRouter = router({
         throw new Error("Property not found");
       }
 
-      if (property.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
-      }
-
       // Build update object with only provided fields
       const updateFields: any = {
         updatedAt: new Date(),
@@ -146,10 +137,7 @@ export const propertiesRouter = router({
       if (updateData.unitType !== undefined) updateFields.unitType = updateData.unitType || null;
       if (updateData.notes !== undefined) updateFields.notes = updateData.notes || null;
 
-      await db
-        .update(properties)
-        .set(updateFields)
-        .where(eq(properties.id, propertyId));
+      await tenant.properties.update(updateFields, eq(properties.id, propertyId));
 
       return { success: true };
     }),
@@ -157,16 +145,17 @@ export const propertiesRouter = router({
   /**
    * Delete property (soft delete - just mark as deleted)
    */
-  delete: managerProcedure
+  delete: authorizedProcedure("delete", "property")
     .input(z.object({ propertyId: z.string() }))
     .mutation(async ({ input, ctx }: any) => {
       const db = (await getDb()) as any;
       if (!db) throw new Error("Database connection failed");
 
       const { propertyId } = input;
+      const tenant = forBusiness(db, ctx.user.businessId);
 
-      // Verify property exists and belongs to manager's company
-      const property = await db.query.properties.findFirst({
+      // Verify property exists in manager's business
+      const property = await tenant.properties.findFirst({
         where: eq(properties.id, propertyId),
       });
 
@@ -174,13 +163,9 @@ export const propertiesRouter = router({
         throw new Error("Property not found");
       }
 
-      if (property.companyId !== ctx.user.companyId) {
-        throw new Error("Unauthorized");
-      }
-
       // TODO: Check if property has active jobs before deletion
       // For now, just delete it
-      await db.delete(properties).where(eq(properties.id, propertyId));
+      await tenant.properties.delete(eq(properties.id, propertyId));
 
       return { success: true };
     }),
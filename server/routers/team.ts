@@ -0,0 +1,167 @@
+/**
+ * Team Router
+ *
+ * Manager view of the people in their business:
+ * - List members
+ * - See a member's signed-in devices
+ * - Force sign-out (lost or shared phone)
+ * - Deactivate / reactivate (deactivation signs the member out everywhere)
+ *
+ * All procedures are scoped to ctx.user.businessId.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq } from "drizzle-orm";
+import { authorizedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { users } from "../../drizzle/schema";
+import type { User } from "../../drizzle/schema";
+import { canManageMember } from "../auth/members";
+import { listUserSessions, revokeUserSessions } from "../auth/session";
+import { recordAuditEntry } from "../audit/log";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Load a member of the caller's business that the caller may manage
+ */
+async function getManageableMember(db: any, actor: User, userId: string): Promise<User> {
+  const [member] = (await db
+    .select()
+    .from(users)
+    .where(and(eq(users.id, userId), eq(users.businessId, actor.businessId)))
+    .limit(1)) as User[];
+
+  if (!member) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Team member not found" });
+  }
+
+  if (!canManageMember(actor, member)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You cannot manage this team member" });
+  }
+
+  return member;
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+export const teamRouter = router({
+  /**
+   * List members of the caller's business
+   */
+  listMembers: authorizedProcedure("view", "team_member", "business").query(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    const members = (await db
+      .select()
+      .from(users)
+      .where(eq(users.businessId, ctx.user.businessId))
+      .orderBy(asc(users.role), asc(users.email))) as User[];
+
+    return members.map((member) => ({
+      id: member.id,
+      email: member.email,
+      firstName: member.firstName,
+      lastName: member.lastName,
+      phone: member.phone,
+      role: member.role,
+      payType: member.payType,
+      isActive: member.isActive,
+      releaseCount: member.releaseCount, // Accepted jobs handed back
+      canManage: canManageMember(ctx.user, member),
+      createdAt: member.createdAt,
+    }));
+  }),
+
+  /**
+   * List a member's signed-in devices
+   */
+  listMemberSessions: authorizedProcedure("manage", "team_member")
+    .input(z.object({ userId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const member = await getManageableMember(db, ctx.user, input.userId);
+      return listUserSessions(db, member.id);
+    }),
+
+  /**
+   * Force sign-out a member on every device
+   */
+  signOutMember: authorizedProcedure("manage", "team_member")
+    .input(z.object({ userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const member = await getManageableMember(db, ctx.user, input.userId);
+      await revokeUserSessions(db, member.id, "revoked_by_manager");
+
+      console.log(`[Team] ${ctx.user.id} signed out ${member.id} on all devices`);
+
+      return { success: true } as const;
+    }),
+
+  /**
+   * Activate or deactivate a member
+   * Deactivation revokes every session so the member's phone stops working
+   * immediately, and is recorded in the audit log.
+   */
+  setActive: authorizedProcedure("manage", "team_member")
+    .input(
+      z.object({
+        userId: z.string(),
+        isActive: z.boolean(),
+        reason: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const member = await getManageableMember(db, ctx.user, input.userId);
+      if (member.isActive === input.isActive) {
+        return { success: true } as const;
+      }
+
+      await db.transaction(async (tx: any) => {
+        await tx
+          .update(users)
+          .set({ isActive: input.isActive, updatedAt: new Date() })
+          .where(eq(users.id, member.id));
+
+        if (!input.isActive) {
+          await revokeUserSessions(tx, member.id, "user_deactivated");
+          await recordAuditEntry(tx, {
+            actorId: ctx.user.id,
+            businessId: member.businessId,
+            action: "user_deactivated",
+            targetType: "user",
+            targetId: member.id,
+            details: { email: member.email, role: member.role, reason: input.reason ?? null },
+          });
+        }
+      });
+
+      console.log(`[Team] ${ctx.user.id} set ${member.id} isActive=${input.isActive}`);
+
+      return { success: true } as const;
+    }),
+});
+
+export type TeamRouter = typeof teamRouter;
@@ -0,0 +1,128 @@
+/**
+ * Two-Factor Router
+ *
+ * Self-service 2FA management for signed-in users. Mandatory enrollment for
+ * super managers and founders happens during login (auth.beginTwoFactorSetup /
+ * auth.completeTwoFactorSetup); this router covers everything after that.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorRecord,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "../auth/two-factor";
+
+export const twoFactorRouter = router({
+  /**
+   * Get 2FA status for the current user
+   */
+  status: protectedProcedure.query(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    const record = await getTwoFactorRecord(db, ctx.user.id);
+
+    return {
+      enabled: !!record?.enabledAt,
+      required: isTwoFactorRequired(ctx.user.role),
+      enabledAt: record?.enabledAt ?? null,
+      recoveryCodesRemaining: record?.enabledAt ? (record.recoveryCodeHashes ?? []).length : 0,
+    };
+  }),
+
+  /**
+   * Start enrollment (returns secret and QR payload)
+   */
+  beginEnrollment: protectedProcedure.mutation(async ({ ctx }) => {
+    const db = (await getDb()) as any;
+    if (!db) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    }
+
+    try {
+      return await beginTwoFactorEnrollment(db, ctx.user);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not start enrollment";
+      throw new TRPCError({ code: "BAD_REQUEST", message });
+    }
+  }),
+
+  /**
+   * Confirm enrollment with a first code (returns recovery codes, shown once)
+   */
+  confirmEnrollment: protectedProcedure
+    .input(z.object({ code: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      const recoveryCodes = await confirmTwoFactorEnrollment(db, ctx.user.id, input.code);
+      if (!recoveryCodes) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid authentication code" });
+      }
+
+      console.log(`[Auth] Two-factor enabled for ${ctx.user.id}`);
+
+      return { recoveryCodes };
+    }),
+
+  /**
+   * Replace recovery codes (requires a current authenticator code)
+   */
+  regenerateRecoveryCodes: protectedProcedure
+    .input(z.object({ code: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      if (!(await verifySecondFactor(db, ctx.user.id, { code: input.code }))) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid authentication code" });
+      }
+
+      return { recoveryCodes: await regenerateRecoveryCodes(db, ctx.user.id) };
+    }),
+
+  /**
+   * Disable 2FA (not allowed for roles that require it)
+   */
+  disable: protectedProcedure
+    .input(z.object({ code: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = (await getDb()) as any;
+      if (!db) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      }
+
+      if (isTwoFactorRequired(ctx.user.role)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Two-factor authentication is required for your role",
+        });
+      }
+
+      if (!(await verifySecondFactor(db, ctx.user.id, { code: input.code }))) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid authentication code" });
+      }
+
+      await disableTwoFactor(db, ctx.user.id);
+      console.log(`[Auth] Two-factor disabled for ${ctx.user.id}`);
+
+      return { success: true } as const;
+    }),
+});
+
+export type TwoFactorRouter = typeof twoFactorRouter;
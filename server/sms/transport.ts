@@ -0,0 +1,204 @@
+/**
+ * SMS Transport
+ *
+ * Pluggable outbound text messages. Selected by SMS_TRANSPORT:
+ * - "console" (default outside production): logs the message, for local development
+ * - "file": writes each message as JSON into SMS_OUTBOX_DIR, for QA
+ * - "twilio" (default in production): sends from SMS_FROM through Twilio (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN)
+ *
+ * A logged text would still count as delivered in the outbox, so in production
+ * a missing Twilio configuration makes every send fail instead: SMS rows retry
+ * and dead-letter while the rest of the server runs. SMS is optional, so this
+ * is only a warning at startup (warnIfSmsTransportUnconfigured).
+ *
+ * Tests install a CaptureSmsTransport with setSmsTransport() and inspect what was sent.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ENV } from "../_core/env";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SmsMessage {
+  from?: string; // Defaults to SMS_FROM
+  to: string; // E.164, e.g. +15551234567
+  body: string;
+}
+
+export interface SmsTransport {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+// ============================================================================
+// CONSOLE TRANSPORT
+// ============================================================================
+
+export class ConsoleSmsTransport implements SmsTransport {
+  readonly name = "console";
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[SMS] To: ${message.to}\n${message.body}`);
+  }
+}
+
+// ============================================================================
+// FILE TRANSPORT
+// ============================================================================
+
+export class FileSmsTransport implements SmsTransport {
+  readonly name = "file";
+
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}.json`;
+    const filePath = path.join(this.outboxDir, fileName);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      "utf8"
+    );
+
+    console.log(`[SMS] Wrote message for ${message.to} to ${filePath}`);
+  }
+}
+
+// ============================================================================
+// TWILIO TRANSPORT
+// ============================================================================
+
+export class TwilioSmsTransport implements SmsTransport {
+  readonly name = "twilio";
+
+  constructor(
+    private readonly accountSid: string,
+    private readonly authToken: string
+  ) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`;
+    const credentials = Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64");
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: message.to, From: message.from ?? "", Body: message.body }).toString(),
+    });
+
+    if (!response.ok) {
+      const result = (await response.json().catch(() => null)) as { message?: string } | null;
+      throw new Error(`Twilio rejected SMS to ${message.to} (${response.status}): ${result?.message ?? response.statusText}`);
+    }
+  }
+}
+
+// ============================================================================
+// UNCONFIGURED TRANSPORT
+// ============================================================================
+
+export class UnconfiguredSmsTransport implements SmsTransport {
+  readonly name = "unconfigured";
+
+  constructor(private readonly reason: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    throw new Error(`[SMS] Not sent to ${message.to}: ${this.reason}`);
+  }
+}
+
+// ============================================================================
+// CAPTURE TRANSPORT
+// ============================================================================
+
+export class CaptureSmsTransport implements SmsTransport {
+  readonly name = "capture";
+
+  readonly sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+let smsTransport: SmsTransport | null = null;
+
+function createDefaultTransport(): SmsTransport {
+  const configError = getSmsTransportConfigError();
+  if (configError) {
+    return new UnconfiguredSmsTransport(configError);
+  }
+  if (ENV.smsTransport === "file") {
+    return new FileSmsTransport(ENV.smsOutboxDir);
+  }
+  if (ENV.smsTransport === "twilio") {
+    return new TwilioSmsTransport(ENV.twilioAccountSid, ENV.twilioAuthToken);
+  }
+  return new ConsoleSmsTransport();
+}
+
+export function getSmsTransport(): SmsTransport {
+  if (!smsTransport) {
+    smsTransport = createDefaultTransport();
+  }
+  return smsTransport;
+}
+
+type SmsTransportConfig = Pick<
+  typeof ENV,
+  "isProduction" | "smsTransport" | "smsFrom" | "twilioAccountSid" | "twilioAuthToken"
+>;
+
+/**
+ * Why the configured transport cannot be used, or null if it can
+ */
+export function getSmsTransportConfigError(config: SmsTransportConfig = ENV): string | null {
+  if (!config.isProduction) return null;
+  if (config.smsTransport !== "twilio") {
+    return `SMS_TRANSPORT "${config.smsTransport}" would only log or store texts in production; use "twilio"`;
+  }
+
+  const missing = [
+    !config.twilioAccountSid && "TWILIO_ACCOUNT_SID",
+    !config.twilioAuthToken && "TWILIO_AUTH_TOKEN",
+    !config.smsFrom && "SMS_FROM",
+  ].filter(Boolean);
+  return missing.length > 0 ? `SMS_TRANSPORT is twilio but ${missing.join(", ")} not set` : null;
+}
+
+/**
+ * Warn at startup when texts would fail (see UnconfiguredSmsTransport)
+ */
+export function warnIfSmsTransportUnconfigured(config?: SmsTransportConfig): void {
+  const error = getSmsTransportConfigError(config);
+  if (error) {
+    console.warn(`[SMS] ${error}; text messages will fail and dead-letter until it is fixed`);
+  }
+}
+
+/**
+ * Replace the active transport (provider wiring, tests)
+ */
+export function setSmsTransport(transport: SmsTransport | null): void {
+  smsTransport = transport;
+}
+
+/**
+ * Send a text message through the active transport
+ */
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await getSmsTransport().send({ from: ENV.smsFrom, ...message });
+}
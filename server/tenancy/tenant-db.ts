@@ -0,0 +1,220 @@
+/**
+ * Tenant-Scoped Data Access
+ *
+ * Every read and write of business-owned rows goes through here so the
+ * caller's businessId is always part of the WHERE clause. Routers pass their
+ * own filters (id, status, assignee…) and never add the business condition
+ * themselves, which means a forgotten check cannot leak another tenant's data.
+ *
+ * Tables with a business_id column are filtered on it directly. Child tables
+ * (media, chat, invoice line items) are filtered through their parent row:
+ *   media.job_id IN (SELECT id FROM cleaning_jobs WHERE business_id = ?)
+ * and inserts into them are rejected unless the parent is in the business.
+ *
+ * Usage:
+ *   const tenant = forBusiness(db, ctx.user.businessId);
+ *   const job = await tenant.jobs.findFirst({ where: eq(cleaningJobs.id, jobId) });
+ *   await tenant.jobs.update({ status: "accepted" }, eq(cleaningJobs.id, jobId));
+ *
+ * Works the same with a transaction handle: forBusiness(tx, businessId).
+ */
+
+import { and, eq, inArray, type SQL } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import {
+  cleaningJobs,
+  invoiceLineItems,
+  invoices,
+  jobChat,
+  jobStatusHistory,
+  media,
+  properties,
+} from "../../drizzle/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options accepted by findFirst/findMany
+ * Same shape as drizzle's relational query options; `where` is combined with
+ * the tenant condition.
+ */
+export interface TenantQueryOptions {
+  where?: SQL;
+  columns?: Record<string, boolean>;
+  with?: Record<string, unknown>;
+  orderBy?: unknown;
+  limit?: number;
+}
+
+export interface TenantTable {
+  /** The tenant condition, optionally combined with more conditions */
+  where(...conditions: (SQL | undefined)[]): SQL;
+  findFirst(options?: TenantQueryOptions): Promise<any | undefined>;
+  findMany(options?: TenantQueryOptions): Promise<any[]>;
+  /** Insert rows (businessId is stamped / parent ownership is verified) */
+  insert(values: Record<string, unknown> | Record<string, unknown>[]): Promise<unknown>;
+  /** Update rows matching `where` inside the business (businessId cannot be changed) */
+  update(values: Record<string, unknown>, where?: SQL): Promise<unknown>;
+  /** Delete rows matching `where` inside the business */
+  delete(where?: SQL): Promise<unknown>;
+}
+
+export interface TenantDb {
+  businessId: string;
+  jobs: TenantTable;
+  properties: TenantTable;
+  invoices: TenantTable;
+  invoiceLineItems: TenantTable;
+  media: TenantTable;
+  chat: TenantTable;
+  statusHistory: TenantTable;
+}
+
+interface ParentLink {
+  column: string; // Property on the child row pointing at the parent
+  table: TenantTableKey;
+  notFound: string;
+}
+
+interface TenantTableConfig {
+  table: any;
+  query: string; // db.query.* key
+  scope: (db: any, businessId: string) => SQL;
+  parent?: ParentLink;
+}
+
+type TenantTableKey = Exclude<keyof TenantDb, "businessId">;
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+const jobIdsInBusiness = (db: any, businessId: string) =>
+  db.select({ id: cleaningJobs.id }).from(cleaningJobs).where(eq(cleaningJobs.businessId, businessId));
+
+const TENANT_TABLES: Record<TenantTableKey, TenantTableConfig> = {
+  jobs: {
+    table: cleaningJobs,
+    query: "cleaningJobs",
+    scope: (_db, businessId) => eq(cleaningJobs.businessId, businessId),
+  },
+  properties: {
+    table: properties,
+    query: "properties",
+    scope: (_db, businessId) => eq(properties.businessId, businessId),
+  },
+  invoices: {
+    table: invoices,
+    query: "invoices",
+    scope: (_db, businessId) => eq(invoices.businessId, businessId),
+  },
+  invoiceLineItems: {
+    table: invoiceLineItems,
+    query: "invoiceLineItems",
+    scope: (db, businessId) =>
+      inArray(
+        invoiceLineItems.invoiceId,
+        db.select({ id: invoices.id }).from(invoices).where(eq(invoices.businessId, businessId))
+      ),
+    parent: { column: "invoiceId", table: "invoices", notFound: "Invoice not found" },
+  },
+  media: {
+    table: media,
+    query: "media",
+    scope: (db, businessId) => inArray(media.jobId, jobIdsInBusiness(db, businessId)),
+    parent: { column: "jobId", table: "jobs", notFound: "Job not found" },
+  },
+  chat: {
+    table: jobChat,
+    query: "jobChat",
+    scope: (db, businessId) => inArray(jobChat.jobId, jobIdsInBusiness(db, businessId)),
+    parent: { column: "jobId", table: "jobs", notFound: "Job not found" },
+  },
+  statusHistory: {
+    table: jobStatusHistory,
+    query: "jobStatusHistory",
+    scope: (_db, businessId) => eq(jobStatusHistory.businessId, businessId),
+  },
+};
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+function createTenantTable(db: any, businessId: string, key: TenantTableKey): TenantTable {
+  const config = TENANT_TABLES[key];
+  const hasBusinessColumn = !config.parent;
+
+  const where = (...conditions: (SQL | undefined)[]) =>
+    and(config.scope(db, businessId), ...conditions) as SQL;
+
+  const assertParentsInBusiness = async (rows: Record<string, unknown>[]) => {
+    const link = config.parent!;
+    const parent = TENANT_TABLES[link.table];
+    const parentIds = Array.from(new Set(rows.map((row) => row[link.column] as string)));
+
+    for (const parentId of parentIds) {
+      const found = parentId
+        ? await db.query[parent.query].findFirst({
+            where: and(parent.scope(db, businessId), eq(parent.table.id, parentId)),
+            columns: { id: true },
+          })
+        : null;
+
+      if (!found) {
+        throw new TRPCError({ code: "NOT_FOUND", message: link.notFound });
+      }
+    }
+  };
+
+  return {
+    where,
+
+    findFirst: (options = {}) =>
+      db.query[config.query].findFirst({ ...options, where: where(options.where) }),
+
+    findMany: (options = {}) =>
+      db.query[config.query].findMany({ ...options, where: where(options.where) }),
+
+    insert: async (values) => {
+      const rows = Array.isArray(values) ? values : [values];
+
+      if (hasBusinessColumn) {
+        return db.insert(config.table).values(rows.map((row) => ({ ...row, businessId })));
+      }
+
+      await assertParentsInBusiness(rows);
+      return db.insert(config.table).values(rows);
+    },
+
+    update: (values, condition) => {
+      const { businessId: _ignored, ...changes } = values;
+      return db.update(config.table).set(changes).where(where(condition));
+    },
+
+    delete: (condition) => db.delete(config.table).where(where(condition)),
+  };
+}
+
+/**
+ * Data access for one business
+ */
+export function forBusiness(db: any, businessId: string): TenantDb {
+  if (!businessId) {
+    // Never fall back to an unscoped query
+    throw new TRPCError({ code: "FORBIDDEN", message: "No business context" });
+  }
+
+  return {
+    businessId,
+    jobs: createTenantTable(db, businessId, "jobs"),
+    properties: createTenantTable(db, businessId, "properties"),
+    invoices: createTenantTable(db, businessId, "invoices"),
+    invoiceLineItems: createTenantTable(db, businessId, "invoiceLineItems"),
+    media: createTenantTable(db, businessId, "media"),
+    chat: createTenantTable(db, businessId, "chat"),
+    statusHistory: createTenantTable(db, businessId, "statusHistory"),
+  };
+}
@@ -1,5 +1,10 @@
 export const COOKIE_NAME = "app_session_id";
+export const REFRESH_COOKIE_NAME = "app_session_refresh";
 export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
+export const SESSION_ACCESS_TTL_MS = 1000 * 60 * 60; // 1 hour
+export const SESSION_REFRESH_TTL_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = "Please login (10001)";
 export const NOT_ADMIN_ERR_MSG = "You do not have required permission (10002)";
+export const BUSINESS_SUSPENDED_ERR_MSG = "Business account suspended (10003)";
+export const BUSINESS_PENDING_ERR_MSG = "Business account pending activation (10004)";
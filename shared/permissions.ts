@@ -0,0 +1,253 @@
+/**
+ * Permission Policy
+ *
+ * Single declarative source of who may do what: role → action → resource,
+ * each grant carrying the scope it applies in. The server enforces it
+ * (authorizedProcedure / assertPermission) and the client reads the same
+ * table to hide actions the user cannot take.
+ *
+ * Scopes:
+ * - global:            any business (founder oversight)
+ * - business:          resources in the actor's own business
+ * - own:               resources in the actor's business that belong to the actor
+ * - own_or_unassigned: as `own`, or not yet assigned to anyone (open jobs)
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PermissionRole = "founder" | "super_manager" | "manager" | "cleaner";
+
+export type PermissionAction =
+  | "view"
+  | "create"
+  | "update"
+  | "delete"
+  | "accept"
+  | "start"
+  | "complete"
+  | "assign"
+  | "cancel"
+  | "override"
+  | "submit"
+  | "manage";
+
+export type PermissionResource =
+  | "job"
+  | "job_photo"
+  | "invoice"
+  | "property"
+  | "team_member"
+  | "invitation"
+  | "api_key"
+  | "integration"
+  | "login_lock"
+  | "business"
+  | "audit_log"
+  | "legal_record"
+  | "system_metrics"
+  | "notification_outbox"
+  | "notification_rule"
+  | "job_chat";
+
+export type PermissionScope = "global" | "business" | "own" | "own_or_unassigned";
+
+export type PermissionPolicy = Record<
+  PermissionRole,
+  Partial<Record<PermissionAction, Partial<Record<PermissionResource, PermissionScope>>>>
+>;
+
+export interface PermissionActor {
+  id: string;
+  role: string;
+  businessId: string | null;
+}
+
+/**
+ * The resource being acted on, when known
+ * ownerId is whoever the resource belongs to (assigned cleaner, invoice cleaner, uploader).
+ */
+export interface PermissionTarget {
+  businessId: string | null;
+  ownerId?: string | null;
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+const MANAGER_RULES: PermissionPolicy["manager"] = {
+  view: {
+    job: "business",
+    job_photo: "business",
+    property: "business",
+    team_member: "business",
+    invitation: "business",
+    integration: "business",
+    business: "business",
+    job_chat: "business",
+  },
+  create: { job: "business", property: "business", invitation: "business", job_chat: "business" },
+  update: { property: "business" },
+  delete: { property: "business" },
+  assign: { job: "business" },
+  cancel: { job: "business" },
+  override: { job: "business" },
+  manage: { team_member: "business", invitation: "business" },
+};
+
+export const PERMISSION_POLICY: PermissionPolicy = {
+  founder: {
+    view: {
+      business: "global",
+      audit_log: "global",
+      legal_record: "global",
+      system_metrics: "global",
+      notification_outbox: "global",
+    },
+    manage: { business: "global", notification_outbox: "global" },
+  },
+  super_manager: {
+    ...MANAGER_RULES,
+    view: {
+      ...MANAGER_RULES.view,
+      api_key: "business",
+      login_lock: "business",
+      notification_rule: "business",
+      legal_record: "global",
+      system_metrics: "global",
+    },
+    update: { ...MANAGER_RULES.update, business: "business" },
+    manage: { ...MANAGER_RULES.manage, api_key: "business", login_lock: "business", notification_rule: "business" },
+  },
+  manager: MANAGER_RULES,
+  cleaner: {
+    view: { job: "own_or_unassigned", job_photo: "own", invoice: "own", job_chat: "own" },
+    accept: { job: "own_or_unassigned" },
+    start: { job: "own" },
+    complete: { job: "own" },
+    create: { job_photo: "own", job_chat: "own" },
+    delete: { job_photo: "own" },
+    submit: { invoice: "own" },
+  },
+};
+
+const RESOURCE_LABELS: Record<PermissionResource, string> = {
+  job: "jobs",
+  job_photo: "job photos",
+  invoice: "invoices",
+  property: "properties",
+  team_member: "team members",
+  invitation: "invitations",
+  api_key: "API keys",
+  integration: "integrations",
+  login_lock: "account lockouts",
+  business: "businesses",
+  audit_log: "the audit log",
+  legal_record: "legal records",
+  system_metrics: "system metrics",
+  notification_outbox: "notification deliveries",
+  notification_rule: "notification rules",
+  job_chat: "job chats",
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Scope a role is granted for an action on a resource (null = not granted)
+ */
+export function getPermissionScope(
+  role: string,
+  action: PermissionAction,
+  resource: PermissionResource,
+  policy: PermissionPolicy = PERMISSION_POLICY
+): PermissionScope | null {
+  return policy[role as PermissionRole]?.[action]?.[resource] ?? null;
+}
+
+/**
+ * Whether a scope covers a specific resource
+ */
+export function isInScope(scope: PermissionScope, actor: PermissionActor, target: PermissionTarget): boolean {
+  if (scope === "global") return true;
+  if (!actor.businessId || target.businessId !== actor.businessId) return false;
+  if (scope === "business") return true;
+  if (scope === "own") return target.ownerId === actor.id;
+  return target.ownerId == null || target.ownerId === actor.id;
+}
+
+// Broader scopes include the narrower ones
+const SCOPE_BREADTH: Record<PermissionScope, number> = {
+  own: 0,
+  own_or_unassigned: 1,
+  business: 2,
+  global: 3,
+};
+
+/**
+ * Whether a granted scope is at least as broad as the required one
+ */
+export function coversScope(granted: PermissionScope, required: PermissionScope): boolean {
+  return SCOPE_BREADTH[granted] >= SCOPE_BREADTH[required];
+}
+
+/**
+ * Check a permission
+ * Without a target this answers "can this role ever do this?" (procedure gates,
+ * hiding buttons); with a target it also applies the scope.
+ */
+export function can(
+  actor: PermissionActor | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource,
+  target?: PermissionTarget,
+  policy: PermissionPolicy = PERMISSION_POLICY
+): boolean {
+  if (!actor) return false;
+
+  const scope = getPermissionScope(actor.role, action, resource, policy);
+  if (!scope) return false;
+
+  return target ? isInScope(scope, actor, target) : true;
+}
+
+/**
+ * Whether the actor's grant spans at least the given scope
+ * Used by list endpoints that return every record in the business.
+ */
+export function canWithScope(
+  actor: PermissionActor | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource,
+  minimumScope: PermissionScope,
+  policy: PermissionPolicy = PERMISSION_POLICY
+): boolean {
+  if (!actor) return false;
+
+  const scope = getPermissionScope(actor.role, action, resource, policy);
+  return !!scope && coversScope(scope, minimumScope);
+}
+
+/**
+ * Actions a role may take on a resource
+ */
+export function getAllowedActions(
+  role: string,
+  resource: PermissionResource,
+  policy: PermissionPolicy = PERMISSION_POLICY
+): PermissionAction[] {
+  const rules = policy[role as PermissionRole];
+  if (!rules) return [];
+
+  return (Object.keys(rules) as PermissionAction[]).filter((action) => !!rules[action]?.[resource]);
+}
+
+/**
+ * Human-readable denial message
+ */
+export function describePermission(action: PermissionAction, resource: PermissionResource): string {
+  return `You don't have permission to ${action} ${RESOURCE_LABELS[resource]}`;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "../server/routers";
+import type { TrpcContext } from "../server/_core/context";
+import {
+  INVITE_TTL_MS,
+  canInviteRole,
+  generateInviteToken,
+  getInvitationStatus,
+  hashInviteToken,
+} from "../server/auth/invitations";
+
+function createCleanerContext(): TrpcContext {
+  return {
+    user: {
+      id: "user_cleaner_1",
+      email: "cleaner@example.com",
+      businessId: "biz_1",
+      passwordHash: "",
+      firstName: "Casey",
+      lastName: null,
+      phone: null,
+      role: "cleaner",
+      payType: "per_job",
+      isActive: true,
+      releaseCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+describe("invitation status", () => {
+  const now = new Date("2026-01-10T12:00:00Z");
+  const pending = {
+    acceptedAt: null,
+    revokedAt: null,
+    expiresAt: new Date(now.getTime() + INVITE_TTL_MS),
+  };
+
+  it("is pending until it expires", () => {
+    expect(getInvitationStatus(pending, now)).toBe("pending");
+    expect(getInvitationStatus({ ...pending, expiresAt: now }, now)).toBe("expired");
+  });
+
+  it("treats accepted and revoked as terminal even after expiry", () => {
+    const expired = { ...pending, expiresAt: new Date(now.getTime() - 1) };
+
+    expect(getInvitationStatus({ ...expired, acceptedAt: now }, now)).toBe("accepted");
+    expect(getInvitationStatus({ ...expired, revokedAt: now }, now)).toBe("revoked");
+  });
+});
+
+describe("invitation permissions", () => {
+  it("lets super managers invite managers and cleaners", () => {
+    expect(canInviteRole("super_manager", "manager")).toBe(true);
+    expect(canInviteRole("super_manager", "cleaner")).toBe(true);
+  });
+
+  it("lets managers invite cleaners only", () => {
+    expect(canInviteRole("manager", "cleaner")).toBe(true);
+    expect(canInviteRole("manager", "manager")).toBe(false);
+  });
+
+  it("does not let cleaners invite anyone", () => {
+    expect(canInviteRole("cleaner", "cleaner")).toBe(false);
+  });
+
+  it("rejects invitations.create from a cleaner before touching the database", async () => {
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(caller.invitations.create({ email: "new@example.com" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+});
+
+describe("invite tokens", () => {
+  it("are random and stored only as a hash", () => {
+    const token = generateInviteToken();
+
+    expect(generateInviteToken()).not.toBe(token);
+    expect(hashInviteToken(token)).toBe(hashInviteToken(token));
+    expect(hashInviteToken(token)).not.toContain(token);
+  });
+});
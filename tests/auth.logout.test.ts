@@ -1,7 +1,16 @@
 import { describe, expect, it } from "vitest";
 import { appRouter } from "../server/routers";
-import { COOKIE_NAME } from "../shared/const";
+import { COOKIE_NAME, REFRESH_COOKIE_NAME } from "../shared/const";
 import type { TrpcContext } from "../server/_core/context";
+import * as schema from "../drizzle/schema";
+import {
+  hashRefreshToken,
+  generateRefreshToken,
+  readSessionToken,
+  refreshSession,
+  signSessionToken,
+  verifySessionToken,
+} from "../server/auth/session";
 
 type CookieCall = {
   name: string;
@@ -10,9 +19,9 @@ type CookieCall = {
 
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
-function createAuthContext(): { ctx: TrpcContext; clearedCookies: CookieCall[] } {
+async function createAuthContext(): Promise<{ ctx: TrpcContext; clearedCookies: CookieCall[] }> {
   const clearedCookies: CookieCall[] = [];
-  
+
   const user: AuthenticatedUser = {
     id: "user_test_123",
     email: "sample@example.com",
@@ -24,15 +33,28 @@ function createAuthContext(): { ctx: TrpcContext; clearedCookies: CookieCall[] }
     role: "cleaner",
     payType: "per_job",
     isActive: true,
+    releaseCount: 0,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
-  
+
+  const session = {
+    userId: user.id,
+    sessionId: "sess_test_123",
+    businessId: user.businessId,
+  };
+  const sessionToken = await signSessionToken(session);
+
   const ctx: TrpcContext = {
     user,
+    business: null,
+    session,
     req: {
       protocol: "https",
-      headers: {},
+      hostname: "localhost",
+      headers: {
+        authorization: `Bearer ${sessionToken}`,
+      },
     } as TrpcContext["req"],
     res: {
       clearCookie: (name: string, options: Record<string, unknown>) => {
@@ -40,21 +62,20 @@ function createAuthContext(): { ctx: TrpcContext; clearedCookies: CookieCall[] }
       },
     } as TrpcContext["res"],
   };
-  
+
   return { ctx, clearedCookies };
 }
 
-// TODO: Remove `.skip` below once you implement user authentication
-describe.skip("auth.logout", () => {
-  it("clears the session cookie and reports success", async () => {
-    const { ctx, clearedCookies } = createAuthContext();
+describe("auth.logout", () => {
+  it("clears the session cookies and reports success", async () => {
+    const { ctx, clearedCookies } = await createAuthContext();
     const caller = appRouter.createCaller(ctx);
 
     const result = await caller.auth.logout();
 
     expect(result).toEqual({ success: true });
-    expect(clearedCookies).toHaveLength(1);
-    expect(clearedCookies[0]?.name).toBe(COOKIE_NAME);
+    expect(clearedCookies).toHaveLength(2);
+    expect(clearedCookies.map((c) => c.name)).toEqual([COOKIE_NAME, REFRESH_COOKIE_NAME]);
     expect(clearedCookies[0]?.options).toMatchObject({
       maxAge: -1,
       secure: true,
@@ -63,4 +84,75 @@ describe.skip("auth.logout", () => {
       path: "/",
     });
   });
+
+  it("carries a session token that verifies to the logged-in user", async () => {
+    const { ctx } = await createAuthContext();
+
+    const token = readSessionToken(ctx.req);
+    expect(token).toBeTruthy();
+
+    const claims = await verifySessionToken(token!);
+    expect(claims).toEqual(ctx.session);
+  });
+});
+
+describe("session tokens", () => {
+  const claims = { userId: "user_1", sessionId: "sess_1", businessId: "biz_1" };
+
+  it("rejects expired tokens", async () => {
+    const token = await signSessionToken(claims, -1000);
+    expect(await verifySessionToken(token)).toBeNull();
+  });
+
+  it("rejects tampered tokens", async () => {
+    const token = await signSessionToken(claims);
+    const [header, payload, signature] = token.split(".");
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), sub: "user_2" })
+    ).toString("base64url");
+
+    expect(await verifySessionToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it("reads the token from the session cookie when no bearer header is sent", async () => {
+    const token = await signSessionToken(claims);
+    const req = { headers: { cookie: `${COOKIE_NAME}=${token}; other=1` } } as TrpcContext["req"];
+
+    expect(readSessionToken(req)).toBe(token);
+  });
+
+  it("gives a new refresh token to only one of two requests racing with the same one", async () => {
+    const refreshToken = generateRefreshToken();
+    const session = {
+      id: "sess_1",
+      userId: "user_1",
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    const user = { id: "user_1", businessId: "biz_1", isActive: true };
+    let rotations = 0;
+
+    // Both requests read the session before either rotates it
+    const db = {
+      select: () => ({
+        from: (table: unknown) => ({
+          where: () => ({ limit: async () => [table === schema.userSessions ? session : user] }),
+        }),
+      }),
+      update: () => ({ set: () => ({ where: async () => [{ affectedRows: rotations++ === 0 ? 1 : 0 }] }) }),
+    };
+
+    const results = await Promise.all([refreshSession(db, refreshToken), refreshSession(db, refreshToken)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it("hashes refresh tokens deterministically without storing them raw", () => {
+    const refreshToken = generateRefreshToken();
+
+    expect(hashRefreshToken(refreshToken)).toBe(hashRefreshToken(refreshToken));
+    expect(hashRefreshToken(refreshToken)).not.toContain(refreshToken);
+    expect(generateRefreshToken()).not.toBe(refreshToken);
+  });
 });
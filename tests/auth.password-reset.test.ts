@@ -0,0 +1,102 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  PASSWORD_RESET_TTL_MS,
+  generateResetToken,
+  hashResetToken,
+  isResetTokenUsable,
+} from "../server/auth/password-reset";
+import { buildPasswordResetEmail } from "../server/mail/templates";
+import {
+  FileMailTransport,
+  assertMailTransportConfigured,
+  getMailTransportConfigError,
+  sendMail,
+  setMailTransport,
+  type MailMessage,
+  type MailTransport,
+} from "../server/mail/transport";
+
+describe("reset tokens", () => {
+  const now = new Date("2026-01-10T12:00:00Z");
+
+  it("are usable until they expire or are used", () => {
+    const fresh = { usedAt: null, expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS) };
+
+    expect(isResetTokenUsable(fresh, now)).toBe(true);
+    expect(isResetTokenUsable({ ...fresh, usedAt: now }, now)).toBe(false);
+    expect(isResetTokenUsable({ ...fresh, expiresAt: now }, now)).toBe(false);
+  });
+
+  it("are random and stored only as a hash", () => {
+    const token = generateResetToken();
+
+    expect(generateResetToken()).not.toBe(token);
+    expect(hashResetToken(token)).not.toContain(token);
+  });
+});
+
+describe("password reset email", () => {
+  it("includes the code and expiry", () => {
+    const message = buildPasswordResetEmail({
+      to: "casey@example.com",
+      firstName: "Casey",
+      token: "abc123",
+      expiresInMinutes: 60,
+    });
+
+    expect(message.to).toBe("casey@example.com");
+    expect(message.text).toContain("Hi Casey,");
+    expect(message.text).toContain("abc123");
+    expect(message.text).toContain("60 minutes");
+  });
+});
+
+describe("mail transport", () => {
+  afterEach(() => {
+    setMailTransport(null);
+  });
+
+  it("sends through the installed transport with a default sender", async () => {
+    const sent: MailMessage[] = [];
+    const capture: MailTransport = {
+      name: "capture",
+      send: async (message) => {
+        sent.push(message);
+      },
+    };
+    setMailTransport(capture);
+
+    await sendMail({ to: "casey@example.com", subject: "Hello", text: "Body" });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: "casey@example.com", subject: "Hello" });
+    expect(sent[0]?.from).toBeTruthy();
+  });
+
+  it("writes messages to the outbox directory", async () => {
+    const outboxDir = await fs.mkdtemp(path.join(os.tmpdir(), "mail-outbox-"));
+    const transport = new FileMailTransport(outboxDir);
+
+    await transport.send({ to: "casey@example.com", subject: "Reset", text: "Code: abc123" });
+
+    const files = await fs.readdir(outboxDir);
+    expect(files).toHaveLength(1);
+
+    const written = JSON.parse(await fs.readFile(path.join(outboxDir, files[0]!), "utf8"));
+    expect(written).toMatchObject({ to: "casey@example.com", subject: "Reset", text: "Code: abc123" });
+
+    await fs.rm(outboxDir, { recursive: true, force: true });
+  });
+
+  it("must really send mail in production", () => {
+    const production = { isProduction: true, mailTransport: "smtp", smtpHost: "smtp.example.com" };
+
+    expect(getMailTransportConfigError(production)).toBeNull();
+    expect(getMailTransportConfigError({ ...production, mailTransport: "console" })).toContain('use "smtp"');
+    expect(() => assertMailTransportConfigured({ ...production, smtpHost: "" })).toThrow("SMTP_HOST is not set");
+    expect(getMailTransportConfigError({ ...production, isProduction: false, mailTransport: "console" })).toBeNull();
+  });
+});
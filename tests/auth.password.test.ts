@@ -0,0 +1,42 @@
+import crypto from "crypto";
+import { describe, expect, it } from "vitest";
+import { hashPassword, needsRehash, verifyPassword } from "../server/auth/password";
+
+describe("password hashing", () => {
+  it("produces salted, versioned scrypt hashes", async () => {
+    const first = await hashPassword("correct horse");
+    const second = await hashPassword("correct horse");
+
+    expect(first.startsWith("scrypt$v1$")).toBe(true);
+    expect(first).not.toBe(second);
+    expect(needsRehash(first)).toBe(false);
+  });
+
+  it("verifies the right password and rejects the wrong one", async () => {
+    const hash = await hashPassword("correct horse");
+
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("battery staple", hash)).toBe(false);
+  });
+
+  it("still verifies legacy SHA-256 hashes and flags them for rehash", async () => {
+    const legacy = crypto.createHash("sha256").update("password123").digest("hex");
+
+    expect(await verifyPassword("password123", legacy)).toBe(true);
+    expect(await verifyPassword("password124", legacy)).toBe(false);
+    expect(needsRehash(legacy)).toBe(true);
+  });
+
+  it("flags hashes with outdated parameters for rehash", async () => {
+    const hash = await hashPassword("correct horse");
+    const weaker = hash.replace("$16384$", "$1024$");
+
+    expect(needsRehash(weaker)).toBe(true);
+  });
+
+  it("never matches empty or malformed hashes", async () => {
+    expect(await verifyPassword("anything", "")).toBe(false);
+    expect(await verifyPassword("anything", "scrypt$v9$1$1$1$x$y")).toBe(false);
+    expect(await verifyPassword("anything", "not-a-hash")).toBe(false);
+  });
+});
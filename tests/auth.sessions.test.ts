@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "../server/routers";
+import type { TrpcContext } from "../server/_core/context";
+import { canManageMember } from "../server/auth/members";
+import { getSessionDevice } from "../server/auth/session";
+
+function createAnonymousContext(): TrpcContext {
+  return {
+    user: null,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+describe("session devices", () => {
+  it("combines the reported device with request details", () => {
+    const req = {
+      ip: "203.0.113.7",
+      headers: { "user-agent": "SimplyOrganized/1.0 (Android 14)" },
+    } as unknown as TrpcContext["req"];
+
+    expect(getSessionDevice(req, { name: "Samsung SM-G991U", platform: "android" })).toEqual({
+      deviceName: "Samsung SM-G991U",
+      platform: "android",
+      ipAddress: "203.0.113.7",
+      userAgent: "SimplyOrganized/1.0 (Android 14)",
+    });
+  });
+
+  it("tolerates clients that report nothing", () => {
+    const req = { headers: {} } as TrpcContext["req"];
+
+    expect(getSessionDevice(req)).toEqual({
+      deviceName: null,
+      platform: null,
+      ipAddress: null,
+      userAgent: null,
+    });
+  });
+
+  it("requires a signed-in user to list sessions", async () => {
+    const caller = appRouter.createCaller(createAnonymousContext());
+
+    await expect(caller.auth.listSessions()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
+
+describe("team member management", () => {
+  const superManager = { id: "u_super", role: "super_manager" as const, businessId: "biz_1" };
+  const manager = { id: "u_manager", role: "manager" as const, businessId: "biz_1" };
+  const cleaner = { id: "u_cleaner", role: "cleaner" as const, businessId: "biz_1" };
+
+  it("lets managers sign out cleaners in their business", () => {
+    expect(canManageMember(manager, cleaner)).toBe(true);
+    expect(canManageMember(superManager, cleaner)).toBe(true);
+    expect(canManageMember(superManager, manager)).toBe(true);
+  });
+
+  it("does not let managers act on peers, super managers or themselves", () => {
+    expect(canManageMember(manager, { ...manager, id: "u_manager_2" })).toBe(false);
+    expect(canManageMember(manager, superManager)).toBe(false);
+    expect(canManageMember(superManager, superManager)).toBe(false);
+    expect(canManageMember(cleaner, { ...cleaner, id: "u_cleaner_2" })).toBe(false);
+  });
+
+  it("never crosses business boundaries", () => {
+    expect(canManageMember(superManager, { ...cleaner, businessId: "biz_2" })).toBe(false);
+  });
+});
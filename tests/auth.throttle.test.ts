@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { LoginThrottle } from "../drizzle/schema";
+import {
+  THROTTLE_POLICY,
+  applyFailure,
+  checkResetThrottle,
+  combineDecisions,
+  computeBackoffMs,
+  computeLockoutMs,
+  evaluateThrottle,
+  recordLoginFailure,
+  recordResetRequest,
+  type ThrottleState,
+} from "../server/auth/throttle";
+
+const now = new Date("2026-01-10T12:00:00Z");
+
+function failTimes(scope: "email" | "ip", times: number, start: Date = now): ThrottleState | null {
+  let state: ThrottleState | null = null;
+  for (let i = 0; i < times; i++) {
+    state = applyFailure(scope, state, new Date(start.getTime() + i)).state;
+  }
+  return state;
+}
+
+describe("login backoff", () => {
+  it("allows the free attempts without delay", () => {
+    expect(computeBackoffMs("email", THROTTLE_POLICY.email.freeAttempts)).toBe(0);
+    expect(evaluateThrottle("email", failTimes("email", THROTTLE_POLICY.email.freeAttempts), now).allowed).toBe(true);
+  });
+
+  it("doubles the delay for each further failure, up to the cap", () => {
+    const free = THROTTLE_POLICY.email.freeAttempts;
+
+    expect(computeBackoffMs("email", free + 1)).toBe(THROTTLE_POLICY.baseDelayMs);
+    expect(computeBackoffMs("email", free + 2)).toBe(THROTTLE_POLICY.baseDelayMs * 2);
+    expect(computeBackoffMs("email", free + 3)).toBe(THROTTLE_POLICY.baseDelayMs * 4);
+    expect(computeBackoffMs("email", 1000)).toBe(THROTTLE_POLICY.maxDelayMs);
+  });
+
+  it("blocks attempts until the backoff has elapsed", () => {
+    const state = applyFailure("email", failTimes("email", THROTTLE_POLICY.email.freeAttempts), now).state;
+
+    const blocked = evaluateThrottle("email", state, now);
+    expect(blocked).toMatchObject({ allowed: false, reason: "backoff" });
+    expect(blocked.retryAfterMs).toBe(THROTTLE_POLICY.baseDelayMs);
+
+    expect(evaluateThrottle("email", state, new Date(now.getTime() + THROTTLE_POLICY.baseDelayMs)).allowed).toBe(true);
+  });
+
+  it("forgets failures outside the tracking window", () => {
+    const state = failTimes("email", THROTTLE_POLICY.email.lockoutThreshold - 1)!;
+    const later = new Date(now.getTime() + THROTTLE_POLICY.failureWindowMs + 60_000);
+
+    expect(evaluateThrottle("email", state, later).allowed).toBe(true);
+    expect(applyFailure("email", state, later).state.failureCount).toBe(1);
+  });
+});
+
+describe("login lockout", () => {
+  it("locks the key at the threshold and reports it", () => {
+    const beforeLock = failTimes("email", THROTTLE_POLICY.email.lockoutThreshold - 1);
+    const { state, locked } = applyFailure("email", beforeLock, now);
+
+    expect(locked).toBe(true);
+    expect(state.lockoutCount).toBe(1);
+    expect(state.lockedUntil!.getTime() - now.getTime()).toBe(THROTTLE_POLICY.lockoutDurationMs);
+    expect(evaluateThrottle("email", state, now)).toMatchObject({ allowed: false, reason: "locked" });
+  });
+
+  it("lengthens repeated lockouts up to the maximum", () => {
+    expect(computeLockoutMs(1)).toBe(THROTTLE_POLICY.lockoutDurationMs * 2);
+    expect(computeLockoutMs(50)).toBe(THROTTLE_POLICY.maxLockoutDurationMs);
+  });
+
+  it("uses a higher threshold for shared IPs than for a single email", () => {
+    const { locked } = applyFailure("ip", failTimes("ip", THROTTLE_POLICY.email.lockoutThreshold - 1), now);
+    expect(locked).toBe(false);
+  });
+});
+
+describe("combined decisions", () => {
+  it("applies the strictest of the email and IP decisions", () => {
+    const combined = combineDecisions([
+      { allowed: true, reason: null, retryAfterMs: 0 },
+      { allowed: false, reason: "backoff", retryAfterMs: 2000 },
+      { allowed: false, reason: "locked", retryAfterMs: 60_000 },
+    ]);
+
+    expect(combined).toEqual({ allowed: false, reason: "locked", retryAfterMs: 60_000 });
+  });
+});
+
+describe("recording failures", () => {
+  const recorded: { sql: string; params: unknown[] }[] = [];
+  let throttle: LoginThrottle;
+  let lockAffectedRows = 1;
+
+  // Rows come back as arrays in column order (mysql2 rowsAsArray)
+  const db = drizzle(
+    {
+      query: async (query: { sql: string }, params: unknown[] = []) => {
+        recorded.push({ sql: query.sql, params });
+        if (/^\s*select/i.test(query.sql)) {
+          const row = Object.keys(getTableColumns(schema.loginThrottles)).map((key) => (throttle as any)[key]);
+          return [[row], []];
+        }
+        if (/^\s*update `login_throttles`/i.test(query.sql)) return [{ affectedRows: lockAffectedRows }, undefined];
+        return [{ affectedRows: 1, insertId: 0 }, undefined];
+      },
+    } as any,
+    { schema, mode: "default" }
+  );
+
+  function counted(failureCount: number): LoginThrottle {
+    return {
+      id: "throttle_1",
+      scope: "email",
+      throttleKey: "sam@example.com",
+      failureCount,
+      lastFailureAt: now,
+      lockedUntil: null,
+      lockoutCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  const writes = () => recorded.filter((query) => !/^\s*select/i.test(query.sql));
+
+  beforeEach(() => {
+    recorded.length = 0;
+    lockAffectedRows = 1;
+  });
+
+  it("counts each failure in one statement so concurrent ones all count", async () => {
+    throttle = counted(2);
+
+    await recordLoginFailure(db, { email: "sam@example.com", ip: null, user: null });
+
+    const [count] = writes();
+    expect(count.sql).toMatch(/^\s*insert into `login_throttles`/i);
+    expect(count.sql).toMatch(/on duplicate key update `failure_count` = if\(`login_throttles`.`last_failure_at` > \?/);
+    expect(writes()).toHaveLength(1); // Below the threshold: nothing else written
+  });
+
+  it("locks the key and audits it once when the count reaches the threshold", async () => {
+    throttle = counted(THROTTLE_POLICY.email.lockoutThreshold);
+
+    await recordLoginFailure(db, { email: "sam@example.com", ip: null, user: null });
+    const [, lock, audit] = writes();
+    expect(lock.sql).toMatch(/^\s*update `login_throttles` set/i);
+    expect(lock.sql).toContain("and `login_throttles`.`lockout_count` = ?"); // Only if no one locked it meanwhile
+    expect(audit.sql).toMatch(/^\s*insert into `audit_log`/i);
+
+    // A concurrent failure that saw the same count finds the key already locked
+    recorded.length = 0;
+    lockAffectedRows = 0;
+    await recordLoginFailure(db, { email: "sam@example.com", ip: null, user: null });
+    expect(writes()).toHaveLength(2);
+  });
+
+  it("counts password reset requests under their own keys", async () => {
+    throttle = counted(THROTTLE_POLICY.email.lockoutThreshold);
+
+    await recordResetRequest(db, { email: "sam@example.com", ip: "203.0.113.7" });
+
+    const counts = writes().filter((query) => /^\s*insert into `login_throttles`/i.test(query.sql));
+    expect(counts.map((query) => query.params[2])).toEqual(["reset:sam@example.com", "reset:203.0.113.7"]);
+    expect(writes().some((query) => /audit_log/.test(query.sql))).toBe(false);
+  });
+
+  it("refuses password resets for a locked email", async () => {
+    throttle = { ...counted(0), lockedUntil: new Date(Date.now() + 60_000), lockoutCount: 1 };
+
+    const decision = await checkResetThrottle(db, { email: "sam@example.com", ip: null });
+
+    expect(decision).toMatchObject({ allowed: false, reason: "locked" });
+    expect(recorded[0]?.params).toContain("reset:sam@example.com");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { verifySessionToken } from "../server/auth/session";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode,
+  isTwoFactorRequired,
+  signTwoFactorChallenge,
+  verifyTotp,
+  verifyTwoFactorChallenge,
+} from "../server/auth/two-factor";
+
+// RFC 6238 test secret ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP", () => {
+  it("matches the RFC 6238 SHA-1 test vector", () => {
+    expect(generateTotp(RFC_SECRET, new Date(59 * 1000))).toBe("287082");
+    expect(generateTotp(RFC_SECRET, new Date(1111111109 * 1000))).toBe("081804");
+  });
+
+  it("round-trips base32 secrets", () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]+$/);
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+  });
+
+  it("accepts one step of clock drift and nothing beyond", () => {
+    const now = new Date("2026-03-01T09:00:00Z");
+    const step = getTotpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() - 30_000)), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() + 30_000)), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, new Date(now.getTime() - 90_000)), now)).toBeNull();
+  });
+
+  it("rejects a code that was already used", () => {
+    const now = new Date("2026-03-01T09:00:00Z");
+    const code = generateTotp(RFC_SECRET, now);
+    const usedStep = verifyTotp(RFC_SECRET, code, now);
+
+    expect(usedStep).toBe(getTotpStep(now));
+    expect(verifyTotp(RFC_SECRET, code, now, usedStep)).toBeNull();
+  });
+
+  it("rejects malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef")).toBeNull();
+  });
+
+  it("builds an authenticator URI", () => {
+    const url = buildOtpauthUrl("JBSWY3DPEHPK3PXP", "owner@example.com");
+
+    expect(url).toMatch(/^otpauth:\/\/totp\/Simply%20Organized%3Aowner%40example\.com\?/);
+    expect(url).toContain("secret=JBSWY3DPEHPK3PXP");
+  });
+});
+
+describe("secret storage", () => {
+  it("encrypts secrets at rest", () => {
+    const secret = generateTotpSecret();
+    const encrypted = encryptTotpSecret(secret);
+
+    expect(encrypted).not.toContain(secret);
+    expect(decryptTotpSecret(encrypted)).toBe(secret);
+  });
+
+  it("refuses tampered ciphertext", () => {
+    const encrypted = encryptTotpSecret(generateTotpSecret());
+    const [version, iv, tag, ciphertext] = encrypted.split(":");
+    const tampered = [version, iv, tag, ciphertext.slice(0, -2) + (ciphertext.endsWith("AA") ? "BB" : "AA")].join(":");
+
+    expect(() => decryptTotpSecret(tampered)).toThrow();
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct formatted codes", () => {
+    const codes = generateRecoveryCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+  });
+
+  it("hashes codes regardless of case and separators", () => {
+    expect(hashRecoveryCode("ABCDE-FGHIJ")).toBe(hashRecoveryCode("abcde fghij"));
+    expect(hashRecoveryCode("abcde-fghij")).not.toBe(hashRecoveryCode("abcde-fghik"));
+  });
+});
+
+describe("login challenges", () => {
+  it("is required for super managers and founders only", () => {
+    expect(isTwoFactorRequired("super_manager")).toBe(true);
+    expect(isTwoFactorRequired("founder")).toBe(true);
+    expect(isTwoFactorRequired("manager")).toBe(false);
+    expect(isTwoFactorRequired("cleaner")).toBe(false);
+  });
+
+  it("only verifies for the purpose it was issued for", async () => {
+    const token = await signTwoFactorChallenge("user_1", "verify");
+
+    await expect(verifyTwoFactorChallenge(token, "verify")).resolves.toBe("user_1");
+    await expect(verifyTwoFactorChallenge(token, "enroll")).resolves.toBeNull();
+  });
+
+  it("cannot be used as a session token", async () => {
+    const token = await signTwoFactorChallenge("user_1", "verify");
+
+    await expect(verifySessionToken(token)).resolves.toBeNull();
+  });
+});
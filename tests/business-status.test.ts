@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "../server/routers";
+import type { TrpcContext } from "../server/_core/context";
+import type { Business } from "../drizzle/schema";
+import { BUSINESS_PENDING_ERR_MSG, BUSINESS_SUSPENDED_ERR_MSG } from "../shared/const";
+import { getBusinessAccess, getBusinessAccessError } from "../server/auth/business-status";
+
+function createCleanerContext(status: Business["status"]): TrpcContext {
+  const now = new Date();
+
+  return {
+    user: {
+      id: "user_cleaner_1",
+      email: "cleaner@example.com",
+      businessId: "biz_1",
+      passwordHash: "",
+      firstName: "Casey",
+      lastName: null,
+      phone: null,
+      role: "cleaner",
+      payType: "per_job",
+      isActive: true,
+      releaseCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    },
+    business: {
+      id: "biz_1",
+      name: "Sparkle Co",
+      email: "owner@example.com",
+      phone: null,
+      address: null,
+      city: null,
+      state: null,
+      zipCode: null,
+      country: "US",
+      timezone: "America/Los_Angeles",
+      accessDeniedTripFee: null,
+      jobReleaseCutoffHours: 12,
+      isSandbox: false,
+      status,
+      activatedAt: null,
+      suspendedAt: null,
+      suspensionReason: null,
+      createdAt: now,
+      updatedAt: now,
+    },
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: () => undefined } as unknown as TrpcContext["res"],
+  };
+}
+
+function createManagerContext(status: Business["status"]): TrpcContext {
+  const ctx = createCleanerContext(status);
+  return { ...ctx, user: { ...ctx.user!, id: "user_manager_1", role: "manager" } };
+}
+
+describe("business access rules", () => {
+  it("maps status to access", () => {
+    expect(getBusinessAccess("active")).toBe("full");
+    expect(getBusinessAccess("pending")).toBe("read_only");
+    expect(getBusinessAccess("suspended")).toBe("blocked");
+  });
+
+  it("blocks suspended businesses and makes pending ones read-only", () => {
+    expect(getBusinessAccessError("suspended", "query", "jobs.listForCleaner")).toBe(BUSINESS_SUSPENDED_ERR_MSG);
+    expect(getBusinessAccessError("pending", "query", "jobs.listForCleaner")).toBeNull();
+    expect(getBusinessAccessError("pending", "mutation", "jobs.accept")).toBe(BUSINESS_PENDING_ERR_MSG);
+    expect(getBusinessAccessError("active", "mutation", "jobs.accept")).toBeNull();
+  });
+
+  it("keeps sign-in, session and status endpoints reachable", () => {
+    expect(getBusinessAccessError("suspended", "mutation", "auth.logout")).toBeNull();
+    expect(getBusinessAccessError("suspended", "query", "business.getStatus")).toBeNull();
+    expect(getBusinessAccessError("suspended", "mutation", "twoFactor.disable")).toBeNull();
+  });
+
+  it("does not exempt the rest of the business router", () => {
+    expect(getBusinessAccessError("pending", "mutation", "business.updateJobSettings")).toBe(BUSINESS_PENDING_ERR_MSG);
+    expect(getBusinessAccessError("suspended", "query", "business.getJobSettings")).toBe(BUSINESS_SUSPENDED_ERR_MSG);
+  });
+});
+
+describe("business status middleware", () => {
+  it("rejects suspended businesses with a routable error", async () => {
+    const caller = appRouter.createCaller(createCleanerContext("suspended"));
+
+    await expect(caller.jobs.listForCleaner()).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: BUSINESS_SUSPENDED_ERR_MSG,
+    });
+    await expect(caller.invoices.getCurrent()).rejects.toMatchObject({ message: BUSINESS_SUSPENDED_ERR_MSG });
+  });
+
+  it("rejects writes from pending businesses", async () => {
+    const caller = appRouter.createCaller(createCleanerContext("pending"));
+
+    await expect(caller.jobs.accept({ jobId: "job_1" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: BUSINESS_PENDING_ERR_MSG,
+    });
+  });
+
+  it("keeps pending businesses from changing job settings", async () => {
+    const caller = appRouter.createCaller(createManagerContext("pending"));
+
+    await expect(caller.business.updateJobSettings({ accessDeniedTripFee: 25 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: BUSINESS_PENDING_ERR_MSG,
+    });
+  });
+
+  it("lets suspended users sign out", async () => {
+    const caller = appRouter.createCaller(createCleanerContext("suspended"));
+
+    await expect(caller.auth.logout()).resolves.toMatchObject({ success: true });
+  });
+});
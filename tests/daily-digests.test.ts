@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { User } from "../drizzle/schema";
+
+/**
+ * Daily Digest Tests
+ *
+ * Digests fall due at a local time in the business timezone, group a
+ * cleaner's jobs for the next day, and summarise what needs a manager's
+ * attention. The database is a recording stand-in: the businesses select
+ * returns one Los Angeles business and digest run selects return `runs`.
+ */
+
+const recorded: { sql: string; params: unknown[] }[] = [];
+let runs: unknown[][] = [];
+let claimedElsewhere = false;
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/^\s*select .* from `businesses`/i.test(query.sql)) return [[["biz_1", "America/Los_Angeles"]], []];
+    if (/^\s*select .* from `notification_digest_runs`/i.test(query.sql)) return [runs, []];
+    if (/^\s*select/i.test(query.sql)) return [[], []];
+    if (claimedElsewhere && /^\s*insert into `notification_digest_runs`/i.test(query.sql)) {
+      const error = new Error("Duplicate entry for key 'notification_digest_runs_run_unique'");
+      throw Object.assign(error, { code: "ER_DUP_ENTRY", errno: 1062 });
+    }
+    return [{ affectedRows: 1, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { DailyDigestScheduler, buildCleanerDigests, buildManagerDigest, getDueDigests } = await import(
+  "../server/notifications/digests"
+);
+const { getNotificationRulesForEvent } = await import("../server/notifications/events");
+type DigestJob = import("../server/notifications/events").DigestJob;
+
+const LA = "America/Los_Angeles";
+const NOW = new Date("2026-10-19T01:30:00Z"); // 18:30 on Oct 18 in Los Angeles
+
+function createUser(id: string, role: User["role"], firstName: string): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const sam = createUser("cleaner_1", "cleaner", "Sam");
+const kim = createUser("cleaner_2", "cleaner", "Kim");
+
+function createJob(overrides: Partial<DigestJob>): DigestJob {
+  return {
+    jobId: "job_1",
+    propertyName: "Beach House",
+    address: "1 Ocean Ave, Santa Monica",
+    cleaningDate: new Date("2026-10-19T18:00:00Z"),
+    status: "accepted",
+    cleanerId: sam.id,
+    cleanerName: "Sam",
+    guestCount: 4,
+    hasPets: false,
+    instructions: null,
+    sameDayCheckIn: false,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  recorded.length = 0;
+  runs = [];
+  claimedElsewhere = false;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("getDueDigests", () => {
+  it("is due once the local send time has passed", () => {
+    expect(getDueDigests(new Date("2026-10-18T13:00:00Z"), LA)).toEqual([]); // 06:00
+    expect(getDueDigests(new Date("2026-10-18T15:00:00Z"), LA)).toEqual([
+      { kind: "manager", runDate: "2026-10-18", digestDate: "2026-10-18" },
+    ]);
+    expect(getDueDigests(NOW, LA)).toEqual([
+      { kind: "cleaner", runDate: "2026-10-18", digestDate: "2026-10-19" },
+      { kind: "manager", runDate: "2026-10-18", digestDate: "2026-10-18" },
+    ]);
+  });
+
+  it("reads the clock in the business timezone", () => {
+    // Already Oct 19, 10:30 in Tokyo: the manager digest is for that day
+    expect(getDueDigests(NOW, "Asia/Tokyo")).toEqual([
+      { kind: "manager", runDate: "2026-10-19", digestDate: "2026-10-19" },
+    ]);
+  });
+});
+
+describe("cleaner digest", () => {
+  it("sends each cleaner their own jobs with address, guests, pets and instructions", () => {
+    const digests = buildCleanerDigests(
+      "biz_1",
+      "2026-10-19",
+      [
+        createJob({ hasPets: true, instructions: "Extra towels", sameDayCheckIn: true }),
+        createJob({ jobId: "job_2", propertyName: "Lake Cabin", cleanerId: kim.id, cleanerName: "Kim" }),
+        createJob({ jobId: "job_3", cleanerId: null }),
+      ],
+      [sam, kim],
+      NOW
+    );
+
+    expect(digests.map((digest) => [digest.cleanerId, digest.jobCount])).toEqual([
+      [sam.id, 1],
+      [kim.id, 1],
+    ]);
+
+    const [rule] = getNotificationRulesForEvent(digests[0]);
+    expect(rule.recipientIds(digests[0], [sam, kim])).toEqual([sam.id]);
+    expect(rule.message(digests[0])).toContain("1 job on");
+    const body = rule.bodies!.in_app!(digests[0]);
+    expect(body).toContain("1. Beach House\n   1 Ocean Ave, Santa Monica");
+    expect(body).toContain("Guests: 4 · Pets · Next guests arrive the same day");
+    expect(body).toContain("Instructions: Extra towels");
+  });
+});
+
+describe("manager digest", () => {
+  it("lists unassigned, needs review and same-day turnovers", () => {
+    const digest = buildManagerDigest(
+      "biz_1",
+      "2026-10-18",
+      {
+        unassigned: [createJob({ status: "available", cleanerId: null, cleanerName: null })],
+        needsReview: [createJob({ jobId: "job_2", propertyName: "Lake Cabin", status: "needs_review" })],
+        today: [
+          createJob({ jobId: "job_3", propertyName: "City Loft", sameDayCheckIn: true }),
+          createJob({ jobId: "job_4", propertyName: "Hill House" }),
+        ],
+      },
+      NOW
+    );
+
+    expect(digest).toMatchObject({ unassignedCount: 1, needsReviewCount: 1, turnoverCount: 1 });
+
+    const [rule] = getNotificationRulesForEvent(digest!);
+    expect(rule.message(digest!)).toBe("1 unassigned, 1 needing review, 1 same-day turnover today");
+    const body = rule.bodies!.email!(digest!);
+    expect(body).toContain("Unassigned jobs (1):\n- Beach House");
+    expect(body).toContain("Needs review (1):\n- Lake Cabin");
+    expect(body).toContain("Same-day turnovers today (1):\n- City Loft (Sam)");
+    expect(body).not.toContain("Hill House");
+  });
+
+  it("is skipped when nothing needs attention", () => {
+    expect(buildManagerDigest("biz_1", "2026-10-18", { unassigned: [], needsReview: [], today: [] }, NOW)).toBeNull();
+  });
+});
+
+describe("scheduler", () => {
+  it("does not send a digest already sent for the local day", async () => {
+    runs = [
+      ["biz_1", "cleaner", "2026-10-18"],
+      ["biz_1", "manager", "2026-10-18"],
+    ];
+
+    expect(await new DailyDigestScheduler().runDue(NOW)).toEqual({ runs: 0, events: 0 });
+    expect(recorded.filter((query) => !/^\s*select/i.test(query.sql))).toHaveLength(0);
+  });
+
+  it("leaves a digest to the server that claimed it first", async () => {
+    claimedElsewhere = true;
+
+    expect(await new DailyDigestScheduler().runDue(NOW)).toEqual({ runs: 0, events: 0 });
+    const claims = recorded.filter((query) => /^\s*insert into `notification_digest_runs`/i.test(query.sql));
+    expect(claims).toHaveLength(2);
+    expect(claims[0].sql).not.toMatch(/on duplicate key/i); // Must fail on the existing row, not update it
+    expect(recorded.some((query) => query.sql.includes("`cleaning_jobs`"))).toBe(false);
+    expect(recorded.some((query) => /insert into `notification_outbox`/i.test(query.sql))).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "../server/routers";
+import type { TrpcContext } from "../server/_core/context";
+import { getAccessDeniedTripFee } from "../server/jobs/access-denied";
+import { getNextStatus } from "../server/jobs/state-machine";
+import { getNotificationRulesForEvent, type AccessDeniedEvent } from "../server/notifications/events";
+
+/**
+ * Access-Denied Reporting Tests
+ * Trip fee rules, transitions and the manager alert
+ */
+
+const property = { latitude: "37.77490000", longitude: "-122.41940000" };
+const business = { accessDeniedTripFee: "25.00" };
+const AT_THE_DOOR = { lat: 37.775, lng: -122.4194 }; // ~11m away
+const ACROSS_TOWN = { lat: 37.8, lng: -122.4194 }; // ~2.8km away
+
+function createCleanerContext(): TrpcContext {
+  return {
+    user: {
+      id: "cleaner_1",
+      email: "cleaner@example.com",
+      businessId: "biz_1",
+      passwordHash: "",
+      firstName: "Casey",
+      lastName: null,
+      phone: null,
+      role: "cleaner",
+      payType: "per_job",
+      isActive: true,
+      releaseCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+describe("trip fee", () => {
+  it("pays the configured fee when the cleaner was at the property", () => {
+    expect(getAccessDeniedTripFee(business, property, AT_THE_DOOR)).toMatchObject({
+      amount: 25,
+      gpsVerified: true,
+    });
+  });
+
+  it("pays nothing when the GPS is elsewhere", () => {
+    const decision = getAccessDeniedTripFee(business, property, ACROSS_TOWN);
+
+    expect(decision).toMatchObject({ amount: 0, gpsVerified: false });
+    expect(decision.distance).toBeGreaterThan(2000);
+  });
+
+  it("pays nothing when no fee is configured", () => {
+    expect(getAccessDeniedTripFee({ accessDeniedTripFee: null }, property, AT_THE_DOOR)).toMatchObject({
+      amount: 0,
+      gpsVerified: true,
+    });
+  });
+
+  it("cannot verify properties without coordinates", () => {
+    expect(getAccessDeniedTripFee(business, { latitude: null, longitude: null }, AT_THE_DOOR)).toEqual({
+      amount: 0,
+      gpsVerified: false,
+      distance: null,
+    });
+  });
+});
+
+describe("access-denied transitions", () => {
+  it("is reported on accepted jobs without changing status", () => {
+    expect(getNextStatus("accepted", "report_access_denied")).toBe("accepted");
+    expect(getNextStatus("in_progress", "report_access_denied")).toBeNull();
+  });
+
+  it("is resolved by rescheduling or reopening", () => {
+    expect(getNextStatus("accepted", "reschedule")).toBe("accepted");
+    expect(getNextStatus("accepted", "reopen")).toBe("available");
+    expect(getNextStatus("completed", "reschedule")).toBeNull();
+  });
+
+  it("requires details when the reason is 'other'", async () => {
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(
+      caller.jobs.reportAccessDenied({ jobId: "job_1", reason: "other", gpsLat: 0, gpsLng: 0 })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
+
+describe("manager alert", () => {
+  const event: AccessDeniedEvent = {
+    type: "access_denied",
+    jobId: "job_1",
+    businessId: "biz_1",
+    cleanerId: "cleaner_1",
+    cleanerName: "Casey",
+    propertyId: "prop_1",
+    propertyName: "Beach House",
+    reason: "lockbox_code_wrong",
+    gpsLat: AT_THE_DOOR.lat,
+    gpsLng: AT_THE_DOOR.lng,
+    timestamp: new Date(),
+  };
+
+  it("names the reason", () => {
+    const [rule] = getNotificationRulesForEvent(event);
+
+    expect(rule.isCritical).toBe(true);
+    expect(rule.message(event)).toBe("Casey could not access Beach House (lockbox code wrong)");
+    expect(rule.message({ ...event, reason: "other", notes: "Gate chained shut" })).toContain("Gate chained shut");
+  });
+});
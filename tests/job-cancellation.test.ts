@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import { getCancellationFee } from "../server/jobs/cancellation";
+import { getNextStatus } from "../server/jobs/state-machine";
+import { voidJobLineItems } from "../server/jobs/invoicing";
+import type { TenantDb } from "../server/tenancy/tenant-db";
+
+/**
+ * Job Cancellation Tests
+ * Fee rules, allowed transitions and voiding of invoiced pay
+ */
+
+const NOW = new Date("2026-10-18T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    status: "accepted" as const,
+    price: "80.00",
+    cleaningDate: new Date(NOW.getTime() + 48 * HOUR),
+    assignedCleanerId: "cleaner_1",
+    ...overrides,
+  } as Parameters<typeof getCancellationFee>[0];
+}
+
+describe("cancellation fees", () => {
+  it("charges nothing for unassigned jobs", () => {
+    expect(getCancellationFee(job({ status: "available", assignedCleanerId: null }), NOW)).toBe(0);
+  });
+
+  it("charges nothing with more than 24 hours' notice", () => {
+    expect(getCancellationFee(job(), NOW)).toBe(0);
+  });
+
+  it("charges half the price for late cancellations", () => {
+    expect(getCancellationFee(job({ cleaningDate: new Date(NOW.getTime() + 6 * HOUR) }), NOW)).toBe(40);
+    expect(getCancellationFee(job({ cleaningDate: new Date(NOW.getTime() - HOUR) }), NOW)).toBe(40);
+  });
+
+  it("charges the full price once the cleaner has started", () => {
+    expect(getCancellationFee(job({ status: "in_progress" }), NOW)).toBe(80);
+    expect(getCancellationFee(job({ status: "needs_review" }), NOW)).toBe(80);
+  });
+});
+
+describe("cancel transition", () => {
+  it("cancels unfinished jobs only", () => {
+    for (const status of ["available", "accepted", "in_progress", "needs_review"] as const) {
+      expect(getNextStatus(status, "cancel")).toBe("cancelled");
+    }
+    expect(getNextStatus("completed", "cancel")).toBeNull();
+    expect(getNextStatus("cancelled", "cancel")).toBeNull();
+  });
+});
+
+describe("voiding invoiced pay", () => {
+  function createTenant(invoiceStatus: "open" | "submitted") {
+    const tenant = {
+      businessId: "biz_1",
+      invoiceLineItems: {
+        findMany: vi.fn(async () => [
+          { id: "ili_1", invoiceId: "inv_1", jobId: "job_1", price: "80.00", adjustedPrice: null },
+        ]),
+        update: vi.fn(async () => undefined),
+      },
+      invoices: {
+        findFirst: vi.fn(async () => ({ id: "inv_1", status: invoiceStatus, totalAmount: "200.00" })),
+        update: vi.fn(async () => undefined),
+      },
+    };
+    const values = vi.fn(async () => undefined);
+    const tx = { insert: vi.fn(() => ({ values })) };
+
+    return { tenant, tx, values };
+  }
+
+  it("voids line items, records the audit row and reduces the invoice total", async () => {
+    const { tenant, tx, values } = createTenant("open");
+
+    const voided = await voidJobLineItems(tx, tenant as unknown as TenantDb, {
+      jobId: "job_1",
+      reason: "Job cancelled: Owner cancelled stay",
+      voidedBy: "manager_1",
+    });
+
+    expect(voided).toEqual(["ili_1"]);
+    expect(tenant.invoiceLineItems.update).toHaveBeenCalledWith(
+      expect.objectContaining({ isVoided: true, voidReason: "Job cancelled: Owner cancelled stay" }),
+      expect.anything()
+    );
+    expect(values).toHaveBeenCalledWith(
+      expect.objectContaining({ lineItemId: "ili_1", invoiceId: "inv_1", jobId: "job_1", voidedBy: "manager_1" })
+    );
+    const [[{ totalAmount }]] = tenant.invoices.update.mock.calls as unknown as [[{ totalAmount: any }]];
+    // Taken off in SQL, not rewritten from the total read earlier
+    expect(new MySqlDialect().sqlToQuery(totalAmount)).toMatchObject({
+      sql: "`invoices`.`total_amount` - ?",
+      params: [80],
+    });
+  });
+
+  it("keeps an access-denied trip fee when the job is cancelled afterwards", async () => {
+    const { tenant, tx } = createTenant("open");
+
+    await voidJobLineItems(tx, tenant as unknown as TenantDb, {
+      jobId: "job_1",
+      reason: "Job cancelled: Guest extended stay",
+      voidedBy: "manager_1",
+    });
+
+    const [[{ where }]] = tenant.invoiceLineItems.findMany.mock.calls as unknown as [[{ where: any }]];
+    const query = new MySqlDialect().sqlToQuery(where);
+    expect(query.sql).toContain("`invoice_line_items`.`line_item_type` = ?");
+    expect(query.params).toContain("job"); // Not trip_fee or cancellation_fee
+  });
+
+  it("refuses to touch submitted invoices", async () => {
+    const { tenant, tx } = createTenant("submitted");
+
+    await expect(
+      voidJobLineItems(tx, tenant as unknown as TenantDb, { jobId: "job_1", reason: "x", voidedBy: "manager_1" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(tenant.invoiceLineItems.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { CleaningJob, User } from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Job Chat Tests
+ *
+ * Messages are stored in job_chat and their notification is queued in the
+ * same transaction; only the assigned cleaner and the managers take part,
+ * and the thread is read-only once the job is completed, which is announced
+ * to both sides. The database is a recording stand-in that returns `job` for
+ * job selects, the business's users, and `chatRows` for chat selects.
+ */
+
+const recorded: { sql: string; params: unknown[] }[] = [];
+let job: CleaningJob;
+let chatRows: unknown[][] = [];
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+
+function createUser(id: string, role: User["role"], firstName: string | null = null): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const manager = createUser("manager_1", "manager", "Morgan");
+const owner = createUser("owner_1", "super_manager");
+const cleaner = createUser("cleaner_1", "cleaner", "Sam");
+const otherCleaner = createUser("cleaner_2", "cleaner");
+const businessUsers = [manager, owner, cleaner, otherCleaner];
+
+// Rows come back as arrays in column order (mysql2 rowsAsArray)
+function toRow(table: any, values: Record<string, unknown>): unknown[] {
+  return Object.keys(getTableColumns(table)).map((key) => values[key] ?? null);
+}
+
+function createJob(overrides: Partial<CleaningJob> = {}): CleaningJob {
+  return {
+    id: "job_1",
+    businessId: "biz_1",
+    bookingId: "booking_1",
+    propertyId: "prop_1",
+    cleaningDate: NOW,
+    status: "accepted",
+    price: "80.00",
+    assignedCleanerId: cleaner.id,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  } as CleaningJob;
+}
+
+function chatRow(id: string, sender: User, message: string, isRead: boolean): unknown[] {
+  return toRow(schema.jobChat, { id, jobId: "job_1", senderId: sender.id, message, isRead, createdAt: NOW });
+}
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/^\s*select .* from `job_chat`/i.test(query.sql)) return [chatRows, []];
+    if (/^\s*select .* from `cleaning_jobs`/i.test(query.sql)) return [[toRow(schema.cleaningJobs, job)], []];
+    if (/^\s*select .* from `users`/i.test(query.sql)) {
+      return [businessUsers.map((user) => toRow(schema.users, user)), []];
+    }
+    if (/^\s*select/i.test(query.sql)) return [[], []];
+    return [{ affectedRows: 2, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+const { lockJobChat } = await import("../server/notifications/job-chat");
+const { getRecipientsForEvent } = await import("../server/notifications/events");
+
+function createCaller(user: User) {
+  const ctx: TrpcContext = {
+    user,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+  return appRouter.createCaller(ctx);
+}
+
+// The event queued by a write, and who its rules address
+function queuedEvent(outbox: { params: unknown[] }) {
+  const event = JSON.parse(outbox.params.find((param) => String(param).startsWith("{")) as string);
+  return { event, recipients: getRecipientsForEvent(event, businessUsers) };
+}
+
+const writes = () => recorded.filter((query) => !/^\s*(select|begin|commit|rollback)/i.test(query.sql));
+
+beforeEach(() => {
+  recorded.length = 0;
+  job = createJob();
+  chatRows = [];
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("sending messages", () => {
+  it("saves the message and queues its notification in one transaction", async () => {
+    const message = await createCaller(cleaner).chat.send({ jobId: "job_1", message: "  Where is the key?  " });
+
+    expect(message).toMatchObject({ senderId: cleaner.id, senderName: "Sam", message: "Where is the key?" });
+
+    const jobLock = recorded.find((query) => /from `cleaning_jobs`.* for update/i.test(query.sql));
+    expect(jobLock?.params).toContain("biz_1");
+
+    const [insert, outbox] = writes();
+    expect(insert.sql).toMatch(/^\s*insert into `job_chat`/i);
+    expect(insert.params).toEqual(expect.arrayContaining([message.id, "job_1", cleaner.id, "Where is the key?"]));
+    expect(outbox.sql).toMatch(/^\s*insert into `notification_outbox`/i);
+    const { event, recipients } = queuedEvent(outbox);
+    expect(event).toMatchObject({ type: "message_received", messageId: message.id, cleanerId: cleaner.id });
+    expect(recipients).toEqual([manager.id, owner.id]); // Every manager, not just one
+  });
+
+  it("notifies the cleaner of a manager's message", async () => {
+    await createCaller(manager).chat.send({ jobId: "job_1", message: "Key is in the lockbox" });
+
+    const [, outbox] = writes();
+    expect(queuedEvent(outbox).recipients).toEqual([cleaner.id]);
+  });
+
+  it("is locked once the job is completed or cancelled", async () => {
+    for (const status of ["completed", "needs_review", "cancelled"] as const) {
+      job = createJob({ status });
+      await expect(createCaller(manager).chat.send({ jobId: "job_1", message: "Thanks!" })).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+        message: "Chat is locked once a job is completed or cancelled",
+      });
+    }
+    expect(writes()).toHaveLength(0);
+  });
+
+  it("only lets the assigned cleaner take part", async () => {
+    await expect(createCaller(otherCleaner).chat.send({ jobId: "job_1", message: "Hi" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(createCaller(otherCleaner).chat.thread({ jobId: "job_1" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(writes()).toHaveLength(0);
+  });
+});
+
+describe("locking", () => {
+  it("tells the cleaner and every manager when the job completes", async () => {
+    await lockJobChat(fakeDb, createJob({ status: "completed" }), "Beach House", businessUsers);
+
+    const [outbox] = writes();
+    expect(outbox.sql).toMatch(/^\s*insert into `notification_outbox`/i);
+    const { event, recipients } = queuedEvent(outbox);
+    expect(event).toMatchObject({ type: "chat_locked", jobId: "job_1", propertyName: "Beach House" });
+    expect(recipients.sort()).toEqual([cleaner.id, manager.id, owner.id].sort());
+  });
+});
+
+describe("reading the thread", () => {
+  it("returns the messages oldest first with the lock state", async () => {
+    job = createJob({ status: "completed", completedAt: NOW });
+    // The sender relation comes back as a trailing [firstName, lastName, email] column
+    chatRows = [
+      [...chatRow("msg_1", cleaner, "On my way", true), ["Sam", null, cleaner.email]],
+      [...chatRow("msg_2", manager, "Great", false), ["Morgan", null, manager.email]],
+    ];
+
+    const thread = await createCaller(cleaner).chat.thread({ jobId: "job_1" });
+
+    expect(thread).toMatchObject({ jobId: "job_1", cleanerId: cleaner.id, isLocked: true, lockedAt: NOW });
+    expect(thread.messages.map((m) => [m.id, m.senderName, m.message])).toEqual([
+      ["msg_1", "Sam", "On my way"],
+      ["msg_2", "Morgan", "Great"],
+    ]);
+    expect(recorded.find((query) => /from `job_chat`/i.test(query.sql))?.sql).toMatch(/order by .*`created_at` asc/i);
+  });
+
+  it("marks only the other side's messages read", async () => {
+    const result = await createCaller(manager).chat.markRead({ jobId: "job_1" });
+
+    expect(result).toEqual({ success: true, updated: 2 });
+    const [update] = writes();
+    expect(update.sql).toMatch(/^\s*update `job_chat` set `is_read` = \?/i);
+    // The cleaner's messages, not those of the other manager (owner) to the cleaner
+    expect(update.sql).toMatch(/`job_chat`.`sender_id` in \(select `id` from `users` where `users`.`role` = \?\)/);
+    expect(update.params).toEqual(expect.arrayContaining(["cleaner", "job_1", "biz_1"]));
+
+    recorded.length = 0;
+    await createCaller(cleaner).chat.markRead({ jobId: "job_1" });
+    // Both managers' messages, and none of the cleaner's
+    expect(writes()[0].sql).toMatch(/`job_chat`.`sender_id` not in \(select `id` from `users` where `users`.`role` = \?\)/);
+  });
+
+  it("counts unread messages per job, cleaners only on their own jobs", async () => {
+    chatRows = [["job_1", 3]];
+
+    expect(await createCaller(cleaner).chat.unreadCounts()).toEqual([{ jobId: "job_1", count: 3 }]);
+    const [countQuery] = recorded;
+    expect(countQuery.sql).toMatch(/group by `job_chat`.`job_id`/);
+    expect(countQuery.sql).toContain("`assigned_cleaner_id`");
+    expect(countQuery.params).toEqual(expect.arrayContaining([cleaner.id, "biz_1"]));
+
+    recorded.length = 0;
+    await createCaller(owner).chat.unreadCounts({ jobIds: ["job_1"] });
+    expect(recorded[0].sql).not.toContain("`assigned_cleaner_id`");
+    expect(recorded[0].sql).toMatch(/`job_chat`.`sender_id` in \(select/); // Only the cleaner's messages count
+  });
+});
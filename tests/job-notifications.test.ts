@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { User } from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Job Notification Wiring Tests
+ *
+ * Routers queue events in the outbox inside the transaction of the change.
+ * The database is a hand-built stand-in whose transaction() logs "commit" once
+ * the callback resolves; the outbox is mocked to log each queued event.
+ */
+
+const log: string[] = [];
+
+const emitNotificationEvent = vi.fn(async (_tx: unknown, event: { type: string }) => {
+  log.push(`emit:${event.type}`);
+});
+
+vi.mock("../server/notifications/outbox", () => ({
+  emitNotificationEvent: (tx: unknown, event: { type: string }) => emitNotificationEvent(tx, event),
+}));
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+
+function createUser(id: string, role: User["role"]): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: null,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const cleaner = createUser("cleaner_1", "cleaner");
+const businessUsers = [createUser("manager_1", "manager"), cleaner, createUser("cleaner_2", "cleaner")];
+
+let jobRow: Record<string, unknown> | null = null;
+let invoiceRow: Record<string, unknown> | null = null;
+let affectedRows = 1;
+
+// Only used to build the subqueries some tenant scopes embed
+const sqlBuilder = drizzle({ query: async () => [[], []] } as any, { schema, mode: "default" });
+
+const fakeDb: any = {
+  query: {
+    cleaningJobs: { findFirst: async () => jobRow },
+    properties: { findFirst: async () => ({ name: "Beach House", latitude: null, longitude: null }) },
+    users: { findMany: async () => businessUsers, findFirst: async () => cleaner },
+    invoices: { findFirst: async () => invoiceRow },
+    invoiceLineItems: { findMany: async () => [{ id: "li_1" }, { id: "li_2" }] },
+    media: { findMany: async () => [] },
+    damageReports: { findMany: async () => [] },
+  },
+  select: (...args: any[]) => (sqlBuilder as any).select(...args),
+  update: () => ({ set: () => ({ where: async () => [{ affectedRows }] }) }),
+  insert: () => ({ values: async () => [{ affectedRows: 1 }] }),
+  transaction: async (callback: (tx: any) => Promise<unknown>) => {
+    const result = await callback(fakeDb);
+    log.push("commit");
+    return result;
+  },
+};
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+
+function createCleanerContext(): TrpcContext {
+  return {
+    user: cleaner,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function createJob(status: string) {
+  return {
+    id: "job_1",
+    businessId: "biz_1",
+    propertyId: "prop_1",
+    status,
+    price: "80.00",
+    cleaningDate: NOW,
+    assignedCleanerId: status === "available" ? null : cleaner.id,
+    accessDenied: false,
+  };
+}
+
+beforeEach(() => {
+  log.length = 0;
+  emitNotificationEvent.mockClear();
+  affectedRows = 1;
+  invoiceRow = null;
+});
+
+describe("job events", () => {
+  it("queues inside the transaction", async () => {
+    jobRow = createJob("available");
+
+    await appRouter.createCaller(createCleanerContext()).jobs.accept({ jobId: "job_1" });
+
+    expect(log).toEqual(["emit:job_accepted", "commit"]);
+    expect(emitNotificationEvent).toHaveBeenCalledWith(fakeDb, expect.anything());
+  });
+
+  it("emits nothing when the transaction rolls back", async () => {
+    jobRow = createJob("available");
+    affectedRows = 0; // Another cleaner won the race
+
+    await expect(
+      appRouter.createCaller(createCleanerContext()).jobs.accept({ jobId: "job_1" })
+    ).rejects.toMatchObject({ code: "CONFLICT" });
+
+    expect(emitNotificationEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not notify again when a completion is replayed", async () => {
+    jobRow = createJob("completed");
+
+    await appRouter.createCaller(createCleanerContext()).jobs.complete({ jobId: "job_1", gpsLat: 0, gpsLng: 0 });
+
+    expect(emitNotificationEvent).not.toHaveBeenCalled();
+  });
+
+  it("fails the mutation when the outbox write fails", async () => {
+    jobRow = createJob("accepted");
+    emitNotificationEvent.mockRejectedValueOnce(new Error("outbox unavailable"));
+
+    await expect(
+      appRouter.createCaller(createCleanerContext()).jobs.start({ jobId: "job_1", gpsLat: 1, gpsLng: 1 })
+    ).rejects.toThrow("outbox unavailable");
+
+    expect(log).not.toContain("commit");
+  });
+});
+
+describe("invoice events", () => {
+  const openInvoice = {
+    id: "inv_1",
+    businessId: "biz_1",
+    cleanerId: cleaner.id,
+    status: "open",
+    totalAmount: "160.00",
+    periodStart: NOW,
+    periodEnd: NOW,
+  };
+
+  it("tells managers about a submitted invoice", async () => {
+    invoiceRow = openInvoice;
+
+    await appRouter.createCaller(createCleanerContext()).invoices.submit({ invoiceId: "inv_1" });
+
+    expect(emitNotificationEvent).toHaveBeenCalledWith(
+      fakeDb,
+      expect.objectContaining({ type: "invoice_submitted", totalAmount: 160, jobCount: 2 })
+    );
+  });
+
+  it("submits and notifies once", async () => {
+    invoiceRow = openInvoice;
+    affectedRows = 0; // Submitted by an earlier tap
+
+    await expect(
+      appRouter.createCaller(createCleanerContext()).invoices.submit({ invoiceId: "inv_1" })
+    ).rejects.toThrow("Invoice is already submitted or closed");
+
+    expect(emitNotificationEvent).not.toHaveBeenCalled();
+  });
+});
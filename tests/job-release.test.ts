@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { User } from "../drizzle/schema";
+import { DEFAULT_RELEASE_CUTOFF_HOURS, requiresReleaseApproval } from "../server/jobs/release";
+import { getNextStatus } from "../server/jobs/state-machine";
+import {
+  getNotificationRulesForEvent,
+  getRecipientsForEvent,
+  type JobReleaseDecidedEvent,
+  type JobReleaseRequestedEvent,
+} from "../server/notifications/events";
+
+/**
+ * Job Release Tests
+ * Cutoff rules, transitions and who hears about a release
+ */
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+const hoursFromNow = (hours: number) => new Date(NOW.getTime() + hours * 60 * 60 * 1000);
+
+function createUser(id: string, role: User["role"]): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: null,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const businessUsers = [
+  createUser("manager_1", "manager"),
+  createUser("cleaner_1", "cleaner"),
+  createUser("cleaner_2", "cleaner"),
+];
+
+describe("release cutoff", () => {
+  it("lets cleaners release jobs well before the cleaning", () => {
+    expect(requiresReleaseApproval({ cleaningDate: hoursFromNow(48) }, null, NOW)).toBe(false);
+  });
+
+  it("needs approval inside the default 12 hours", () => {
+    expect(DEFAULT_RELEASE_CUTOFF_HOURS).toBe(12);
+    expect(requiresReleaseApproval({ cleaningDate: hoursFromNow(11) }, null, NOW)).toBe(true);
+    expect(requiresReleaseApproval({ cleaningDate: hoursFromNow(-2) }, null, NOW)).toBe(true);
+  });
+
+  it("uses the business's cutoff", () => {
+    const business = { jobReleaseCutoffHours: 48 };
+
+    expect(requiresReleaseApproval({ cleaningDate: hoursFromNow(24) }, business, NOW)).toBe(true);
+    expect(requiresReleaseApproval({ cleaningDate: hoursFromNow(24) }, { jobReleaseCutoffHours: 0 }, NOW)).toBe(
+      false
+    );
+  });
+});
+
+describe("release transitions", () => {
+  it("returns accepted jobs to available", () => {
+    expect(getNextStatus("accepted", "release")).toBe("available");
+    expect(getNextStatus("in_progress", "release")).toBeNull();
+  });
+
+  it("keeps the job assigned while a request is pending or denied", () => {
+    expect(getNextStatus("accepted", "request_release")).toBe("accepted");
+    expect(getNextStatus("accepted", "deny_release")).toBe("accepted");
+    expect(getNextStatus("available", "request_release")).toBeNull();
+  });
+});
+
+describe("release notifications", () => {
+  it("alerts managers to release requests", () => {
+    const event: JobReleaseRequestedEvent = {
+      type: "job_release_requested",
+      jobId: "job_1",
+      businessId: "biz_1",
+      cleanerId: "cleaner_1",
+      cleanerName: "Casey",
+      propertyId: "prop_1",
+      propertyName: "Beach House",
+      cleaningDate: hoursFromNow(6),
+      reason: "Car broke down",
+      timestamp: NOW,
+    };
+
+    expect(getRecipientsForEvent(event, businessUsers)).toEqual(["manager_1"]);
+    expect(getNotificationRulesForEvent(event)[0].isCritical).toBe(true);
+  });
+
+  it("tells the cleaner what was decided", () => {
+    const event: JobReleaseDecidedEvent = {
+      type: "job_release_decided",
+      jobId: "job_1",
+      businessId: "biz_1",
+      cleanerId: "cleaner_1",
+      propertyId: "prop_1",
+      propertyName: "Beach House",
+      approved: false,
+      reason: "Nobody else can cover",
+      timestamp: NOW,
+    };
+    const [rule] = getNotificationRulesForEvent(event);
+
+    expect(getRecipientsForEvent(event, businessUsers)).toEqual(["cleaner_1"]);
+    expect(rule.title(event)).toBe("Release Denied");
+    expect(rule.message(event)).toBe("You are still assigned to the job at Beach House: Nobody else can cover");
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import {
+  JOB_EVENT_RULES,
+  assertTransition,
+  getAffectedRows,
+  getNextStatus,
+  recordJobCreated,
+  transitionJob,
+} from "../server/jobs/state-machine";
+
+interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+const recorded: RecordedQuery[] = [];
+let affectedRows = 1;
+
+// Records SQL and reports `affectedRows` for every write
+const db = drizzle(
+  {
+    query: async (query: { sql: string }, params: unknown[] = []) => {
+      recorded.push({ sql: query.sql, params });
+      return /^\s*select/i.test(query.sql) ? [[], []] : [{ affectedRows, insertId: 0 }, undefined];
+    },
+  } as any,
+  { schema, mode: "default" }
+);
+
+beforeEach(() => {
+  recorded.length = 0;
+  affectedRows = 1;
+});
+
+describe("job transitions", () => {
+  it("follows the job lifecycle", () => {
+    expect(getNextStatus("available", "accept")).toBe("accepted");
+    expect(getNextStatus("accepted", "start")).toBe("in_progress");
+    expect(getNextStatus("in_progress", "complete")).toBe("completed");
+    expect(getNextStatus("in_progress", "flag_for_review")).toBe("needs_review");
+    expect(getNextStatus("needs_review", "override_complete")).toBe("completed");
+  });
+
+  it("rejects skipped or backwards steps", () => {
+    expect(getNextStatus("available", "start")).toBeNull();
+    expect(getNextStatus("accepted", "complete")).toBeNull();
+    expect(getNextStatus("completed", "accept")).toBeNull();
+    expect(getNextStatus("completed", "override_complete")).toBeNull();
+  });
+
+  it("keeps status for reassignment and conflict resolution", () => {
+    expect(getNextStatus("accepted", "reassign")).toBe("accepted");
+    expect(getNextStatus("in_progress", "reassign")).toBeNull();
+    expect(getNextStatus("needs_review", "resolve_conflict")).toBe("needs_review");
+  });
+
+  it("only targets real statuses", () => {
+    for (const rule of Object.values(JOB_EVENT_RULES)) {
+      for (const status of [...rule.from, ...(rule.to ? [rule.to] : [])]) {
+        expect(schema.JOB_STATUSES).toContain(status);
+      }
+    }
+  });
+
+  it("explains invalid transitions", () => {
+    expect(() => assertTransition("completed", "accept")).toThrow(
+      "Job cannot be accepted from status 'completed'. Job must be available."
+    );
+  });
+
+  it("reads affected rows from mysql2 results", () => {
+    expect(getAffectedRows([{ affectedRows: 1 }, undefined])).toBe(1);
+    expect(getAffectedRows({ affectedRows: 0 })).toBe(0);
+    expect(getAffectedRows(undefined)).toBe(0);
+  });
+});
+
+describe("transition history", () => {
+  const job = { id: "job_1", status: "accepted" as const };
+
+  it("updates the job and records the transition", async () => {
+    const transition = await transitionJob(db, {
+      businessId: "biz_1",
+      job,
+      event: "start",
+      actorId: "user_1",
+      gps: { lat: 37.7749, lng: -122.4194 },
+      changes: { startedAt: new Date() },
+    });
+
+    expect(transition).toMatchObject({ event: "start", from: "accepted", to: "in_progress" });
+
+    const [update, insert] = recorded;
+    expect(update.sql).toMatch(/^update `cleaning_jobs`/);
+    expect(update.params).toEqual(expect.arrayContaining(["in_progress", "job_1", "accepted", "biz_1"]));
+    expect(insert.sql).toMatch(/^insert into `job_status_history`/);
+    expect(insert.params).toEqual(
+      expect.arrayContaining(["job_1", "biz_1", "start", "accepted", "in_progress", "user_1", "37.7749"])
+    );
+  });
+
+  it("records nothing when the job changed underneath", async () => {
+    affectedRows = 0;
+
+    await expect(
+      transitionJob(db, { businessId: "biz_1", job, event: "start", actorId: "user_1" })
+    ).resolves.toBeNull();
+    expect(recorded.some((query) => /job_status_history/.test(query.sql))).toBe(false);
+  });
+
+  it("refuses invalid transitions before writing", async () => {
+    await expect(
+      transitionJob(db, { businessId: "biz_1", job, event: "complete", actorId: "user_1" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(recorded).toEqual([]);
+  });
+
+  it("records job creation", async () => {
+    await recordJobCreated(db, { businessId: "biz_1", jobId: "job_2", status: "available", actorId: "user_1" });
+
+    expect(recorded[0].sql).toMatch(/^insert into `job_status_history`/);
+    expect(recorded[0].params).toEqual(expect.arrayContaining(["job_2", "create", "available"]));
+  });
+});
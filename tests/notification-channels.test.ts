@@ -0,0 +1,204 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { User } from "../drizzle/schema";
+
+/**
+ * Email and SMS Channel Tests
+ *
+ * Rules choose their channels: damage reports and GPS mismatches also go out
+ * by SMS, invoice submissions by email. Each channel renders its own body
+ * and sends through the capture transports installed here. The database is a
+ * recording stand-in whose selects return no rows (no preferences set).
+ */
+
+const recorded: { sql: string; params: unknown[] }[] = [];
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/^\s*select/i.test(query.sql)) return [[], []];
+    return [{ affectedRows: 1, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { NotificationDeliveryService } = await import("../server/notifications/delivery");
+const { PartialDeliveryError, emitNotificationEvent } = await import("../server/notifications/outbox");
+const { CaptureMailTransport, setMailTransport } = await import("../server/mail/transport");
+const { CaptureSmsTransport, UnconfiguredSmsTransport, getSmsTransportConfigError, setSmsTransport } = await import(
+  "../server/sms/transport"
+);
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+
+function createUser(id: string, role: User["role"], phone: string | null = null): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: "Alex",
+    lastName: null,
+    phone,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const manager = createUser("manager_1", "manager", "+15550000001");
+const managerWithoutPhone = createUser("manager_2", "manager");
+const cleaner = createUser("cleaner_1", "cleaner", "+15550000003");
+
+const damageReported = {
+  type: "damage_reported" as const,
+  jobId: "job_1",
+  businessId: "biz_1",
+  cleanerId: cleaner.id,
+  cleanerName: "Sam",
+  propertyId: "prop_1",
+  propertyName: "Beach House",
+  severity: "severe" as const,
+  description: "Broken window in the living room",
+  photoCount: 3,
+  timestamp: NOW,
+};
+
+const invoiceSubmitted = {
+  type: "invoice_submitted" as const,
+  invoiceId: "inv_1",
+  businessId: "biz_1",
+  cleanerId: cleaner.id,
+  cleanerName: "Sam",
+  totalAmount: 420,
+  jobCount: 5,
+  periodStart: new Date("2026-10-01T12:00:00Z"),
+  periodEnd: new Date("2026-10-15T12:00:00Z"),
+  timestamp: NOW,
+};
+
+let mail: InstanceType<typeof CaptureMailTransport>;
+let sms: InstanceType<typeof CaptureSmsTransport>;
+
+beforeEach(() => {
+  recorded.length = 0;
+  mail = new CaptureMailTransport();
+  sms = new CaptureSmsTransport();
+  setMailTransport(mail);
+  setSmsTransport(sms);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("channel selection", () => {
+  it("queues an outbox row for each channel the event's rules use", async () => {
+    const channels = async (event: Parameters<typeof emitNotificationEvent>[1]) => {
+      const inserted: { channel: string }[][] = [];
+      const tx = {
+        query: { notificationRuleOverrides: { findMany: async () => [] } },
+        insert: () => ({ values: async (rows: any) => inserted.push(rows) }),
+      };
+      await emitNotificationEvent(tx, event, [manager]);
+      return inserted[0].map((row) => row.channel);
+    };
+
+    expect(await channels(damageReported)).toEqual(["in_app", "push", "sms"]);
+    expect(await channels(invoiceSubmitted)).toEqual(["in_app", "push", "email"]);
+  });
+
+  it("sends nothing on a channel no rule for the event uses", async () => {
+    await new NotificationDeliveryService().deliverChannel("sms", invoiceSubmitted, [manager, cleaner]);
+
+    expect(sms.sent).toHaveLength(0);
+    expect(recorded.filter((query) => !/^\s*select/i.test(query.sql))).toHaveLength(0);
+  });
+});
+
+describe("sms", () => {
+  it("texts managers who have a phone number with the rule's SMS body", async () => {
+    await new NotificationDeliveryService().deliverChannel("sms", damageReported, [
+      manager,
+      managerWithoutPhone,
+      cleaner,
+    ]);
+
+    expect(sms.sent).toHaveLength(1);
+    expect(sms.sent[0]).toMatchObject({
+      to: manager.phone,
+      body: "Simply Organized: ⚠️ DAMAGE REPORTED - SEVERE damage at Beach House reported by Sam (3 photos)",
+    });
+  });
+
+  it("must really send texts in production", () => {
+    const production = {
+      isProduction: true,
+      smsTransport: "twilio",
+      smsFrom: "+15550000000",
+      twilioAccountSid: "AC123",
+      twilioAuthToken: "secret",
+    };
+
+    expect(getSmsTransportConfigError(production)).toBeNull();
+    expect(getSmsTransportConfigError({ ...production, smsTransport: "console" })).toContain('use "twilio"');
+    expect(getSmsTransportConfigError({ ...production, smsFrom: "", twilioAuthToken: "" })).toBe(
+      "SMS_TRANSPORT is twilio but TWILIO_AUTH_TOKEN, SMS_FROM not set"
+    );
+    expect(getSmsTransportConfigError({ ...production, isProduction: false, smsTransport: "console" })).toBeNull();
+  });
+
+  it("fails texts for a retry rather than logging them when Twilio is not configured", async () => {
+    setSmsTransport(new UnconfiguredSmsTransport("SMS_TRANSPORT is twilio but SMS_FROM not set"));
+
+    const error = await new NotificationDeliveryService()
+      .deliverChannel("sms", damageReported, [manager])
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(PartialDeliveryError);
+    expect((error as Error).message).toContain("SMS_FROM not set");
+    expect((error as InstanceType<typeof PartialDeliveryError>).failedRecipientIds).toEqual([manager.id]);
+  });
+});
+
+describe("email", () => {
+  it("emails managers the invoice summary", async () => {
+    await new NotificationDeliveryService().deliverChannel("email", invoiceSubmitted, [manager, cleaner]);
+
+    expect(mail.sent).toHaveLength(1);
+    expect(mail.sent[0]).toMatchObject({ to: manager.email, subject: "Invoice Submitted" });
+    expect(mail.sent[0].text).toContain("Hi Alex,");
+    expect(mail.sent[0].text).toContain("Jobs: 5");
+    expect(mail.sent[0].text).toContain("Total: $420");
+  });
+
+  it("tries every recipient before failing the channel", async () => {
+    const send = vi.spyOn(mail, "send").mockRejectedValueOnce(new Error("SMTP connection refused"));
+
+    await expect(
+      new NotificationDeliveryService().deliverChannel("email", invoiceSubmitted, [manager, managerWithoutPhone])
+    ).rejects.toThrow("1 email message(s) failed: SMTP connection refused");
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(mail.sent.map((message) => message.to)).toEqual([managerWithoutPhone.email]);
+  });
+
+  it("names only the failed recipients for the retry", async () => {
+    vi.spyOn(mail, "send").mockRejectedValueOnce(new Error("SMTP connection refused"));
+    const delivery = new NotificationDeliveryService();
+
+    const error = await delivery
+      .deliverChannel("email", invoiceSubmitted, [manager, managerWithoutPhone])
+      .catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(PartialDeliveryError);
+    expect((error as InstanceType<typeof PartialDeliveryError>).failedRecipientIds).toEqual([manager.id]);
+
+    // The worker retries the row with just those recipients (outbox-worker.ts)
+    await delivery.deliverChannel("email", invoiceSubmitted, [manager]);
+    expect(mail.sent.map((message) => message.to)).toEqual([managerWithoutPhone.email, manager.email]);
+  });
+});
@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { NotificationOutboxEntry, User } from "../drizzle/schema";
+
+/**
+ * Notification Outbox Tests
+ *
+ * Events are queued as one row per channel, and the worker delivers each row
+ * on its own: success marks it delivered, failures back off and eventually
+ * dead-letter. The database is a hand-built stand-in that records every
+ * update's values; delivery is a stub passed to the worker.
+ */
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+
+const cleaner: User = {
+  id: "cleaner_1",
+  businessId: "biz_1",
+  email: "cleaner_1@example.com",
+  passwordHash: "",
+  firstName: null,
+  lastName: null,
+  phone: null,
+  role: "cleaner",
+  payType: "per_job",
+  isActive: true,
+  releaseCount: 0,
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+let dueEntries: NotificationOutboxEntry[] = [];
+let claimAffectedRows = 1;
+const inserted: unknown[] = [];
+const updates: Record<string, unknown>[] = [];
+
+const fakeDb: any = {
+  select: () => ({
+    from: () => ({ where: () => ({ orderBy: () => ({ limit: async () => dueEntries }) }) }),
+  }),
+  insert: () => ({
+    values: async (values: unknown) => {
+      inserted.push(values);
+      return [{ affectedRows: 1 }];
+    },
+  }),
+  update: () => ({
+    set: (values: Record<string, unknown>) => ({
+      where: async () => {
+        updates.push(values);
+        const isClaim = Object.keys(values).length === 1 && "lockedUntil" in values;
+        return [{ affectedRows: isClaim ? claimAffectedRows : 1 }];
+      },
+    }),
+  }),
+  query: {
+    users: { findMany: async () => [cleaner] },
+    notificationRuleOverrides: { findMany: async () => [] },
+  },
+};
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const {
+  PartialDeliveryError,
+  emitNotificationEvent,
+  getRetryDelayMs,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_MAX_RETRY_DELAY_MS,
+} = await import("../server/notifications/outbox");
+const { NotificationOutboxWorker } = await import("../server/notifications/outbox-worker");
+
+const event = {
+  type: "job_available" as const,
+  jobId: "job_1",
+  businessId: "biz_1",
+  propertyId: "prop_1",
+  cleaningDate: NOW,
+  price: 80,
+  propertyName: "Beach House",
+  timestamp: NOW,
+};
+
+function createEntry(attempts = 0): NotificationOutboxEntry {
+  return {
+    id: "outbox_1",
+    businessId: "biz_1",
+    type: "job_available",
+    channel: "push",
+    event: JSON.parse(JSON.stringify(event)), // As stored: dates become strings
+    recipientIds: [cleaner.id],
+    status: "pending",
+    attempts,
+    nextAttemptAt: NOW,
+    lockedUntil: null,
+    lastError: null,
+    createdAt: NOW,
+    deliveredAt: null,
+  };
+}
+
+const deliverChannel = vi.fn(async () => undefined);
+const worker = new NotificationOutboxWorker({ deliverChannel } as any);
+
+beforeEach(() => {
+  dueEntries = [createEntry()];
+  claimAffectedRows = 1;
+  inserted.length = 0;
+  updates.length = 0;
+  deliverChannel.mockReset();
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+describe("emitNotificationEvent", () => {
+  it("queues one pending row per channel in the caller's transaction", async () => {
+    await emitNotificationEvent(fakeDb, event, [cleaner]);
+
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0]).toEqual([
+      expect.objectContaining({ channel: "in_app", status: "pending", recipientIds: [cleaner.id], event }),
+      expect.objectContaining({ channel: "push", status: "pending", recipientIds: [cleaner.id], event }),
+    ]);
+  });
+});
+
+describe("outbox worker", () => {
+  it("delivers a claimed row and marks it delivered", async () => {
+    const result = await worker.processDue(NOW);
+
+    expect(result).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    expect(deliverChannel).toHaveBeenCalledWith(
+      "push",
+      expect.objectContaining({ type: "job_available", cleaningDate: NOW }), // Dates restored
+      [cleaner],
+      NOW,
+      "outbox_1"
+    );
+    expect(updates.at(-1)).toMatchObject({ status: "delivered", attempts: 1, lockedUntil: null });
+  });
+
+  it("backs off after a failed attempt", async () => {
+    deliverChannel.mockRejectedValueOnce(new Error("push service down"));
+
+    const result = await worker.processDue(NOW);
+
+    expect(result.retried).toBe(1);
+    expect(updates.at(-1)).toEqual({
+      attempts: 1,
+      nextAttemptAt: new Date(NOW.getTime() + getRetryDelayMs(1)),
+      lockedUntil: null,
+      lastError: "push service down",
+    });
+  });
+
+  it("retries only the recipients a partial failure names", async () => {
+    dueEntries = [{ ...createEntry(), channel: "email", recipientIds: [cleaner.id, "cleaner_2"] }];
+    deliverChannel.mockRejectedValueOnce(new PartialDeliveryError("1 email message(s) failed: timeout", ["cleaner_2"]));
+
+    const result = await worker.processDue(NOW);
+
+    expect(result.retried).toBe(1);
+    expect(updates.at(-1)).toMatchObject({ attempts: 1, recipientIds: ["cleaner_2"] });
+  });
+
+  it("dead-letters a row after the last attempt", async () => {
+    dueEntries = [createEntry(OUTBOX_MAX_ATTEMPTS - 1)];
+    deliverChannel.mockRejectedValueOnce(new Error("push service down"));
+
+    const result = await worker.processDue(NOW);
+
+    expect(result.deadLettered).toBe(1);
+    expect(updates.at(-1)).toMatchObject({ status: "dead", attempts: OUTBOX_MAX_ATTEMPTS });
+  });
+
+  it("skips rows another worker claimed first", async () => {
+    claimAffectedRows = 0;
+
+    const result = await worker.processDue(NOW);
+
+    expect(result).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+    expect(deliverChannel).not.toHaveBeenCalled();
+  });
+
+  it("doubles the retry delay up to the cap", () => {
+    expect(getRetryDelayMs(2)).toBe(getRetryDelayMs(1) * 2);
+    expect(getRetryDelayMs(50)).toBe(OUTBOX_MAX_RETRY_DELAY_MS);
+  });
+});
@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { NotificationPreferences, User } from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Notification Preference Tests
+ *
+ * Quiet hours hold push back until they end (in the business timezone),
+ * opt-outs and muted jobs drop non-critical notifications, and critical
+ * alerts skip preferences entirely. The database is a recording stand-in;
+ * selects answer from a queue of canned row sets.
+ */
+
+interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+const recorded: RecordedQuery[] = [];
+const selectResults: unknown[][][] = [];
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/notification_rule_overrides/.test(query.sql)) return [[], []]; // Built-in rules
+    if (/^\s*select/i.test(query.sql)) return [selectResults.shift() ?? [], []];
+    return [{ affectedRows: 1, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+const { NotificationDeliveryService } = await import("../server/notifications/delivery");
+const { getQuietHoursEnd } = await import("../server/notifications/preferences");
+const { FakePushProvider, setPushProvider } = await import("../server/notifications/push");
+
+const NOW = new Date("2026-10-18T08:00:00Z"); // 04:00 in New York
+const PHONE = "ExponentPushToken[phone]";
+
+function createUser(id: string, role: User["role"]): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: null,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const sleepy = createUser("manager_sleepy", "manager");
+const awake = createUser("manager_awake", "manager");
+const cleaner = createUser("cleaner_1", "cleaner");
+const otherCleaner = createUser("cleaner_2", "cleaner");
+
+function createContext(user: User): TrpcContext {
+  return {
+    user,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+// Rows come back as arrays in column order (mysql2 rowsAsArray)
+function preferencesRow(userId: string, overrides: Partial<NotificationPreferences>): unknown[] {
+  const row: NotificationPreferences = {
+    id: `notifpref_${userId}`,
+    businessId: "biz_1",
+    userId,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    channelOptOuts: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+  return Object.keys(getTableColumns(schema.notificationPreferences)).map(
+    (key) => row[key as keyof NotificationPreferences]
+  );
+}
+
+function tokenRow(userId: string): unknown[] {
+  return [`push_${userId}`, "biz_1", userId, PHONE, "ios", null, NOW, NOW];
+}
+
+function writes(table: string) {
+  return recorded.filter((query) =>
+    new RegExp(`^\\s*(insert into|update|delete from) \`${table}\``, "i").test(query.sql)
+  );
+}
+
+const jobAccepted = {
+  type: "job_accepted" as const,
+  jobId: "job_1",
+  businessId: "biz_1",
+  cleanerId: cleaner.id,
+  cleanerName: "Sam",
+  propertyId: "prop_1",
+  propertyName: "Beach House",
+  timestamp: NOW,
+};
+
+let provider: InstanceType<typeof FakePushProvider>;
+
+beforeEach(() => {
+  recorded.length = 0;
+  selectResults.length = 0;
+  provider = new FakePushProvider();
+  setPushProvider(provider);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("quiet hours", () => {
+  it("ends at the next local end time for a window across midnight", () => {
+    const until = getQuietHoursEnd({ start: "22:00", end: "07:00" }, NOW, "America/New_York");
+    expect(until).toEqual(new Date("2026-10-18T11:00:00Z"));
+  });
+
+  it("does not apply outside the window", () => {
+    expect(getQuietHoursEnd({ start: "22:00", end: "07:00" }, NOW, "UTC")).toBeNull();
+    expect(getQuietHoursEnd({ start: "12:00", end: "14:00" }, NOW, "America/New_York")).toBeNull();
+  });
+});
+
+describe("delivery with preferences", () => {
+  it("holds push for recipients in quiet hours and sends to the rest", async () => {
+    selectResults.push(
+      [preferencesRow(sleepy.id, { quietHoursStart: "22:00", quietHoursEnd: "07:00" })],
+      [], // No mutes
+      [["America/New_York"]],
+      [tokenRow(awake.id)]
+    );
+
+    await new NotificationDeliveryService().deliverChannel("push", jobAccepted, [sleepy, awake, cleaner], NOW);
+
+    const [deferred] = writes("notification_outbox");
+    expect(deferred.params).toEqual(
+      expect.arrayContaining(["push", JSON.stringify([sleepy.id]), "2026-10-18 11:00:00.000"]) // Quiet hours end
+    );
+    expect(provider.sent.map((message) => message.to)).toEqual([PHONE]);
+  });
+
+  it("holds a retried delivery's push only once", async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      selectResults.push(
+        [preferencesRow(sleepy.id, { quietHoursStart: "22:00", quietHoursEnd: "07:00" })],
+        [], // No mutes
+        [["America/New_York"]]
+      );
+      await new NotificationDeliveryService().deliverChannel("push", jobAccepted, [sleepy], NOW, "outbox_1");
+    }
+
+    const [first, retry] = writes("notification_outbox");
+    expect(retry.sql).toMatch(/on duplicate key update/i);
+    expect(first.params[0]).toMatch(/^outbox_/);
+    expect(retry.params[0]).toBe(first.params[0]); // Same row id, so the retry is a no-op
+  });
+
+  it("drops channels the recipient opted out of and jobs they muted", async () => {
+    selectResults.push(
+      [preferencesRow(sleepy.id, { channelOptOuts: { job_accepted: ["in_app"] } })],
+      [[awake.id]] // awake muted job_1
+    );
+
+    await new NotificationDeliveryService().deliverChannel("in_app", jobAccepted, [sleepy, awake, otherCleaner], NOW);
+
+    // Only the other cleaner's "no longer available" copy is saved
+    const [insert] = writes("notifications");
+    expect(insert.params).toContain(otherCleaner.id);
+    expect(insert.params).not.toContain(sleepy.id);
+    expect(insert.params).not.toContain(awake.id);
+  });
+
+  it("sends critical alerts without consulting preferences", async () => {
+    selectResults.push([tokenRow(sleepy.id)]);
+
+    await new NotificationDeliveryService().deliverChannel(
+      "push",
+      { ...jobAccepted, type: "cleaner_removed", reason: "guest_present" },
+      [sleepy],
+      NOW
+    );
+
+    expect(recorded.some((query) => query.sql.includes("`notification_preferences`"))).toBe(false);
+    expect(provider.sent).toHaveLength(1);
+    expect(writes("notification_outbox")).toHaveLength(0);
+  });
+});
+
+describe("preferences router", () => {
+  it("rejects quiet hours that are not HH:MM", async () => {
+    await expect(
+      appRouter
+        .createCaller(createContext(awake))
+        .notifications.updatePreferences({ quietHours: { start: "10pm", end: "07:00" } })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("saves only the fields given, for the caller", async () => {
+    await appRouter
+      .createCaller(createContext(awake))
+      .notifications.updatePreferences({ quietHours: { start: "22:00", end: "07:00" } });
+
+    const [upsert] = writes("notification_preferences");
+    expect(upsert.sql).toContain("on duplicate key update");
+    expect(upsert.sql).not.toMatch(/on duplicate key update.*channel_opt_outs/);
+    expect(upsert.params).toEqual(expect.arrayContaining([awake.id, "biz_1", "22:00", "07:00"]));
+  });
+
+  it("only mutes jobs in the caller's business", async () => {
+    await expect(
+      appRouter.createCaller(createContext(awake)).notifications.muteJob({ jobId: "job_other_business" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    expect(recorded[0].params).toContain("biz_1");
+    expect(writes("notification_job_mutes")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { NotificationRuleOverride, User } from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Notification Rule Override Tests
+ *
+ * A business's overrides turn built-in rules off, change who receives them
+ * by role, and replace their criticality, channels and text; everything
+ * else keeps the built-in behaviour. The database is a recording stand-in
+ * whose rule override selects return overrideRows.
+ */
+
+const recorded: { sql: string; params: unknown[] }[] = [];
+let overrideRows: unknown[][] = [];
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/notification_rule_overrides/.test(query.sql) && /^\s*select/i.test(query.sql)) return [overrideRows, []];
+    if (/^\s*select/i.test(query.sql)) return [[], []];
+    return [{ affectedRows: 1, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+const { NotificationDeliveryService } = await import("../server/notifications/delivery");
+const { getChannelsForType, getNotificationRulesForEvent, getRecipientsForEvent } = await import(
+  "../server/notifications/events"
+);
+const { renderTemplate, resolveNotificationRules } = await import("../server/notifications/rule-overrides");
+const { CaptureSmsTransport, setSmsTransport } = await import("../server/sms/transport");
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+
+function createUser(id: string, role: User["role"], phone: string | null = null): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: null,
+    lastName: null,
+    phone,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const owner = createUser("super_1", "super_manager", "+15550000001");
+const manager = createUser("manager_1", "manager", "+15550000002");
+const cleaner = createUser("cleaner_1", "cleaner");
+const otherCleaner = createUser("cleaner_2", "cleaner");
+const businessUsers = [owner, manager, cleaner, otherCleaner];
+
+function createOverride(overrides: Partial<NotificationRuleOverride>): NotificationRuleOverride {
+  return {
+    id: "notifrule_1",
+    businessId: "biz_1",
+    type: "job_accepted",
+    ruleRole: "cleaner",
+    enabled: true,
+    recipientRoles: null,
+    isCritical: null,
+    channels: null,
+    titleTemplate: null,
+    messageTemplate: null,
+    updatedBy: owner.id,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+// Rows come back as arrays in column order (mysql2 rowsAsArray)
+function overrideRow(overrides: Partial<NotificationRuleOverride>): unknown[] {
+  const row = createOverride(overrides);
+  return Object.keys(getTableColumns(schema.notificationRuleOverrides)).map(
+    (key) => row[key as keyof NotificationRuleOverride]
+  );
+}
+
+function createContext(user: User): TrpcContext {
+  return {
+    user,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const jobAccepted = {
+  type: "job_accepted" as const,
+  jobId: "job_1",
+  businessId: "biz_1",
+  cleanerId: cleaner.id,
+  cleanerName: "Sam",
+  propertyId: "prop_1",
+  propertyName: "Beach House",
+  timestamp: NOW,
+};
+
+const gpsMismatch = {
+  type: "gps_mismatch" as const,
+  jobId: "job_1",
+  businessId: "biz_1",
+  cleanerId: cleaner.id,
+  cleanerName: "Sam",
+  propertyId: "prop_1",
+  propertyName: "Beach House",
+  propertyLat: 0,
+  propertyLng: 0,
+  cleanerLat: 0,
+  cleanerLng: 0,
+  distanceMeters: 850,
+  timestamp: NOW,
+};
+
+beforeEach(() => {
+  recorded.length = 0;
+  overrideRows = [];
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("resolveNotificationRules", () => {
+  it("uses the built-in rules when the business has no overrides", () => {
+    expect(getRecipientsForEvent(jobAccepted, businessUsers, resolveNotificationRules([]))).toEqual([
+      otherCleaner.id,
+      owner.id,
+      manager.id,
+    ]);
+  });
+
+  it("drops a rule the business turned off", () => {
+    const rules = resolveNotificationRules([createOverride({ enabled: false })]);
+
+    expect(getRecipientsForEvent(jobAccepted, businessUsers, rules)).toEqual([owner.id, manager.id]);
+  });
+
+  it("narrows a rule to the roles chosen, with its own criticality and channels", () => {
+    const rules = resolveNotificationRules([
+      createOverride({
+        type: "gps_mismatch",
+        ruleRole: "manager",
+        recipientRoles: ["super_manager"],
+        isCritical: false,
+        channels: ["sms"],
+      }),
+    ]);
+
+    const [rule] = getNotificationRulesForEvent(gpsMismatch, rules);
+    expect(rule.recipientIds(gpsMismatch, businessUsers)).toEqual([owner.id]);
+    expect(rule.isCritical).toBe(false);
+    expect(getChannelsForType("gps_mismatch", rules)).toEqual(["sms"]);
+  });
+
+  it("widens a rule to every member of a role it was not written for", () => {
+    const rules = resolveNotificationRules([createOverride({ recipientRoles: ["cleaner", "manager"] })]);
+
+    const [rule] = getNotificationRulesForEvent(jobAccepted, rules).filter((r) => r.role === "cleaner");
+    // The accepting cleaner is still left out; managers now get the cleaner copy
+    expect(rule.recipientIds(jobAccepted, businessUsers)).toEqual([manager.id, otherCleaner.id]);
+  });
+
+  it("renders templates from the event's fields", () => {
+    const rules = resolveNotificationRules([
+      createOverride({
+        type: "damage_reported",
+        ruleRole: "manager",
+        titleTemplate: "Damage at {propertyName}",
+        messageTemplate: "{severity} damage, {photoCount} photos {unknown}",
+      }),
+    ]);
+
+    const event = {
+      ...gpsMismatch,
+      type: "damage_reported" as const,
+      severity: "severe" as const,
+      description: "Broken window",
+      photoCount: 3,
+    };
+    const [rule] = getNotificationRulesForEvent(event, rules);
+    expect(rule.title(event)).toBe("Damage at Beach House");
+    expect(rule.message(event)).toBe("severe damage, 3 photos {unknown}");
+    expect(rule.bodies).toBeUndefined(); // The template replaces the built-in SMS body too
+    expect(renderTemplate("{cleaningDate}", { ...event, type: "job_available", cleaningDate: NOW, price: 80 })).toBe(
+      NOW.toLocaleDateString()
+    );
+  });
+});
+
+describe("delivery with overrides", () => {
+  it("texts the super manager with the business's template", async () => {
+    const sms = new CaptureSmsTransport();
+    setSmsTransport(sms);
+    overrideRows = [
+      overrideRow({
+        type: "gps_mismatch",
+        ruleRole: "manager",
+        recipientRoles: ["super_manager"],
+        messageTemplate: "{cleanerName} is {distanceMeters}m from {propertyName}",
+      }),
+    ];
+
+    await new NotificationDeliveryService().deliverChannel("sms", gpsMismatch, businessUsers, NOW);
+
+    expect(sms.sent).toHaveLength(1);
+    expect(sms.sent[0]).toMatchObject({
+      to: owner.phone,
+      body: "Simply Organized: ⚠️ GPS MISMATCH - Sam is 850m from Beach House",
+    });
+  });
+});
+
+describe("notification rules router", () => {
+  it("is only open to super managers", async () => {
+    await expect(appRouter.createCaller(createContext(manager)).notificationRules.list()).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("lists built-in rules with the business's override", async () => {
+    overrideRows = [overrideRow({ enabled: false })];
+
+    const rules = await appRouter.createCaller(createContext(owner)).notificationRules.list();
+
+    const accepted = rules.find((rule) => rule.type === "job_accepted" && rule.ruleRole === "cleaner");
+    expect(accepted?.override).toMatchObject({ enabled: false, channels: null });
+    expect(accepted?.builtIn).toEqual({ recipientRoles: ["cleaner"], isCritical: false, channels: ["in_app", "push"] });
+    expect(rules.find((rule) => rule.type === "job_started")?.override).toBeNull();
+  });
+
+  it("saves only the fields given, for the caller's business", async () => {
+    await appRouter
+      .createCaller(createContext(owner))
+      .notificationRules.update({ type: "gps_mismatch", ruleRole: "manager", recipientRoles: ["super_manager"] });
+
+    const [upsert] = recorded.filter((query) => /^\s*insert into `notification_rule_overrides`/i.test(query.sql));
+    expect(upsert.sql).toContain("on duplicate key update");
+    expect(upsert.sql).not.toMatch(/on duplicate key update.*`enabled`/);
+    expect(upsert.params).toEqual(expect.arrayContaining(["biz_1", "gps_mismatch", "manager", owner.id]));
+  });
+
+  it("rejects rules that do not exist and placeholders the event does not have", async () => {
+    const caller = appRouter.createCaller(createContext(owner));
+
+    await expect(
+      caller.notificationRules.update({ type: "job_started", ruleRole: "cleaner", enabled: false })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(
+      caller.notificationRules.update({ type: "job_accepted", ruleRole: "cleaner", titleTemplate: "{price}" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST", message: "Unknown placeholder(s) for job_accepted: {price}" });
+    expect(recorded.filter((query) => !/^\s*select/i.test(query.sql))).toHaveLength(0);
+  });
+});
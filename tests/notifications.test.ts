@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { Notification, User } from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Notification Center Tests
+ *
+ * Delivery persists one row per recipient and rule, and the notifications
+ * router only ever reads or writes the caller's own rows. The database is a
+ * recording stand-in; selects answer from a queue of canned row sets.
+ */
+
+interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+const recorded: RecordedQuery[] = [];
+const selectResults: unknown[][][] = [];
+let affectedRows = 1;
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/^\s*select/i.test(query.sql)) return [selectResults.shift() ?? [], []];
+    return [{ affectedRows, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+const { NotificationDeliveryService } = await import("../server/notifications/delivery");
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+
+function createUser(id: string, role: User["role"]): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: null,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const manager = createUser("manager_1", "manager");
+const cleaner = createUser("cleaner_1", "cleaner");
+
+function createContext(user: User): TrpcContext {
+  return {
+    user,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+// Rows come back as arrays in column order (mysql2 rowsAsArray)
+function notificationRow(id: string, createdAt: Date): unknown[] {
+  const row: Notification = {
+    id,
+    businessId: "biz_1",
+    userId: cleaner.id,
+    type: "job_assigned",
+    title: "New Job Assigned",
+    message: "Beach House",
+    relatedJobId: "job_1",
+    isCritical: false,
+    isRead: false,
+    readAt: null,
+    createdAt,
+  };
+  return Object.keys(getTableColumns(schema.notifications)).map((key) => row[key as keyof Notification]);
+}
+
+function writes() {
+  return recorded.filter((query) => /^\s*(insert|update|delete)/i.test(query.sql));
+}
+
+function expectScopedToCaller(query: RecordedQuery) {
+  expect(query.sql).toContain("`user_id`");
+  expect(query.sql).toContain("`business_id`");
+  expect(query.params).toEqual(expect.arrayContaining([cleaner.id, "biz_1"]));
+}
+
+beforeEach(() => {
+  recorded.length = 0;
+  selectResults.length = 0;
+  affectedRows = 1;
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("delivery", () => {
+  it("persists one notification per recipient with that recipient's copy", async () => {
+    const service = new NotificationDeliveryService();
+
+    await service.deliverChannel(
+      "in_app",
+      {
+        type: "job_accepted",
+        jobId: "job_1",
+        businessId: "biz_1",
+        cleanerId: cleaner.id,
+        cleanerName: "Sam",
+        propertyId: "prop_1",
+        propertyName: "Beach House",
+        timestamp: NOW,
+      },
+      [manager, cleaner, createUser("cleaner_2", "cleaner")]
+    );
+
+    // Every recipient's row goes in with one insert
+    const inserts = writes();
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].sql).toContain("insert into `notifications`");
+
+    // Columns follow user_id: notification_type, title
+    const titleFor = (userId: string) => inserts[0].params[inserts[0].params.indexOf(userId) + 2];
+    expect(titleFor(manager.id)).toBe("Job Accepted");
+    expect(titleFor("cleaner_2")).toBe("Job No Longer Available");
+    expect(inserts[0].params).toEqual(expect.arrayContaining(["biz_1", "job_accepted", "job_1"]));
+  });
+});
+
+describe("notifications router", () => {
+  it("pages newest first within the caller's own notifications", async () => {
+    selectResults.push([
+      notificationRow("notif_3", new Date("2026-10-18T07:00:00Z")),
+      notificationRow("notif_2", new Date("2026-10-18T06:00:00Z")),
+      notificationRow("notif_1", new Date("2026-10-18T05:00:00Z")),
+    ]);
+
+    const page = await appRouter.createCaller(createContext(cleaner)).notifications.list({ limit: 2 });
+
+    expect(page.items.map((item) => item.id)).toEqual(["notif_3", "notif_2"]);
+    expect(page.nextCursor).toBe("notif_2");
+    expect(recorded[0].sql).toContain("order by");
+    expect(recorded[0].params).toContain(3); // limit + 1
+    expectScopedToCaller(recorded[0]);
+  });
+
+  it("rejects a cursor that is not one of the caller's notifications", async () => {
+    await expect(
+      appRouter.createCaller(createContext(cleaner)).notifications.list({ cursor: "notif_other_user" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("counts unread notifications for the caller", async () => {
+    selectResults.push([[4]]);
+
+    const result = await appRouter.createCaller(createContext(cleaner)).notifications.unreadCount();
+
+    expect(result).toEqual({ count: 4 });
+    expectScopedToCaller(recorded[0]);
+  });
+
+  it("marks everything read only for the caller", async () => {
+    affectedRows = 3;
+
+    const result = await appRouter.createCaller(createContext(cleaner)).notifications.markAllRead();
+
+    expect(result).toEqual({ success: true, updated: 3 });
+    expect(writes()).toHaveLength(1);
+    expectScopedToCaller(writes()[0]);
+  });
+
+  it("cannot mark or delete someone else's notification", async () => {
+    const caller = appRouter.createCaller(createContext(cleaner));
+    affectedRows = 0;
+
+    await expect(caller.notifications.markRead({ notificationId: "notif_manager" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(caller.notifications.delete({ notificationId: "notif_manager" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+
+    expect(writes()).toHaveLength(1);
+    expectScopedToCaller(writes()[0]);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "../server/routers";
+import type { TrpcContext } from "../server/_core/context";
+import type { User } from "../drizzle/schema";
+import {
+  PERMISSION_POLICY,
+  can,
+  canWithScope,
+  describePermission,
+  getAllowedActions,
+  type PermissionPolicy,
+} from "../shared/permissions";
+
+const founder = { id: "u_founder", role: "founder", businessId: null };
+const superManager = { id: "u_super", role: "super_manager", businessId: "biz_1" };
+const manager = { id: "u_manager", role: "manager", businessId: "biz_1" };
+const cleaner = { id: "u_cleaner", role: "cleaner", businessId: "biz_1" };
+
+function createContext(user: TrpcContext["user"]): TrpcContext {
+  return {
+    user,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function createCleanerContext(): TrpcContext {
+  return createMemberContext(cleaner);
+}
+
+function createMemberContext(member: typeof cleaner): TrpcContext {
+  return createContext({
+    id: member.id,
+    email: `${member.role}@example.com`,
+    businessId: member.businessId,
+    passwordHash: "",
+    firstName: "Casey",
+    lastName: null,
+    phone: null,
+    role: member.role as User["role"],
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+describe("permission policy", () => {
+  it("grants capabilities by role", () => {
+    expect(can(manager, "assign", "job")).toBe(true);
+    expect(can(cleaner, "assign", "job")).toBe(false);
+    expect(can(cleaner, "accept", "job")).toBe(true);
+    expect(can(manager, "accept", "job")).toBe(false);
+    expect(can(superManager, "manage", "api_key")).toBe(true);
+    expect(can(manager, "manage", "api_key")).toBe(false);
+    expect(can(founder, "manage", "business")).toBe(true);
+    expect(can(superManager, "manage", "business")).toBe(false);
+  });
+
+  it("denies unknown roles and signed-out users", () => {
+    expect(can(null, "view", "job")).toBe(false);
+    expect(can({ ...manager, role: "guest" }, "view", "job")).toBe(false);
+  });
+
+  it("keeps business-scoped grants inside the actor's business", () => {
+    expect(can(manager, "view", "job", { businessId: "biz_1" })).toBe(true);
+    expect(can(manager, "view", "job", { businessId: "biz_2" })).toBe(false);
+    expect(can(founder, "view", "business", { businessId: "biz_2" })).toBe(true);
+  });
+
+  it("limits cleaners to their own and unassigned jobs", () => {
+    expect(can(cleaner, "view", "job", { businessId: "biz_1", ownerId: null })).toBe(true);
+    expect(can(cleaner, "view", "job", { businessId: "biz_1", ownerId: cleaner.id })).toBe(true);
+    expect(can(cleaner, "view", "job", { businessId: "biz_1", ownerId: "u_other" })).toBe(false);
+    expect(can(cleaner, "start", "job", { businessId: "biz_1", ownerId: null })).toBe(false);
+    expect(can(cleaner, "start", "job", { businessId: "biz_2", ownerId: cleaner.id })).toBe(false);
+  });
+
+  it("tells business-wide grants from own-only ones", () => {
+    expect(canWithScope(manager, "view", "job", "business")).toBe(true);
+    expect(canWithScope(cleaner, "view", "job", "business")).toBe(false);
+    expect(canWithScope(cleaner, "view", "job", "own")).toBe(true);
+  });
+
+  it("gives super managers everything managers have", () => {
+    for (const [action, resources] of Object.entries(PERMISSION_POLICY.manager)) {
+      for (const resource of Object.keys(resources ?? {})) {
+        expect(can(superManager, action as any, resource as any)).toBe(true);
+      }
+    }
+  });
+
+  it("lists the actions a role may take", () => {
+    expect(getAllowedActions("cleaner", "job").sort()).toEqual(["accept", "complete", "start", "view"]);
+    expect(getAllowedActions("guest", "job")).toEqual([]);
+  });
+
+  it("evaluates a custom policy", () => {
+    const policy = { ...PERMISSION_POLICY, cleaner: { view: { property: "business" } } } as PermissionPolicy;
+
+    expect(can(cleaner, "view", "property", undefined, policy)).toBe(true);
+    expect(can(cleaner, "accept", "job", undefined, policy)).toBe(false);
+  });
+
+  it("describes denials", () => {
+    expect(describePermission("manage", "api_key")).toBe("You don't have permission to manage API keys");
+  });
+});
+
+describe("permission enforcement", () => {
+  it("rejects cleaners from business-wide job lists", async () => {
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(caller.jobs.listForManager()).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: describePermission("view", "job"),
+    });
+  });
+
+  it("rejects cleaners from manager overrides", async () => {
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(
+      caller.managerOverrides.overrideCompletion({ jobId: "job_1", reason: "Verified on site" } as any)
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("rejects cleaners from cancelling jobs", async () => {
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(caller.jobs.cancel({ jobId: "job_1", reason: "Guest stayed over" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: describePermission("cancel", "job"),
+    });
+  });
+
+  it("rejects cleaners from approving their own release", async () => {
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(caller.jobs.decideRelease({ jobId: "job_1", approve: true })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: describePermission("assign", "job"),
+    });
+  });
+
+  it("keeps the notification outbox to founders", async () => {
+    expect(can(founder, "manage", "notification_outbox")).toBe(true);
+    expect(can(superManager, "view", "notification_outbox")).toBe(false);
+
+    const caller = appRouter.createCaller(createCleanerContext());
+
+    await expect(caller.notificationOutbox.listStuck()).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: describePermission("view", "notification_outbox"),
+    });
+  });
+
+  it("keeps the business list to founders", async () => {
+    // Managers may view their own business's settings, which must not open up every tenant
+    expect(can(manager, "view", "business")).toBe(true);
+
+    for (const member of [manager, superManager]) {
+      const caller = appRouter.createCaller(createMemberContext(member));
+
+      await expect(caller.governance.getBusinesses()).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        message: describePermission("view", "business"),
+      });
+    }
+  });
+
+  it("requires sign-in for governance", async () => {
+    const caller = appRouter.createCaller(createContext(null));
+
+    await expect(caller.governance.getBusinesses()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
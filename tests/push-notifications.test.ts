@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { PushTicketRecord, PushToken, User } from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Push Notification Tests
+ *
+ * Delivery sends one message per registered device through the active push
+ * provider (the in-memory fake here), keeps a ticket for each accepted
+ * message, and prunes tokens the service reports as unregistered, either at
+ * send time or later in a receipt. The database is a recording stand-in;
+ * selects answer from a queue of canned row sets.
+ */
+
+interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+const recorded: RecordedQuery[] = [];
+const selectResults: unknown[][][] = [];
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    if (/notification_rule_overrides/.test(query.sql)) return [[], []]; // Built-in rules
+    if (/^\s*select/i.test(query.sql)) return [selectResults.shift() ?? [], []];
+    return [{ affectedRows: 1, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+const { NotificationDeliveryService } = await import("../server/notifications/delivery");
+const { PartialDeliveryError } = await import("../server/notifications/outbox");
+const { PushReceiptChecker } = await import("../server/notifications/push-receipts");
+const { ExpoPushProvider, FakePushProvider, setPushProvider } = await import("../server/notifications/push");
+
+const NOW = new Date("2026-10-18T08:00:00Z");
+const PHONE = "ExponentPushToken[phone]";
+const TABLET = "ExponentPushToken[tablet]";
+
+function createUser(id: string, role: User["role"]): User {
+  return {
+    id,
+    businessId: "biz_1",
+    email: `${id}@example.com`,
+    passwordHash: "",
+    firstName: null,
+    lastName: null,
+    phone: null,
+    role,
+    payType: "per_job",
+    isActive: true,
+    releaseCount: 0,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+const manager = createUser("manager_1", "manager");
+const cleaner = createUser("cleaner_1", "cleaner");
+
+function createContext(user: User): TrpcContext {
+  return {
+    user,
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+// Rows come back as arrays in column order (mysql2 rowsAsArray)
+function asRow<T extends Record<string, unknown>>(table: any, row: T): unknown[] {
+  return Object.keys(getTableColumns(table)).map((key) => row[key]);
+}
+
+function tokenRow(userId: string, token: string): unknown[] {
+  const row: PushToken = {
+    id: `push_${token}`,
+    businessId: "biz_1",
+    userId,
+    token,
+    platform: "ios",
+    deviceName: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+  return asRow(schema.pushTokens, row);
+}
+
+function ticketRow(id: string, token: string, createdAt: Date): unknown[] {
+  const row: PushTicketRecord = { id, businessId: "biz_1", token, createdAt };
+  return asRow(schema.pushTickets, row);
+}
+
+function writes(table: string) {
+  return recorded.filter((query) =>
+    new RegExp(`^\\s*(insert into|update|delete from) \`${table}\``, "i").test(query.sql)
+  );
+}
+
+const cleanerRemoved = {
+  type: "cleaner_removed" as const,
+  jobId: "job_1",
+  businessId: "biz_1",
+  cleanerId: cleaner.id,
+  cleanerName: "Sam",
+  propertyId: "prop_1",
+  propertyName: "Beach House",
+  reason: "guest_present" as const,
+  timestamp: NOW,
+};
+
+let provider: InstanceType<typeof FakePushProvider>;
+
+beforeEach(() => {
+  recorded.length = 0;
+  selectResults.length = 0;
+  provider = new FakePushProvider();
+  setPushProvider(provider);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setPushProvider(null);
+  vi.unstubAllGlobals();
+});
+
+describe("push delivery", () => {
+  it("sends to every device a recipient registered and keeps a ticket for each", async () => {
+    selectResults.push([tokenRow(manager.id, PHONE), tokenRow(manager.id, TABLET)]);
+
+    await new NotificationDeliveryService().deliverChannel("push", cleanerRemoved, [manager, cleaner]);
+
+    expect(provider.sent.map((message) => message.to)).toEqual([PHONE, TABLET]);
+    expect(provider.sent[0]).toMatchObject({
+      title: "⚠️ CLEANER REMOVED",
+      priority: "high", // Critical event
+      data: { jobId: "job_1", type: "cleaner_removed" },
+    });
+
+    const [ticketInsert] = writes("push_tickets");
+    expect(ticketInsert.params).toEqual(expect.arrayContaining([PHONE, TABLET]));
+  });
+
+  it("prunes a token the service says is no longer registered without failing", async () => {
+    provider.markInvalid(TABLET);
+    selectResults.push([tokenRow(manager.id, PHONE), tokenRow(manager.id, TABLET)]);
+
+    await new NotificationDeliveryService().deliverChannel("push", cleanerRemoved, [manager]);
+
+    expect(provider.sent.map((message) => message.to)).toEqual([PHONE]);
+    const [prune] = writes("push_tokens");
+    expect(prune.sql).toMatch(/^delete from `push_tokens`/);
+    expect(prune.params).toEqual([TABLET]);
+  });
+
+  it("fails the channel when the service rejects a message for another reason", async () => {
+    setPushProvider({
+      name: "stub",
+      send: async (messages) =>
+        messages.map(() => ({ status: "error", message: "Rate exceeded", details: { error: "MessageRateExceeded" } })),
+      getReceipts: async () => ({}),
+    });
+    selectResults.push([tokenRow(manager.id, PHONE)]);
+
+    await expect(
+      new NotificationDeliveryService().deliverChannel("push", cleanerRemoved, [manager])
+    ).rejects.toThrow("Rate exceeded");
+    expect(writes("push_tokens")).toHaveLength(0);
+  });
+
+  it("retries only the recipients whose messages were rejected", async () => {
+    const otherManager = createUser("manager_2", "manager");
+    setPushProvider({
+      name: "stub",
+      send: async (messages) =>
+        messages.map((message) =>
+          message.to === TABLET
+            ? { status: "error", message: "Rate exceeded", details: { error: "MessageRateExceeded" } }
+            : { status: "ok", id: `ticket_${message.to}` }
+        ),
+      getReceipts: async () => ({}),
+    });
+    selectResults.push([tokenRow(manager.id, PHONE), tokenRow(otherManager.id, TABLET)]);
+
+    const error = await new NotificationDeliveryService()
+      .deliverChannel("push", cleanerRemoved, [manager, otherManager])
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(PartialDeliveryError);
+    expect((error as InstanceType<typeof PartialDeliveryError>).failedRecipientIds).toEqual([otherManager.id]);
+    const [ticketInsert] = writes("push_tickets");
+    expect(ticketInsert.params).toContain(PHONE);
+    expect(ticketInsert.params).not.toContain(TABLET);
+  });
+
+  it("skips recipients without a registered device", async () => {
+    selectResults.push([]);
+
+    await new NotificationDeliveryService().deliverChannel("push", cleanerRemoved, [manager]);
+
+    expect(provider.sent).toHaveLength(0);
+    expect(writes("push_tickets")).toHaveLength(0);
+  });
+});
+
+describe("receipt checker", () => {
+  it("prunes tokens whose receipts report the device gone and drops finished tickets", async () => {
+    const [okTicket, goneTicket] = await provider.send([
+      { to: PHONE, title: "t", body: "b" },
+      { to: TABLET, title: "t", body: "b" },
+    ]);
+    provider.markInvalid(TABLET); // Uninstalled after the send was accepted
+
+    const sentAt = new Date(NOW.getTime() - 30 * 60 * 1000);
+    const expiredAt = new Date(NOW.getTime() - 25 * 60 * 60 * 1000);
+    selectResults.push([
+      ticketRow((okTicket as { id: string }).id, PHONE, sentAt),
+      ticketRow((goneTicket as { id: string }).id, TABLET, sentAt),
+      ticketRow("ticket_never_answered", PHONE, expiredAt),
+      ticketRow("ticket_not_ready", PHONE, sentAt),
+    ]);
+
+    const result = await new PushReceiptChecker().checkDue(NOW);
+
+    expect(result).toEqual({ checked: 2, failed: 1, prunedTokens: 1 });
+    expect(writes("push_tokens")[0].params).toEqual([TABLET]);
+    expect(writes("push_tickets")[0].params).toEqual([
+      (okTicket as { id: string }).id,
+      (goneTicket as { id: string }).id,
+      "ticket_never_answered",
+    ]);
+  });
+});
+
+describe("expo provider", () => {
+  it("posts messages with the access token and surfaces request errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: [{ status: "ok", id: "ticket_1" }] })))
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ errors: [{ message: "Invalid access token" }] }), { status: 401 })
+      );
+    vi.stubGlobal("fetch", fetchMock);
+    const expo = new ExpoPushProvider("secret");
+
+    await expect(expo.send([{ to: PHONE, title: "t", body: "b" }])).resolves.toEqual([
+      { status: "ok", id: "ticket_1" },
+    ]);
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe("Bearer secret");
+
+    await expect(expo.send([{ to: PHONE, title: "t", body: "b" }])).rejects.toThrow("Invalid access token");
+  });
+});
+
+describe("push token registration", () => {
+  it("rejects tokens that are not Expo push tokens", async () => {
+    await expect(
+      appRouter
+        .createCaller(createContext(cleaner))
+        .notifications.registerPushToken({ token: "not-a-token", platform: "ios" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("moves a device's token to whoever registers it", async () => {
+    await appRouter
+      .createCaller(createContext(cleaner))
+      .notifications.registerPushToken({ token: PHONE, platform: "android", deviceName: "Pixel 8" });
+
+    const [upsert] = writes("push_tokens");
+    expect(upsert.sql).toContain("on duplicate key update");
+    expect(upsert.sql).toMatch(/on duplicate key update.*`user_id` = \?/);
+    expect(upsert.params).toEqual(expect.arrayContaining([PHONE, cleaner.id, "biz_1", "android", "Pixel 8"]));
+  });
+
+  it("only unregisters the caller's own token", async () => {
+    await appRouter.createCaller(createContext(cleaner)).notifications.unregisterPushToken({ token: PHONE });
+
+    const [removal] = writes("push_tokens");
+    expect(removal.params).toEqual([PHONE, cleaner.id]);
+  });
+});
@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/mysql2";
+import * as schema from "../drizzle/schema";
+import type { TrpcContext } from "../server/_core/context";
+
+/**
+ * Tenant Isolation Tests
+ *
+ * Every procedure is called by a user of biz_1 with ids that belong to biz_2.
+ * The database is a recording stand-in that returns no rows, so the tests
+ * assert on the SQL itself: every statement touching a tenant table must be
+ * constrained to the caller's business.
+ */
+
+interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+}
+
+const recorded: RecordedQuery[] = [];
+
+const recordingClient = {
+  query: async (query: { sql: string }, params: unknown[] = []) => {
+    recorded.push({ sql: query.sql, params });
+    return /^\s*select/i.test(query.sql) ? [[], []] : [{ affectedRows: 0, insertId: 0 }, undefined];
+  },
+};
+
+const fakeDb = drizzle(recordingClient as any, { schema, mode: "default" });
+
+vi.mock("../server/db", () => ({ getDb: async () => fakeDb }));
+
+const { appRouter } = await import("../server/routers");
+const { forBusiness } = await import("../server/tenancy/tenant-db");
+
+const OWN_BUSINESS = "biz_1";
+const FOREIGN_JOB = "job_biz2";
+const FOREIGN_PROPERTY = "prop_biz2";
+const FOREIGN_INVOICE = "inv_biz2";
+const FOREIGN_PHOTO = "media_biz2";
+
+const TENANT_TABLE = /`(cleaning_jobs|properties|invoices|invoice_line_items|media|job_chat|job_status_history)`/;
+
+function createContext(role: "manager" | "cleaner"): TrpcContext {
+  return {
+    user: {
+      id: `user_${role}_1`,
+      email: `${role}@example.com`,
+      businessId: OWN_BUSINESS,
+      passwordHash: "",
+      firstName: null,
+      lastName: null,
+      phone: null,
+      role,
+      payType: "per_job",
+      isActive: true,
+      releaseCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    },
+    business: null,
+    session: null,
+    req: { protocol: "https", hostname: "localhost", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+function expectScopedToOwnBusiness() {
+  const tenantQueries = recorded.filter((query) => TENANT_TABLE.test(query.sql));
+
+  expect(tenantQueries.length).toBeGreaterThan(0);
+  for (const query of tenantQueries) {
+    expect(query.sql).toContain("`business_id`");
+    expect(query.params).toContain(OWN_BUSINESS);
+  }
+}
+
+function expectNoWrites() {
+  expect(recorded.filter((query) => /^\s*(update|delete)/i.test(query.sql))).toEqual([]);
+}
+
+type Caller = ReturnType<typeof appRouter.createCaller>;
+
+const cases: [string, "manager" | "cleaner", (caller: Caller) => Promise<unknown>][] = [
+  ["jobs.listForCleaner", "cleaner", (c) => c.jobs.listForCleaner()],
+  ["jobs.getDetail", "cleaner", (c) => c.jobs.getDetail({ jobId: FOREIGN_JOB })],
+  ["jobs.accept", "cleaner", (c) => c.jobs.accept({ jobId: FOREIGN_JOB })],
+  ["jobs.start", "cleaner", (c) => c.jobs.start({ jobId: FOREIGN_JOB, gpsLat: 0, gpsLng: 0 })],
+  ["jobs.complete", "cleaner", (c) => c.jobs.complete({ jobId: FOREIGN_JOB, gpsLat: 0, gpsLng: 0 })],
+  ["jobs.listForManager", "manager", (c) => c.jobs.listForManager()],
+  ["jobs.getDetailForManager", "manager", (c) => c.jobs.getDetailForManager({ jobId: FOREIGN_JOB })],
+  ["jobs.create", "manager", (c) => c.jobs.create({ propertyId: FOREIGN_PROPERTY, cleaningDate: new Date() })],
+  ["jobs.reassign", "manager", (c) => c.jobs.reassign({ jobId: FOREIGN_JOB, newCleanerId: "user_biz2" })],
+  ["jobs.getTimeline", "cleaner", (c) => c.jobs.getTimeline({ jobId: FOREIGN_JOB })],
+  ["jobs.cancel", "manager", (c) => c.jobs.cancel({ jobId: FOREIGN_JOB, reason: "Owner cancelled stay" })],
+  [
+    "jobs.reportAccessDenied",
+    "cleaner",
+    (c) => c.jobs.reportAccessDenied({ jobId: FOREIGN_JOB, reason: "guest_present", gpsLat: 0, gpsLng: 0 }),
+  ],
+  ["jobs.reschedule", "manager", (c) => c.jobs.reschedule({ jobId: FOREIGN_JOB, cleaningDate: new Date() })],
+  ["jobs.reopen", "manager", (c) => c.jobs.reopen({ jobId: FOREIGN_JOB })],
+  ["jobs.release", "cleaner", (c) => c.jobs.release({ jobId: FOREIGN_JOB, reason: "Accepted by mistake" })],
+  ["jobs.decideRelease", "manager", (c) => c.jobs.decideRelease({ jobId: FOREIGN_JOB, approve: true })],
+  ["jobsDetail.getByIdForManager", "manager", (c) => c.jobsDetail.getByIdForManager({ jobId: FOREIGN_JOB })],
+  ["jobsDetail.getByIdForCleaner", "cleaner", (c) => c.jobsDetail.getByIdForCleaner({ jobId: FOREIGN_JOB })],
+  [
+    "managerOverrides.detectConflicts",
+    "manager",
+    (c) => c.managerOverrides.detectConflicts({ jobId: FOREIGN_JOB, gpsLat: 0, gpsLng: 0 }),
+  ],
+  [
+    "managerOverrides.overrideCompletion",
+    "manager",
+    (c) =>
+      c.managerOverrides.overrideCompletion({
+        jobId: FOREIGN_JOB,
+        reason: "Verified on site",
+        gpsLat: 0,
+        gpsLng: 0,
+      }),
+  ],
+  [
+    "managerOverrides.resolveGPSConflict",
+    "manager",
+    (c) =>
+      c.managerOverrides.resolveGPSConflict({
+        jobId: FOREIGN_JOB,
+        reason: "Verified on site",
+        gpsLat: 0,
+        gpsLng: 0,
+      }),
+  ],
+  [
+    "managerOverrides.resolvePhotoConflict",
+    "manager",
+    (c) => c.managerOverrides.resolvePhotoConflict({ jobId: FOREIGN_JOB, reason: "Verified on site" }),
+  ],
+  ["photos.uploadPhoto", "cleaner", (c) => c.photos.uploadPhoto({ jobId: FOREIGN_JOB, imageBase64: "aGk=" })],
+  ["photos.getJobPhotos", "cleaner", (c) => c.photos.getJobPhotos({ jobId: FOREIGN_JOB })],
+  ["photos.deletePhoto", "cleaner", (c) => c.photos.deletePhoto({ photoId: FOREIGN_PHOTO, jobId: FOREIGN_JOB })],
+  ["properties.list", "manager", (c) => c.properties.list()],
+  ["properties.getById", "manager", (c) => c.properties.getById({ propertyId: FOREIGN_PROPERTY })],
+  ["properties.update", "manager", (c) => c.properties.update({ propertyId: FOREIGN_PROPERTY, name: "Taken" })],
+  ["properties.delete", "manager", (c) => c.properties.delete({ propertyId: FOREIGN_PROPERTY })],
+  ["invoices.getCurrent", "cleaner", (c) => c.invoices.getCurrent()],
+  ["invoices.getHistory", "cleaner", (c) => c.invoices.getHistory()],
+  ["invoices.submit", "cleaner", (c) => c.invoices.submit({ invoiceId: FOREIGN_INVOICE })],
+  ["invoices.getDetail", "cleaner", (c) => c.invoices.getDetail({ invoiceId: FOREIGN_INVOICE })],
+  ["chat.thread", "cleaner", (c) => c.chat.thread({ jobId: FOREIGN_JOB })],
+  ["chat.send", "cleaner", (c) => c.chat.send({ jobId: FOREIGN_JOB, message: "Hello" })],
+  ["chat.markRead", "manager", (c) => c.chat.markRead({ jobId: FOREIGN_JOB })],
+  ["chat.unreadCounts", "manager", (c) => c.chat.unreadCounts({ jobIds: [FOREIGN_JOB] })],
+];
+
+beforeEach(() => {
+  recorded.length = 0;
+});
+
+describe("cross-tenant access", () => {
+  it.each(cases)("%s only touches the caller's business", async (_name, role, call) => {
+    await call(appRouter.createCaller(createContext(role))).catch(() => undefined);
+
+    expectScopedToOwnBusiness();
+    expectNoWrites();
+  });
+
+  it("rejects lookups of another business's records", async () => {
+    const manager = appRouter.createCaller(createContext("manager"));
+    const cleaner = appRouter.createCaller(createContext("cleaner"));
+
+    await expect(manager.jobs.reassign({ jobId: FOREIGN_JOB, newCleanerId: "user_biz2" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    await expect(cleaner.photos.deletePhoto({ photoId: FOREIGN_PHOTO, jobId: FOREIGN_JOB })).rejects.toThrow(
+      "Job not found"
+    );
+    await expect(cleaner.invoices.getDetail({ invoiceId: FOREIGN_INVOICE })).rejects.toThrow("Invoice not found");
+  });
+
+  it("stamps the caller's business on new properties", async () => {
+    const manager = appRouter.createCaller(createContext("manager"));
+
+    await manager.properties.create({ name: "Loft", address: "1 Main St" });
+
+    const insert = recorded.find((query) => /^\s*insert into `properties`/i.test(query.sql));
+    expect(insert?.params).toContain(OWN_BUSINESS);
+  });
+});
+
+describe("tenant data access", () => {
+  it("overrides a businessId passed in by the caller", async () => {
+    const tenant = forBusiness(fakeDb, OWN_BUSINESS);
+
+    await tenant.jobs.insert({
+      id: "job_1",
+      businessId: "biz_2",
+      bookingId: "booking_1",
+      propertyId: "prop_1",
+      cleaningDate: new Date(),
+      price: "10",
+    });
+    await tenant.jobs.update({ businessId: "biz_2", status: "accepted" }, eq(schema.cleaningJobs.id, "job_1"));
+
+    for (const query of recorded.filter((entry) => !/^\s*select/i.test(entry.sql))) {
+      expect(query.params).not.toContain("biz_2");
+      expect(query.params).toContain(OWN_BUSINESS);
+    }
+  });
+
+  it("refuses child rows whose parent is in another business", async () => {
+    const tenant = forBusiness(fakeDb, OWN_BUSINESS);
+
+    await expect(
+      tenant.media.insert({ id: "media_1", jobId: FOREIGN_JOB, type: "photo", uri: "https://example.com/a.jpg" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(
+      tenant.chat.insert({ id: "chat_1", jobId: FOREIGN_JOB, senderId: "user_1", message: "Hi" })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(recorded.some((query) => /^\s*insert/i.test(query.sql))).toBe(false);
+  });
+
+  it("requires a business", () => {
+    expect(() => forBusiness(fakeDb, "")).toThrow("No business context");
+  });
+});
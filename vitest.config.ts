@@ -0,0 +1,20 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.join(root, "shared"),
+      "@": root,
+    },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    env: {
+      COOKIE_SECRET: "test-cookie-secret-do-not-use-in-production",
+    },
+  },
+});